@@ -13,6 +13,8 @@ var express = require('express')
 var bodyParser = require('body-parser')
 var awsServerlessExpressMiddleware = require('aws-serverless-express/middleware')
 const aws = require('aws-sdk');
+const crypto = require('crypto');
+const {GRANTS_PATH, getGrantsFor, getPermission, isVisible} = require('./sharing');
 
 // declare a new express app
 var app = express()
@@ -126,6 +128,214 @@ app.post('/', function(req, res) {
     });
 });
 
+/**********************
+ * Shared folders     *
+ **********************/
+
+// Nobody but the owner can touch someone's protected folder directly, so when someone opens a folder that's been
+// shared with them, every call goes through here instead. We look up who's calling, check what the owner's
+// "sharing/grants.json" allows them to do, and only then touch S3 (or hand back a short lived signed URL).
+//
+// Browsing a shared folder makes a lot of these calls in a row, so each Lambda container remembers who's who, and
+// each owner's grants for a few seconds. Cognito's ListUsers in particular has a low request quota.
+
+const BUCKET = process.env.STORAGE_UPLOADS_BUCKETNAME;
+const USER_POOL_ID = process.env.AUTH_BIOMECHANICSFRONTENDF7E99B66_USERPOOLID;
+const SIGNED_URL_SECONDS = 15 * 60;
+// A user's email hardly ever changes, so we can remember it for a while
+const EMAIL_CACHE_MS = 60 * 60 * 1000;
+// This is how long it can take for a revoked grant to stop working
+const GRANTS_CACHE_MS = 10 * 1000;
+
+const s3 = new aws.S3({region: process.env.REGION, signatureVersion: 'v4'});
+const cognito = new aws.CognitoIdentityServiceProvider({region: process.env.REGION});
+
+function httpError(statusCode, message) {
+  const err = new Error(message);
+  err.statusCode = statusCode;
+  return err;
+}
+
+/**
+ * This remembers the result of `load(key)` for `ttlMs`, for everyone who asks for the same key in that time. Failures
+ * aren't remembered, so the next call tries again.
+ */
+function makeCache(ttlMs, load) {
+  const entries = new Map();
+  return function(key) {
+    const now = Date.now();
+    const entry = entries.get(key);
+    if (entry != null && entry.expires > now) return entry.value;
+    const value = load(key);
+    entries.set(key, {value: value, expires: now + ttlMs});
+    value.catch(function() {
+      if (entries.get(key) != null && entries.get(key).value === value) entries.delete(key);
+    });
+    return value;
+  };
+}
+
+/**
+ * @returns The (lower case) email of the user with Cognito user pool ID `sub`, or null if there isn't one
+ */
+const lookUpEmail = makeCache(EMAIL_CACHE_MS, function(sub) {
+  return cognito.listUsers({UserPoolId: USER_POOL_ID, Filter: 'sub = "' + sub + '"', Limit: 1}).promise().then(function(data) {
+    const user = data.Users[0];
+    const email = user == null ? null : user.Attributes.find(function(attribute) { return attribute.Name === 'email'; });
+    return email == null ? null : email.Value.toLowerCase();
+  });
+});
+
+/**
+ * @returns The (lower case) email of the user making the request, or null if they didn't log in through our user pool
+ */
+function getCallerEmail(req) {
+  // This looks like "cognito-idp.<region>.amazonaws.com/<pool>,cognito-idp.<region>.amazonaws.com/<pool>:CognitoSignIn:<sub>"
+  const provider = req.apiGateway.event.requestContext.identity.cognitoAuthenticationProvider || '';
+  const match = /:CognitoSignIn:([\w-]+)$/.exec(provider);
+  if (match == null) return Promise.resolve(null);
+  return lookUpEmail(match[1]);
+}
+
+/**
+ * @returns The owner's grants.json, or an empty one if they've never shared anything
+ */
+const readGrants = makeCache(GRANTS_CACHE_MS, function(ownerPrefix) {
+  return s3.getObject({Bucket: BUCKET, Key: ownerPrefix + GRANTS_PATH}).promise().then(function(data) {
+    const grants = JSON.parse(data.Body.toString('utf-8'));
+    return {ownerEmail: grants.ownerEmail, grants: Array.isArray(grants.grants) ? grants.grants : []};
+  }, function(err) {
+    if (err.code === 'NoSuchKey') return {ownerEmail: undefined, grants: []};
+    throw err;
+  });
+});
+
+function requirePermission(grants, key, needed) {
+  const permission = getPermission(grants, key);
+  if (permission == null || (needed === 'read-write' && permission !== 'read-write')) {
+    throw httpError(403, 'You don\'t have ' + (needed === 'read' ? 'view' : 'edit') + ' access to "' + key + '"');
+  }
+}
+
+/**
+ * This lists a folder, with every page of results, and drops anything the caller isn't allowed to see.
+ */
+function listVisible(ownerPrefix, grants, folder, limitToOneFolderLevel) {
+  const files = [];
+  const folders = [];
+  function listPage(continuationToken) {
+    return s3.listObjectsV2({
+      Bucket: BUCKET,
+      Prefix: ownerPrefix + folder,
+      Delimiter: limitToOneFolderLevel ? '/' : undefined,
+      MaxKeys: 1000,
+      ContinuationToken: continuationToken
+    }).promise().then(function(output) {
+      (output.Contents || []).forEach(function(file) {
+        const key = file.Key.substring(ownerPrefix.length);
+        if (isVisible(grants, key)) files.push({key: key, lastModified: file.LastModified, size: file.Size});
+      });
+      (output.CommonPrefixes || []).forEach(function(prefix) {
+        const key = prefix.Prefix.substring(ownerPrefix.length);
+        if (isVisible(grants, key)) folders.push(key);
+      });
+      if (output.NextContinuationToken != null) return listPage(output.NextContinuationToken);
+      return {files: files, folders: folders};
+    });
+  }
+  return listPage(undefined);
+}
+
+/**
+ * @returns The ETag of a file, or null if it doesn't exist
+ */
+function getVersion(key) {
+  return s3.headObject({Bucket: BUCKET, Key: key}).promise().then(function(output) {
+    return output.ETag;
+  }, function(err) {
+    if (err.code === 'NotFound') return null;
+    throw err;
+  });
+}
+
+const sharingOperations = {
+  list: function(ownerPrefix, grants, body) {
+    if (!isVisible(grants, body.folder)) throw httpError(403, 'You don\'t have access to "' + body.folder + '"');
+    return listVisible(ownerPrefix, grants, body.folder, !!body.limitToOneFolderLevel);
+  },
+  download: function(ownerPrefix, grants, body, ownerEmail) {
+    // Everyone we've shared with can see who we are, but only their own grants
+    if (body.path === GRANTS_PATH) return {contents: JSON.stringify({ownerEmail: ownerEmail, grants: grants})};
+    requirePermission(grants, body.path, 'read');
+    return {url: s3.getSignedUrl('getObject', {Bucket: BUCKET, Key: ownerPrefix + body.path, Expires: SIGNED_URL_SECONDS})};
+  },
+  version: function(ownerPrefix, grants, body) {
+    if (body.path !== GRANTS_PATH) requirePermission(grants, body.path, 'read');
+    return getVersion(ownerPrefix + body.path).then(function(version) { return {version: version}; });
+  },
+  upload: function(ownerPrefix, grants, body) {
+    requirePermission(grants, body.path, 'read-write');
+    return {url: s3.getSignedUrl('putObject', {
+      Bucket: BUCKET,
+      Key: ownerPrefix + body.path,
+      ContentMD5: body.checksum,
+      Metadata: {md5: body.checksum},
+      Expires: SIGNED_URL_SECONDS
+    })};
+  },
+  uploadIfVersion: function(ownerPrefix, grants, body) {
+    requirePermission(grants, body.path, 'read-write');
+    const checksum = crypto.createHash('md5').update(body.contents, 'utf-8').digest('base64');
+    const request = s3.putObject({Bucket: BUCKET, Key: ownerPrefix + body.path, Body: body.contents, ContentMD5: checksum, Metadata: {md5: checksum}});
+    // Our version of the SDK predates conditional writes, so we add the headers ourselves, before the request gets signed
+    request.on('build', function() {
+      if (body.expectedVersion == null) request.httpRequest.headers['If-None-Match'] = '*';
+      else request.httpRequest.headers['If-Match'] = body.expectedVersion;
+    });
+    return request.promise().then(function(output) {
+      return {version: output.ETag};
+    }, function(err) {
+      // 412 means the condition failed, and 409 means someone else's conditional write got there at the same time
+      if (err.statusCode === 412 || err.statusCode === 409) throw httpError(412, '"' + body.path + '" changed since it was last read');
+      throw err;
+    });
+  },
+  delete: function(ownerPrefix, grants, body) {
+    requirePermission(grants, body.path, 'read-write');
+    return s3.deleteObject({Bucket: BUCKET, Key: ownerPrefix + body.path}).promise().then(function() { return {}; });
+  },
+  copy: function(ownerPrefix, grants, body) {
+    requirePermission(grants, body.fromPath, 'read-write');
+    requirePermission(grants, body.toPath, 'read-write');
+    return s3.copyObject({
+      Bucket: BUCKET,
+      CopySource: encodeURIComponent(BUCKET + '/' + ownerPrefix + body.fromPath),
+      Key: ownerPrefix + body.toPath
+    }).promise().then(function() { return {}; });
+  }
+};
+
+app.post('/sharing/:operation', function(req, res) {
+  const operation = sharingOperations[req.params.operation];
+  const ownerIdentityId = req.body.ownerIdentityId;
+  if (operation == null || typeof ownerIdentityId !== 'string' || !/^[\w-]+:[\w-]+$/.test(ownerIdentityId)) {
+    res.status(400).json({error: 'Bad request', url: req.url});
+    return;
+  }
+  const ownerPrefix = 'protected/' + ownerIdentityId + '/';
+
+  Promise.all([getCallerEmail(req), readGrants(ownerPrefix)]).then(function([email, grantsJson]) {
+    const grants = getGrantsFor(grantsJson, email);
+    if (grants.length === 0) throw httpError(403, 'This folder hasn\'t been shared with you');
+    return operation(ownerPrefix, grants, req.body, grantsJson.ownerEmail);
+  }).then(function(result) {
+    res.json(result);
+  }).catch(function(err) {
+    console.log(err);
+    res.status(err.statusCode === 403 || err.statusCode === 412 ? err.statusCode : 500).json({error: err.message, url: req.url});
+  });
+});
+
 app.listen(3000, function() {
     console.log("App started")
 });
@@ -0,0 +1,50 @@
+// These decide what someone an owner has shared folders with can see and do in the owner's protected folder. They
+// only look at the owner's grants, so they're kept apart from app.js (which talks to AWS) to be easy to test.
+
+const GRANTS_PATH = 'sharing/grants.json';
+
+/**
+ * @returns The grants in an owner's grants.json that were given to `email`
+ */
+function getGrantsFor(grantsJson, email) {
+  if (email == null) return [];
+  return grantsJson.grants.filter(function(grant) { return grant.email === email; });
+}
+
+/**
+ * @returns True if `path` is `folder`, or is somewhere inside it. The empty folder is the whole "data/" folder.
+ */
+function isInsideFolder(path, folder) {
+  return folder === '' || path === folder || path.startsWith(folder + '/');
+}
+
+/**
+ * @param grants The grants the owner has given the caller
+ * @param key A file or folder, relative to the owner's protected folder
+ * @returns The most the caller can do at `key`, which is null, 'read' or 'read-write'
+ */
+function getPermission(grants, key) {
+  if (!key.startsWith('data/')) return null;
+  const path = key.substring('data/'.length).replace(/\/$/, '');
+  let permission = null;
+  grants.forEach(function(grant) {
+    if (!isInsideFolder(path, grant.path)) return;
+    if (permission !== 'read-write') permission = grant.permission;
+  });
+  return permission;
+}
+
+/**
+ * @returns True if the caller can see that `key` exists. That's anything they can read, plus the folders on the way
+ * down to what's been shared with them (so they can be browsed), plus the (filtered) grants.json itself.
+ */
+function isVisible(grants, key) {
+  if (key === GRANTS_PATH || getPermission(grants, key) != null) return true;
+  if (!key.endsWith('/') && key !== '') return false;
+  if (GRANTS_PATH.startsWith(key)) return true;
+  return grants.some(function(grant) {
+    return ('data/' + grant.path + '/').startsWith(key);
+  });
+}
+
+module.exports = {GRANTS_PATH, getGrantsFor, isInsideFolder, getPermission, isVisible};
@@ -0,0 +1,61 @@
+const {GRANTS_PATH, getGrantsFor, getPermission, isVisible} = require('./sharing');
+
+const GRANTS_JSON = {
+  ownerEmail: 'owner@example.com',
+  grants: [
+    {email: 'reader@example.com', path: 'lab/subject1', permission: 'read', grantedAt: 0},
+    {email: 'reader@example.com', path: 'lab/subject1/trials', permission: 'read-write', grantedAt: 0},
+    {email: 'editor@example.com', path: 'lab', permission: 'read-write', grantedAt: 0}
+  ]
+};
+
+test("only hands back the caller's own grants", () => {
+  expect(getGrantsFor(GRANTS_JSON, 'reader@example.com').map((grant) => grant.path)).toEqual(['lab/subject1', 'lab/subject1/trials']);
+  expect(getGrantsFor(GRANTS_JSON, 'stranger@example.com')).toEqual([]);
+  expect(getGrantsFor(GRANTS_JSON, null)).toEqual([]);
+});
+
+test("a grant covers the folder and everything inside it, but not folders that start with the same name", () => {
+  const grants = getGrantsFor(GRANTS_JSON, 'reader@example.com');
+  expect(getPermission(grants, 'data/lab/subject1/')).toBe('read');
+  expect(getPermission(grants, 'data/lab/subject1/_subject.json')).toBe('read');
+  expect(getPermission(grants, 'data/lab/subject10/_subject.json')).toBeNull();
+  expect(getPermission(grants, 'data/lab/')).toBeNull();
+});
+
+test("the most permissive grant that covers a path wins", () => {
+  const grants = getGrantsFor(GRANTS_JSON, 'reader@example.com');
+  expect(getPermission(grants, 'data/lab/subject1/trials/walk/markers.c3d')).toBe('read-write');
+  expect(getPermission(grants, 'data/lab/subject1/unscaled_generic.osim')).toBe('read');
+});
+
+test("nothing outside data/ is ever readable or writable", () => {
+  const grants = [{email: 'everything@example.com', path: '', permission: 'read-write', grantedAt: 0}];
+  expect(getPermission(grants, 'data/anything.txt')).toBe('read-write');
+  expect(getPermission(grants, 'sharing/shared_with_me.json')).toBeNull();
+  expect(getPermission(grants, GRANTS_PATH)).toBeNull();
+});
+
+test("shows the folders on the way down to a grant, but not what else is in them", () => {
+  const grants = getGrantsFor(GRANTS_JSON, 'reader@example.com');
+  expect(isVisible(grants, '')).toBeTruthy();
+  expect(isVisible(grants, 'data/')).toBeTruthy();
+  expect(isVisible(grants, 'data/lab/')).toBeTruthy();
+  expect(isVisible(grants, 'data/lab/subject1/_subject.json')).toBeTruthy();
+  expect(isVisible(grants, 'data/lab/notes.txt')).toBeFalsy();
+  expect(isVisible(grants, 'data/lab/subject2/')).toBeFalsy();
+  expect(isVisible(grants, 'data/other/')).toBeFalsy();
+});
+
+test("shows grants.json, and the folder it's in, but nothing else next to it", () => {
+  const grants = getGrantsFor(GRANTS_JSON, 'reader@example.com');
+  expect(isVisible(grants, GRANTS_PATH)).toBeTruthy();
+  expect(isVisible(grants, 'sharing/')).toBeTruthy();
+  expect(isVisible(grants, 'sharing/shared_with_me.json')).toBeFalsy();
+});
+
+test("someone with no grants can't see anything but grants.json", () => {
+  expect(isVisible([], 'data/')).toBeFalsy();
+  expect(isVisible([], 'data/lab/subject1/_subject.json')).toBeFalsy();
+  expect(isVisible([], GRANTS_PATH)).toBeTruthy();
+});
@@ -0,0 +1,138 @@
+import React from "react";
+
+type BarChartSeries = {
+  name: string;
+  // Any CSS color
+  color: string;
+  // One value per label, or null to leave a gap
+  values: (number | null)[];
+};
+
+type BarChartProps = {
+  labels: string[];
+  series: BarChartSeries[];
+  formatValue: (value: number) => string;
+  // Labels to draw attention to, like outliers. These get a red band behind their bars.
+  highlighted?: boolean[];
+  // A dashed horizontal line, like the median
+  referenceLine?: { value: number, label: string };
+  onClickLabel?: (index: number) => void;
+  height?: number;
+};
+
+const MARGIN_LEFT = 60;
+const MARGIN_RIGHT = 10;
+const MARGIN_TOP = 10;
+const MARGIN_BOTTOM = 70;
+const GROUP_WIDTH = 40;
+const NUM_TICKS = 4;
+
+/**
+ * This draws a grouped bar chart as an SVG, with one group of bars per label and one bar per series in each group. It
+ * scales to the width of its container.
+ */
+const BarChart = (props: BarChartProps) => {
+  const height = props.height ?? 240;
+  const plotHeight = height - MARGIN_TOP - MARGIN_BOTTOM;
+  const plotWidth = Math.max(500, props.labels.length * GROUP_WIDTH);
+  const width = MARGIN_LEFT + plotWidth + MARGIN_RIGHT;
+  const groupWidth = plotWidth / Math.max(1, props.labels.length);
+  const barWidth = (groupWidth * 0.8) / Math.max(1, props.series.length);
+
+  let maxValue = props.referenceLine?.value ?? 0;
+  props.series.forEach((series) => series.values.forEach((value) => {
+    if (value != null && value > maxValue) maxValue = value;
+  }));
+  if (maxValue <= 0) maxValue = 1;
+  const y = (value: number) => MARGIN_TOP + plotHeight * (1 - value / maxValue);
+
+  let ticks = [];
+  for (let i = 0; i <= NUM_TICKS; i++) {
+    const value = (maxValue * i) / NUM_TICKS;
+    ticks.push(
+      <g key={"tick-" + i}>
+        <line x1={MARGIN_LEFT} x2={MARGIN_LEFT + plotWidth} y1={y(value)} y2={y(value)} stroke="#eef2f7" />
+        <text x={MARGIN_LEFT - 5} y={y(value)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6c757d">
+          {props.formatValue(value)}
+        </text>
+      </g>
+    );
+  }
+
+  let groups = props.labels.map((label, i) => {
+    const groupX = MARGIN_LEFT + i * groupWidth;
+    const labelX = groupX + groupWidth / 2;
+    const clickable = props.onClickLabel != null;
+    const onClick = clickable ? () => props.onClickLabel?.(i) : undefined;
+    return (
+      <g key={"group-" + i} onClick={onClick} style={{ cursor: clickable ? "pointer" : undefined }}>
+        {props.highlighted?.[i] ? (
+          <rect x={groupX} y={MARGIN_TOP} width={groupWidth} height={plotHeight} fill="rgba(250, 92, 124, 0.15)" />
+        ) : null}
+        {props.series.map((series, j) => {
+          const value = series.values[i];
+          if (value == null) return null;
+          return (
+            <rect
+              key={series.name}
+              x={groupX + groupWidth * 0.1 + j * barWidth}
+              y={y(value)}
+              width={barWidth}
+              height={MARGIN_TOP + plotHeight - y(value)}
+              fill={series.color}
+            >
+              <title>{label + " - " + series.name + ": " + props.formatValue(value)}</title>
+            </rect>
+          );
+        })}
+        <text
+          x={labelX}
+          y={MARGIN_TOP + plotHeight + 8}
+          textAnchor="end"
+          fontSize="11"
+          fill={props.highlighted?.[i] ? "#fa5c7c" : "#6c757d"}
+          transform={"rotate(-45 " + labelX + " " + (MARGIN_TOP + plotHeight + 8) + ")"}
+        >
+          {label.length > 12 ? label.substring(0, 11) + "…" : label}
+        </text>
+      </g>
+    );
+  });
+
+  let referenceLine = null;
+  if (props.referenceLine != null) {
+    const lineY = y(props.referenceLine.value);
+    referenceLine = (
+      <g>
+        <line x1={MARGIN_LEFT} x2={MARGIN_LEFT + plotWidth} y1={lineY} y2={lineY} stroke="#6c757d" strokeDasharray="4 3" />
+        <text x={MARGIN_LEFT + plotWidth - 2} y={lineY - 4} textAnchor="end" fontSize="11" fill="#6c757d">
+          {props.referenceLine.label}
+        </text>
+      </g>
+    );
+  }
+
+  return (
+    <div>
+      <svg viewBox={"0 0 " + width + " " + height} width="100%" role="img">
+        {ticks}
+        {groups}
+        {referenceLine}
+        <line x1={MARGIN_LEFT} x2={MARGIN_LEFT + plotWidth} y1={MARGIN_TOP + plotHeight} y2={MARGIN_TOP + plotHeight} stroke="#adb5bd" />
+      </svg>
+      {props.series.length > 1 ? (
+        <div className="text-muted small">
+          {props.series.map((series) => (
+            <span key={series.name} className="me-3">
+              <span style={{ display: "inline-block", width: "10px", height: "10px", backgroundColor: series.color, marginRight: "4px" }}></span>
+              {series.name}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export type { BarChartSeries };
+export default BarChart;
@@ -26,11 +26,13 @@ const DropFile = observer((props: DropFileProps) => {
     if (props.uploadOnMount) {
       setUploadProgress(0.0);
       setIsUploading(true);
-      props.cursor.rawCursor.uploadChild(props.path, props.uploadOnMount, setUploadProgress).then(action(() => {
+      props.cursor.uploadQueue.enqueue(props.cursor.rawCursor, props.path, props.uploadOnMount, setUploadProgress).then(action(() => {
+        setIsUploading(false);
+      })).catch(action(() => {
         setIsUploading(false);
       }));
     }
-  }, [props.cursor.rawCursor, props.path, props.uploadOnMount]);
+  }, [props.cursor.uploadQueue, props.cursor.rawCursor, props.path, props.uploadOnMount]);
 
   let body = <></>;
 
@@ -80,10 +82,12 @@ const DropFile = observer((props: DropFileProps) => {
             else {
               setUploadProgress(0.0);
               setIsUploading(true);
-              props.cursor.rawCursor.uploadChild(props.path, acceptedFiles[0], setUploadProgress).then(action(() => {
+              props.cursor.uploadQueue.enqueue(props.cursor.rawCursor, props.path, acceptedFiles[0], setUploadProgress).then(action(() => {
                 setIsUploading(false);
               })).catch(action(() => {
                 setIsUploading(false);
+                // Big uploads that fail partway through can be resumed, so make sure they show up in the list
+                props.cursor.refreshResumableUploads();
               }));
             }
           });
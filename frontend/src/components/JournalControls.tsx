@@ -0,0 +1,46 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Button, ButtonGroup } from "react-bootstrap";
+import OperationJournal from "../state/OperationJournal";
+
+type JournalControlsProps = {
+  journal: OperationJournal;
+};
+
+/**
+ * These are the undo and redo buttons for everything the user has uploaded, deleted or edited. They hide themselves
+ * until there's something to undo or redo.
+ */
+const JournalControls = observer((props: JournalControlsProps) => {
+  const undoDescription = props.journal.getUndoDescription();
+  const redoDescription = props.journal.getRedoDescription();
+  if (undoDescription == null && redoDescription == null && props.journal.error == null) {
+    return null;
+  }
+
+  return (
+    <div className="JournalControls d-flex justify-content-end align-items-center mb-2">
+      {props.journal.error != null ? <span className="text-danger me-2">{props.journal.error}</span> : null}
+      <ButtonGroup size="sm">
+        <Button
+          variant="light"
+          disabled={!props.journal.canUndo}
+          title={undoDescription != null ? "Undo: " + undoDescription : "Nothing to undo"}
+          onClick={() => props.journal.undo().catch(() => { })}
+        >
+          <i className="mdi mdi-undo me-1"></i> Undo
+        </Button>
+        <Button
+          variant="light"
+          disabled={!props.journal.canRedo}
+          title={redoDescription != null ? "Redo: " + redoDescription : "Nothing to redo"}
+          onClick={() => props.journal.redo().catch(() => { })}
+        >
+          <i className="mdi mdi-redo me-1"></i> Redo
+        </Button>
+      </ButtonGroup>
+    </div>
+  );
+});
+
+export default JournalControls;
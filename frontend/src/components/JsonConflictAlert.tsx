@@ -0,0 +1,40 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Alert, Button } from "react-bootstrap";
+import { ReactiveJsonFile } from "../state/ReactiveS3";
+
+type JsonConflictAlertProps = {
+  file: ReactiveJsonFile;
+  // OPTIONAL: Human readable names for keys, e.g. { massKg: "Mass (kg)" }
+  labels?: { [key: string]: string };
+};
+
+/**
+ * This shows any edits to a JSON file that collided with someone else's edits to the same keys, and lets the user
+ * choose which value to keep.
+ */
+const JsonConflictAlert = observer((props: JsonConflictAlertProps) => {
+  if (props.file.conflicts.length === 0) {
+    return null;
+  }
+
+  const describe = (value: any) => value === undefined ? "(deleted)" : JSON.stringify(value);
+
+  return (
+    <Alert variant="warning">
+      <h5>Someone else edited this at the same time</h5>
+      <p>We kept their changes for the fields below. Choose which value you want for each one.</p>
+      {props.file.conflicts.map((conflict) => {
+        return (
+          <div key={conflict.key} className="mb-1">
+            <b>{props.labels?.[conflict.key] ?? conflict.key}</b>: theirs is {describe(conflict.theirs)}, yours was {describe(conflict.mine)}
+            <Button size="sm" variant="outline-secondary" className="ms-2" onClick={() => props.file.resolveConflict(conflict.key, false)}>Keep theirs</Button>
+            <Button size="sm" variant="outline-primary" className="ms-2" onClick={() => props.file.resolveConflict(conflict.key, true)}>Use mine</Button>
+          </div>
+        );
+      })}
+    </Alert>
+  );
+});
+
+export default JsonConflictAlert;
@@ -0,0 +1,28 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Alert } from "react-bootstrap";
+import { ReactiveJsonFile } from "../state/ReactiveS3";
+
+type JsonLoadErrorAlertProps = {
+  file: ReactiveJsonFile;
+};
+
+/**
+ * This shows a warning if the copy of a JSON file on the server is malformed, since otherwise we'd just look empty,
+ * or if our last attempt to save it failed.
+ */
+const JsonLoadErrorAlert = observer((props: JsonLoadErrorAlertProps) => {
+  if (props.file.loadError == null && props.file.uploadError == null) {
+    return null;
+  }
+
+  return (
+    <Alert variant="danger">
+      {props.file.loadError}
+      {props.file.loadError != null && props.file.uploadError != null ? <br /> : null}
+      {props.file.uploadError}
+    </Alert>
+  );
+});
+
+export default JsonLoadErrorAlert;
@@ -14,16 +14,18 @@ import HorizontalLayout from "./layouts/Horizontal";
 import FileRouter from "./pages/files/FileRouter";
 import FileControlsWrapper from "./pages/files/FileControlsWrapper";
 import Welcome from "./pages/Welcome";
-import ComingSoon from "./pages/ComingSoon";
 import ErrorDisplay from "./layouts/ErrorDisplay";
 
 import { ReactiveIndex } from "./state/ReactiveS3";
+import SharedS3StorageProvider from "./state/SharedS3StorageProvider";
 import MocapS3Cursor from "./state/MocapS3Cursor";
+import PublicDatasetSearch from "./state/PublicDatasetSearch";
+import PublicSearchView from "./pages/search/PublicSearchView";
 import Amplify, { API, Auth } from "aws-amplify";
 import awsExports from "./aws-exports";
 import { BrowserRouter, Route, Routes } from "react-router-dom";
 import RequireAuth from "./pages/auth/RequireAuth";
-import RobustMqtt from "./state/RobustMqtt";
+import RobustMqtt, { awsIoTConnector, plainMqttConnector } from "./state/RobustMqtt";
 
 // Verify TS is configured correctly
 if (
@@ -38,7 +40,13 @@ Amplify.configure(awsExports);
 const isProd = awsExports.aws_user_files_s3_bucket.indexOf("prod") !== -1;
 console.log("Is prod: " + isProd);
 
-const socket: RobustMqtt = new RobustMqtt("us-west-2", "wss://adup0ijwoz88i-ats.iot.us-west-2.amazonaws.com/mqtt", isProd ? "PROD" : "DEV", {
+// Labs that self-host can point us at their own MQTT broker (e.g. "ws://localhost:9001") by setting
+// REACT_APP_MQTT_URL at build time. Otherwise we use our AWS IoT endpoint.
+const mqttConnector = process.env.REACT_APP_MQTT_URL
+  ? plainMqttConnector(process.env.REACT_APP_MQTT_URL)
+  : awsIoTConnector("us-west-2", "wss://adup0ijwoz88i-ats.iot.us-west-2.amazonaws.com/mqtt");
+
+const socket: RobustMqtt = new RobustMqtt(mqttConnector, isProd ? "PROD" : "DEV", {
   clean: true,
   keepalive: 10,
   reconnectPeriod: -1,
@@ -47,14 +55,43 @@ const socket: RobustMqtt = new RobustMqtt("us-west-2", "wss://adup0ijwoz88i-ats.
 const publicIndex = new ReactiveIndex(awsExports.aws_user_files_s3_bucket_region, awsExports.aws_user_files_s3_bucket, "public", false, socket);
 const myData = new ReactiveIndex(awsExports.aws_user_files_s3_bucket_region, awsExports.aws_user_files_s3_bucket, "protected", false, socket);
 
+// Accounts with thousands of trials can set REACT_APP_LAZY_INDEX to only list the folders they're looking at, instead of
+// everything up front. Subjects get loaded in full, since the subject view needs all of their trials. This also turns
+// off the local cache, so loadFromLocalCache() below does nothing.
+if (process.env.REACT_APP_LAZY_INDEX === "true") {
+  publicIndex.setLazyListing(true, ["_subject.json"]);
+  myData.setLazyListing(true, ["_subject.json"]);
+}
+
 publicIndex.setIsLoading(true);
 myData.setIsLoading(true);
+// Show whatever public data we had last time right away, while we check S3 for changes
+publicIndex.loadFromLocalCache();
+
+// Folders other people have shared with us get opened through an index onto their protected folder, which goes through
+// PostAuthAPI so the owner's grants get checked. These are always lazy, so we only ever list the folders we're looking at.
+function makeSharedIndex(ownerIdentityId: string) {
+  const storage = new SharedS3StorageProvider(ownerIdentityId);
+  const index = new ReactiveIndex(awsExports.aws_user_files_s3_bucket_region, awsExports.aws_user_files_s3_bucket, "protected", false, socket, storage);
+  index.setLazyListing(true, ["_subject.json"]);
+  index.fullRefresh().then(() => index.setupPubsub());
+  return index;
+}
+
+const cursor = new MocapS3Cursor(publicIndex, myData, socket, makeSharedIndex);
 
-const cursor = new MocapS3Cursor(publicIndex, myData, socket);
+const publicSearch = new PublicDatasetSearch(publicIndex);
+
+// Deleted files stay in the trash for this many days before they're purged for good
+if (process.env.REACT_APP_TRASH_RETENTION_DAYS != null) {
+  cursor.trash.setRetentionDays(parseFloat(process.env.REACT_APP_TRASH_RETENTION_DAYS));
+}
 
 function afterLogin(email: string) {
   console.log("Logged in as " + email);
   cursor.setUserEmail(email);
+  // Our own data doesn't have to wait for the public data to refresh, if we've got a copy from last time
+  myData.loadFromLocalCache();
   console.log("Refreshing public data...");
   publicIndex.fullRefresh().then(() => {
     console.log("Refreshing my data...");
@@ -73,6 +110,7 @@ function afterLogin(email: string) {
           myData.upload("account.json", JSON.stringify({ email }));
           // This is just here to be convenient for a human searching through the S3 buckets manually
           myData.upload(email.replace("@", ".AT."), JSON.stringify({ email }));
+          cursor.trash.purgeExpired();
           cursor.subscribeToCloudProcessingQueueUpdates();
         })
         .catch((error) => {
@@ -102,18 +140,18 @@ Auth.currentAuthenticatedUser()
 
 const PUBLIC_DATA_URL_PREFIX = "public_data";
 const MY_DATA_URL_PREFIX = "my_data";
+const SHARED_WITH_ME_URL_PREFIX = "shared_with_me";
+const SEARCH_URL = "search";
 
 ReactDOM.render(
   <BrowserRouter>
     <Routes>
       <Route element={<ErrorDisplay cursor={cursor} />}>
         <Route index element={<Welcome />} />
-        <Route element={<HorizontalLayout />}>
+        <Route element={<HorizontalLayout uploadQueue={cursor.uploadQueue} />}>
           <Route
             path={"/" + PUBLIC_DATA_URL_PREFIX + "/*"}
             element={
-              <ComingSoon />
-              /*
               <Row>
                 <Col md="12">
                   <Card className="mt-4">
@@ -127,7 +165,12 @@ ReactDOM.render(
                   </Card>
                 </Col>
               </Row>
-              */
+            }
+          ></Route>
+          <Route
+            path={"/" + SEARCH_URL}
+            element={
+              <PublicSearchView search={publicSearch} linkPrefix={PUBLIC_DATA_URL_PREFIX} />
             }
           ></Route>
           <Route path={"/" + MY_DATA_URL_PREFIX + "/*"} element={<RequireAuth />}>
@@ -151,6 +194,28 @@ ReactDOM.render(
               ></Route>
             </Route>
           </Route>
+          <Route path={"/" + SHARED_WITH_ME_URL_PREFIX + "/*"} element={<RequireAuth />}>
+            <Route
+              element={
+                <FileControlsWrapper
+                  linkPrefix={SHARED_WITH_ME_URL_PREFIX}
+                  cursor={cursor}
+                />
+              }
+            >
+              <Route
+                path="*"
+                element={
+                  <FileRouter
+                    cursor={cursor}
+                    isRootFolderPublic={false}
+                    isRootFolderShared={true}
+                    linkPrefix={SHARED_WITH_ME_URL_PREFIX}
+                  />
+                }
+              ></Route>
+            </Route>
+          </Route>
         </Route>
         <Route
           path="/login"
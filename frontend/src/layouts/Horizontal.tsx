@@ -4,6 +4,8 @@ import { Outlet } from "react-router";
 import Topbar from "./Topbar";
 import Navbar from "./Navbar";
 import Footer from "./Footer";
+import UploadQueuePanel from "./UploadQueuePanel";
+import UploadQueue from "../state/UploadQueue";
 
 // TODO:
 // code splitting and lazy loading
@@ -18,9 +20,10 @@ const loading = () => <div className="text-center"></div>;
 
 type HorizontalLayoutProps = {
   children?: any;
+  uploadQueue?: UploadQueue;
 };
 
-const HorizontalLayout = ({ children }: HorizontalLayoutProps) => {
+const HorizontalLayout = ({ children, uploadQueue }: HorizontalLayoutProps) => {
   const [isMenuOpened, setIsMenuOpened] = useState(false);
 
   /**
@@ -60,6 +63,7 @@ const HorizontalLayout = ({ children }: HorizontalLayoutProps) => {
           </Suspense>
         </div>
       </div>
+      {uploadQueue ? <UploadQueuePanel queue={uploadQueue} /> : null}
     </>
   );
 };
@@ -37,6 +37,17 @@ const Navbar = (props: NavbarProps) => {
                       <span>Browse Public Data</span>
                     </NavLink>
                   </li>
+                  <li className="nav-item">
+                    <NavLink
+                      to={"/search"}
+                      className={({ isActive }) =>
+                        "nav-item nav-link" + (isActive ? " active" : "")
+                      }
+                    >
+                      <i className="mdi mdi-magnify me-1 vertical-middle"></i>
+                      <span>Search Public Data</span>
+                    </NavLink>
+                  </li>
                   <li className="nav-item">
                     <NavLink
                       to={"/my_data"}
@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Button, ProgressBar } from "react-bootstrap";
+import UploadQueue, { UploadQueueEntry } from '../state/UploadQueue';
+import { humanFileSize } from '../utils';
+
+type UploadQueueEntryViewProps = {
+  queue: UploadQueue;
+  entry: UploadQueueEntry;
+};
+
+const UploadQueueEntryView = observer(({ queue, entry }: UploadQueueEntryViewProps) => {
+  let variant: string | undefined = undefined;
+  let statusText: string = entry.status;
+  if (entry.status === 'done') variant = 'success';
+  else if (entry.status === 'error') variant = 'danger';
+  else if (entry.status === 'paused' || entry.status === 'cancelled') variant = 'secondary';
+  if (entry.status === 'error' && entry.error != null) statusText = 'error: ' + entry.error;
+
+  let buttons: JSX.Element[] = [];
+  if (entry.status === 'uploading' || entry.status === 'queued') {
+    buttons.push(<Button key="pause" size="sm" variant="link" onClick={() => queue.pause(entry)}>Pause</Button>);
+  }
+  if (entry.status === 'paused') {
+    buttons.push(<Button key="resume" size="sm" variant="link" onClick={() => queue.resume(entry)}>Resume</Button>);
+  }
+  if (entry.status === 'error') {
+    buttons.push(<Button key="retry" size="sm" variant="link" onClick={() => queue.retry(entry)}>Retry</Button>);
+  }
+  if (!entry.isFinished()) {
+    buttons.push(<Button key="cancel" size="sm" variant="link" className="text-danger" onClick={() => queue.cancel(entry)}>Cancel</Button>);
+  }
+
+  return (
+    <div className="upload-queue-entry">
+      <div className="upload-queue-entry-name" title={entry.path}>
+        {entry.path}
+      </div>
+      <ProgressBar
+        min={0}
+        max={1}
+        now={entry.progress}
+        variant={variant}
+        striped={entry.status === 'uploading'}
+        animated={entry.status === 'uploading'}
+      />
+      <div className="text-muted">
+        {humanFileSize(entry.file.size)} - {statusText}
+        {buttons}
+      </div>
+    </div>
+  );
+});
+
+type UploadQueuePanelProps = {
+  queue: UploadQueue;
+};
+
+/**
+ * This shows every file in the upload queue, in a panel that sticks to the corner of the screen so uploads stay
+ * visible while the user navigates around.
+ */
+const UploadQueuePanel = observer(({ queue }: UploadQueuePanelProps) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (queue.entries.length === 0) {
+    return null;
+  }
+
+  const numRemaining = queue.entries.filter((entry) => !entry.isFinished()).length;
+  const anyPaused = queue.entries.some((entry) => entry.status === 'paused');
+
+  let list = null;
+  if (!collapsed) {
+    list = (
+      <div className="upload-queue-list">
+        {queue.entries.map((entry) => <UploadQueueEntryView key={entry.id} queue={queue} entry={entry} />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="upload-queue">
+      <div className="upload-queue-header">
+        <b>
+          {numRemaining > 0 ? "Uploading " + numRemaining + " file" + (numRemaining === 1 ? "" : "s") : "Uploads finished"}
+          {" "}({Math.round(queue.totalProgress * 100)}%)
+        </b>
+        <span>
+          {anyPaused ?
+            <Button size="sm" variant="link" onClick={queue.resumeAll}>Resume all</Button> :
+            (numRemaining > 0 ? <Button size="sm" variant="link" onClick={queue.pauseAll}>Pause all</Button> : null)}
+          <Button size="sm" variant="link" onClick={queue.clearFinished}>Clear finished</Button>
+          <Button size="sm" variant="link" onClick={() => setCollapsed(!collapsed)}>{collapsed ? "Show" : "Hide"}</Button>
+        </span>
+      </div>
+      {list}
+    </div>
+  );
+});
+
+export default UploadQueuePanel;
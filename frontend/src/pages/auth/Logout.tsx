@@ -3,6 +3,8 @@ import { Link } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { Row, Col } from "react-bootstrap";
 import { Auth } from "aws-amplify";
+import { clearCachedIndexes } from "../../state/IndexCache";
+import { clearResumableUploads } from "../../state/UploadResumeStore";
 
 // components
 import AccountLayout from "./AccountLayout";
@@ -33,7 +35,15 @@ const Logout = () => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    Auth.signOut().then(() => {
+    // Don't leave a list of our files, or our unfinished uploads, behind for whoever uses this browser next. If that
+    // fails, we're still logged out, so we don't hold the user up over it.
+    const clearCache = clearCachedIndexes().catch((e) => {
+      console.warn("Unable to clear the cached file lists on logout", e);
+    });
+    const clearUploads = clearResumableUploads().catch((e) => {
+      console.warn("Unable to clear the unfinished uploads on logout", e);
+    });
+    Promise.all([Auth.signOut(), clearCache, clearUploads]).then(() => {
       setLoading(false);
     });
   }, []);
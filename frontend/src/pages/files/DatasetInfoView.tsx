@@ -0,0 +1,40 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+
+type DatasetInfoViewProps = {
+  cursor: MocapS3Cursor;
+};
+
+/// This shows the description, license and citation from "_dataset.json", for folders that have one
+const DatasetInfoView = observer((props: DatasetInfoViewProps) => {
+  const dataset = props.cursor.datasetJson;
+  if (!dataset.fileExist() || dataset.isLoadingFirstTime()) return null;
+
+  const contributors = dataset.getAttribute("contributors", []).filter((contributor) => contributor.trim().length > 0);
+  const publishedAt = dataset.getAttribute("publishedAt", 0);
+
+  return (
+    <div className="mb-3">
+      <p className="mb-2">{dataset.getAttribute("description", "")}</p>
+      <dl className="row mb-0">
+        <dt className="col-sm-2">License</dt>
+        <dd className="col-sm-10">{dataset.getAttribute("license", "")}</dd>
+        <dt className="col-sm-2">Contributors</dt>
+        <dd className="col-sm-10">{contributors.join(", ")}</dd>
+        {publishedAt > 0 ? (
+          <>
+            <dt className="col-sm-2">Published</dt>
+            <dd className="col-sm-10">{new Date(publishedAt).toDateString()}</dd>
+          </>
+        ) : null}
+        <dt className="col-sm-2">Citation</dt>
+        <dd className="col-sm-10">
+          <textarea className="FileControlsWrapper-folder-description-textarea" readOnly rows={3} value={dataset.getAttribute("citation", "")}></textarea>
+        </dd>
+      </dl>
+    </div>
+  );
+});
+
+export default DatasetInfoView;
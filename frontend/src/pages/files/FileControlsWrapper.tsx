@@ -9,7 +9,14 @@ import {
 } from "react-bootstrap";
 import NewFolderModal from "./file-control-modals/NewFolderModal";
 import DeleteFolderModal from "./file-control-modals/DeleteFolderModal";
+import MoveFolderModal from "./file-control-modals/MoveFolderModal";
+import DuplicateSubjectModal from "./file-control-modals/DuplicateSubjectModal";
+import ShareFolderModal from "./file-control-modals/ShareFolderModal";
+import PublishFolderModal from "./file-control-modals/PublishFolderModal";
+import BatchProcessModal from "./file-control-modals/BatchProcessModal";
 import MocapS3Cursor from "../../state/MocapS3Cursor";
+import JournalControls from "../../components/JournalControls";
+import TrashView from "./TrashView";
 import './FileControlsWrapper.scss';
 
 import { observer } from "mobx-react-lite";
@@ -29,6 +36,10 @@ const FileManager = observer((props: FileManagerProps) => {
   }
 
   const type = props.cursor.getFileType();
+  const showTrash = location.search === "?trash";
+  // You can publish any folder in your own data, but not the whole thing at once
+  const canPublish = !showTrash && props.cursor.canEdit() && !props.cursor.dataIsShared() && props.cursor.getCurrentFilePath() !== "";
+  const publishedPath = props.cursor.datasetJson.getAttribute("publishedPath", "");
 
   let body = <Outlet />;
   if (type === "folder") {
@@ -37,7 +48,7 @@ const FileManager = observer((props: FileManagerProps) => {
         <div className="page-aside-left">
           {/* "Create" dropdown */}
           <ButtonGroup className="d-block mb-2">
-            <Dropdown>
+            <Dropdown hidden={!props.cursor.canEdit()}>
               <Dropdown.Toggle className="btn btn-primary dropdown-toggle w-100">
                 <i className="mdi mdi-plus"></i> Create New{" "}
               </Dropdown.Toggle>
@@ -55,16 +66,46 @@ const FileManager = observer((props: FileManagerProps) => {
               </Dropdown.Menu>
             </Dropdown>
           </ButtonGroup>
+          {/* Batch actions on every subject in the folder */}
+          <ButtonGroup className="d-block mb-2">
+            <Dropdown hidden={!props.cursor.canEdit() || showTrash}>
+              <Dropdown.Toggle className="btn btn-light dropdown-toggle w-100">
+                <i className="mdi mdi-playlist-play"></i> Process Folder{" "}
+              </Dropdown.Toggle>
+              <Dropdown.Menu>
+                <Dropdown.Item
+                  onClick={() => navigate({ search: "?batch=process" })}
+                >
+                  <i className="mdi mdi-play me-1"></i> Process all
+                </Dropdown.Item>
+                <Dropdown.Item
+                  onClick={() => navigate({ search: "?batch=reprocess" })}
+                >
+                  <i className="mdi mdi-refresh me-1"></i> Reprocess all
+                </Dropdown.Item>
+              </Dropdown.Menu>
+            </Dropdown>
+          </ButtonGroup>
           {/* Left side nav links */}
           <div className="email-menu-list mt-3">
-            <Link to="#">
+            <Link to="/my_data" className={props.linkPrefix === "my_data" && !showTrash ? "fw-bold" : ""}>
               <i className="mdi mdi-folder-outline font-18 align-middle me-2"></i>
               My Data
             </Link>
-            <Link to="#">
+            <Link to="/shared_with_me" className={props.cursor.dataIsShared() ? "fw-bold" : ""}>
+              <i className="mdi mdi-folder-account-outline font-18 align-middle me-2"></i>
+              Shared with me
+            </Link>
+            <Link to="/public_data">
               <i className="mdi mdi-earth font-18 align-middle me-2"></i>
               Public Data
             </Link>
+            {props.cursor.canEdit() && !props.cursor.dataIsShared() ? (
+              <Link to={{ search: "?trash" }} className={showTrash ? "fw-bold" : ""}>
+                <i className="mdi mdi-delete-outline font-18 align-middle me-2"></i>
+                Trash
+              </Link>
+            ) : null}
           </div>
           {/*
                   <div className="mt-5">
@@ -110,20 +151,24 @@ const FileManager = observer((props: FileManagerProps) => {
           {/*
                 <QuickAccess quickAccessFiles={quickAccessFiles} />
                 */}
-          {/*
-          <div className="d-flex justify-content-between align-items-center">
-            <div className="FileControlsWrapper-folder-description">
-              Public link: <a href="https://addbiomechanics.org/atnthoeunth/OpenCapDataset">https://addbiomechanics.org/atnthoeunth/OpenCapDataset</a>
+          {canPublish ? (
+            <div className="d-flex justify-content-between align-items-center">
+              <div className="FileControlsWrapper-folder-description">
+                {publishedPath !== "" ? (
+                  <>
+                    Public link: <Link to={"/public_data/" + encodeURI(publishedPath)}>{window.location.origin + "/public_data/" + encodeURI(publishedPath)}</Link>
+                  </>
+                ) : null}
+              </div>
+              <div>
+                <button type="submit" className="btn btn-primary" onClick={() => navigate({ search: "?publish" })}>
+                  <i className="mdi mdi-earth-plus"></i> Publish Folder
+                </button>
+              </div>
             </div>
-            <div>
-              <button type="submit" className="btn btn-primary">
-                <i className="mdi mdi-earth-plus"></i> Publish Folder
-              </button>
-            </div>
-          </div>
-          */}
+          ) : null}
 
-          <Outlet />
+          {showTrash ? <TrashView cursor={props.cursor} /> : <Outlet />}
         </div>
       </>
     );
@@ -137,6 +182,12 @@ const FileManager = observer((props: FileManagerProps) => {
             <Card.Body>
               <NewFolderModal {...props} />
               <DeleteFolderModal {...props} />
+              <MoveFolderModal {...props} />
+              <DuplicateSubjectModal {...props} />
+              <ShareFolderModal {...props} />
+              <PublishFolderModal {...props} />
+              <BatchProcessModal {...props} />
+              {props.cursor.canEdit() ? <JournalControls journal={props.cursor.rawCursor.journal} /> : null}
               {body}
             </Card.Body>
           </Card>
@@ -1,6 +1,7 @@
 import React, { useEffect } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import FolderView from "./FolderView";
+import SharedWithMeView from "./SharedWithMeView";
 import MocapSubjectView from "../mocap/MocapSubjectView";
 import { Breadcrumb, BreadcrumbItem, Spinner } from "react-bootstrap";
 import MocapS3Cursor from "../../state/MocapS3Cursor";
@@ -8,6 +9,8 @@ import { observer } from "mobx-react-lite";
 
 type FileRouterProps = {
   isRootFolderPublic: boolean;
+  // If true, paths under the root start with the owner's identity ID, like "/shared_with_me/<owner>/Lab/Subject1"
+  isRootFolderShared?: boolean;
   linkPrefix: string;
   cursor: MocapS3Cursor;
 };
@@ -25,6 +28,16 @@ const FileRouter = observer((props: FileRouterProps) => {
     path.splice(0, 1);
   }
 
+  // Opening a link to something that's been shared with us adds it to "Shared with me"
+  const ownerIdentityId = props.isRootFolderShared && path.length > 0 ? path[0] : null;
+  const sharedPath = path.slice(1).join('/');
+  const sharedRoot = ownerIdentityId != null ? props.cursor.sharing.getSharedRoot(ownerIdentityId, sharedPath, props.cursor.userEmail) : null;
+  useEffect(() => {
+    if (ownerIdentityId != null && sharedRoot != null) {
+      props.cursor.sharing.rememberSharedFolder(ownerIdentityId, sharedRoot);
+    }
+  }, [props.cursor, ownerIdentityId, sharedRoot]);
+
 
   //////////////////////////////////////////////////////////////
   // Set up the breadcrumbs
@@ -41,7 +54,7 @@ const FileRouter = observer((props: FileRouterProps) => {
       active={path.length === 0}
       key="header"
     >
-      {props.isRootFolderPublic ? "Public" : "My Data"}
+      {props.isRootFolderShared ? "Shared with me" : (props.isRootFolderPublic ? "Public" : "My Data")}
     </BreadcrumbItem>
   );
   let linkPath = "/" + props.linkPrefix;
@@ -59,7 +72,7 @@ const FileRouter = observer((props: FileRouterProps) => {
         active={i === path.length - 1}
         key={"path" + i}
       >
-        {path[i]}
+        {ownerIdentityId != null && i === 0 ? props.cursor.sharing.getOwnerLabel(ownerIdentityId) : path[i]}
       </BreadcrumbItem>
     );
   }
@@ -70,7 +83,24 @@ const FileRouter = observer((props: FileRouterProps) => {
 
   const type = props.cursor.getFileType();
   let body = null;
-  if (type === 'folder') {
+  if (props.isRootFolderShared && ownerIdentityId == null) {
+    body = <SharedWithMeView cursor={props.cursor} />;
+  }
+  else if (ownerIdentityId != null && sharedRoot == null) {
+    if (props.cursor.sharing.isLoadingPermission(ownerIdentityId)) {
+      body = (
+        <Spinner animation="border" />
+      );
+    }
+    else {
+      body = (
+        <div>
+          This folder hasn't been shared with you. Ask its owner to share it with {props.cursor.userEmail}.
+        </div>
+      );
+    }
+  }
+  else if (type === 'folder') {
     body = <FolderView cursor={props.cursor} />;
   }
   else if (type === 'mocap') {
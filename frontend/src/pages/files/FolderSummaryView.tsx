@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button, ProgressBar, Spinner, Table } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import { SUBJECT_STATUSES } from '../../state/FolderSummary';
+import type { SubjectStatus } from '../../state/FolderSummary';
+import BarChart from '../../components/BarChart';
+import { humanFileSize } from '../../utils';
+
+type FolderSummaryViewProps = {
+  cursor: MocapS3Cursor;
+};
+
+const STATUS_LABELS: Record<SubjectStatus, string> = {
+  'empty': "Waiting for data",
+  'could-process': "Ready to process",
+  'waiting': "Waiting for server",
+  'processing': "Processing",
+  'error': "Error",
+  'done': "Processed"
+};
+
+// Subjects that aren't in the processing pipeline yet are left as the empty part of the bar
+const STATUS_VARIANTS: Partial<Record<SubjectStatus, string>> = {
+  'done': "success",
+  'error': "danger",
+  'processing': "warning",
+  'waiting': "info"
+};
+
+// Histogram bins are one of these widths, in centimeters, whichever gives a reasonable number of bins
+const BIN_WIDTHS_CM = [0.1, 0.25, 0.5, 1, 2, 5, 10];
+const MAX_BINS = 12;
+
+/**
+ * This buckets RMSE values (in meters) into a histogram
+ */
+function makeHistogram(values: number[]) {
+  const maxCm = Math.max(...values) * 100;
+  const binWidth = BIN_WIDTHS_CM.find((width) => maxCm / width < MAX_BINS) ?? BIN_WIDTHS_CM[BIN_WIDTHS_CM.length - 1];
+  const numBins = Math.max(1, Math.floor(maxCm / binWidth) + 1);
+  let counts: number[] = new Array(numBins).fill(0);
+  values.forEach((value) => {
+    counts[Math.min(numBins - 1, Math.floor((value * 100) / binWidth))]++;
+  });
+  const labels = counts.map((_, i) => (i * binWidth).toFixed(binWidth < 1 ? 2 : 0) + "-" + ((i + 1) * binWidth).toFixed(binWidth < 1 ? 2 : 0) + " cm");
+  return { labels, counts };
+}
+
+/**
+ * This shows how far along every subject under the current folder is, and once they're processed, how well they fit
+ */
+const FolderSummaryView = observer((props: FolderSummaryViewProps) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const summary = props.cursor.folderSummary;
+  const subjects = summary.subjects;
+
+  useEffect(() => {
+    if (showDetails) {
+      props.cursor.folderSummary.loadRMSE();
+    }
+  }, [showDetails, props.cursor.folderSummary, subjects]);
+
+  // Anything we loaded for this folder stops being kept up to date once we leave it
+  const path = props.cursor.rawCursor.path;
+  useEffect(() => {
+    return () => summary.forgetSubjects();
+  }, [summary, path]);
+
+  if (!summary.isLoaded) {
+    // In lazy mode, listing everything under a big folder is slow, so we wait until someone asks
+    if (props.cursor.getFolderContents().length === 0) return null;
+    return (
+      <div className="mb-3">
+        <Button variant="link" size="sm" className="p-0" onClick={() => summary.loadSubjects()} disabled={summary.loadingSubjects}>
+          {summary.loadingSubjects ? <Spinner animation="border" size="sm" className="me-1" /> : <i className="mdi mdi-chart-bar me-1"></i>}
+          Summarize every subject in this folder
+        </Button>
+      </div>
+    );
+  }
+  if (subjects.length === 0) return null;
+
+  const counts = summary.counts;
+  let hrefPrefix = props.cursor.urlPath;
+  if (!hrefPrefix.endsWith('/')) hrefPrefix += '/';
+
+  let details = null;
+  if (showDetails) {
+    let queue = null;
+    if (summary.queue.length > 0) {
+      queue = <>
+        <h5 className="mt-2">Processing queue</h5>
+        <Table size="sm" className="table-centered mb-0">
+          <tbody>
+            {summary.queue.map((subject) => (
+              <tr key={subject.path}>
+                <td>
+                  <Link to={hrefPrefix + subject.path} className="text-reset">{subject.path}</Link>
+                </td>
+                <td>{subject.queuePosition === 0 ? "Next up" : subject.queuePosition + " ahead"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </>;
+    }
+
+    const rmseValues = summary.rmseValues;
+    let rmse = null;
+    if (rmseValues.length > 0) {
+      const sorted = [...rmseValues].sort((a, b) => a - b);
+      const mean = rmseValues.reduce((total, value) => total + value, 0) / rmseValues.length;
+      const histogram = makeHistogram(rmseValues);
+      rmse = <>
+        <h5 className="mt-2">
+          Subject RMSE {summary.loadingRMSE ? <Spinner animation="border" size="sm" /> : null}
+        </h5>
+        <p className="text-muted mb-1">
+          {rmseValues.length} subjects: best {(sorted[0] * 100).toFixed(2)} cm, mean {(mean * 100).toFixed(2)} cm, worst {(sorted[sorted.length - 1] * 100).toFixed(2)} cm
+        </p>
+        <BarChart
+          labels={histogram.labels}
+          series={[{ name: "Subjects", color: "#727cf5", values: histogram.counts }]}
+          formatValue={(value) => value.toFixed(value < 10 && value % 1 !== 0 ? 1 : 0)}
+          height={200}
+        />
+      </>;
+    }
+    else if (summary.loadingRMSE) {
+      rmse = <Spinner animation="border" size="sm" />;
+    }
+
+    details = <>
+      {queue}
+      {rmse}
+    </>;
+  }
+
+  return (
+    <div className="mb-3">
+      <div className="d-flex justify-content-between align-items-center mb-1">
+        <span>
+          {counts['done']} of {subjects.length} subjects processed
+          <span className="text-muted ms-2">
+            ({summary.numTrials} trials, {humanFileSize(summary.totalBytes)})
+          </span>
+        </span>
+        <Button variant="link" size="sm" className="p-0" onClick={() => setShowDetails(!showDetails)}>
+          {showDetails ? "Hide details" : "Show details"}
+        </Button>
+      </div>
+      <ProgressBar className="mb-1">
+        {SUBJECT_STATUSES.filter((status) => STATUS_VARIANTS[status] != null && counts[status] > 0).map((status) => (
+          <ProgressBar
+            key={status}
+            variant={STATUS_VARIANTS[status]}
+            now={counts[status]}
+            max={subjects.length}
+            title={counts[status] + " " + STATUS_LABELS[status]}
+            animated={status === 'processing'}
+            striped={status === 'processing'}
+          />
+        ))}
+      </ProgressBar>
+      <div className="text-muted small mb-2">
+        {SUBJECT_STATUSES.filter((status) => counts[status] > 0).map((status) => (
+          <span key={status} className="me-3">
+            {STATUS_LABELS[status]}: {counts[status]}
+          </span>
+        ))}
+      </div>
+      {details}
+    </div>
+  );
+});
+
+export default FolderSummaryView;
@@ -4,6 +4,9 @@ import { Dropdown, ButtonGroup, Table, Spinner } from "react-bootstrap";
 import { observer } from "mobx-react-lite";
 import MocapS3Cursor from '../../state/MocapS3Cursor';
 import { humanFileSize } from '../../utils';
+import DatasetInfoView from './DatasetInfoView';
+import FolderSummaryView from './FolderSummaryView';
+import DownloadFolderModal from './file-control-modals/DownloadFolderModal';
 
 type FolderViewProps = {
   cursor: MocapS3Cursor;
@@ -13,6 +16,8 @@ const FolderView = observer((props: FolderViewProps) => {
   const navigate = useNavigate();
 
   const dataIsReadonly = props.cursor.dataIsReadonly();
+  // Only the owner can share a folder with anyone else
+  const dataIsShared = props.cursor.dataIsShared();
   let contents = props.cursor.getFolderContents();
 
   let rows = [];
@@ -72,33 +77,63 @@ const FolderView = observer((props: FolderViewProps) => {
           </p>
         </td>
         <td>{humanFileSize(entry.size)}</td>
-        {dataIsReadonly ? null : (
-          <td>
-            <ButtonGroup className="d-block mb-2">
-              <Dropdown>
-                {/* align="end" */}
-                <Dropdown.Toggle className="table-action-btn dropdown-toggle arrow-none btn btn-light btn-xs">
-                  <i className="mdi mdi-dots-horizontal"></i>
-                </Dropdown.Toggle>
-                <Dropdown.Menu>
-                  {/*
-                      <Dropdown.Item>
-                        <i className="mdi mdi-share-variant me-2 text-muted vertical-middle"></i>
-                        Share
-                      </Dropdown.Item>
-                  <Dropdown.Item>
+        <td>
+          <ButtonGroup className="d-block mb-2">
+            <Dropdown>
+              {/* align="end" */}
+              <Dropdown.Toggle className="table-action-btn dropdown-toggle arrow-none btn btn-light btn-xs">
+                <i className="mdi mdi-dots-horizontal"></i>
+              </Dropdown.Toggle>
+              <Dropdown.Menu>
+                {dataIsReadonly || dataIsShared ? null : (
+                  <Dropdown.Item
+                    onClick={() => {
+                      navigate({ search: "?share=" + encodeURIComponent(entry.key) });
+                    }}
+                  >
+                    <i className="mdi mdi-share-variant me-2 text-muted vertical-middle"></i>
+                    Share
+                  </Dropdown.Item>
+                )}
+                {dataIsReadonly || dataIsShared ? null : (
+                  <Dropdown.Item
+                    onClick={() => {
+                      navigator.clipboard.writeText(props.cursor.getSharableLink(entry.key));
+                    }}
+                  >
                     <i className="mdi mdi-link me-2 text-muted vertical-middle"></i>
                     Copy Sharable Link
                   </Dropdown.Item>
-                      <Dropdown.Item>
-                        <i className="mdi mdi-pencil me-2 text-muted vertical-middle"></i>
-                        Rename
-                      </Dropdown.Item>
-                      <Dropdown.Item>
-                        <i className="mdi mdi-download me-2 text-muted vertical-middle"></i>
-                        Download
-                      </Dropdown.Item>
-                      */}
+                )}
+                <Dropdown.Item
+                  onClick={() => {
+                    navigate({ search: "?download=" + encodeURIComponent(entry.key) });
+                  }}
+                >
+                  <i className="mdi mdi-download me-2 text-muted vertical-middle"></i>
+                  Download
+                </Dropdown.Item>
+                {dataIsReadonly ? null : (
+                  <Dropdown.Item
+                    onClick={() => {
+                      navigate({ search: "?move=" + encodeURIComponent(entry.key) });
+                    }}
+                  >
+                    <i className="mdi mdi-pencil me-2 text-muted vertical-middle"></i>
+                    Move / Rename
+                  </Dropdown.Item>
+                )}
+                {!dataIsReadonly && entry.type === 'mocap' ? (
+                  <Dropdown.Item
+                    onClick={() => {
+                      navigate({ search: "?duplicate=" + encodeURIComponent(entry.key) });
+                    }}
+                  >
+                    <i className="mdi mdi-content-copy me-2 text-muted vertical-middle"></i>
+                    Duplicate
+                  </Dropdown.Item>
+                ) : null}
+                {dataIsReadonly ? null : (
                   <Dropdown.Item
                     onClick={() => {
                       navigate({ search: "?delete-folder=" + entry.key });
@@ -107,11 +142,11 @@ const FolderView = observer((props: FolderViewProps) => {
                     <i className="mdi mdi-delete me-2 text-muted vertical-middle"></i>
                     Delete
                   </Dropdown.Item>
-                </Dropdown.Menu>
-              </Dropdown>
-            </ButtonGroup>
+                )}
+              </Dropdown.Menu>
+            </Dropdown>
+          </ButtonGroup>
           </td>
-        )}
       </tr>
     );
   });
@@ -120,7 +155,7 @@ const FolderView = observer((props: FolderViewProps) => {
     if (props.cursor.getIsLoading()) {
       rows.push(
         <tr key="loading">
-          <td colSpan={4}>
+          <td colSpan={5}>
             <Spinner animation="border" />
           </td>
         </tr>
@@ -129,12 +164,15 @@ const FolderView = observer((props: FolderViewProps) => {
     else {
       rows.push(
         <tr key="empty">
-          <td colSpan={4}>This folder is empty!</td>
+          <td colSpan={5}>This folder is empty!</td>
         </tr>
       );
     }
   }
   return (
+    <>
+    <DatasetInfoView cursor={props.cursor} />
+    <FolderSummaryView cursor={props.cursor} />
     <Table
       responsive={rows.length > 2}
       className="table table-centered table-nowrap mb-0"
@@ -145,15 +183,15 @@ const FolderView = observer((props: FolderViewProps) => {
           <th className="border-0">Status</th>
           <th className="border-0">Last Modified</th>
           <th className="border-0">Size</th>
-          {dataIsReadonly ? null : (
-            <th className="border-0" style={{ width: "80px" }}>
-              Action
-            </th>
-          )}
+          <th className="border-0" style={{ width: "80px" }}>
+            Action
+          </th>
         </tr>
       </thead>
       <tbody>{rows}</tbody>
     </Table>
+    <DownloadFolderModal cursor={props.cursor} />
+    </>
   );
 });
 
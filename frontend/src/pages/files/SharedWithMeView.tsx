@@ -0,0 +1,69 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Table, Button } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import type { SharedFolder } from '../../state/Sharing';
+
+type SharedWithMeViewProps = {
+  cursor: MocapS3Cursor;
+};
+
+const SharedWithMeView = observer((props: SharedWithMeViewProps) => {
+  const folders = props.cursor.sharing.getSharedFolders();
+
+  let rows = folders.map((folder: SharedFolder) => {
+    const name = folder.path === '' ? "All data" : folder.path.substring(folder.path.lastIndexOf('/') + 1);
+    const href = "/shared_with_me/" + folder.ownerIdentityId + (folder.path === '' ? '' : "/" + encodeURI(folder.path));
+    return (
+      <tr key={folder.ownerIdentityId + "/" + folder.path}>
+        <td>
+          <span className="ms-2 fw-semibold">
+            <Link to={href} className="text-reset">
+              <i className="mdi me-1 text-muted vertical-middle mdi-folder-account-outline"></i>
+              {name}
+            </Link>
+          </span>
+        </td>
+        <td>{folder.ownerEmail}</td>
+        <td>
+          <Button
+            size="sm"
+            variant="light"
+            onClick={() => props.cursor.sharing.forgetSharedFolder(folder.ownerIdentityId, folder.path)}
+          >
+            <i className="mdi mdi-close me-1"></i>
+            Remove from list
+          </Button>
+        </td>
+      </tr>
+    );
+  });
+
+  if (rows.length === 0) {
+    rows.push(
+      <tr key="empty">
+        <td colSpan={3} className="text-center">
+          Nothing has been shared with you yet. When someone shares a folder with you, open the link they send you and it will show up here.
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <Table responsive className="table table-centered table-nowrap mb-0">
+      <thead className="table-light">
+        <tr>
+          <th className="border-0">Name</th>
+          <th className="border-0">Owner</th>
+          <th className="border-0" style={{ width: "80px" }}>
+            Action
+          </th>
+        </tr>
+      </thead>
+      <tbody>{rows}</tbody>
+    </Table>
+  );
+});
+
+export default SharedWithMeView;
@@ -0,0 +1,106 @@
+import React, { useEffect } from "react";
+import { Table, Button, Spinner } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from "../../state/MocapS3Cursor";
+import { TrashItem } from "../../state/Trash";
+import { humanFileSize } from "../../utils";
+
+type TrashViewProps = {
+  cursor: MocapS3Cursor;
+};
+
+/**
+ * This lists everything the user has deleted from "My Data" that hasn't been purged yet, and lets them restore it to
+ * where it was, or delete it for good.
+ */
+const TrashView = observer((props: TrashViewProps) => {
+  const trash = props.cursor.trash;
+
+  useEffect(() => {
+    trash.refresh().catch(() => { });
+  }, [trash]);
+
+  // Everything in My Data lives under the data prefix, which users never see
+  const displayPath = (path: string) => {
+    return path.startsWith(props.cursor.dataPrefix) ? path.substring(props.cursor.dataPrefix.length) : path;
+  };
+
+  const restore = (item: TrashItem) => {
+    if (trash.wouldOverwrite(item) && !window.confirm("Something new has been created at \"" + displayPath(item.root) + "\" since this was deleted. Restoring will overwrite it. Are you sure?")) {
+      return;
+    }
+    trash.restore(item).catch((e) => {
+      console.error("Error restoring \"" + item.root + "\" from the trash", e);
+    });
+  };
+
+  const purge = (item: TrashItem) => {
+    if (!window.confirm("Permanently delete \"" + displayPath(item.root) + "\"? This can't be undone.")) {
+      return;
+    }
+    trash.purge(item).catch((e) => {
+      console.error("Error purging \"" + item.root + "\" from the trash", e);
+    });
+  };
+
+  let body = null;
+  if (trash.loading && trash.items.length === 0) {
+    body = <Spinner animation="border" />;
+  }
+  else if (trash.items.length === 0) {
+    body = <p className="text-muted">The trash is empty.</p>;
+  }
+  else {
+    body = (
+      <Table className="table table-centered table-nowrap mb-0">
+        <thead className="table-light">
+          <tr>
+            <th className="border-0">Name</th>
+            <th className="border-0">Deleted</th>
+            <th className="border-0">Size</th>
+            <th className="border-0" style={{ width: "160px" }}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {trash.items.map((item: TrashItem) => (
+            <tr key={item.stamp}>
+              <td>
+                <span className="ms-2 fw-semibold">
+                  <i className="mdi mdi-delete-outline me-1 text-muted vertical-middle"></i>
+                  {displayPath(item.root)}
+                </span>
+                {item.files.length > 1 ? <span className="text-muted ms-1">({item.files.length} files)</span> : null}
+              </td>
+              <td>{item.deletedAt.toLocaleString()}</td>
+              <td>{humanFileSize(item.size)}</td>
+              <td>
+                <Button size="sm" variant="light" className="me-1" onClick={() => restore(item)}>
+                  <i className="mdi mdi-restore me-1"></i> Restore
+                </Button>
+                <Button size="sm" variant="link" className="text-danger" onClick={() => purge(item)}>
+                  Delete
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    );
+  }
+
+  return (
+    <div className="TrashView">
+      <h4>
+        <i className="mdi mdi-delete-outline me-1 text-muted vertical-middle"></i>
+        Trash
+      </h4>
+      <p className="text-muted">
+        Deleted items are kept for {trash.retentionDays} days, then purged for good.
+      </p>
+      {trash.error != null ? <p className="text-danger">{trash.error}</p> : null}
+      {body}
+    </div>
+  );
+});
+
+export default TrashView;
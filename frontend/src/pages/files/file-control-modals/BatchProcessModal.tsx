@@ -0,0 +1,138 @@
+import React, { useEffect } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Spinner, Table } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../../state/MocapS3Cursor';
+import type { BatchAction, BatchEntry } from '../../../state/BatchProcessing';
+
+type BatchProcessModalProps = {
+  cursor: MocapS3Cursor;
+  linkPrefix: string;
+};
+
+const BatchProcessModal = observer((props: BatchProcessModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  let batchAction: BatchAction | null = null;
+  if (location.search === "?batch=process") batchAction = "process";
+  else if (location.search === "?batch=reprocess") batchAction = "reprocess";
+  const show = batchAction != null;
+  const batch = props.cursor.batchProcessing;
+  const folderPath = props.cursor.rawCursor.path;
+
+  // Every time the modal opens, we start with a fresh dry run
+  useEffect(() => {
+    if (batchAction != null) {
+      props.cursor.batchProcessing.plan(batchAction);
+    }
+  }, [batchAction, folderPath, props.cursor.batchProcessing]);
+
+  let hideModal = () => {
+    if (batch.status !== "running") {
+      batch.reset();
+    }
+    navigate({ search: "" });
+  };
+
+  const verb = batchAction === "reprocess" ? "Reprocess" : "Process";
+
+  const describe = (entry: BatchEntry) => {
+    if (entry.result === "done") {
+      return <span className="text-success">{batchAction === "reprocess" ? "Results cleared, waiting to reprocess" : "Waiting for a processing server"}</span>;
+    }
+    if (entry.result === "failed") {
+      return <span className="text-danger">Failed: {entry.error}</span>;
+    }
+    if (!entry.eligible || entry.result === "skipped") {
+      return <span className="text-muted">Skipped: {entry.reasons.join("; ")}</span>;
+    }
+    return <span>Will {verb.toLowerCase()}</span>;
+  };
+
+  let body = [];
+  let footer = [];
+  if (batch.status === "idle" && batch.error != null) {
+    // We couldn't list the folder to plan the batch
+    body.push(<div key="error" className="text-danger mb-2">{batch.error}</div>);
+  }
+  else if (batch.status === "idle" || batch.status === "planning") {
+    body.push(<Spinner animation="grow" key="pending" />);
+  }
+  else {
+    if (batch.error != null) {
+      body.push(<div key="error" className="text-danger mb-2">{batch.error}</div>);
+    }
+    if (batch.entries.length === 0) {
+      body.push(<p key="empty">There aren't any subjects in this folder.</p>);
+    }
+    else {
+      const numSkipped = batch.entries.length - batch.eligibleCount;
+      body.push(
+        <p key="summary">
+          {batch.status === "planned" ? (
+            <>This is a preview. {batch.eligibleCount} of {batch.entries.length} subjects will be {batchAction === "reprocess" ? "reprocessed" : "processed"}{numSkipped > 0 ? ", and " + numSkipped + " will be skipped" : ""}. Nothing has changed yet.</>
+          ) : batch.status === "running" ? (
+            <>Working on {batch.eligibleCount} subjects...</>
+          ) : (
+            <>Done. You can undo this from the history controls.</>
+          )}
+        </p>
+      );
+      body.push(
+        <Table key="entries" size="sm" responsive className="table-centered mb-0">
+          <thead className="table-light">
+            <tr>
+              <th className="border-0">Subject</th>
+              <th className="border-0">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batch.entries.map((entry) => (
+              <tr key={entry.path}>
+                <td>{entry.path}</td>
+                <td>{describe(entry)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      );
+    }
+    if (batch.status === "planned") {
+      footer.push(
+        <Button
+          key="run"
+          variant={batchAction === "reprocess" ? "warning" : "primary"}
+          disabled={batch.eligibleCount === 0}
+          onClick={() => batch.run()}
+        >
+          {verb} {batch.eligibleCount} subject{batch.eligibleCount === 1 ? "" : "s"}
+        </Button>
+      );
+    }
+    else if (batch.status === "running") {
+      footer.push(<Spinner key="running" animation="border" size="sm" />);
+    }
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className={"mdi me-1 " + (batchAction === "reprocess" ? "mdi-refresh" : "mdi-play")}></i> {verb} all subjects in "{props.cursor.getCurrentFileName()}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{body}</Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+          {footer}
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default BatchProcessModal;
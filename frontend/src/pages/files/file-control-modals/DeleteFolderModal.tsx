@@ -79,7 +79,7 @@ const DeleteFolderModal = observer((props: DeleteFolderModalProps) => {
         <Form noValidate validated={false} onSubmitCapture={deleteFolder}>
           <Form.Group className="mb-3" controlId="folderName">
             <Form.Label>
-              This cannot be undone! Confirm to make sure.
+              This will move the folder to the Trash, where you can restore it for the next {props.cursor.trash.retentionDays} days. Confirm to make sure.
             </Form.Label>
             <Form.Control
               type="text"
@@ -0,0 +1,183 @@
+import React, { useEffect } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Spinner, Form, ProgressBar } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../../state/MocapS3Cursor';
+import { MAX_ZIP_BYTES } from '../../../state/FolderDownload';
+import type { FolderDownloadCategory } from '../../../state/FolderDownload';
+import { humanFileSize } from '../../../utils';
+
+type DownloadFolderModalProps = {
+  cursor: MocapS3Cursor;
+};
+
+const CATEGORIES: { category: FolderDownloadCategory, label: string, help: string }[] = [
+  { category: "inputs", label: "Inputs", help: "The subject description, OpenSim models and the raw trial files (markers, forces and hand-fit IK)." },
+  { category: "results", label: "Results", help: "The results summaries and processing logs." },
+  { category: "archives", label: "Result archives", help: "The zip of scaled models and IK that each subject's processing made. These can be large." },
+  { category: "previews", label: "Visualizations", help: "The preview animations for each trial. These can be large." }
+];
+
+const DownloadFolderModal = observer((props: DownloadFolderModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  let show = location.search.startsWith("?download=");
+  let folderToDownload = "";
+  if (show) {
+    folderToDownload = decodeURIComponent(
+      location.search.substring("?download=".length)
+    );
+  }
+
+  useEffect(() => {
+    if (show) {
+      props.cursor.prepareFolderDownload(folderToDownload);
+    }
+  }, [show, folderToDownload, props.cursor]);
+
+  // Closing the modal doesn't stop the download, so it can keep going in the background
+  let hideModal = () => {
+    navigate({ search: "" });
+  };
+
+  const download = props.cursor.folderDownload;
+
+  let body = [];
+  let footer = [];
+  if (download == null || download.status === "listing") {
+    body.push(<Spinner animation="grow" key="pending" />);
+  }
+  else if (download.status === "ready") {
+    if (download.subjects.length === 0) {
+      body.push(<p key="empty">There aren't any subjects in this folder to download.</p>);
+    }
+    else {
+      body.push(
+        <Form key="body" noValidate validated={false}>
+          <Form.Group className="mb-3">
+            <Form.Label>What to include</Form.Label>
+            {CATEGORIES.map(({ category, label, help }) => (
+              <div key={category} className="mb-1">
+                <Form.Check
+                  type="checkbox"
+                  id={"download-category-" + category}
+                  label={label}
+                  checked={download.categories.has(category)}
+                  onChange={() => download.toggleCategory(category)}
+                />
+                <Form.Text className="text-muted">{help}</Form.Text>
+              </div>
+            ))}
+          </Form.Group>
+          <Form.Group className="mb-3">
+            <Form.Label>Subjects</Form.Label>
+            <div style={{ maxHeight: "200px", overflowY: "auto" }}>
+              {download.subjects.map((subject) => (
+                <Form.Check
+                  key={subject}
+                  type="checkbox"
+                  id={"download-subject-" + subject}
+                  label={subject.substring(download.folderPath.length + 1) || download.getName()}
+                  checked={download.selectedSubjects.has(subject)}
+                  onChange={() => download.toggleSubject(subject)}
+                />
+              ))}
+            </div>
+          </Form.Group>
+          <p className={download.isTooLarge() ? "text-danger mb-0" : "text-muted mb-0"}>
+            {humanFileSize(download.selectedBytes)} selected.
+            {download.isTooLarge() ? " Your browser can't save the zip straight to disk, so you can only download up to " + humanFileSize(MAX_ZIP_BYTES) + " at once. Please pick fewer subjects, leave out the large files, or try Chrome or Edge." : ""}
+          </p>
+        </Form>
+      );
+    }
+    footer.push(
+      <Button
+        key="start"
+        variant="primary"
+        disabled={download.selectedSubjects.size === 0 || download.categories.size === 0 || download.isTooLarge()}
+        onClick={() => download.start()}
+      >
+        Download
+      </Button>
+    );
+  }
+  else {
+    const failed = download.files.filter((file) => file.status === "error");
+    const numDone = download.files.filter((file) => file.status === "done").length;
+    if (download.status === "zipping") {
+      body.push(<p key="status">Finishing the zip...</p>);
+      body.push(<ProgressBar key="progress" min={0} max={1} now={1} striped animated />);
+    }
+    else {
+      body.push(
+        <p key="status">
+          Downloaded {numDone} of {download.files.length} files ({humanFileSize(download.totalBytes)} in total).
+        </p>
+      );
+      body.push(
+        <ProgressBar
+          key="progress"
+          min={0}
+          max={1}
+          now={download.progress}
+          variant={download.status === "failed" ? "danger" : (download.status === "done" ? "success" : undefined)}
+          striped={download.status === "downloading"}
+          animated={download.status === "downloading"}
+        />
+      );
+    }
+    if (download.status === "done") {
+      body.push(<p key="done" className="mt-2">Your zip is saved.</p>);
+    }
+    if (download.status === "cancelled") {
+      body.push(<p key="cancelled" className="mt-2">The download was cancelled.</p>);
+    }
+    if (failed.length > 0 && download.status === "failed") {
+      body.push(
+        <div key="failed" className="mt-2">
+          <div className="text-danger mb-1">
+            {failed.length} file{failed.length === 1 ? "" : "s"} didn't download. You can try them again, or save the zip without them.
+          </div>
+          <ul className="text-muted">
+            {failed.map((file) => (
+              <li key={file.path}>
+                {file.zipPath}: {file.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+      footer.push(<Button key="save" variant="light" onClick={() => download.save()}>Save without them</Button>);
+      footer.push(<Button key="retry" variant="primary" onClick={() => download.retryFailed()}>Retry failed</Button>);
+    }
+    if (download.status === "downloading" || download.status === "failed") {
+      footer.unshift(<Button key="cancel" variant="link" className="text-danger" onClick={() => download.cancel()}>Cancel download</Button>);
+    }
+  }
+  if (download != null && download.error != null) {
+    body.unshift(<div key="error" className="text-danger mb-2">{download.error}</div>);
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal}>
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className="mdi mdi-download me-1"></i> Download "{folderToDownload}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{body}</Modal.Body>
+        <Modal.Footer>
+          {footer}
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default DownloadFolderModal;
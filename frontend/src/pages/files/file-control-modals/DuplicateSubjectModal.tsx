@@ -0,0 +1,154 @@
+import React, { useEffect, useState, useRef } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Spinner, Form } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor, { ORIGINAL_RESULTS_FOLDER } from '../../../state/MocapS3Cursor';
+
+type DuplicateSubjectModalProps = {
+  cursor: MocapS3Cursor;
+  linkPrefix: string;
+};
+
+// The same as NewFolderModal
+let validation = /^[a-zA-Z0-9-_ ]+$/;
+
+const DuplicateSubjectModal = observer((props: DuplicateSubjectModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const [newName, setNewName] = useState("");
+  const [valid, setValid] = useState(true);
+  const [includeResults, setIncludeResults] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  let show = location.search.startsWith("?duplicate=");
+  let subjectToDuplicate = "";
+  if (show) {
+    subjectToDuplicate = decodeURIComponent(
+      location.search.substring("?duplicate=".length)
+    );
+  }
+
+  useEffect(() => {
+    if (show) {
+      setNewName(subjectToDuplicate + " copy");
+      setValid(true);
+      setIncludeResults(false);
+      setError(null);
+    }
+  }, [show, subjectToDuplicate]);
+
+  // Autofocus doesn't work inside an animated modal, so this is a fix to get autofocus anyways
+  useEffect(() => {
+    if (show && inputRef.current) {
+      setTimeout(() => {
+        if (inputRef.current) {
+          inputRef.current.focus();
+        }
+      }, 100);
+    }
+  }, [inputRef, show]);
+
+  let hideModal = () => {
+    navigate({ search: "" });
+  };
+
+  function duplicateSubject() {
+    if (newName.length === 0) {
+      setValid(false);
+    } else if (valid) {
+      setLoading(true);
+      setError(null);
+      props.cursor
+        .duplicateSubject(subjectToDuplicate, newName, includeResults)
+        .then(() => {
+          setLoading(false);
+          hideModal();
+        })
+        .catch((e) => {
+          setLoading(false);
+          setError(e instanceof Error ? e.message : String(e));
+        });
+    }
+  }
+
+  let body = [];
+  if (loading) {
+    body.push(<Spinner animation="grow" key="pending" />);
+  } else {
+    if (error != null) {
+      body.push(<div key="error" className="text-danger mb-2">{error}</div>);
+    }
+    body.push(
+      <div key="body">
+        <Form noValidate validated={false} onSubmitCapture={duplicateSubject}>
+          <Form.Group className="mb-3" controlId="newName">
+            <Form.Label>New subject name</Form.Label>
+            <Form.Control
+              type="text"
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value);
+                let isValid = validation.test(e.target.value);
+                if (!isValid) {
+                  e.target.setCustomValidity("Must be a valid folder name");
+                  setValid(false);
+                } else {
+                  e.target.setCustomValidity("");
+                  setValid(true);
+                }
+              }}
+              ref={inputRef}
+              isInvalid={!valid}
+            />
+            <Form.Control.Feedback type="invalid">
+              Subject name must be a non-empty string of letters, numbers, hyphens, underscores and spaces.
+            </Form.Control.Feedback>
+          </Form.Group>
+          <Form.Group className="mb-3" controlId="includeResults">
+            <Form.Check
+              type="checkbox"
+              label="Copy the results"
+              checked={includeResults}
+              onChange={(e) => setIncludeResults(e.target.checked)}
+            />
+            <Form.Text className="text-muted">
+              The copy always comes up ready to process, so you can upload a different model to it first. If you copy
+              the results, each trial shows its old results until you reprocess, and the subject's old results and log
+              are kept in "{ORIGINAL_RESULTS_FOLDER}".
+            </Form.Text>
+          </Form.Group>
+        </Form>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal}>
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className="mdi mdi-content-copy me-1"></i> Duplicate "{subjectToDuplicate}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{body}</Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!valid || loading}
+            onClick={duplicateSubject}
+          >
+            Duplicate
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default DuplicateSubjectModal;
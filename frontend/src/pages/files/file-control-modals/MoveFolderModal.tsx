@@ -0,0 +1,146 @@
+import React, { useEffect, useState, useRef } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Spinner, Form } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../../state/MocapS3Cursor';
+
+type MoveFolderModalProps = {
+  cursor: MocapS3Cursor;
+  linkPrefix: string;
+};
+
+// Every part of the path has to be a valid folder name, the same as NewFolderModal
+let validation = /^[a-zA-Z0-9-_ ]+(\/[a-zA-Z0-9-_ ]+)*$/;
+
+const MoveFolderModal = observer((props: MoveFolderModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const [newPath, setNewPath] = useState("");
+  const [valid, setValid] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  let show = location.search.startsWith("?move=");
+  let folderToMove = "";
+  if (show) {
+    folderToMove = decodeURIComponent(
+      location.search.substring("?move=".length)
+    );
+  }
+  const currentFilePath = props.cursor.getCurrentFilePath();
+  const oldPath = (currentFilePath.length > 0 ? currentFilePath + "/" : "") + folderToMove;
+
+  useEffect(() => {
+    if (show) {
+      setNewPath(oldPath);
+      setValid(true);
+      setError(null);
+    }
+  }, [show, oldPath]);
+
+  // Autofocus doesn't work inside an animated modal, so this is a fix to get autofocus anyways
+  useEffect(() => {
+    if (show && inputRef.current) {
+      setTimeout(() => {
+        if (inputRef.current) {
+          inputRef.current.focus();
+        }
+      }, 100);
+    }
+  }, [inputRef, show]);
+
+  let hideModal = () => {
+    navigate({ search: "" });
+  };
+
+  function moveFolder() {
+    if (newPath.length === 0) {
+      setValid(false);
+    } else if (newPath === oldPath) {
+      hideModal();
+    } else if (valid) {
+      setLoading(true);
+      setError(null);
+      props.cursor
+        .moveFolder(folderToMove, newPath)
+        .then(() => {
+          setLoading(false);
+          hideModal();
+        })
+        .catch((e) => {
+          setLoading(false);
+          setError(e instanceof Error ? e.message : String(e));
+        });
+    }
+  }
+
+  let body = [];
+  if (loading) {
+    body.push(<Spinner animation="grow" key="pending" />);
+  } else {
+    if (error != null) {
+      body.push(<div key="error" className="text-danger mb-2">{error}</div>);
+    }
+    body.push(
+      <div key="body">
+        <Form noValidate validated={false} onSubmitCapture={moveFolder}>
+          <Form.Group className="mb-3" controlId="newPath">
+            <Form.Label>New path</Form.Label>
+            <Form.Control
+              type="text"
+              value={newPath}
+              onChange={(e) => {
+                setNewPath(e.target.value);
+                let isValid = validation.test(e.target.value);
+                if (!isValid) {
+                  e.target.setCustomValidity("Must be a path of folder names, separated by slashes");
+                  setValid(false);
+                } else {
+                  e.target.setCustomValidity("");
+                  setValid(true);
+                }
+              }}
+              ref={inputRef}
+              isInvalid={!valid}
+            />
+            <Form.Text className="text-muted">
+              Change the last part to rename "{folderToMove}", or the parts before it to move it to a different folder in your protected space.
+            </Form.Text>
+            <Form.Control.Feedback type="invalid">
+              Each folder name must be a non-empty string of letters, numbers, hyphens, underscores and spaces, separated by slashes.
+            </Form.Control.Feedback>
+          </Form.Group>
+        </Form>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal}>
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className="mdi mdi-folder-move-outline me-1"></i> Move or Rename "{folderToMove}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{body}</Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!valid || loading}
+            onClick={moveFolder}
+          >
+            Move
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default MoveFolderModal;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Spinner, Form } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../../state/MocapS3Cursor';
+
+type PublishFolderModalProps = {
+  cursor: MocapS3Cursor;
+  linkPrefix: string;
+};
+
+// These are SPDX identifiers, so they're unambiguous to anyone reading "_dataset.json"
+const LICENSES: { id: string, name: string }[] = [
+  { id: "CC-BY-4.0", name: "Creative Commons Attribution 4.0" },
+  { id: "CC-BY-SA-4.0", name: "Creative Commons Attribution-ShareAlike 4.0" },
+  { id: "CC-BY-NC-4.0", name: "Creative Commons Attribution-NonCommercial 4.0" },
+  { id: "CC0-1.0", name: "Creative Commons Zero (public domain)" },
+  { id: "ODC-By-1.0", name: "Open Data Commons Attribution 1.0" },
+  { id: "ODbL-1.0", name: "Open Database License 1.0" }
+];
+
+// The same as MoveFolderModal
+let validation = /^[a-zA-Z0-9-_ ]+(\/[a-zA-Z0-9-_ ]+)*$/;
+
+const PublishFolderModal = observer((props: PublishFolderModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const [publicPath, setPublicPath] = useState("");
+  const [valid, setValid] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = location.search === "?publish";
+  const folderName = props.cursor.getCurrentFileName();
+  const dataset = props.cursor.datasetJson;
+
+  useEffect(() => {
+    if (show) {
+      setPublicPath(folderName);
+      setValid(true);
+      setError(null);
+    }
+  }, [show, folderName]);
+
+  // In lazy mode, we may not have loaded every subject in the folder yet, so we can't say which ones aren't finished
+  const rawCursor = props.cursor.rawCursor;
+  useEffect(() => {
+    if (!show) return;
+    rawCursor.index.loadSubtree(rawCursor.path).catch((e) => {
+      console.warn("Unable to load \"" + rawCursor.path + "\" to publish it", e);
+    });
+  }, [show, rawCursor, rawCursor.path]);
+
+  let hideModal = () => {
+    navigate({ search: "" });
+  };
+
+  function publishFolder() {
+    if (publicPath.length === 0) {
+      setValid(false);
+    } else if (valid) {
+      setLoading(true);
+      setError(null);
+      props.cursor
+        .publishFolder(publicPath)
+        .then(() => {
+          setLoading(false);
+          navigate("/public_data/" + encodeURI(publicPath));
+        })
+        .catch((e) => {
+          setLoading(false);
+          setError(e instanceof Error ? e.message : String(e));
+        });
+    }
+  }
+
+  const unfinished = show ? props.cursor.getUnfinishedSubjects() : [];
+  const publishedPath = dataset.getAttribute("publishedPath", "");
+
+  const textField = (key: "description" | "citation", label: string, help: string) => {
+    const fieldError = dataset.getValidationError(key);
+    return (
+      <Form.Group className="mb-3" controlId={"dataset-" + key}>
+        <Form.Label>{label}</Form.Label>
+        <Form.Control
+          as="textarea"
+          rows={3}
+          value={dataset.getAttribute(key, "")}
+          onChange={(e) => dataset.setAttribute(key, e.target.value)}
+          onFocus={() => dataset.onFocusAttribute(key)}
+          onBlur={() => dataset.onBlurAttribute(key)}
+          isInvalid={fieldError != null}
+        />
+        <Form.Text className="text-muted">{help}</Form.Text>
+        <Form.Control.Feedback type="invalid">{fieldError}</Form.Control.Feedback>
+      </Form.Group>
+    );
+  };
+
+  let body = [];
+  if (loading) {
+    body.push(<Spinner animation="grow" key="pending" />);
+  } else {
+    if (error != null) {
+      body.push(<div key="error" className="text-danger mb-2">{error}</div>);
+    }
+    if (publishedPath !== "") {
+      body.push(
+        <div key="published" className="alert alert-info">
+          You already published this folder to "{publishedPath}". Publishing it again makes a new copy.
+        </div>
+      );
+    }
+    if (unfinished.length > 0) {
+      body.push(
+        <div key="unfinished" className="alert alert-warning">
+          Every subject has to finish processing before you can publish. These haven't yet: {unfinished.join(", ")}
+        </div>
+      );
+    }
+    const licenseError = dataset.getValidationError("license");
+    const contributorsError = dataset.getValidationError("contributors");
+    body.push(
+      <Form key="body" noValidate validated={false}>
+        {textField("description", "Description", "What's in the dataset, and how it was collected.")}
+        <Form.Group className="mb-3" controlId="dataset-license">
+          <Form.Label>License</Form.Label>
+          <Form.Select
+            value={dataset.getAttribute("license", "")}
+            onChange={(e) => dataset.setAttribute("license", e.target.value, true)}
+            isInvalid={licenseError != null}
+          >
+            <option value="">Choose a license...</option>
+            {LICENSES.map((license) => (
+              <option key={license.id} value={license.id}>{license.name} ({license.id})</option>
+            ))}
+          </Form.Select>
+          <Form.Control.Feedback type="invalid">{licenseError}</Form.Control.Feedback>
+        </Form.Group>
+        {textField("citation", "Citation", "How people using the data should cite it, like a BibTeX entry for your paper.")}
+        <Form.Group className="mb-3" controlId="dataset-contributors">
+          <Form.Label>Contributors</Form.Label>
+          <Form.Control
+            as="textarea"
+            rows={3}
+            value={dataset.getAttribute("contributors", []).join("\n")}
+            onChange={(e) => dataset.setAttribute("contributors", e.target.value.split("\n"))}
+            onFocus={() => dataset.onFocusAttribute("contributors")}
+            onBlur={() => dataset.onBlurAttribute("contributors")}
+            isInvalid={contributorsError != null}
+          />
+          <Form.Text className="text-muted">One name per line.</Form.Text>
+          <Form.Control.Feedback type="invalid">{contributorsError}</Form.Control.Feedback>
+        </Form.Group>
+        <Form.Group className="mb-3" controlId="dataset-public-path">
+          <Form.Label>Public path</Form.Label>
+          <Form.Control
+            type="text"
+            value={publicPath}
+            onChange={(e) => {
+              setPublicPath(e.target.value);
+              setValid(validation.test(e.target.value));
+            }}
+            isInvalid={!valid}
+          />
+          <Form.Text className="text-muted">
+            Where the copy goes in the public data. Anyone will be able to browse and download it.
+          </Form.Text>
+          <Form.Control.Feedback type="invalid">
+            Each folder name must be a non-empty string of letters, numbers, hyphens, underscores and spaces, separated by slashes.
+          </Form.Control.Feedback>
+        </Form.Group>
+      </Form>
+    );
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className="mdi mdi-earth-plus me-1"></i> Publish "{folderName}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{body}</Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!valid || loading || unfinished.length > 0}
+            onClick={publishFolder}
+          >
+            Publish
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default PublishFolderModal;
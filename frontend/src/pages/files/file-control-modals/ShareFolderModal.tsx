@@ -0,0 +1,178 @@
+import React, { useEffect, useState, useRef } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { Modal, Button, Form, Table, InputGroup } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../../state/MocapS3Cursor';
+import type { ShareGrant, SharePermission } from '../../../state/Sharing';
+
+type ShareFolderModalProps = {
+  cursor: MocapS3Cursor;
+  linkPrefix: string;
+};
+
+// This is deliberately loose, it's just here to catch typos
+let validation = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+const ShareFolderModal = observer((props: ShareFolderModalProps) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<SharePermission>("read");
+  const [valid, setValid] = useState(true);
+  const [copied, setCopied] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  let show = location.search.startsWith("?share=");
+  let folderToShare = "";
+  if (show) {
+    folderToShare = decodeURIComponent(
+      location.search.substring("?share=".length)
+    );
+  }
+  const currentFilePath = props.cursor.getCurrentFilePath();
+  const path = (currentFilePath.length > 0 ? currentFilePath + "/" : "") + folderToShare;
+
+  useEffect(() => {
+    if (show) {
+      setEmail("");
+      setPermission("read");
+      setValid(true);
+      setCopied(false);
+    }
+  }, [show, path]);
+
+  // Autofocus doesn't work inside an animated modal, so this is a fix to get autofocus anyways
+  useEffect(() => {
+    if (show && inputRef.current) {
+      setTimeout(() => {
+        if (inputRef.current) {
+          inputRef.current.focus();
+        }
+      }, 100);
+    }
+  }, [inputRef, show]);
+
+  let hideModal = () => {
+    navigate({ search: "" });
+  };
+
+  function shareFolder() {
+    if (email.length === 0 || !validation.test(email)) {
+      setValid(false);
+    } else if (props.cursor.userEmail != null) {
+      props.cursor.sharing.grant(path, email, permission, props.cursor.userEmail);
+      setEmail("");
+    }
+  }
+
+  const link = show ? props.cursor.getSharableLink(folderToShare) : "";
+
+  const grants = props.cursor.sharing.getGrants(path);
+  let grantRows = grants.map((grant: ShareGrant) => (
+    <tr key={grant.email}>
+      <td>{grant.email}</td>
+      <td>{grant.permission === "read-write" ? "Can edit" : "Can view"}</td>
+      <td>
+        <Button
+          size="sm"
+          variant="light"
+          onClick={() => props.cursor.sharing.revoke(path, grant.email)}
+        >
+          Remove
+        </Button>
+      </td>
+    </tr>
+  ));
+  if (grantRows.length === 0) {
+    grantRows.push(
+      <tr key="empty">
+        <td colSpan={3}>This folder isn't shared with anyone yet.</td>
+      </tr>
+    );
+  }
+
+  return (
+    <>
+      <Modal show={show} onHide={hideModal} size="lg">
+        <Modal.Header closeButton>
+          <Modal.Title>
+            <i className="mdi mdi-share-variant me-1"></i> Share "{folderToShare}"
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form noValidate validated={false} onSubmitCapture={(e) => {
+            e.preventDefault();
+            shareFolder();
+          }}>
+            <Form.Group className="mb-3" controlId="shareEmail">
+              <Form.Label>Share with</Form.Label>
+              <InputGroup hasValidation>
+                <Form.Control
+                  type="email"
+                  placeholder="Their AddBiomechanics account email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setValid(true);
+                  }}
+                  ref={inputRef}
+                  isInvalid={!valid}
+                />
+                <Form.Select
+                  value={permission}
+                  onChange={(e) => setPermission(e.target.value as SharePermission)}
+                  style={{ maxWidth: "150px" }}
+                >
+                  <option value="read">Can view</option>
+                  <option value="read-write">Can edit</option>
+                </Form.Select>
+                <Button variant="primary" onClick={shareFolder}>
+                  Share
+                </Button>
+                <Form.Control.Feedback type="invalid">
+                  Please enter an email address.
+                </Form.Control.Feedback>
+              </InputGroup>
+              <Form.Text className="text-muted">
+                Everything inside "{folderToShare}" is shared too. Then send them the link below.
+              </Form.Text>
+            </Form.Group>
+          </Form>
+          <Table className="table table-centered mb-3">
+            <thead className="table-light">
+              <tr>
+                <th className="border-0">Email</th>
+                <th className="border-0">Access</th>
+                <th className="border-0" style={{ width: "80px" }}></th>
+              </tr>
+            </thead>
+            <tbody>{grantRows}</tbody>
+          </Table>
+          <Form.Group controlId="shareLink">
+            <Form.Label>Sharable link</Form.Label>
+            <InputGroup>
+              <Form.Control type="text" value={link} readOnly />
+              <Button
+                variant="light"
+                onClick={() => {
+                  navigator.clipboard.writeText(link).then(() => setCopied(true));
+                }}
+              >
+                <i className="mdi mdi-link me-1"></i>
+                {copied ? "Copied!" : "Copy"}
+              </Button>
+            </InputGroup>
+          </Form.Group>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="secondary" onClick={hideModal}>
+            Close
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+});
+
+export default ShareFolderModal;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { Modal, Button, Spinner, Table } from "react-bootstrap";
+import { readC3DFile, getC3DError, getC3DWarnings, C3DParseError } from '../../state/C3D';
+import type { C3DFile } from '../../state/C3D';
+import { validateTRCFile } from '../../state/TRC';
+import { humanFileSize } from '../../utils';
+
+type C3DUploadSummaryModalProps = {
+  // The files that were dropped, or [] to hide the modal
+  files: File[];
+  onConfirm: (files: File[]) => void;
+  onCancel: () => void;
+};
+
+/// What we found when we read one of the dropped files
+type FileInspection = {
+  c3d: C3DFile | null;
+  // Set if the file would fail to process, so it won't be uploaded
+  error: string | null;
+  warnings: string[];
+};
+
+/**
+ * This reads every C3D file in a bulk drop before anything gets uploaded, and shows what's in each one: frame rate,
+ * length, markers, analog channels and force plates. TRC files get checked too. Files that the server wouldn't be
+ * able to process get left out of the upload.
+ */
+const C3DUploadSummaryModal = (props: C3DUploadSummaryModalProps) => {
+  const [inspections, setInspections] = useState(new Map<File, FileInspection>());
+
+  useEffect(() => {
+    setInspections(new Map());
+    let cancelled = false;
+    // One at a time, so a big drop doesn't load every file into memory at once
+    let chain: Promise<void> = Promise.resolve();
+    props.files.forEach((file) => {
+      if (file.name.toLowerCase().endsWith(".trc")) {
+        chain = chain.then(() => validateTRCFile(file).then((error: string | null) => {
+          if (cancelled) return;
+          setInspections((existing) => new Map(existing).set(file, { c3d: null, error, warnings: [] }));
+        }));
+        return;
+      }
+      if (!file.name.toLowerCase().endsWith(".c3d")) return;
+      chain = chain.then(() => readC3DFile(file).then((c3d: C3DFile): FileInspection => {
+        return { c3d, error: getC3DError(c3d), warnings: getC3DWarnings(c3d) };
+      }).catch((e: any): FileInspection => {
+        if (!(e instanceof C3DParseError)) console.error("Error reading \"" + file.name + "\" as a C3D file", e);
+        return { c3d: null, error: e instanceof C3DParseError ? e.message : "We couldn't read this file as a C3D file.", warnings: [] };
+      }).then((inspection: FileInspection) => {
+        if (cancelled) return;
+        setInspections((existing) => new Map(existing).set(file, inspection));
+      }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [props.files]);
+
+  const checkedFiles = props.files.filter((file) => file.name.toLowerCase().endsWith(".c3d") || file.name.toLowerCase().endsWith(".trc"));
+  const loading = checkedFiles.some((file) => !inspections.has(file));
+  const uploadable = props.files.filter((file) => inspections.get(file)?.error == null);
+
+  const rows = props.files.map((file) => {
+    const inspection = inspections.get(file);
+    if (inspection == null) {
+      return (
+        <tr key={file.name}>
+          <td>{file.name}</td>
+          <td colSpan={6}><Spinner animation="border" size="sm" /></td>
+        </tr>
+      );
+    }
+    if (!file.name.toLowerCase().endsWith(".c3d")) {
+      return (
+        <tr key={file.name} className={inspection.error != null ? "table-danger" : undefined}>
+          <td>{file.name}</td>
+          <td colSpan={6} className={inspection.error != null ? "text-danger" : "text-muted"} style={{ whiteSpace: 'pre-line' }}>
+            {inspection.error != null ? inspection.error + "\nThis file won't be uploaded." : "This *.trc file looks fine (" + humanFileSize(file.size) + ")"}
+          </td>
+        </tr>
+      );
+    }
+    const c3d = inspection.c3d;
+    let problems = null;
+    if (inspection.error != null) {
+      problems = <div className="text-danger">{inspection.error} This file won't be uploaded.</div>;
+    }
+    else if (inspection.warnings.length > 0) {
+      problems = (
+        <ul className="text-warning mb-0 ps-3">
+          {inspection.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+        </ul>
+      );
+    }
+    return (
+      <React.Fragment key={file.name}>
+        <tr className={inspection.error != null ? "table-danger" : undefined}>
+          <td>{file.name}</td>
+          <td>{c3d != null ? c3d.numFrames : ""}</td>
+          <td>{c3d != null ? c3d.frameRate.toFixed(1) + " Hz" : ""}</td>
+          <td>{c3d != null && c3d.frameRate > 0 ? (c3d.numFrames / c3d.frameRate).toFixed(1) + " s" : ""}</td>
+          <td title={c3d != null ? c3d.pointLabels.join(", ") : undefined}>
+            {c3d != null ? c3d.pointLabels.length + (c3d.pointUnits !== "" ? " (" + c3d.pointUnits + ")" : "") : ""}
+          </td>
+          <td title={c3d != null ? c3d.analogLabels.join(", ") : undefined}>
+            {c3d != null ? c3d.analogLabels.length + (c3d.analogRate > 0 ? " at " + c3d.analogRate.toFixed(0) + " Hz" : "") : ""}
+          </td>
+          <td>{c3d != null ? c3d.numForcePlates : ""}</td>
+        </tr>
+        {problems != null ? (
+          <tr>
+            <td colSpan={7} className="border-top-0 pt-0">{problems}</td>
+          </tr>
+        ) : null}
+      </React.Fragment>
+    );
+  });
+
+  return (
+    <Modal show={props.files.length > 0} onHide={props.onCancel} size="xl">
+      <Modal.Header closeButton>
+        <Modal.Title>
+          <i className="mdi mdi-file-search-outline me-1"></i> Check your files before uploading
+        </Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Table size="sm" responsive className="table-centered mb-0">
+          <thead className="table-light">
+            <tr>
+              <th className="border-0">File</th>
+              <th className="border-0">Frames</th>
+              <th className="border-0">Frame rate</th>
+              <th className="border-0">Length</th>
+              <th className="border-0">Markers</th>
+              <th className="border-0">Analog channels</th>
+              <th className="border-0">Force plates</th>
+            </tr>
+          </thead>
+          <tbody>{rows}</tbody>
+        </Table>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="secondary" onClick={props.onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" disabled={loading || uploadable.length === 0} onClick={() => props.onConfirm(uploadable)}>
+          {loading ? "Checking files..." : "Upload " + uploadable.length + " trial" + (uploadable.length === 1 ? "" : "s")}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default C3DUploadSummaryModal;
@@ -0,0 +1,115 @@
+import React, { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Spinner, Table } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import MarkerConsistency, { MIN_MATCHED_FRACTION } from '../../state/MarkerConsistency';
+import type { TrialMarkerCheck } from '../../state/MarkerConsistency';
+import MocapMarkerMappingEditor from "./MocapMarkerMappingEditor";
+
+type MocapMarkerConsistencyViewProps = {
+  cursor: MocapS3Cursor;
+  markerCheck: MarkerConsistency;
+};
+
+/**
+ * This shows which of each trial's markers line up with the markers in the unscaled OpenSim model, before processing
+ */
+const MocapMarkerConsistencyView = observer((props: MocapMarkerConsistencyViewProps) => {
+  const markerCheck = props.markerCheck;
+
+  // This re-checks whenever the model or a trial's markers are uploaded again, since the key it loads by changes
+  const key = markerCheck.getKey();
+  useEffect(() => {
+    props.markerCheck.load();
+  }, [key, props.markerCheck]);
+
+  if (markerCheck.error != null) {
+    return <div className="alert alert-danger">We couldn't check your markers: {markerCheck.error}</div>;
+  }
+  if (markerCheck.loading) {
+    return <Spinner animation="border" />;
+  }
+  if (markerCheck.osimMarkers == null) {
+    return <p className="text-muted">Upload an unscaled OpenSim model to check your trials' markers against it.</p>;
+  }
+  if (markerCheck.trials.length === 0) {
+    return <p className="text-muted">Upload some trials to check their markers against your unscaled OpenSim model.</p>;
+  }
+
+  const numModelMarkers = markerCheck.osimMarkers.length;
+  const lowMatchTrials = markerCheck.lowMatchTrials;
+  const markerNameMap = markerCheck.markerNameMap;
+
+  let lowMatchWarning = null;
+  if (lowMatchTrials.length > 0) {
+    lowMatchWarning = (
+      <div className="alert alert-warning">
+        <i className="mdi mdi-alert me-2 vertical-middle"></i>
+        {lowMatchTrials.length === 1 ? "1 trial has" : lowMatchTrials.length + " trials have"} fewer than {Math.round(MIN_MATCHED_FRACTION * 100)}% of the {numModelMarkers} markers in your unscaled OpenSim model. The marker names in your trials need to match the names in the model's <code>&lt;MarkerSet&gt;</code>, or the optimizer will ignore them. You can rename them below.
+      </div>
+    );
+  }
+
+  const renderNames = (names: string[], className: string) => {
+    if (names.length === 0) return <span className="text-muted">None</span>;
+    return <span className={className}>{names.join(", ")}</span>;
+  };
+
+  const renderTrial = (check: TrialMarkerCheck) => {
+    const isLow = lowMatchTrials.some((lowMatch) => lowMatch.trial === check.trial);
+    let body;
+    if (check.error != null) {
+      body = <p className="text-danger">We couldn't read this trial's markers: {check.error}</p>;
+    }
+    else {
+      body = (
+        <Table size="sm" className="table-centered mb-0" style={{ tableLayout: 'fixed' }}>
+          <colgroup>
+            <col style={{ width: "20%" }} />
+            <col style={{ width: "10%" }} />
+            <col style={{ width: "70%" }} />
+          </colgroup>
+          <tbody>
+            <tr>
+              <td>Matched</td>
+              <td>{check.matched.length}</td>
+              <td style={{ whiteSpace: 'normal' }}>{renderNames(check.matched.map((label) => markerNameMap[label] != null ? label + " \u2192 " + markerNameMap[label] : label), "text-success")}</td>
+            </tr>
+            <tr>
+              <td>Only in the trial</td>
+              <td>{check.trialOnly.length}</td>
+              <td style={{ whiteSpace: 'normal' }}>{renderNames(check.trialOnly, "text-warning")}</td>
+            </tr>
+            <tr>
+              <td>Only in the model</td>
+              <td>{check.modelOnly.length}</td>
+              <td style={{ whiteSpace: 'normal' }}>{renderNames(check.modelOnly, "text-danger")}</td>
+            </tr>
+          </tbody>
+        </Table>
+      );
+    }
+    return (
+      <div key={check.trial} className="mb-3">
+        <h5>
+          <Link to={{ search: "?show-trial=" + check.index }} replace>{check.trial}</Link>
+          <span className={"ms-2 badge " + (isLow ? "bg-warning" : "bg-success")}>
+            {check.matched.length} of {numModelMarkers} model markers
+          </span>
+        </h5>
+        {body}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {lowMatchWarning}
+      <MocapMarkerMappingEditor cursor={props.cursor} markerCheck={markerCheck} />
+      {markerCheck.trials.map(renderTrial)}
+    </div>
+  );
+});
+
+export default MocapMarkerConsistencyView;
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react";
+import { Button, Form, Table } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import MarkerConsistency from '../../state/MarkerConsistency';
+import { proposeMarkerNameMatches } from '../../state/MarkerNameMatching';
+
+type MocapMarkerMappingEditorProps = {
+  cursor: MocapS3Cursor;
+  markerCheck: MarkerConsistency;
+};
+
+/**
+ * This lets the user rename the markers in their trials to match the markers in their model, for labs whose naming
+ * (like "R.ASIS") doesn't match the model's (like "RASI"). We suggest matches by how similar the names are, and the
+ * accepted renames get saved into "_subject.json" for the server to apply.
+ */
+const MocapMarkerMappingEditor = observer((props: MocapMarkerMappingEditorProps) => {
+  const markerCheck = props.markerCheck;
+  // The choices the user has changed from our suggestions, keyed by trial marker name. "" means "don't rename".
+  const [overrides, setOverrides] = useState({} as { [trialLabel: string]: string });
+  const [showAll, setShowAll] = useState(false);
+
+  const unmatchedTrialLabels = markerCheck.unmatchedTrialLabels;
+  const unmatchedModelMarkers = markerCheck.unmatchedModelMarkers;
+  const markerNameMap = markerCheck.markerNameMap;
+  const canEdit = props.cursor.canEdit();
+
+  const suggestions = useMemo(() => {
+    let suggestions: { [trialLabel: string]: { modelMarker: string, similarity: number } } = {};
+    proposeMarkerNameMatches(unmatchedTrialLabels, unmatchedModelMarkers).forEach((match) => {
+      suggestions[match.trialLabel] = { modelMarker: match.modelMarker, similarity: match.similarity };
+    });
+    return suggestions;
+  }, [unmatchedTrialLabels, unmatchedModelMarkers]);
+
+  const getChoice = (trialLabel: string) => {
+    if (trialLabel in overrides) return overrides[trialLabel];
+    return suggestions[trialLabel]?.modelMarker ?? "";
+  };
+
+  const saveMap = (updated: { [trialLabel: string]: string }) => {
+    props.cursor.subjectJson.setAttribute("markerNameMap", updated, true);
+  };
+
+  let savedMapping = null;
+  const savedLabels = Object.keys(markerNameMap).sort();
+  if (savedLabels.length > 0) {
+    savedMapping = <>
+      <h5>Renamed markers</h5>
+      <Table size="sm" className="table-centered mb-3">
+        <thead className="table-light">
+          <tr>
+            <th className="border-0">In your trials</th>
+            <th className="border-0">In your model</th>
+            {canEdit ? <th className="border-0"></th> : null}
+          </tr>
+        </thead>
+        <tbody>
+          {savedLabels.map((trialLabel) => (
+            <tr key={trialLabel}>
+              <td>{trialLabel}</td>
+              <td>{markerNameMap[trialLabel]}</td>
+              {canEdit ? (
+                <td>
+                  <Button variant="link" size="sm" className="p-0" onClick={() => {
+                    let updated = { ...markerNameMap };
+                    delete updated[trialLabel];
+                    saveMap(updated);
+                  }}>Remove</Button>
+                </td>
+              ) : null}
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </>;
+  }
+
+  let editor = null;
+  if (canEdit && unmatchedTrialLabels.length > 0 && unmatchedModelMarkers.length > 0) {
+    const shownLabels = showAll ? unmatchedTrialLabels : unmatchedTrialLabels.filter((trialLabel) => getChoice(trialLabel) !== "");
+    const chosen = unmatchedTrialLabels.filter((trialLabel) => getChoice(trialLabel) !== "");
+    const chosenMarkers = chosen.map(getChoice);
+    const duplicates = chosenMarkers.filter((marker, i) => chosenMarkers.indexOf(marker) !== i);
+
+    editor = <>
+      <h5>Match your trials' markers to your model's</h5>
+      <p className="text-muted">
+        {unmatchedTrialLabels.length} marker names in your trials aren't in your model, and {unmatchedModelMarkers.length} markers in your model aren't in any trial. We've suggested matches for the names that look alike. Check them before saving.
+      </p>
+      {shownLabels.length > 0 ? (
+        <Table size="sm" className="table-centered mb-2">
+          <thead className="table-light">
+            <tr>
+              <th className="border-0">In your trials</th>
+              <th className="border-0">Rename to</th>
+              <th className="border-0">Similarity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownLabels.map((trialLabel) => {
+              const choice = getChoice(trialLabel);
+              const suggestion = suggestions[trialLabel];
+              return (
+                <tr key={trialLabel}>
+                  <td>{trialLabel}</td>
+                  <td>
+                    <Form.Select size="sm" value={choice} isInvalid={duplicates.includes(choice)} onChange={(e) => {
+                      setOverrides({ ...overrides, [trialLabel]: e.target.value });
+                    }}>
+                      <option value="">Don't rename</option>
+                      {unmatchedModelMarkers.map((marker) => <option key={marker} value={marker}>{marker}</option>)}
+                    </Form.Select>
+                  </td>
+                  <td className="text-muted">
+                    {suggestion != null && suggestion.modelMarker === choice ? Math.round(suggestion.similarity * 100) + "%" : ""}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      ) : (
+        <p>We couldn't find any names that look alike. You can still pick matches yourself.</p>
+      )}
+      {duplicates.length > 0 ? (
+        <p className="text-danger">More than one marker is renamed to {Array.from(new Set(duplicates)).join(", ")}. Each model marker can only match one trial marker.</p>
+      ) : null}
+      <div className="mb-3">
+        <Button
+          disabled={chosen.length === 0 || duplicates.length > 0}
+          onClick={() => {
+            let updated = { ...markerNameMap };
+            chosen.forEach((trialLabel) => {
+              updated[trialLabel] = getChoice(trialLabel);
+            });
+            saveMap(updated);
+            setOverrides({});
+          }}
+        >
+          Save {chosen.length} rename{chosen.length === 1 ? "" : "s"}
+        </Button>
+        <Button variant="link" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Only show suggestions" : "Show all " + unmatchedTrialLabels.length + " unmatched markers"}
+        </Button>
+      </div>
+    </>;
+  }
+
+  if (savedMapping == null && editor == null) return null;
+  return (
+    <div className="mb-3">
+      {savedMapping}
+      {editor}
+    </div>
+  );
+});
+
+export default MocapMarkerMappingEditor;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { Button, Spinner, Table } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import { parseOpenSimModel, getChildJoints, OpenSimParseError } from '../../state/OpenSimModel';
+import type { OpenSimModel, OpenSimCoordinate } from '../../state/OpenSimModel';
+
+type MocapOpenSimInspectorProps = {
+  cursor: MocapS3Cursor;
+  path: string;
+};
+
+/**
+ * @returns A coordinate's range as it's written in the model. v4 files don't say which coordinates are rotations, so we
+ * can't convert them to degrees.
+ */
+function formatRange(coordinate: OpenSimCoordinate) {
+  if (coordinate.rangeMin == null || coordinate.rangeMax == null) return "";
+  return "[" + coordinate.rangeMin.toFixed(3) + ", " + coordinate.rangeMax.toFixed(3) + "]";
+}
+
+/**
+ * This shows what's inside an uploaded OpenSim model: its joint tree, coordinate ranges, markers and meshes, along with
+ * every problem we can find in it, so they can be fixed before processing rather than one at a time.
+ */
+const MocapOpenSimInspector = observer((props: MocapOpenSimInspectorProps) => {
+  const [show, setShow] = useState(false);
+  const [model, setModel] = useState(null as OpenSimModel | null);
+  const [error, setError] = useState(null as string | null);
+
+  // Uploading the model again changes this, so we know to download it again
+  const lastModified = props.cursor.rawCursor.getChildMetadata(props.path)?.lastModified.getTime() ?? 0;
+
+  useEffect(() => {
+    if (!show) return;
+    let cancelled = false;
+    setModel(null);
+    setError(null);
+    props.cursor.rawCursor.downloadText(props.path).then((text: string) => {
+      if (cancelled) return;
+      // downloadText() reports its own errors, and gives us an empty string
+      if (text === '') {
+        setError("We couldn't download the model.");
+        return;
+      }
+      try {
+        setModel(parseOpenSimModel(text));
+      }
+      catch (e) {
+        if (!(e instanceof OpenSimParseError)) console.error("Error inspecting \"" + props.path + "\"", e);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [show, lastModified, props.path, props.cursor.rawCursor]);
+
+  if (!props.cursor.rawCursor.getExists(props.path)) return null;
+
+  const toggle = (
+    <Button variant="link" size="sm" className="p-0" onClick={() => setShow(!show)}>
+      <i className={"mdi mdi-arrow-" + (show ? "down" : "right") + "-drop-circle-outline me-1 vertical-middle"}></i>
+      {show ? "Hide" : "Inspect"} model
+    </Button>
+  );
+  if (!show) return <div className="mb-2">{toggle}</div>;
+
+  let body = null;
+  if (error != null) {
+    body = <div className="text-danger">{error}</div>;
+  }
+  else if (model == null) {
+    body = <Spinner animation="border" size="sm" />;
+  }
+  else {
+    const errors = model.problems.filter((problem) => problem.severity === 'error');
+    const warnings = model.problems.filter((problem) => problem.severity === 'warning');
+    let problems = null;
+    if (model.problems.length > 0) {
+      problems = <>
+        {errors.length > 0 ? (
+          <div className="alert alert-danger">
+            <ul className="mb-0">{errors.map((problem) => <li key={problem.message}>{problem.message}</li>)}</ul>
+          </div>
+        ) : null}
+        {warnings.length > 0 ? (
+          <div className="alert alert-warning">
+            <ul className="mb-0">{warnings.map((problem) => <li key={problem.message}>{problem.message}</li>)}</ul>
+          </div>
+        ) : null}
+      </>;
+    }
+    else {
+      problems = <p className="text-success"><i className="mdi mdi-check me-1"></i>We didn't find any problems with this model.</p>;
+    }
+
+    // The tree starts at "ground", and each body lists the joints that hang off it
+    const visited = new Set<string>();
+    const renderBody = (bodyName: string): React.ReactNode => {
+      // A model with a loop in it would otherwise recurse forever
+      if (visited.has(bodyName)) return null;
+      visited.add(bodyName);
+      const body = model.bodies.find((body) => body.name === bodyName);
+      const childJoints = getChildJoints(model, bodyName);
+      return (
+        <li key={bodyName}>
+          <b>{bodyName}</b>
+          {body != null && body.mass != null ? <span className="text-muted"> ({body.mass.toFixed(2)} kg)</span> : null}
+          {childJoints.length > 0 ? (
+            <ul>
+              {childJoints.map((joint) => (
+                <li key={joint.name}>
+                  <i className="mdi mdi-link-variant me-1 text-muted"></i>
+                  {joint.name} <span className="text-muted">&lt;{joint.type}&gt;</span>
+                  {joint.coordinates.length > 0 ? (
+                    <span className="text-muted">
+                      {": " + joint.coordinates.map((coordinate) => coordinate.name + " " + formatRange(coordinate) + (coordinate.locked ? " (locked)" : "")).join(", ")}
+                    </span>
+                  ) : null}
+                  {joint.childBody != null ? <ul>{renderBody(joint.childBody)}</ul> : null}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </li>
+      );
+    };
+    const tree = renderBody("ground");
+    const meshFiles = Array.from(new Set(model.bodies.flatMap((body) => body.meshFiles))).sort();
+
+    body = <>
+      {problems}
+      <p className="text-muted mb-2">
+        {model.name !== "" ? "\"" + model.name + "\", " : ""}OpenSim version {model.version}: {model.bodies.length} bodies, {model.joints.length} joints, {model.markers.length} markers
+      </p>
+      <h5>Joint tree</h5>
+      <ul>{tree}</ul>
+      <h5>Markers</h5>
+      <Table size="sm" className="table-centered mb-2">
+        <thead className="table-light">
+          <tr>
+            <th className="border-0">Name</th>
+            <th className="border-0">Body</th>
+            <th className="border-0">Fixed</th>
+            <th className="border-0">Looks like</th>
+          </tr>
+        </thead>
+        <tbody>
+          {model.markers.map((marker) => {
+            // Anatomical markers should be fixed, and tracking markers shouldn't be
+            const mismatched = (marker.likelyRole === 'anatomical' && marker.fixed !== true) || (marker.likelyRole === 'tracking' && marker.fixed === true);
+            return (
+              <tr key={marker.name} className={mismatched ? "table-warning" : undefined}>
+                <td>{marker.name}</td>
+                <td>{marker.body}</td>
+                <td>{marker.fixed == null ? <span className="text-muted">Not set</span> : marker.fixed ? "true" : "false"}</td>
+                <td>{marker.likelyRole == null ? "" : marker.likelyRole === 'anatomical' ? "Anatomical" : "Tracking"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </Table>
+      {meshFiles.length > 0 ? <>
+        <h5>Meshes</h5>
+        <p className="text-muted">{meshFiles.join(", ")}</p>
+      </> : null}
+    </>;
+  }
+
+  return (
+    <div className="mb-2">
+      {toggle}
+      <div className="card card-body mt-1">{body}</div>
+    </div>
+  );
+});
+
+export default MocapOpenSimInspector;
@@ -0,0 +1,52 @@
+import React, { useEffect } from "react";
+import { observer } from "mobx-react-lite";
+import { Alert, Button, ProgressBar } from "react-bootstrap";
+import DropFile from "../../components/DropFile";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import { humanFileSize } from '../../utils';
+
+type MocapResumeUploadsPanelProps = {
+  cursor: MocapS3Cursor;
+};
+
+/**
+ * This lists the uploads under the current subject that got interrupted, so the user can drop the same file again to
+ * pick up where they left off (instead of starting a large C3D upload over from scratch), or throw the partial upload away.
+ */
+const MocapResumeUploadsPanel = observer((props: MocapResumeUploadsPanelProps) => {
+  const path = props.cursor.rawCursor.path;
+  const children = props.cursor.rawCursor.children;
+  useEffect(() => {
+    props.cursor.refreshResumableUploads();
+  }, [props.cursor, path, children]);
+
+  // Uploads that are still in the queue (even if they're paused) are managed from the upload panel instead
+  const rawCursor = props.cursor.rawCursor;
+  const interrupted = props.cursor.resumableUploads.filter((upload) => !props.cursor.uploadQueue.hasActiveUpload(rawCursor.index, rawCursor.getChildPath(upload.path)));
+
+  if (props.cursor.dataIsReadonly() || interrupted.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <Alert variant="warning">
+      <h5>Interrupted uploads</h5>
+      <p>These uploads didn't finish. Drop the same file again to resume uploading where you left off.</p>
+      {interrupted.map((upload) => {
+        const extension = upload.fileName.indexOf('.') !== -1 ? upload.fileName.substring(upload.fileName.lastIndexOf('.')) : '';
+        return (
+          <div className="mb-15" key={upload.path}>
+            <div>
+              <b>{upload.path}</b>: {humanFileSize(upload.bytesUploaded)} of {humanFileSize(upload.fileSize)} uploaded, last attempted {upload.lastUpdated.toLocaleString()}
+              <Button size="sm" variant="outline-danger" className="ms-2" onClick={() => props.cursor.discardResumableUpload(upload.path)}>Discard</Button>
+            </div>
+            <ProgressBar min={0} max={upload.fileSize} now={upload.bytesUploaded} />
+            <DropFile cursor={props.cursor} path={upload.path} accept={extension} text={"Drop " + upload.fileName + " again to resume"} />
+          </div>
+        );
+      })}
+    </Alert>
+  );
+});
+
+export default MocapResumeUploadsPanel;
@@ -0,0 +1,165 @@
+import React, { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { observer } from "mobx-react-lite";
+import { Button, Spinner, Table } from "react-bootstrap";
+import MocapS3Cursor from '../../state/MocapS3Cursor';
+import SubjectDashboard from '../../state/SubjectDashboard';
+import type { TrialMetrics } from '../../state/SubjectDashboard';
+import BarChart from '../../components/BarChart';
+import type { BarChartSeries } from '../../components/BarChart';
+
+type MocapSubjectDashboardProps = {
+  cursor: MocapS3Cursor;
+  dashboard: SubjectDashboard;
+};
+
+const AUTO_COLOR = "#727cf5";
+const GOLD_COLOR = "#ffbc00";
+
+/**
+ * Formats a distance in meters as centimeters
+ */
+function formatCm(value: number | null) {
+  return value == null ? "" : (value * 100).toFixed(2) + " cm";
+}
+
+/**
+ * This charts the error of every trial in a processed subject, so a bad trial stands out without opening each one.
+ * Clicking a trial opens it in MocapTrialModal.
+ */
+const MocapSubjectDashboard = observer((props: MocapSubjectDashboardProps) => {
+  const navigate = useNavigate();
+  const dashboard = props.dashboard;
+
+  // Reload when we move to a different subject, or this one gets reprocessed
+  const subjectPath = props.cursor.rawCursor.path;
+  const resultsVersion = props.cursor.rawCursor.getChildMetadata("_results.json")?.lastModified.getTime();
+  useEffect(() => {
+    props.dashboard.load();
+  }, [props.dashboard, subjectPath, resultsVersion]);
+
+  if (dashboard.loading && dashboard.trials.length === 0) {
+    return <Spinner animation="border" />;
+  }
+
+  const trials = dashboard.trials;
+  const showTrial = (metrics: TrialMetrics) => {
+    navigate({ search: "?show-trial=" + metrics.index });
+  };
+
+  let error = null;
+  if (dashboard.error != null) {
+    error = (
+      <div className="alert alert-danger">
+        {dashboard.error}
+        <Button variant="link" size="sm" onClick={() => dashboard.load(true)}>Try again</Button>
+      </div>
+    );
+  }
+
+  if (trials.length === 0) {
+    return <>
+      {error}
+      <p>None of the trials have results yet.</p>
+    </>;
+  }
+
+  const outliers = dashboard.outliers;
+  let outlierAlert = null;
+  if (outliers.length > 0) {
+    outlierAlert = (
+      <div className="alert alert-warning">
+        <h5><i className="mdi mdi-alert me-2 vertical-middle"></i> {outliers.length === 1 ? "1 trial fits" : outliers.length + " trials fit"} much worse than the rest</h5>
+        <p className="mb-1">
+          This is often caused by mislabeled or swapped markers, or by a trial that doesn't match the rest of the session. Click a trial to look at it.
+        </p>
+        <ul className="mb-0">
+          {outliers.map((outlier) => (
+            <li key={outlier.metrics.trial}>
+              <Button variant="link" className="p-0" onClick={() => showTrial(outlier.metrics)}>{outlier.metrics.trial}</Button>
+              : {formatCm(outlier.metrics.autoAvgRMSE)} RMSE, {outlier.ratioToMedian.toFixed(1)}x the median
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const labels = trials.map((metrics) => metrics.trial);
+  const highlighted = trials.map((metrics) => dashboard.isOutlier(metrics.trial));
+  const makeSeries = (autoKey: "autoAvgRMSE" | "autoAvgMax", goldKey: "goldAvgRMSE" | "goldAvgMax") => {
+    let series: BarChartSeries[] = [{ name: "Automatic", color: AUTO_COLOR, values: trials.map((metrics) => metrics[autoKey]) }];
+    if (dashboard.hasGold) {
+      series.push({ name: "Hand-fit (gold)", color: GOLD_COLOR, values: trials.map((metrics) => metrics[goldKey]) });
+    }
+    return series;
+  };
+  const medianRMSE = dashboard.medianRMSE;
+
+  const rows = trials.map((metrics) => {
+    let comparison = null;
+    if (metrics.autoAvgRMSE != null && metrics.goldAvgRMSE != null) {
+      const difference = metrics.autoAvgRMSE - metrics.goldAvgRMSE;
+      comparison = (
+        <span className={difference <= 0 ? "text-success" : "text-danger"}>
+          {(difference <= 0 ? "" : "+") + formatCm(difference)}
+        </span>
+      );
+    }
+    return (
+      <tr key={metrics.trial} className={dashboard.isOutlier(metrics.trial) ? "table-danger" : undefined}>
+        <td>
+          <Button variant="link" className="p-0" onClick={() => showTrial(metrics)}>{metrics.trial}</Button>
+        </td>
+        <td>{formatCm(metrics.autoAvgRMSE)}</td>
+        <td>{formatCm(metrics.autoAvgMax)}</td>
+        {dashboard.hasGold ? <>
+          <td>{formatCm(metrics.goldAvgRMSE)}</td>
+          <td>{formatCm(metrics.goldAvgMax)}</td>
+          <td>{comparison}</td>
+        </> : null}
+      </tr>
+    );
+  });
+
+  return (
+    <div className="mt-2">
+      {error}
+      {outlierAlert}
+      <h5>Marker RMSE per trial</h5>
+      <BarChart
+        labels={labels}
+        series={makeSeries("autoAvgRMSE", "goldAvgRMSE")}
+        formatValue={(value) => (value * 100).toFixed(1) + " cm"}
+        highlighted={highlighted}
+        referenceLine={medianRMSE != null ? { value: medianRMSE, label: "median " + formatCm(medianRMSE) } : undefined}
+        onClickLabel={(i) => showTrial(trials[i])}
+      />
+      <h5 className="mt-3">Average max marker error per trial</h5>
+      <BarChart
+        labels={labels}
+        series={makeSeries("autoAvgMax", "goldAvgMax")}
+        formatValue={(value) => (value * 100).toFixed(1) + " cm"}
+        highlighted={highlighted}
+        onClickLabel={(i) => showTrial(trials[i])}
+      />
+      <Table responsive className="table table-centered table-nowrap mb-0 mt-3">
+        <thead className="table-light">
+          <tr>
+            <th className="border-0">Trial</th>
+            <th className="border-0">RMSE</th>
+            <th className="border-0">Max error</th>
+            {dashboard.hasGold ? <>
+              <th className="border-0">Gold RMSE</th>
+              <th className="border-0">Gold max error</th>
+              <th className="border-0">RMSE vs. gold</th>
+            </> : null}
+          </tr>
+        </thead>
+        <tbody>{rows}</tbody>
+      </Table>
+    </div>
+  );
+});
+
+export default MocapSubjectDashboard;
@@ -9,13 +9,29 @@ import {
   Spinner,
   Table,
   OverlayTrigger,
-  Tooltip
+  Tooltip,
+  Tabs,
+  Tab
 } from "react-bootstrap";
 import DropFile from "../../components/DropFile";
+import JsonConflictAlert from "../../components/JsonConflictAlert";
+import JsonLoadErrorAlert from "../../components/JsonLoadErrorAlert";
 import Dropzone from "react-dropzone";
 import MocapTrialModal from "./MocapTrialModal";
 import MocapLogModal from "./MocapLogModal";
+import MocapResumeUploadsPanel from "./MocapResumeUploadsPanel";
+import MocapSubjectDashboard from "./MocapSubjectDashboard";
+import MocapMarkerConsistencyView from "./MocapMarkerConsistencyView";
+import MocapOpenSimInspector from "./MocapOpenSimInspector";
+import C3DUploadSummaryModal from "./C3DUploadSummaryModal";
+import SubjectDashboard from '../../state/SubjectDashboard';
+import MarkerConsistency from '../../state/MarkerConsistency';
 import MocapS3Cursor from '../../state/MocapS3Cursor';
+import type { SubjectSex } from '../../state/MocapSchemas';
+import { validateC3DFile } from '../../state/C3D';
+import { validateTRCFile } from '../../state/TRC';
+import { validateIKFile, validateGRFFile } from '../../state/MOT';
+import { validateOpenSimFile } from '../../state/OpenSimModel';
 
 type ProcessingResultsJSON = {
   autoAvgMax: number;
@@ -44,7 +60,7 @@ const MocapTrialRowView = observer((props: MocapTrialRowViewProps) => {
   if (props.cursor.getShowValidationControls()) {
     manualIKRow = (
       <td>
-        <DropFile cursor={props.cursor} text={"Upload gold IK as a *.mot or *.sto"} path={"trials/" + props.name + "/manual_ik.mot"} uploadOnMount={props.uploadIK} accept=".mot,.sto" onMultipleFiles={props.onMultipleManualIK} />
+        <DropFile cursor={props.cursor} text={"Upload gold IK as a *.mot or *.sto"} path={"trials/" + props.name + "/manual_ik.mot"} uploadOnMount={props.uploadIK} accept=".mot,.sto" validateFile={validateIKFile} onMultipleFiles={props.onMultipleManualIK} />
       </td>
     );
   }
@@ -54,17 +70,17 @@ const MocapTrialRowView = observer((props: MocapTrialRowViewProps) => {
   if (trcMetadata != null || props.uploadTRC != null) {
     fileData = <>
       <td>
-        <DropFile cursor={props.cursor} path={"trials/" + props.name + "/markers.trc"} uploadOnMount={props.uploadTRC} accept=".trc,.sto" required />
+        <DropFile cursor={props.cursor} path={"trials/" + props.name + "/markers.trc"} uploadOnMount={props.uploadTRC} accept=".trc,.sto" validateFile={validateTRCFile} required />
       </td>
       <td>
-        <DropFile cursor={props.cursor} text={"Upload ground reaction forces as a *.mot or *.sto"} path={"trials/" + props.name + "/grf.mot"} uploadOnMount={props.uploadGRF} accept=".mot,.sto" onMultipleFiles={props.onMultipleGRF} />
+        <DropFile cursor={props.cursor} text={"Upload ground reaction forces as a *.mot or *.sto"} path={"trials/" + props.name + "/grf.mot"} uploadOnMount={props.uploadGRF} accept=".mot,.sto" validateFile={validateGRFFile} onMultipleFiles={props.onMultipleGRF} />
       </td>
     </>
   }
   else {
     fileData = (
       <td colSpan={2}>
-        <DropFile cursor={props.cursor} path={"trials/" + props.name + "/markers.c3d"} uploadOnMount={props.uploadC3D} accept=".c3d" required />
+        <DropFile cursor={props.cursor} path={"trials/" + props.name + "/markers.c3d"} uploadOnMount={props.uploadC3D} accept=".c3d" validateFile={validateC3DFile} required />
       </td>
     );
   }
@@ -142,8 +158,17 @@ const MocapTrialRowView = observer((props: MocapTrialRowViewProps) => {
                 </Dropdown.Item>
                 <Dropdown.Item
                   onClick={() => {
-                    props.cursor.rawCursor.deleteByPrefix("trials/" + props.name);
-                    props.cursor.rawCursor.deleteChild("trials/" + props.name);
+                    navigate({
+                      search: "?move=" + encodeURIComponent("trials/" + props.name),
+                    });
+                  }}
+                >
+                  <i className="mdi mdi-pencil me-2 text-muted vertical-middle"></i>
+                  Rename
+                </Dropdown.Item>
+                <Dropdown.Item
+                  onClick={() => {
+                    props.cursor.rawCursor.deleteFolder("trials/" + props.name);
                   }}
                 >
                   <i className="mdi mdi-delete me-2 text-muted vertical-middle"></i>
@@ -162,225 +187,15 @@ type MocapSubjectViewProps = {
   cursor: MocapS3Cursor;
 };
 
-function getChildByType(node: Node, type: string): Node | null {
-  for (let i = 0; i < node.childNodes.length; i++) {
-    let childNode = node.childNodes[i];
-    if (childNode.nodeType === Node.TEXT_NODE) {
-      // Skip these
-    }
-    else if (childNode.nodeName === type) {
-      return childNode;
-    }
-  }
-  return null;
-}
-
-function countChildrenByType(node: Node, type: string): number {
-  let count = 0;
-  for (let i = 0; i < node.childNodes.length; i++) {
-    let childNode = node.childNodes[i];
-    if (childNode.nodeType === Node.TEXT_NODE) {
-      // Skip these
-    }
-    else if (childNode.nodeName === type) {
-      count++;
-    }
-  }
-  return count;
-}
-
-function getChildrenByType(node: Node, type: string): Node[] {
-  let nodes: Node[] = [];
-  for (let i = 0; i < node.childNodes.length; i++) {
-    let childNode = node.childNodes[i];
-    if (childNode.nodeType === Node.TEXT_NODE) {
-      // Skip these
-    }
-    else if (childNode.nodeName === type) {
-      nodes.push(childNode);
-    }
-  }
-  return nodes;
-}
-
-function getNotTextChildren(node: Node): Node[] {
-  let nodes: Node[] = [];
-  for (let i = 0; i < node.childNodes.length; i++) {
-    let childNode = node.childNodes[i];
-    if (childNode.nodeType === Node.TEXT_NODE) {
-      // Skip these
-    }
-    else {
-      nodes.push(childNode);
-    }
-  }
-  return nodes;
-}
-
-function getJointError(joint: Node): string | null {
-  let jointChildren = getNotTextChildren(joint);
-  if (jointChildren.length === 1) {
-    let specificJoint = jointChildren[0];
-    if (specificJoint.nodeName === 'CustomJoint') {
-      let customJoint = specificJoint;
-
-      let spatialTransform = getChildByType(customJoint, "SpatialTransform");
-      if (spatialTransform != null) {
-        const transformChildren = getChildrenByType(spatialTransform, "TransformAxis");
-        for (let i = 0; i < transformChildren.length; i++) {
-          const transformAxis = transformChildren[i];
-
-          let func = getChildByType(transformAxis, "function");
-          // On v3 files, there is no "function" wrapper tag
-          if (func == null) {
-            func = transformAxis;
-          }
-
-          let linearFunction = getChildByType(func, "LinearFunction");
-          let simmSpline = getChildByType(func, "SimmSpline");
-          let polynomialFunction = getChildByType(func, "PolynomialFunction");
-          let constant = getChildByType(func, "Constant");
-          let multiplier = getChildByType(func, "MultiplierFunction");
-
-          if (linearFunction == null && simmSpline == null && polynomialFunction == null && constant == null && multiplier == null) {
-            console.log(spatialTransform);
-            return "This OpenSim file has a <CustomJoint> with an unsupported function type in its <TransformAxis>. Currently supported types are <LinearFunction>, <SimmSpline>, <PolynomialFunction>, <Constant>, and <MultiplierFunction>. Anything else will lead to a crash during processing.";
-          }
-        }
-      }
-      else {
-        return "This OpenSim file has a <CustomJoint> with no <SpatialTransform> tag as a child.";
-      }
-    }
-    else if (specificJoint.nodeName === 'WeldJoint') {
-      // These are fine, nothing to verify
-      // let weldJoint = getChildByType(joint, "WeldJoint");
-    }
-    else if (specificJoint.nodeName === 'PinJoint') {
-      // These are fine, nothing to verify
-      // let pinJoint = getChildByType(joint, "PinJoint");
-    }
-    else if (specificJoint.nodeName === 'UniversalJoint') {
-      // These are fine, nothing to verify
-      // let universalJoint = getChildByType(joint, "UniversalJoint");
-    }
-    else {
-      return "This OpenSim file has a Joint type we don't yet support: <" + specificJoint.nodeName + ">. The currently supported types are <CustomJoint>, <WeldJoint>, <PinJoint>, and <UniversalJoint>";
-    }
-  }
-  return null;
-}
-
-function validateOpenSimFile(file: File): Promise<null | string> {
-  return new Promise<null | string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e: any) => {
-      const text: string = e.target.result;
-      const parser = new DOMParser();
-      const xmlDoc: Document = parser.parseFromString(text, "text/xml");
-
-      let rootNode: Node = xmlDoc.getRootNode();
-      if (rootNode.nodeName === '#document') {
-        rootNode = rootNode.childNodes[0];
-      }
-      if (rootNode.nodeName !== "OpenSimDocument") {
-        resolve("Malformed *.osim file! Root node of XML file isn't an <OpenSimDocument>, instead it's <" + rootNode.nodeName + ">");
-        return;
-      }
-      const modelNode = getChildByType(rootNode, "Model");
-      if (modelNode == null) {
-        resolve("Malformed *.osim file! There isn't a <Model> tag as a child of the <OpenSimDocument>");
-        return;
-      }
-
-      const bodySet = getChildByType(modelNode, "BodySet");
-      if (bodySet == null) {
-        resolve("This OpenSim file is missing a BodySet! No <BodySet> tag found");
-        return;
-      }
-      const bodySetObjects = getChildByType(bodySet, "objects");
-      if (bodySetObjects == null) {
-        resolve("This OpenSim file is missing an <objects> child tag inside the <BodySet> tag!");
-        return;
-      }
-      const bodyNodes = getChildrenByType(bodySetObjects, "Body");
-      for (let i = 0; i < bodyNodes.length; i++) {
-        const bodyNode = bodyNodes[i];
-
-        // Check the attached geometry
-        const attachedGeometry = getChildByType(bodyNode, "attached_geometry");
-        if (attachedGeometry != null) {
-          const meshes = getChildrenByType(attachedGeometry, "Mesh");
-          for (let j = 0; j < meshes.length; j++) {
-            const mesh = meshes[j];
-            const meshFile = getChildByType(mesh, "mesh_file");
-            if (meshFile != null && meshFile.textContent != null) {
-              const meshName: string = meshFile.textContent;
-              console.log(meshName);
-            }
-          }
-        }
-
-        // Check if joints are attached, and if so check that they're supported and won't crash the backend
-        const joint = getChildByType(bodyNode, "Joint");
-        if (joint != null) {
-          const jointError = getJointError(joint);
-          if (jointError != null) {
-            resolve(jointError);
-            return;
-          }
-        }
-      }
-
-      // This can be null in newer OpenSim files
-      const jointSet = getChildByType(modelNode, "JointSet");
-      if (jointSet != null) {
-        const jointSetObjects = getChildByType(jointSet, "objects");
-        if (jointSetObjects == null) {
-          resolve("This OpenSim file is missing a <objects> tag under its <JointSet> tag.");
-          return;
-        }
-
-        const joints = getChildrenByType(jointSetObjects, "Joint");
-        for (let i = 0; i < joints.length; i++) {
-          const jointError = getJointError(joints[i]);
-          if (jointError != null) {
-            resolve(jointError);
-            return;
-          }
-        }
-      }
-
-      const markerSet = getChildByType(modelNode, "MarkerSet");
-      if (markerSet == null) {
-        console.log(rootNode);
-        resolve("This OpenSim file is missing a MarkerSet! No <MarkerSet> tag found");
-        return;
-      }
-
-      const markerSetObjects = getChildByType(markerSet, "objects");
-      if (markerSetObjects == null) {
-        resolve("You're trying to upload a file that doesn't have any markers! This OpenSim file is missing a <objects> list inside its <MarkerSet> tag");
-        return;
-      }
-
-      let numMarkers = countChildrenByType(markerSetObjects, "Marker");
-      if (numMarkers < 5) {
-        resolve("You're trying to upload a file with " + numMarkers + " <Marker> descriptions inside the <MarkerSet> tag. Please ensure you specify your whole markerset in your OpenSim files.");
-        return;
-      }
-
-      // If none of the other checks tripped, then we're good to go!
-      resolve(null);
-    }
-    reader.readAsText(file);
-  });
-}
-
 const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
   const [uploadFiles, setUploadFiles] = useState({} as { [key: string]: File; });
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showViewerHint, setShowViewerHint] = useState(false);
+  const [activeTab, setActiveTab] = useState("trials");
+  const [dashboard] = useState(() => new SubjectDashboard(props.cursor));
+  const [markerCheck] = useState(() => new MarkerConsistency(props.cursor));
+  // Bulk dropped files wait here while we check them, until the user confirms the upload
+  const [pendingBulkFiles, setPendingBulkFiles] = useState([] as File[]);
   const navigate = useNavigate();
 
   let trialViews: any[] = [];
@@ -426,20 +241,14 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
             {...props}
             accept=".c3d,.mot,.trc,.sto"
             onDrop={(acceptedFiles) => {
-              // This allows us to store that we'd like to auto-upload these files once the trials with matching names are created
-              let updatedUploadFiles = { ...uploadFiles };
-              let fileNames: string[] = [];
               for (let i = 0; i < acceptedFiles.length; i++) {
-                fileNames.push(acceptedFiles[i].name);
-                updatedUploadFiles[acceptedFiles[i].name] = acceptedFiles[i];
-
                 if (!acceptedFiles[i].name.endsWith(".c3d") && !acceptedFiles[i].name.endsWith(".trc")) {
                   alert("You can only bulk create trials with *.c3d or *.trc files. To bulk upload other types of files (like *.mot or *.sto for IK) please create the trials first, then drag a group of *.mot or *.sto files to one of the IK upload slots (doesn't matter which trial, files will be matched by name).");
                   return;
                 }
               }
-              setUploadFiles(updatedUploadFiles);
-              props.cursor.bulkCreateTrials(fileNames);
+              // We check the files before creating any trials, see C3DUploadSummaryModal
+              setPendingBulkFiles(acceptedFiles);
             }}
           >
             {({ getRootProps, getInputProps, isDragActive }) => {
@@ -465,6 +274,19 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
     );
   }
 
+  const bulkCreateTrials = (files: File[]) => {
+    setPendingBulkFiles([]);
+    // This allows us to store that we'd like to auto-upload these files once the trials with matching names are created
+    let updatedUploadFiles = { ...uploadFiles };
+    let fileNames: string[] = [];
+    for (let i = 0; i < files.length; i++) {
+      fileNames.push(files[i].name);
+      updatedUploadFiles[files[i].name] = files[i];
+    }
+    setUploadFiles(updatedUploadFiles);
+    props.cursor.bulkCreateTrials(fileNames);
+  };
+
   let showValidationControls = props.cursor.getShowValidationControls();
 
   let manuallyScaledOpensimUpload = null;
@@ -474,6 +296,7 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
       <div>
         <h5>Manually Scaled OpenSim</h5>
         <DropFile cursor={props.cursor} path={"manually_scaled.osim"} accept=".osim" validateFile={validateOpenSimFile} />
+        <MocapOpenSimInspector cursor={props.cursor} path={"manually_scaled.osim"} />
       </div>
     );
     manualIkRowHeader = (
@@ -484,11 +307,16 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
   let weightValue = props.cursor.subjectJson.getAttribute("massKg", 0.0);
   let heightValue = props.cursor.subjectJson.getAttribute("heightM", 0.0);
   let sexValue = props.cursor.subjectJson.getAttribute("sex", "unknown");
+  // Values that haven't been filled in yet default to 0, which the schema would reject if we tried to save it
+  let heightError = props.cursor.subjectJson.getValidationError("heightM");
+  if (heightError == null && heightValue < 0.1) heightError = "Humans are generally not less than 0.1 meters tall.";
+  let weightError = props.cursor.subjectJson.getValidationError("massKg");
+  if (weightError == null && weightValue < 5) weightError = "Humans are generally not less than 5 kilograms.";
 
   let autoAvgRMSE = props.cursor.resultsJson.getAttribute("autoAvgRMSE", 0.0);
-  let guessedTrackingMarkers = props.cursor.resultsJson.getAttribute("guessedTrackingMarkers", 0.0);
+  let guessedTrackingMarkers = props.cursor.resultsJson.getAttribute("guessedTrackingMarkers", false);
   let trialMarkerSets = props.cursor.resultsJson.getAttribute("trialMarkerSets", {});
-  let osimMarkers: string[] = props.cursor.resultsJson.getAttribute("osimMarkers", {});
+  let osimMarkers = props.cursor.resultsJson.getAttribute("osimMarkers", []);
 
   let status: 'done' | 'processing' | 'could-process' | 'error' | 'waiting' | 'empty' = props.cursor.getSubjectStatus();
   let statusBadge = null;
@@ -508,7 +336,7 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
 
     let warningList = [];
 
-    if (guessedTrackingMarkers == true) {
+    if (guessedTrackingMarkers) {
       let markerText = '<Marker name="RSH">';
       markerText += '\n  <socket_parent_frame>/bodyset/torso</socket_parent_frame>';
       markerText += '\n  <location> -0.03 0.42 0.15 </location>';
@@ -545,7 +373,7 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
       let shared: string[] = [];
 
       for (let key of trials) {
-        let trialMarkerSet: string[] = trialMarkerSets[key];
+        let trialMarkerSet = trialMarkerSets[key];
 
         for (let tm of trialMarkerSet) {
           if (osimMarkers.indexOf(tm) === -1) {
@@ -652,7 +480,17 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
   }
   else if (status === "could-process") {
     if (props.cursor.canEdit()) {
-      statusDetails = <Button onClick={props.cursor.markReadyForProcessing}>Process And Share</Button>;
+      // Checking the markers can take a while on a big subject, and a second click would ask to confirm twice
+      statusDetails = <Button disabled={markerCheck.loading} onClick={() => {
+        // Check the trials' markers against the model first, since a mismatch only shows up in the results otherwise
+        markerCheck.load().then(() => {
+          const warning = markerCheck.getProcessWarning();
+          if (warning != null && !window.confirm(warning)) return;
+          props.cursor.markReadyForProcessing();
+        });
+      }}>
+        {markerCheck.loading ? <><Spinner animation="border" size="sm" className="me-1" />Checking markers...</> : "Process And Share"}
+      </Button>;
     }
     else {
       statusBadge = <span className="badge bg-secondary">Waiting for owner to process</span>;
@@ -726,29 +564,18 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
               <i className="mdi mdi-help-circle-outline text-muted vertical-middle" style={{ marginLeft: '5px' }}></i>
             </OverlayTrigger>
           </label>
-          <input type="number" className={"form-control" + ((heightValue < 0.1 || heightValue > 3.0) ? " is-invalid" : "")} id="heightM" value={heightValue} onChange={(e) => {
-            props.cursor.subjectJson.setAttribute("heightM", e.target.value);
+          <input type="number" className={"form-control" + (heightError != null ? " is-invalid" : "")} id="heightM" value={isNaN(heightValue) ? "" : heightValue} onChange={(e) => {
+            props.cursor.subjectJson.setAttribute("heightM", e.target.valueAsNumber);
           }} onFocus={(e) => {
             props.cursor.subjectJson.onFocusAttribute("heightM");
           }} onBlur={(e) => {
             props.cursor.subjectJson.onBlurAttribute("heightM");
           }} />
-          {(() => {
-            if (heightValue < 0.1) {
-              return (
-                <div className="invalid-feedback">
-                  Humans are generally not less than 0.1 meters tall.
-                </div>
-              );
-            }
-            else if (heightValue > 3.0) {
-              return (
-                <div className="invalid-feedback">
-                  Humans are generally not more than 3 meters tall.
-                </div>
-              );
-            }
-          })()}
+          {heightError != null ? (
+            <div className="invalid-feedback">
+              {heightError}
+            </div>
+          ) : null}
         </div>
         <div className="col-md-4">
           <label htmlFor="weightKg" className="form-label">
@@ -765,29 +592,18 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
               <i className="mdi mdi-help-circle-outline text-muted vertical-middle" style={{ marginLeft: '5px' }}></i>
             </OverlayTrigger>
           </label>
-          <input type="number" className={"form-control" + ((weightValue < 5 || weightValue > 700) ? " is-invalid" : "")} id="weightKg" value={weightValue} onChange={(e) => {
-            props.cursor.subjectJson.setAttribute("massKg", e.target.value);
+          <input type="number" className={"form-control" + (weightError != null ? " is-invalid" : "")} id="weightKg" value={isNaN(weightValue) ? "" : weightValue} onChange={(e) => {
+            props.cursor.subjectJson.setAttribute("massKg", e.target.valueAsNumber);
           }} onFocus={(e) => {
             props.cursor.subjectJson.onFocusAttribute("massKg");
           }} onBlur={(e) => {
             props.cursor.subjectJson.onBlurAttribute("massKg");
           }} />
-          {(() => {
-            if (weightValue < 5) {
-              return (
-                <div className="invalid-feedback">
-                  Humans are generally not less than 5 kilograms.
-                </div>
-              );
-            }
-            else if (weightValue > 700) {
-              return (
-                <div className="invalid-feedback">
-                  Humans are generally not more than 700 kilograms.
-                </div>
-              );
-            }
-          })()}
+          {weightError != null ? (
+            <div className="invalid-feedback">
+              {weightError}
+            </div>
+          ) : null}
         </div>
         <div className="col-md-4">
           <label htmlFor="weightKg" className="form-label">
@@ -805,7 +621,7 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
             </OverlayTrigger>
           </label>
           <select className="form-control" id="sex" value={sexValue} onChange={(e) => {
-            props.cursor.subjectJson.setAttribute("sex", e.target.value);
+            props.cursor.subjectJson.setAttribute("sex", e.target.value as SubjectSex);
           }} onFocus={(e) => {
             props.cursor.subjectJson.onFocusAttribute("sex");
           }} onBlur={(e) => {
@@ -820,60 +636,98 @@ const MocapSubjectView = observer((props: MocapSubjectViewProps) => {
     </>
   }
 
+  let trialsView = (
+    <div>
+      <Table
+        responsive={trials.length > 2}
+        className="table table-centered table-nowrap mb-0 mt-2"
+        style={{
+          tableLayout: 'fixed',
+          width: '100%'
+        }}
+      >
+        <colgroup>
+          <col style={{ width: "20%" }} />
+          <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / (showValidationControls ? 3 : 2)) + "%" }} />
+          <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / (showValidationControls ? 3 : 2)) + "%" }} />
+          {showValidationControls ? <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / 3) + "%" }} /> : null}
+          {props.cursor.canEdit() ? (
+            <col style={{ width: "15%" }} />
+          ) : null}
+        </colgroup>
+        <thead className="table-light">
+          <tr>
+            <th className="border-0" >Trial Name</th>
+            <th className="border-0" colSpan={2}>Mocap File</th>
+            {manualIkRowHeader}
+            {props.cursor.canEdit() ? (
+              <th className="border-0">
+                Action
+              </th>
+            ) : null}
+          </tr>
+        </thead>
+        <tbody>{trialViews}</tbody>
+      </Table>
+      <Button onClick={() => navigate({ search: "?new-trial" })}>Create new trial</Button>
+      {advancedOptions}
+    </div>
+  );
+  let tabs = [];
+  if (status === "done") {
+    // Once there are results, the dashboard charts every trial's error side by side
+    tabs.push(
+      <Tab key="dashboard" eventKey="dashboard" title="Dashboard" mountOnEnter>
+        <MocapSubjectDashboard cursor={props.cursor} dashboard={dashboard} />
+      </Tab>
+    );
+  }
+  if (trials.length > 0 && props.cursor.rawCursor.getExists("unscaled_generic.osim")) {
+    tabs.push(
+      <Tab key="markers" eventKey="markers" title="Markers" mountOnEnter>
+        <MocapMarkerConsistencyView cursor={props.cursor} markerCheck={markerCheck} />
+      </Tab>
+    );
+  }
+  if (tabs.length > 0) {
+    // A tab can go away (like the dashboard, when reprocessing), so fall back to the trials
+    const shownTab = tabs.some((tab) => tab.key === activeTab) ? activeTab : "trials";
+    trialsView = (
+      <Tabs activeKey={shownTab} onSelect={(key) => setActiveTab(key ?? "trials")} className="mb-2">
+        <Tab eventKey="trials" title="Trials">
+          {trialsView}
+        </Tab>
+        {tabs}
+      </Tabs>
+    );
+  }
+
   return (
     <div className="MocapView">
       <MocapTrialModal cursor={props.cursor} />
       <MocapLogModal cursor={props.cursor} />
+      <C3DUploadSummaryModal files={pendingBulkFiles} onConfirm={bulkCreateTrials} onCancel={() => setPendingBulkFiles([])} />
       <h3>
         <i className="mdi mdi-walk me-1 text-muted vertical-middle"></i>
         Subject: {props.cursor.getCurrentFileName()}{" "}
         {/*<span className="badge bg-secondary">{"TODO"}</span>*/}
       </h3>
+      <JsonLoadErrorAlert file={props.cursor.subjectJson} />
+      <JsonLoadErrorAlert file={props.cursor.resultsJson} />
+      <JsonConflictAlert file={props.cursor.subjectJson} labels={{ massKg: "Mass (kg)", heightM: "Height (m)", sex: "Biological sex" }} />
       {header}
+      <MocapResumeUploadsPanel cursor={props.cursor} />
       <div className="mb-15">
         <h5>Unscaled OpenSim</h5>
         <DropFile cursor={props.cursor} path={"unscaled_generic.osim"} accept=".osim" validateFile={validateOpenSimFile} required />
+        <MocapOpenSimInspector cursor={props.cursor} path={"unscaled_generic.osim"} />
       </div>
       <div className="mb-15">Compare optimized skeleton with hand-scaled version: <input type="checkbox" checked={showValidationControls} onChange={(e) => {
         props.cursor.setShowValidationControls(e.target.checked);
       }} />
       </div>
       {manuallyScaledOpensimUpload}
-      <div>
-        <Table
-          responsive={trials.length > 2}
-          className="table table-centered table-nowrap mb-0 mt-2"
-          style={{
-            tableLayout: 'fixed',
-            width: '100%'
-          }}
-        >
-          <colgroup>
-            <col style={{ width: "20%" }} />
-            <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / (showValidationControls ? 3 : 2)) + "%" }} />
-            <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / (showValidationControls ? 3 : 2)) + "%" }} />
-            {showValidationControls ? <col style={{ width: ((100 - 20 - (props.cursor.canEdit() ? 15 : 0)) / 3) + "%" }} /> : null}
-            {props.cursor.canEdit() ? (
-              <col style={{ width: "15%" }} />
-            ) : null}
-          </colgroup>
-          <thead className="table-light">
-            <tr>
-              <th className="border-0" >Trial Name</th>
-              <th className="border-0" colSpan={2}>Mocap File</th>
-              {manualIkRowHeader}
-              {props.cursor.canEdit() ? (
-                <th className="border-0">
-                  Action
-                </th>
-              ) : null}
-            </tr>
-          </thead>
-          <tbody>{trialViews}</tbody>
-        </Table>
-        <Button onClick={() => navigate({ search: "?new-trial" })}>Create new trial</Button>
-        {advancedOptions}
-      </div>
+      {trialsView}
     </div>
   );
 });
@@ -0,0 +1,193 @@
+import React, { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Row, Col, Card, Form, Table, Button, Spinner } from "react-bootstrap";
+import { observer } from "mobx-react-lite";
+import PublicDatasetSearch from "../../state/PublicDatasetSearch";
+import type { SubjectSearchEntry, SubjectSearchSortKey } from "../../state/PublicDatasetSearch";
+import type { SubjectSex } from "../../state/MocapSchemas";
+
+type PublicSearchViewProps = {
+  search: PublicDatasetSearch;
+  linkPrefix: string;
+};
+
+type NumberFilterKey = "minHeightM" | "maxHeightM" | "minMassKg" | "maxMassKg" | "minMarkers" | "maxMarkers";
+
+const PublicSearchView = observer((props: PublicSearchViewProps) => {
+  const search = props.search;
+  const filters = search.filters;
+
+  useEffect(() => {
+    props.search.refresh();
+  }, [props.search]);
+
+  const numberInput = (key: NumberFilterKey, placeholder: string) => {
+    const value = filters[key];
+    return (
+      <Form.Control
+        type="number"
+        size="sm"
+        placeholder={placeholder}
+        value={value == null ? "" : value}
+        onChange={(e) => {
+          const target = e.target as HTMLInputElement;
+          search.setFilter(key, isNaN(target.valueAsNumber) ? null : target.valueAsNumber);
+        }}
+      />
+    );
+  };
+
+  const rangeFilter = (label: string, minKey: NumberFilterKey, maxKey: NumberFilterKey) => (
+    <Form.Group className="mb-3">
+      <Form.Label>{label}</Form.Label>
+      <Row className="g-1">
+        <Col>{numberInput(minKey, "Min")}</Col>
+        <Col>{numberInput(maxKey, "Max")}</Col>
+      </Row>
+    </Form.Group>
+  );
+
+  const sortableHeader = (key: SubjectSearchSortKey, label: string) => (
+    <th className="border-0" style={{ cursor: "pointer" }} onClick={() => search.setSort(key)}>
+      {label}
+      {search.sortKey === key ? (
+        <i className={"mdi ms-1 " + (search.sortAscending ? "mdi-arrow-up" : "mdi-arrow-down")}></i>
+      ) : null}
+    </th>
+  );
+
+  const results = search.results;
+  let rows = results.map((entry: SubjectSearchEntry) => (
+    <tr key={entry.path}>
+      <td>
+        <Link to={"/" + props.linkPrefix + "/" + encodeURI(entry.path)} className="text-reset fw-semibold">
+          <i className="mdi mdi-walk me-1 text-muted vertical-middle"></i>
+          {entry.name}
+        </Link>
+      </td>
+      <td>
+        {entry.dataset != null ? (
+          <Link to={"/" + props.linkPrefix + "/" + encodeURI(entry.dataset)} className="text-reset">
+            {entry.dataset}
+          </Link>
+        ) : null}
+      </td>
+      <td>{entry.sex}</td>
+      <td>{entry.heightM != null ? entry.heightM.toFixed(2) + " m" : ""}</td>
+      <td>{entry.massKg != null ? entry.massKg.toFixed(1) + " kg" : ""}</td>
+      <td>{entry.numTrials}</td>
+      <td>{entry.markerCount ?? ""}</td>
+      <td>{entry.hasGRF ? <i className="mdi mdi-check"></i> : null}</td>
+      <td>{entry.hasGoldIK ? <i className="mdi mdi-check"></i> : null}</td>
+      <td>{entry.autoAvgRMSE != null ? (entry.autoAvgRMSE * 100).toFixed(2) + " cm" : ""}</td>
+    </tr>
+  ));
+  if (rows.length === 0) {
+    rows.push(
+      <tr key="empty">
+        <td colSpan={10}>
+          {search.loading ? <Spinner animation="border" /> : (search.entries.length === 0 ? "There aren't any public subjects yet." : "No subjects match your filters.")}
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <Row className="mt-3">
+      <Col md="12">
+        <Card className="mt-4">
+          <Card.Body>
+            <div className="page-aside-left">
+              <Form.Group className="mb-3">
+                <Form.Control
+                  type="text"
+                  placeholder="Search by name..."
+                  value={filters.text}
+                  onChange={(e) => search.setFilter("text", e.target.value)}
+                />
+              </Form.Group>
+              <Form.Group className="mb-3">
+                <Form.Label>Biological sex</Form.Label>
+                <Form.Select
+                  size="sm"
+                  value={filters.sex}
+                  onChange={(e) => search.setFilter("sex", e.target.value as SubjectSex | "any")}
+                >
+                  <option value="any">Any</option>
+                  <option value="male">Male</option>
+                  <option value="female">Female</option>
+                  <option value="unknown">Unknown</option>
+                </Form.Select>
+              </Form.Group>
+              {rangeFilter("Height (m)", "minHeightM", "maxHeightM")}
+              {rangeFilter("Mass (kg)", "minMassKg", "maxMassKg")}
+              {rangeFilter("Markers", "minMarkers", "maxMarkers")}
+              <Form.Group className="mb-3">
+                <Form.Label>Max RMSE (cm)</Form.Label>
+                <Form.Control
+                  type="number"
+                  size="sm"
+                  value={filters.maxRMSE == null ? "" : filters.maxRMSE * 100}
+                  onChange={(e) => {
+                    const target = e.target as HTMLInputElement;
+                    search.setFilter("maxRMSE", isNaN(target.valueAsNumber) ? null : target.valueAsNumber / 100);
+                  }}
+                />
+              </Form.Group>
+              <Form.Check
+                className="mb-2"
+                type="checkbox"
+                id="require-grf"
+                label="Has ground reaction forces"
+                checked={filters.requireGRF}
+                onChange={(e) => search.setFilter("requireGRF", e.target.checked)}
+              />
+              <Form.Check
+                className="mb-3"
+                type="checkbox"
+                id="require-gold-ik"
+                label="Has hand-fit (gold) IK"
+                checked={filters.requireGoldIK}
+                onChange={(e) => search.setFilter("requireGoldIK", e.target.checked)}
+              />
+              <Button size="sm" variant="light" onClick={() => search.clearFilters()}>
+                Clear filters
+              </Button>
+            </div>
+            <div className="page-aside-right">
+              <div className="d-flex justify-content-between align-items-center mb-2">
+                <div>
+                  {results.length} of {search.entries.length} subjects
+                </div>
+                <Button size="sm" variant="light" disabled={search.loading} onClick={() => search.refresh()}>
+                  <i className="mdi mdi-refresh me-1"></i>
+                  Refresh
+                </Button>
+              </div>
+              {search.error != null ? <div className="text-danger mb-2">{search.error}</div> : null}
+              <Table responsive className="table table-centered table-nowrap mb-0">
+                <thead className="table-light">
+                  <tr>
+                    {sortableHeader("name", "Name")}
+                    {sortableHeader("dataset", "Dataset")}
+                    {sortableHeader("sex", "Sex")}
+                    {sortableHeader("heightM", "Height")}
+                    {sortableHeader("massKg", "Mass")}
+                    {sortableHeader("numTrials", "Trials")}
+                    {sortableHeader("markerCount", "Markers")}
+                    <th className="border-0">GRF</th>
+                    <th className="border-0">Gold IK</th>
+                    {sortableHeader("autoAvgRMSE", "RMSE")}
+                  </tr>
+                </thead>
+                <tbody>{rows}</tbody>
+              </Table>
+            </div>
+          </Card.Body>
+        </Card>
+      </Col>
+    </Row>
+  );
+});
+
+export default PublicSearchView;
@@ -0,0 +1,10 @@
+/// The errors we throw on purpose extend this, rather than Error itself. When we're compiled down to ES5, subclasses
+/// of Error come out as plain Errors, so `instanceof` wouldn't work on them without fixing up the prototype.
+class BaseError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+export default BaseError;
@@ -0,0 +1,182 @@
+import type MocapS3Cursor from './MocapS3Cursor';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import { makeStorage, makeCursor } from './testUtils';
+
+// Processing emails go to this user
+const OPTIONS = { email: "me@example.com" };
+
+/**
+ * @returns The files for a subject that's ready to be processed, under `path`
+ */
+function makeSubject(path: string, subject: any = { massKg: 60, heightM: 1.7 }) {
+    return {
+        [path + "/_subject.json"]: JSON.stringify(subject),
+        [path + "/unscaled_generic.osim"]: "osim",
+        [path + "/trials/walk/markers.c3d"]: "c3d"
+    };
+}
+
+function readJson(storage: InMemoryStorageProvider, path: string) {
+    return (storage.objects.get(path) as any).contents.text().then((text: string) => JSON.parse(text));
+}
+
+test("process all keeps an edit made to a subject while we were adding the email", async () => {
+    const storage = makeStorage(makeSubject("data/lab/subject1"));
+    const cursor = await makeCursor(storage, "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('process');
+
+    // Someone changes the mass in another tab, right after we've downloaded the file
+    const download = storage.download;
+    let edited = false;
+    storage.download = (path: string) => {
+        const contents = download(path);
+        if (!edited && path === "data/lab/subject1/_subject.json") {
+            edited = true;
+            storage.upload(path, JSON.stringify({ massKg: 65, heightM: 1.7 }), () => { });
+        }
+        return contents;
+    };
+    await cursor.batchProcessing.run();
+
+    expect(await readJson(storage, "data/lab/subject1/_subject.json")).toEqual({ massKg: 65, heightM: 1.7, email: "me@example.com" });
+    expect(storage.objects.has("data/lab/subject1/READY_TO_PROCESS")).toBeTruthy();
+    expect(cursor.batchProcessing.entries[0].result).toBe('done');
+});
+
+const FOLDER = {
+    ...makeSubject("data/lab/ready"),
+    ...makeSubject("data/lab/nomass", { heightM: 1.7 }),
+    "data/lab/notrials/_subject.json": JSON.stringify({ massKg: 60, heightM: 1.7 }),
+    "data/lab/notrials/unscaled_generic.osim": "osim",
+    ...makeSubject("data/lab/waiting"),
+    "data/lab/waiting/READY_TO_PROCESS": "",
+    ...makeSubject("data/lab/processing"),
+    "data/lab/processing/READY_TO_PROCESS": "",
+    "data/lab/processing/PROCESSING": "",
+    ...makeSubject("data/lab/failed"),
+    "data/lab/failed/READY_TO_PROCESS": "",
+    "data/lab/failed/ERROR": "",
+    ...makeSubject("data/lab/done"),
+    "data/lab/done/READY_TO_PROCESS": "",
+    "data/lab/done/log.txt": "log",
+    "data/lab/done/_results.json": "{}"
+};
+
+/**
+ * @returns The first reason each subject in the plan is skipped, or null if it's eligible
+ */
+function getPlannedReasons(cursor: MocapS3Cursor) {
+    let reasons: { [path: string]: string | null } = {};
+    cursor.batchProcessing.entries.forEach((entry) => {
+        reasons[entry.path] = entry.eligible ? null : entry.reasons[0];
+    });
+    return reasons;
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("the process all preview says why each subject gets skipped", async () => {
+    const cursor = await makeCursor(makeStorage(FOLDER), "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('process');
+
+    expect(cursor.batchProcessing.status).toBe('planned');
+    expect(getPlannedReasons(cursor)).toEqual({
+        "done": "It's already been processed. Use \"Reprocess all\" to run it again.",
+        "failed": "It already failed to process. Use \"Reprocess all\" to try it again.",
+        "nomass": "Its mass hasn't been filled in",
+        "notrials": "It doesn't have any trials yet",
+        "processing": "It's being processed right now",
+        "ready": null,
+        "waiting": "It's already waiting for a processing server"
+    });
+    expect(cursor.batchProcessing.eligibleCount).toBe(1);
+});
+
+test("the reprocess all preview only picks subjects that have been processed", async () => {
+    const cursor = await makeCursor(makeStorage(FOLDER), "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('reprocess');
+
+    const reasons = getPlannedReasons(cursor);
+    expect(reasons["done"]).toBeNull();
+    expect(reasons["failed"]).toBeNull();
+    expect(reasons["ready"]).toBe("It hasn't been processed yet. Use \"Process all\" instead.");
+    expect(reasons["processing"]).toBe("It's being processed right now");
+    expect(cursor.batchProcessing.eligibleCount).toBe(2);
+});
+
+test("running skips a subject that changed after the preview", async () => {
+    const storage = makeStorage({ ...makeSubject("data/lab/subject1"), ...makeSubject("data/lab/subject2") });
+    const cursor = await makeCursor(storage, "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('process');
+    expect(cursor.batchProcessing.eligibleCount).toBe(2);
+
+    // Someone processes subject2 on its own, in another tab
+    await cursor.rawCursor.index.upload("data/lab/subject2/READY_TO_PROCESS", "");
+    await cursor.batchProcessing.run();
+
+    const [subject1, subject2] = cursor.batchProcessing.entries;
+    expect(subject1.result).toBe('done');
+    expect(subject2.result).toBe('skipped');
+    expect(subject2.reasons[0]).toBe("It changed since the preview. It's already waiting for a processing server");
+    // We didn't touch its "_subject.json"
+    expect(await readJson(storage, "data/lab/subject2/_subject.json")).toEqual({ massKg: 60, heightM: 1.7 });
+    expect(cursor.batchProcessing.status).toBe('done');
+});
+
+test("running from a different folder than the preview does nothing", async () => {
+    const storage = makeStorage(makeSubject("data/lab/subject1"));
+    const cursor = await makeCursor(storage, "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('process');
+
+    cursor.setUrlPath("/my_data/lab/subject1");
+    await cursor.batchProcessing.run();
+
+    expect(cursor.batchProcessing.error).not.toBeNull();
+    expect(storage.objects.has("data/lab/subject1/READY_TO_PROCESS")).toBeFalsy();
+});
+
+test("process all is undone in one step, and leaves alone subjects a server has picked up", async () => {
+    const storage = makeStorage({ ...makeSubject("data/lab/subject1"), ...makeSubject("data/lab/subject2") });
+    const cursor = await makeCursor(storage, "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('process');
+    await cursor.batchProcessing.run();
+    expect(storage.objects.has("data/lab/subject1/READY_TO_PROCESS")).toBeTruthy();
+    expect(storage.objects.has("data/lab/subject2/READY_TO_PROCESS")).toBeTruthy();
+    expect(cursor.rawCursor.journal.getUndoDescription()).toBe("Process 2 subjects");
+
+    // A server starts on subject2 before the user changes their mind
+    await cursor.rawCursor.index.upload("data/lab/subject2/PROCESSING", "");
+    await cursor.rawCursor.journal.undo();
+
+    expect(storage.objects.has("data/lab/subject1/READY_TO_PROCESS")).toBeFalsy();
+    expect(storage.objects.has("data/lab/subject2/READY_TO_PROCESS")).toBeTruthy();
+    expect(cursor.rawCursor.journal.undoStack.length).toBe(0);
+});
+
+test("reprocess all clears every subject's results, and undoing puts them all back", async () => {
+    const storage = makeStorage(FOLDER);
+    const cursor = await makeCursor(storage, "/my_data/lab", OPTIONS);
+    await cursor.batchProcessing.plan('reprocess');
+    await cursor.batchProcessing.run();
+
+    expect(storage.objects.has("data/lab/done/_results.json")).toBeFalsy();
+    expect(storage.objects.has("data/lab/done/log.txt")).toBeFalsy();
+    expect(storage.objects.has("data/lab/failed/ERROR")).toBeFalsy();
+    // Only the results go, so the server picks them straight back up
+    expect(storage.objects.has("data/lab/done/READY_TO_PROCESS")).toBeTruthy();
+    expect(cursor.batchProcessing.entries.filter((entry) => entry.result === 'done').map((entry) => entry.path)).toEqual(["done", "failed"]);
+    expect(cursor.rawCursor.journal.getUndoDescription()).toBe("Reprocess 2 subjects");
+
+    await cursor.rawCursor.journal.undo();
+
+    expect(storage.objects.has("data/lab/done/_results.json")).toBeTruthy();
+    expect(storage.objects.has("data/lab/done/log.txt")).toBeTruthy();
+    expect(storage.objects.has("data/lab/failed/ERROR")).toBeTruthy();
+});
@@ -0,0 +1,285 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type MocapS3Cursor from './MocapS3Cursor';
+import { subjectJsonSchema } from './MocapSchemas';
+import * as yup from 'yup';
+import { forEachInBatches } from '../utils';
+import { VersionMismatchError } from './StorageProvider';
+
+/// We download (or update) this many subjects at a time
+const BATCH_SIZE = 8;
+
+/// How many times we'll re-read a "_subject.json" and try again, if someone else edits it while we're adding the email
+const MAX_SUBJECT_WRITE_ATTEMPTS = 3;
+
+/// The files that hold the results of processing a subject. Deleting them is what asks for it to be processed again.
+const RESULT_FILES = ["log.txt", "_results.json", "ERROR", "PROCESSING"];
+
+/// "process" marks every subject that's never been processed as ready, and "reprocess" clears the results of every
+/// subject that has been, so the server runs them again
+type BatchAction = 'process' | 'reprocess';
+
+/// One subject in the batch, and what happened (or will happen) to it
+type BatchEntry = {
+    // Relative to the cursor
+    path: string;
+    eligible: boolean;
+    // Why the subject is being skipped, if it isn't eligible
+    reasons: string[];
+    result: 'pending' | 'done' | 'skipped' | 'failed';
+    error: string | null;
+};
+
+/**
+ * @returns The reasons a subject with `status` can't have `batchAction` done to it, or [] if it can
+ */
+function getStatusReasons(batchAction: BatchAction, status: string): string[] {
+    if (status === 'waiting') return ["It's already waiting for a processing server"];
+    if (status === 'processing') return ["It's being processed right now"];
+    if (batchAction === 'process') {
+        if (status === 'done') return ["It's already been processed. Use \"Reprocess all\" to run it again."];
+        if (status === 'error') return ["It already failed to process. Use \"Reprocess all\" to try it again."];
+    }
+    else if (status === 'could-process') {
+        return ["It hasn't been processed yet. Use \"Process all\" instead."];
+    }
+    return [];
+}
+
+/// This processes (or reprocesses) every subject under a folder at once, rather than one subject at a time. It starts
+/// with a dry run, plan(), that checks each subject the same way markReadyForProcessing() does and says which ones will
+/// be skipped and why. Nothing changes until run().
+class BatchProcessing {
+    cursor: MocapS3Cursor;
+    batchAction: BatchAction;
+    // The folder being processed, relative to the global prefix of the index
+    folderPath: string | null;
+    status: 'idle' | 'planning' | 'planned' | 'running' | 'done';
+    entries: BatchEntry[];
+    error: string | null;
+
+    constructor(cursor: MocapS3Cursor) {
+        this.cursor = cursor;
+        this.batchAction = 'process';
+        this.folderPath = null;
+        this.status = 'idle';
+        this.entries = [];
+        this.error = null;
+
+        makeObservable(this, {
+            batchAction: observable,
+            folderPath: observable,
+            status: observable,
+            entries: observable,
+            error: observable,
+            eligibleCount: computed
+        });
+    }
+
+    /**
+     * @returns The number of subjects the batch would change
+     */
+    get eligibleCount() {
+        return this.entries.filter((entry) => entry.eligible).length;
+    }
+
+    /**
+     * This checks a subject's files and its "_subject.json", without changing anything.
+     *
+     * @returns The reasons the subject can't be processed, or [] if it can
+     */
+    checkSubject = (batchAction: BatchAction, path: string): Promise<string[]> => {
+        const missing = this.cursor.getMissingSubjectFiles(path);
+        if (missing.length > 0) {
+            return Promise.resolve(["It doesn't have " + missing.join(", ") + " yet"]);
+        }
+        const statusReasons = getStatusReasons(batchAction, this.cursor.getSubjectStatus(path));
+        if (statusReasons.length > 0) {
+            return Promise.resolve(statusReasons);
+        }
+        if (!this.cursor.rawCursor.getExists(path + "/_subject.json")) {
+            return Promise.resolve(["It doesn't have a mass or height yet"]);
+        }
+        return this.cursor.rawCursor.downloadText(path + "/_subject.json").then((text: string) => {
+            const subject = JSON.parse(text);
+            let reasons: string[] = [];
+            // These default to 0 in the UI, which means they haven't been filled in
+            if (!subject.massKg) reasons.push("Its mass hasn't been filled in");
+            if (!subject.heightM) reasons.push("Its height hasn't been filled in");
+            return subjectJsonSchema.validate(subject, { abortEarly: false }).then(() => reasons).catch((e: any) => {
+                if (e instanceof yup.ValidationError) return reasons.concat(e.errors);
+                throw e;
+            });
+        }).catch((e: any) => {
+            console.warn("Unable to check \"" + path + "/_subject.json\" for batch processing", e);
+            return ["We couldn't read its \"_subject.json\""];
+        });
+    };
+
+    /**
+     * This is the dry run. It finds every subject under the current folder, and works out which of them `batchAction`
+     * would apply to.
+     */
+    plan = action((batchAction: BatchAction) => {
+        this.batchAction = batchAction;
+        this.folderPath = this.cursor.rawCursor.path;
+        this.status = 'planning';
+        this.entries = [];
+        this.error = null;
+        const folderPath = this.folderPath;
+
+        let entries: BatchEntry[] = [];
+        const checkSubject = (path: string) => this.checkSubject(batchAction, path).then((reasons: string[]) => {
+            entries.push({ path, eligible: reasons.length === 0, reasons, result: 'pending', error: null });
+        });
+
+        // In lazy mode, the index only has the parts of the folder someone has looked at
+        return this.cursor.rawCursor.index.loadSubtree(folderPath).then(() => {
+            return forEachInBatches(this.cursor.getSubjectsUnder(), BATCH_SIZE, checkSubject);
+        }).then(action(() => {
+            // Don't clobber a newer plan, if someone started one for a different folder in the meantime
+            if (this.folderPath !== folderPath || this.batchAction !== batchAction) return;
+            this.entries = entries.sort((a, b) => a.path.localeCompare(b.path));
+            this.status = 'planned';
+        })).catch(action((e: any) => {
+            console.error("Error loading \"" + folderPath + "\" for batch processing", e);
+            if (this.folderPath !== folderPath || this.batchAction !== batchAction) return;
+            this.error = "We got an error trying to list the subjects in this folder!";
+            this.status = 'idle';
+        }));
+    });
+
+    /**
+     * This does the batch action to every eligible subject from the dry run. We check each subject's status again
+     * first, in case it changed since the dry run.
+     */
+    run = action(() => {
+        if (this.status !== 'planned') return Promise.resolve();
+        if (this.folderPath !== this.cursor.rawCursor.path) {
+            this.error = "You've moved to a different folder since the preview. Please run the preview again.";
+            return Promise.resolve();
+        }
+        this.status = 'running';
+
+        const eligible = this.entries.filter((entry) => entry.eligible);
+        this.entries.forEach((entry) => {
+            if (!entry.eligible) entry.result = 'skipped';
+        });
+        eligible.forEach((entry) => {
+            const reasons = getStatusReasons(this.batchAction, this.cursor.getSubjectStatus(entry.path));
+            if (reasons.length > 0) {
+                entry.result = 'skipped';
+                entry.reasons = ["It changed since the preview. " + reasons[0]];
+            }
+        });
+        const toChange = eligible.filter((entry) => entry.result === 'pending');
+
+        let work: Promise<void>;
+        if (this.batchAction === 'reprocess') {
+            work = this.reprocessSubjects(toChange);
+        }
+        else {
+            work = forEachInBatches(toChange, BATCH_SIZE, this.processSubject).then(() => this.recordProcessedSubjects(toChange.filter((entry) => entry.result === 'done')));
+        }
+        return work.then(action(() => {
+            this.status = 'done';
+        }));
+    });
+
+    /**
+     * This does what markReadyForProcessing() does, for one subject. It never rejects, so one failure doesn't stop
+     * the rest of the batch.
+     *
+     * This goes straight to the index, rather than through the journal, so the whole batch can be undone in one step
+     * (see recordProcessedSubjects()). The "_subject.json" write is conditional, like ReactiveJsonFile's, so we don't
+     * overwrite an edit someone is making to the subject in another tab.
+     */
+    processSubject = (entry: BatchEntry): Promise<void> => {
+        const rawCursor = this.cursor.rawCursor;
+        const subjectPath = rawCursor.getChildPath(entry.path + "/_subject.json");
+        const addEmail = (attemptsLeft: number): Promise<void> => {
+            // We get the version before the contents, so if someone writes in between, our write fails and we start again
+            return rawCursor.index.getVersion(subjectPath).then((version: string | null) => {
+                return rawCursor.index.downloadText(subjectPath).then((text: string) => {
+                    // downloadText() gives us an empty string if the download failed
+                    if (version == null || text.trim() === '') {
+                        throw new Error("We couldn't read \"" + entry.path + "/_subject.json\"");
+                    }
+                    // The server emails this address when processing finishes
+                    const subject = JSON.parse(text);
+                    if (subject.email === this.cursor.userEmail) return;
+                    return rawCursor.index.uploadIfVersion(subjectPath, JSON.stringify({ ...subject, email: this.cursor.userEmail }), version).then(() => { });
+                });
+            }).catch((e: any) => {
+                if (!(e instanceof VersionMismatchError) || attemptsLeft <= 1) throw e;
+                return addEmail(attemptsLeft - 1);
+            });
+        };
+        return addEmail(MAX_SUBJECT_WRITE_ATTEMPTS).then(() => {
+            return rawCursor.index.upload(rawCursor.getChildPath(entry.path + "/READY_TO_PROCESS"), "");
+        }).then(action(() => {
+            entry.result = 'done';
+        })).catch(action((e: any) => {
+            console.error("Error marking \"" + entry.path + "\" ready for processing", e);
+            entry.result = 'failed';
+            entry.error = e instanceof Error ? e.message : String(e);
+        }));
+    };
+
+    /**
+     * This records every subject that processSubject() marked ready as one operation in the journal. Undoing it takes
+     * the subjects back out of the processing queue, unless a server has already picked them up. We leave the email
+     * in their "_subject.json" files alone, since it's only used to tell the user when processing is done.
+     */
+    recordProcessedSubjects = (entries: BatchEntry[]) => {
+        if (entries.length === 0) return;
+        const rawCursor = this.cursor.rawCursor;
+        const index = rawCursor.index;
+        const subjectPaths = entries.map((entry) => rawCursor.getChildPath(entry.path));
+        const isWaiting = (path: string) => index.getMetadata(path + "/READY_TO_PROCESS") != null && index.getMetadata(path + "/PROCESSING") == null;
+        rawCursor.journal.record({
+            description: "Process " + entries.length + " subject" + (entries.length === 1 ? "" : "s"),
+            undo: () => Promise.all(subjectPaths.filter(isWaiting).map((path) => index.delete(path + "/READY_TO_PROCESS"))).then(() => { }),
+            redo: () => Promise.all(subjectPaths.map((path) => index.upload(path + "/READY_TO_PROCESS", ""))).then(() => { }),
+            timestamp: Date.now()
+        });
+    };
+
+    /**
+     * This does what requestReprocessSubject() does, for every subject at once, so it can all be undone in one step.
+     */
+    reprocessSubjects = (entries: BatchEntry[]): Promise<void> => {
+        if (entries.length === 0) return Promise.resolve();
+        let paths: string[] = [];
+        entries.forEach((entry) => {
+            RESULT_FILES.forEach((file) => {
+                const path = this.cursor.rawCursor.getChildPath(entry.path + "/" + file);
+                if (this.cursor.rawCursor.index.getMetadata(path) != null) paths.push(path);
+            });
+        });
+        const description = "Reprocess " + entries.length + " subject" + (entries.length === 1 ? "" : "s");
+        return this.cursor.rawCursor.journal.deleteFiles(this.cursor.rawCursor.index, paths, description).then(action(() => {
+            entries.forEach((entry) => {
+                entry.result = 'done';
+            });
+        })).catch(action((e: any) => {
+            console.error("Error clearing results to reprocess subjects", e);
+            entries.forEach((entry) => {
+                entry.result = 'failed';
+                entry.error = e instanceof Error ? e.message : String(e);
+            });
+        }));
+    };
+
+    /**
+     * This forgets the last batch, so the next one starts with a fresh dry run
+     */
+    reset = action(() => {
+        this.status = 'idle';
+        this.folderPath = null;
+        this.entries = [];
+        this.error = null;
+    });
+}
+
+export type { BatchAction, BatchEntry };
+export default BatchProcessing;
@@ -0,0 +1,217 @@
+import { parseC3D, getC3DError, getC3DWarnings, C3DParseError } from './C3D';
+
+const PROCESSORS = { intel: 84, dec: 85, mips: 86 };
+
+type Processor = keyof typeof PROCESSORS;
+
+/// A parameter to write into a test file. Strings are padded out to the longest one, like real files.
+type TestParameter = {
+    group: string;
+    name: string;
+    values: number[] | string[];
+    // 2 for 16 bit integers or 4 for floats. Ignored for strings.
+    type?: number;
+};
+
+/// This writes bytes in whichever byte order and float format a processor type uses
+class ByteWriter {
+    bytes: number[] = [];
+    processor: Processor;
+
+    constructor(processor: Processor) {
+        this.processor = processor;
+    }
+
+    uint8 = (value: number) => {
+        this.bytes.push(value & 0xff);
+    };
+
+    int16 = (value: number) => {
+        const word = value & 0xffff;
+        if (this.processor === 'mips') this.bytes.push(word >> 8, word & 0xff);
+        else this.bytes.push(word & 0xff, word >> 8);
+    };
+
+    float32 = (value: number) => {
+        const view = new DataView(new ArrayBuffer(4));
+        if (this.processor !== 'dec') {
+            view.setFloat32(0, value, this.processor === 'intel');
+            for (let i = 0; i < 4; i++) this.bytes.push(view.getUint8(i));
+            return;
+        }
+        // A VAX F float has the same bits as an IEEE float with an exponent 2 higher, with its two words swapped
+        view.setFloat32(0, value);
+        let bits = view.getUint32(0);
+        if (value !== 0) bits = (bits + (2 << 23)) >>> 0;
+        const high = bits >>> 16;
+        const low = bits & 0xffff;
+        this.bytes.push(high & 0xff, high >> 8, low & 0xff, low >> 8);
+    };
+
+    ascii = (text: string) => {
+        for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i));
+    };
+
+    padToBlock = () => {
+        while (this.bytes.length % 512 !== 0) this.bytes.push(0);
+    };
+}
+
+/**
+ * This writes a small C3D file with float marker data. Each frame has [x, y, z] for each marker, or null where the
+ * marker wasn't seen.
+ *
+ * @param numFrames How many frames the header claims, which defaults to the number of frames written
+ */
+function makeC3D(processor: Processor, labels: string[], frames: (number[] | null)[][], extraParameters: TestParameter[] = [], numFrames: number = frames.length): ArrayBuffer {
+    const groups = ['POINT', 'ANALOG', 'TRIAL'];
+    let parameters: TestParameter[] = [
+        { group: 'POINT', name: 'USED', values: [labels.length], type: 2 },
+        { group: 'POINT', name: 'SCALE', values: [-1], type: 4 },
+        { group: 'POINT', name: 'RATE', values: [120], type: 4 },
+        { group: 'POINT', name: 'UNITS', values: ['mm'] },
+        { group: 'POINT', name: 'LABELS', values: labels },
+        ...extraParameters
+    ];
+    // The data starts after the header block and the parameter blocks, which we don't know the size of yet
+    parameters.push({ group: 'POINT', name: 'DATA_START', values: [0], type: 2 });
+
+    const writeParameters = (dataStart: number) => {
+        const section = new ByteWriter(processor);
+        section.bytes.push(1, 0x50, 0, PROCESSORS[processor]);
+        const records: ByteWriter[] = [];
+        groups.forEach((group, i) => {
+            const record = new ByteWriter(processor);
+            record.uint8(group.length);
+            record.uint8(-(i + 1));
+            record.ascii(group);
+            record.int16(3);
+            record.uint8(0);
+            records.push(record);
+        });
+        parameters.forEach((parameter) => {
+            const record = new ByteWriter(processor);
+            record.uint8(parameter.name.length);
+            record.uint8(groups.indexOf(parameter.group) + 1);
+            record.ascii(parameter.name);
+            const rest = new ByteWriter(processor);
+            const values = parameter.name === 'DATA_START' ? [dataStart] : parameter.values;
+            if (typeof values[0] === 'string') {
+                const strings = values as string[];
+                const length = Math.max(1, ...strings.map((value) => value.length));
+                rest.uint8(-1);
+                rest.uint8(2);
+                rest.uint8(length);
+                rest.uint8(strings.length);
+                strings.forEach((value) => rest.ascii(value.padEnd(length, ' ')));
+            }
+            else {
+                const type = parameter.type ?? 2;
+                rest.uint8(type);
+                rest.uint8(1);
+                rest.uint8(values.length);
+                (values as number[]).forEach((value) => type === 4 ? rest.float32(value) : rest.int16(value));
+            }
+            rest.uint8(0);
+            record.int16(rest.bytes.length + 2);
+            record.bytes.push(...rest.bytes);
+            records.push(record);
+        });
+        records.forEach((record) => section.bytes.push(...record.bytes));
+        // A zero length name ends the list
+        section.bytes.push(0, 0);
+        section.padToBlock();
+        section.bytes[2] = section.bytes.length / 512;
+        return section;
+    };
+    const numParameterBlocks = writeParameters(0).bytes.length / 512;
+    const dataStart = 2 + numParameterBlocks;
+
+    const file = new ByteWriter(processor);
+    file.uint8(2);
+    file.uint8(0x50);
+    file.int16(labels.length);
+    file.int16(0);
+    file.int16(1);
+    file.int16(Math.min(numFrames, 65535));
+    file.int16(0);
+    file.float32(-1);
+    file.int16(dataStart);
+    file.int16(0);
+    file.float32(120);
+    file.padToBlock();
+    file.bytes.push(...writeParameters(dataStart).bytes);
+    frames.forEach((frame) => {
+        frame.forEach((point) => {
+            if (point == null) {
+                [0, 0, 0, -1].forEach(file.float32);
+            }
+            else {
+                [...point, 0.5].forEach(file.float32);
+            }
+        });
+    });
+    return new Uint8Array(file.bytes).buffer;
+}
+
+const LABELS = ['RASI', 'LASI', 'RKNE'];
+const FRAMES = [
+    [[100.5, -20.25, 950], [-100.5, -20.25, 950], null],
+    [[101.5, -20.25, 951], null, null],
+    [[102.5, -20.25, 952], [-102.5, -20.25, 952], [150, 10, 500]]
+];
+
+(['intel', 'dec', 'mips'] as Processor[]).forEach((processor) => {
+    test("reads C3D files written by " + processor + " processors", () => {
+        const c3d = parseC3D(makeC3D(processor, LABELS, FRAMES));
+
+        expect(c3d.processor).toBe(processor);
+        expect(c3d.pointLabels).toEqual(LABELS);
+        expect(c3d.pointUnits).toBe('mm');
+        expect(c3d.frameRate).toBe(120);
+        expect(c3d.pointScale).toBe(-1);
+        expect(c3d.numFrames).toBe(3);
+        expect(c3d.framesRead).toBe(3);
+        expect(c3d.missingFrames).toEqual([0, 1, 2]);
+        expect(getC3DError(c3d)).toBeNull();
+        expect(getC3DWarnings(c3d)).toEqual(["These markers are missing from most frames: RKNE"]);
+    });
+});
+
+test("reads marker labels past the end of POINT:LABELS from POINT:LABELS2", () => {
+    const c3d = parseC3D(makeC3D('intel', ['RASI', 'LASI'], [[[1, 2, 3], [4, 5, 6], [7, 8, 9]]], [
+        { group: 'POINT', name: 'LABELS2', values: ['RKNE'] },
+        // POINT:USED counts the labels in both
+        { group: 'POINT', name: 'USED', values: [3], type: 2 }
+    ]));
+
+    expect(c3d.pointLabels).toEqual(['RASI', 'LASI', 'RKNE']);
+    expect(c3d.missingFrames).toEqual([0, 0, 0]);
+});
+
+test("counts frames past the 65535 the header has room for from the TRIAL group", () => {
+    const c3d = parseC3D(makeC3D('intel', LABELS, FRAMES, [
+        // 70000 frames, as two 16 bit words
+        { group: 'TRIAL', name: 'ACTUAL_START_FIELD', values: [1, 0], type: 2 },
+        { group: 'TRIAL', name: 'ACTUAL_END_FIELD', values: [70000 & 0xffff, 1], type: 2 }
+    ], 70000), false);
+
+    expect(c3d.numFrames).toBe(70000);
+    expect(c3d.framesRead).toBeNull();
+});
+
+test("notices when a C3D file has been cut off", () => {
+    const c3d = parseC3D(makeC3D('intel', LABELS, FRAMES, [], 10));
+
+    expect(c3d.numFrames).toBe(10);
+    expect(c3d.framesRead).toBe(3);
+    // Every marker is missing from the frames that aren't there
+    expect(c3d.missingFrames).toEqual([7, 8, 9]);
+    expect(getC3DWarnings(c3d)).toContain("Only 3 of 10 frames are in the file. It may have been cut off while copying.");
+});
+
+test("rejects files that aren't C3D files", () => {
+    expect(() => parseC3D(new ArrayBuffer(100))).toThrow(C3DParseError);
+    // Like a text file full of spaces
+    expect(() => parseC3D(new Uint8Array(1024).fill(32).buffer)).toThrow("C3D signature");
+});
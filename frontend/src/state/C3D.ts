@@ -0,0 +1,442 @@
+import BaseError from './BaseError';
+
+/// C3D files are made of 512 byte blocks, and the header and parameter sections point at each other by block number
+const BLOCK_SIZE = 512;
+
+/// The processor types in the parameter section header, which decide byte order and float format
+const PROCESSOR_INTEL = 84;
+const PROCESSOR_DEC = 85;
+const PROCESSOR_MIPS = 86;
+
+/// A marker missing from more than this fraction of frames gets a warning in the summary
+const MOSTLY_MISSING_FRACTION = 0.5;
+
+/// This gets thrown when a file isn't a C3D file we can read, because it's truncated, or not a C3D file at all
+class C3DParseError extends BaseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'C3DParseError';
+    }
+}
+
+/// One entry in the parameter section, like "POINT:LABELS"
+type C3DParameter = {
+    group: string;
+    name: string;
+    description: string;
+    // -1 for characters, 1 for bytes, 2 for 16 bit integers and 4 for floats
+    type: number;
+    dimensions: number[];
+    // Character parameters are split into strings along their first dimension
+    values: number[] | string[];
+};
+
+/// This is everything we read out of a C3D file
+type C3DFile = {
+    processor: 'intel' | 'dec' | 'mips';
+    // Every parameter, keyed by "GROUP:NAME" in upper case
+    parameters: Map<string, C3DParameter>;
+    pointLabels: string[];
+    // The units of the marker positions, usually "mm"
+    pointUnits: string;
+    frameRate: number;
+    firstFrame: number;
+    numFrames: number;
+    // Negative if the marker data is stored as floats, otherwise the scale of the stored integers
+    pointScale: number;
+    analogLabels: string[];
+    analogUnits: string[];
+    analogRate: number;
+    numForcePlates: number;
+    // The type of each force plate (1-4), from FORCE_PLATFORM:TYPE
+    forcePlateTypes: number[];
+    // The number of frames each marker is missing from, in the same order as pointLabels, or null if we didn't read
+    // the marker data
+    missingFrames: number[] | null;
+    // The number of frames actually in the file, which is less than numFrames if it got cut off
+    framesRead: number | null;
+};
+
+/// This reads numbers in whichever byte order and float format the file was written with
+class C3DReader {
+    view: DataView;
+    processor: number;
+
+    constructor(view: DataView, processor: number) {
+        this.view = view;
+        this.processor = processor;
+    }
+
+    checkBounds = (offset: number, size: number) => {
+        if (offset < 0 || offset + size > this.view.byteLength) {
+            throw new C3DParseError("The file ends unexpectedly. It may have been cut off while copying.");
+        }
+    };
+
+    int8 = (offset: number) => {
+        this.checkBounds(offset, 1);
+        return this.view.getInt8(offset);
+    };
+
+    uint8 = (offset: number) => {
+        this.checkBounds(offset, 1);
+        return this.view.getUint8(offset);
+    };
+
+    int16 = (offset: number) => {
+        this.checkBounds(offset, 2);
+        return this.view.getInt16(offset, this.processor !== PROCESSOR_MIPS);
+    };
+
+    uint16 = (offset: number) => {
+        this.checkBounds(offset, 2);
+        return this.view.getUint16(offset, this.processor !== PROCESSOR_MIPS);
+    };
+
+    float32 = (offset: number) => {
+        this.checkBounds(offset, 4);
+        if (this.processor !== PROCESSOR_DEC) {
+            return this.view.getFloat32(offset, this.processor !== PROCESSOR_MIPS);
+        }
+        // DEC (VAX F) floats are stored as two little endian words, with the sign, an 8 bit exponent biased by 128 and
+        // the top of the fraction in the first word. The fraction has a hidden leading bit, like IEEE, but it's 0.1f
+        // rather than 1.f.
+        const high = this.view.getUint16(offset, true);
+        const low = this.view.getUint16(offset + 2, true);
+        const exponent = (high >> 7) & 0xff;
+        if (exponent === 0) return 0;
+        const sign = (high & 0x8000) !== 0 ? -1 : 1;
+        const fraction = ((high & 0x7f) * 65536 + low) / 8388608;
+        return sign * (1 + fraction) * Math.pow(2, exponent - 129);
+    };
+
+    ascii = (offset: number, length: number) => {
+        this.checkBounds(offset, length);
+        let text = '';
+        for (let i = 0; i < length; i++) {
+            text += String.fromCharCode(this.view.getUint8(offset + i));
+        }
+        return text;
+    };
+}
+
+/**
+ * This reads the parameter section, which is a list of groups and of parameters that point at their group by number.
+ *
+ * @param reader A reader that knows the processor type
+ * @param start The byte offset of the parameter section
+ * @param numBlocks The length of the parameter section, in blocks
+ */
+function readParameters(reader: C3DReader, start: number, numBlocks: number) {
+    const end = Math.min(reader.view.byteLength, start + Math.max(1, numBlocks) * BLOCK_SIZE);
+    let groupNames: Map<number, string> = new Map();
+    let parameters: { groupId: number, parameter: C3DParameter }[] = [];
+
+    let position = start + 4;
+    while (position + 2 <= end) {
+        const nameLength = Math.abs(reader.int8(position));
+        if (nameLength === 0) break;
+        const id = reader.int8(position + 1);
+        const name = reader.ascii(position + 2, nameLength).toUpperCase();
+        const offsetPosition = position + 2 + nameLength;
+        const next = reader.int16(offsetPosition);
+
+        if (id < 0) {
+            groupNames.set(-id, name);
+        }
+        else {
+            const typePosition = offsetPosition + 2;
+            const type = reader.int8(typePosition);
+            const numDimensions = reader.uint8(typePosition + 1);
+            let dimensions: number[] = [];
+            for (let i = 0; i < numDimensions; i++) {
+                dimensions.push(reader.uint8(typePosition + 2 + i));
+            }
+            const dataPosition = typePosition + 2 + numDimensions;
+            const count = dimensions.reduce((product, dimension) => product * dimension, 1);
+            const size = Math.abs(type);
+
+            let values: number[] | string[] = [];
+            if (type === -1) {
+                // The first dimension is the length of each string
+                const length = numDimensions > 0 ? dimensions[0] : 1;
+                let strings: string[] = [];
+                for (let i = 0; i < count / Math.max(1, length); i++) {
+                    strings.push(reader.ascii(dataPosition + i * length, length).replace(/[\0\s]+$/, ''));
+                }
+                values = strings;
+            }
+            else {
+                let numbers: number[] = [];
+                for (let i = 0; i < count; i++) {
+                    const valuePosition = dataPosition + i * size;
+                    if (type === 1) numbers.push(reader.uint8(valuePosition));
+                    else if (type === 2) numbers.push(reader.int16(valuePosition));
+                    else if (type === 4) numbers.push(reader.float32(valuePosition));
+                    else throw new C3DParseError("Parameter \"" + name + "\" has an unknown data type (" + type + ").");
+                }
+                values = numbers;
+            }
+
+            const descriptionPosition = dataPosition + count * size;
+            const descriptionLength = reader.uint8(descriptionPosition);
+            parameters.push({
+                groupId: id,
+                parameter: {
+                    group: '',
+                    name,
+                    description: reader.ascii(descriptionPosition + 1, descriptionLength),
+                    type,
+                    dimensions,
+                    values
+                }
+            });
+        }
+
+        if (next === 0) break;
+        position = offsetPosition + next;
+    }
+
+    // Parameters can come before their group, so we only fill in the group names at the end
+    let result: Map<string, C3DParameter> = new Map();
+    parameters.forEach(({ groupId, parameter }) => {
+        parameter.group = groupNames.get(groupId) ?? '';
+        result.set(parameter.group + ':' + parameter.name, parameter);
+    });
+    return result;
+}
+
+/**
+ * @returns The strings of a character parameter, or [] if it doesn't exist
+ */
+function getStrings(parameters: Map<string, C3DParameter>, key: string): string[] {
+    const parameter = parameters.get(key);
+    if (parameter == null || parameter.type !== -1) return [];
+    return parameter.values as string[];
+}
+
+/**
+ * @returns The first number in a numeric parameter, or null if it doesn't exist
+ */
+function getNumber(parameters: Map<string, C3DParameter>, key: string): number | null {
+    const parameter = parameters.get(key);
+    if (parameter == null || parameter.type === -1 || parameter.values.length === 0) return null;
+    return parameter.values[0] as number;
+}
+
+/**
+ * Labels past the 255th are in LABELS2, LABELS3 and so on, since a parameter dimension only goes up to 255
+ */
+function getLabels(parameters: Map<string, C3DParameter>, group: string) {
+    let labels = getStrings(parameters, group + ':LABELS');
+    for (let i = 2; parameters.has(group + ':LABELS' + i); i++) {
+        labels = labels.concat(getStrings(parameters, group + ':LABELS' + i));
+    }
+    return labels;
+}
+
+/**
+ * This parses the contents of a C3D file.
+ *
+ * @param buffer The whole file
+ * @param readPoints True to read through the marker data, and count the frames each marker is missing from. That
+ * takes longer on big files, so leave it off if you only need the parameters.
+ * @throws C3DParseError if this isn't a C3D file we can read
+ */
+function parseC3D(buffer: ArrayBuffer, readPoints: boolean = true): C3DFile {
+    const view = new DataView(buffer);
+    if (view.byteLength < BLOCK_SIZE) {
+        throw new C3DParseError("This file is too small to be a C3D file.");
+    }
+    if (view.getUint8(1) !== 0x50) {
+        throw new C3DParseError("This isn't a C3D file. The header doesn't have the C3D signature.");
+    }
+
+    // The processor type is in the parameter section, which the first byte of the header points to
+    const parameterStart = (view.getUint8(0) - 1) * BLOCK_SIZE;
+    if (parameterStart < BLOCK_SIZE || parameterStart + 4 > view.byteLength) {
+        throw new C3DParseError("The header points to a parameter section that isn't in the file.");
+    }
+    const processorType = view.getUint8(parameterStart + 3);
+    if (processorType !== PROCESSOR_INTEL && processorType !== PROCESSOR_DEC && processorType !== PROCESSOR_MIPS) {
+        throw new C3DParseError("The file was written by an unknown processor type (" + processorType + ").");
+    }
+    const reader = new C3DReader(view, processorType);
+    const parameters = readParameters(reader, parameterStart, view.getUint8(parameterStart + 2));
+
+    const headerPoints = reader.uint16(2);
+    const analogPerFrame = reader.uint16(4);
+    const firstFrame = reader.uint16(6);
+    const lastFrame = reader.uint16(8);
+    const headerScale = reader.float32(12);
+    const dataStart = getNumber(parameters, 'POINT:DATA_START') ?? reader.uint16(16);
+    const headerRate = reader.float32(20);
+
+    if (dataStart < 2) {
+        throw new C3DParseError("The file doesn't say where its marker data starts.");
+    }
+
+    const numPoints = getNumber(parameters, 'POINT:USED') ?? headerPoints;
+    const pointScale = getNumber(parameters, 'POINT:SCALE') ?? headerScale;
+    const frameRate = getNumber(parameters, 'POINT:RATE') ?? headerRate;
+
+    // The header only has room for 65535 frames. Longer files use the TRIAL group (as two 16 bit words) or POINT:FRAMES.
+    let numFrames = lastFrame - firstFrame + 1;
+    const trialEnd = parameters.get('TRIAL:ACTUAL_END_FIELD');
+    const trialStart = parameters.get('TRIAL:ACTUAL_START_FIELD');
+    const pointFrames = getNumber(parameters, 'POINT:FRAMES');
+    if (trialEnd != null && trialStart != null && trialEnd.values.length >= 2 && trialStart.values.length >= 2) {
+        const toUint32 = (values: number[]) => ((values[0] & 0xffff) + (values[1] & 0xffff) * 65536);
+        numFrames = toUint32(trialEnd.values as number[]) - toUint32(trialStart.values as number[]) + 1;
+    }
+    else if (pointFrames != null) {
+        // This is an unsigned count, even though the parameter is stored signed
+        numFrames = pointFrames < 0 ? pointFrames + 65536 : pointFrames;
+    }
+
+    let pointLabels = getLabels(parameters, 'POINT').slice(0, numPoints);
+    // Some exporters leave out labels. The server would call these "unlabeled", so say the same here.
+    while (pointLabels.length < numPoints) {
+        pointLabels.push('');
+    }
+
+    const forcePlateTypes = ((parameters.get('FORCE_PLATFORM:TYPE')?.values ?? []) as number[]).filter((value) => typeof value === 'number');
+    const numForcePlates = getNumber(parameters, 'FORCE_PLATFORM:USED') ?? forcePlateTypes.length;
+
+    let missingFrames: number[] | null = null;
+    let framesRead: number | null = null;
+    if (readPoints && numPoints > 0 && numFrames > 0) {
+        missingFrames = new Array(numPoints).fill(0);
+        const isFloat = pointScale < 0;
+        const valueSize = isFloat ? 4 : 2;
+        const frameSize = (numPoints * 4 + analogPerFrame) * valueSize;
+        const start = (dataStart - 1) * BLOCK_SIZE;
+        framesRead = Math.max(0, Math.min(numFrames, Math.floor((view.byteLength - start) / frameSize)));
+        for (let frame = 0; frame < framesRead; frame++) {
+            const frameStart = start + frame * frameSize;
+            for (let point = 0; point < numPoints; point++) {
+                const pointStart = frameStart + point * 4 * valueSize;
+                let missing: boolean;
+                if (isFloat) {
+                    const residual = reader.float32(pointStart + 12);
+                    missing = residual < 0 || (reader.float32(pointStart) === 0 && reader.float32(pointStart + 4) === 0 && reader.float32(pointStart + 8) === 0);
+                }
+                else {
+                    // The low byte of the residual word is the residual, and -1 means the marker wasn't seen
+                    const residual = reader.int16(pointStart + 6);
+                    missing = residual < 0 || (reader.int16(pointStart) === 0 && reader.int16(pointStart + 2) === 0 && reader.int16(pointStart + 4) === 0);
+                }
+                if (missing) missingFrames[point]++;
+            }
+        }
+        // Frames that got cut off are missing every marker
+        for (let point = 0; point < numPoints; point++) {
+            missingFrames[point] += numFrames - framesRead;
+        }
+    }
+
+    return {
+        processor: processorType === PROCESSOR_INTEL ? 'intel' : (processorType === PROCESSOR_DEC ? 'dec' : 'mips'),
+        parameters,
+        pointLabels,
+        pointUnits: getStrings(parameters, 'POINT:UNITS')[0] ?? '',
+        frameRate,
+        firstFrame,
+        numFrames,
+        pointScale,
+        analogLabels: getLabels(parameters, 'ANALOG'),
+        analogUnits: getStrings(parameters, 'ANALOG:UNITS'),
+        analogRate: getNumber(parameters, 'ANALOG:RATE') ?? (analogPerFrame > 0 ? frameRate * reader.uint16(18) : 0),
+        numForcePlates,
+        forcePlateTypes,
+        missingFrames,
+        framesRead
+    };
+}
+
+/**
+ * This reads and parses a C3D file the user picked, before it gets uploaded.
+ */
+function readC3DFile(file: File, readPoints: boolean = true): Promise<C3DFile> {
+    return file.arrayBuffer().then((buffer: ArrayBuffer) => parseC3D(buffer, readPoints));
+}
+
+/**
+ * @returns A description of why the server won't be able to process this file, or null if it looks usable
+ */
+function getC3DError(c3d: C3DFile): string | null {
+    if (c3d.pointLabels.length === 0) {
+        return "This C3D file doesn't have any markers in it.";
+    }
+    if (!isFinite(c3d.frameRate) || c3d.frameRate <= 0) {
+        return "This C3D file has an invalid frame rate (" + c3d.frameRate + ").";
+    }
+    if (c3d.numFrames <= 0) {
+        return "This C3D file doesn't have any frames in it.";
+    }
+    if (c3d.framesRead != null && c3d.framesRead === 0) {
+        return "This C3D file doesn't have any marker data in it. It may have been cut off while copying.";
+    }
+    if (c3d.missingFrames != null && c3d.missingFrames.every((missing) => missing >= c3d.numFrames)) {
+        return "None of the markers in this C3D file are ever visible.";
+    }
+    return null;
+}
+
+/**
+ * @returns Problems with the file that won't stop it processing, but could make the results worse
+ */
+function getC3DWarnings(c3d: C3DFile): string[] {
+    let warnings: string[] = [];
+    if (c3d.framesRead != null && c3d.framesRead < c3d.numFrames) {
+        warnings.push("Only " + c3d.framesRead + " of " + c3d.numFrames + " frames are in the file. It may have been cut off while copying.");
+    }
+    if (c3d.frameRate < 30 || c3d.frameRate > 2000) {
+        warnings.push("The frame rate is " + c3d.frameRate.toFixed(1) + " Hz, which is unusual for motion capture.");
+    }
+    const units = c3d.pointUnits.trim().toLowerCase();
+    if (units !== '' && units !== 'mm' && units !== 'm' && units !== 'cm') {
+        warnings.push("The marker units are \"" + c3d.pointUnits + "\", which we don't recognize.");
+    }
+    const unlabeled = c3d.pointLabels.filter((label) => label === '' || label.startsWith('*')).length;
+    if (unlabeled > 0) {
+        warnings.push(unlabeled + " marker" + (unlabeled === 1 ? " is" : "s are") + " unlabeled.");
+    }
+    if (c3d.missingFrames != null) {
+        let neverSeen: string[] = [];
+        let mostlyMissing: string[] = [];
+        c3d.missingFrames.forEach((missing, i) => {
+            const label = c3d.pointLabels[i] || "#" + (i + 1);
+            if (missing >= c3d.numFrames) neverSeen.push(label);
+            else if (missing > c3d.numFrames * MOSTLY_MISSING_FRACTION) mostlyMissing.push(label);
+        });
+        if (neverSeen.length > 0) {
+            warnings.push("These markers are never visible: " + neverSeen.join(", "));
+        }
+        if (mostlyMissing.length > 0) {
+            warnings.push("These markers are missing from most frames: " + mostlyMissing.join(", "));
+        }
+    }
+    if (c3d.numForcePlates > 0 && c3d.analogLabels.length === 0) {
+        warnings.push("The file lists " + c3d.numForcePlates + " force plate" + (c3d.numForcePlates === 1 ? "" : "s") + ", but has no analog channels for them.");
+    }
+    if (c3d.analogRate > 0 && c3d.frameRate > 0 && Math.abs(c3d.analogRate / c3d.frameRate - Math.round(c3d.analogRate / c3d.frameRate)) > 1e-3) {
+        warnings.push("The analog rate (" + c3d.analogRate + " Hz) isn't a multiple of the frame rate (" + c3d.frameRate + " Hz).");
+    }
+    return warnings;
+}
+
+/**
+ * This is a DropFile validateFile hook, which rejects C3D files the server won't be able to process before they get
+ * uploaded.
+ */
+function validateC3DFile(file: File): Promise<string | null> {
+    return readC3DFile(file).then(getC3DError).catch((e: any) => {
+        if (e instanceof C3DParseError) return e.message;
+        console.error("Error reading \"" + file.name + "\" as a C3D file", e);
+        return "We couldn't read this file as a C3D file.";
+    });
+}
+
+export type { C3DFile, C3DParameter };
+export { C3DParseError, parseC3D, readC3DFile, getC3DError, getC3DWarnings, validateC3DFile };
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { md5Base64, computeUploadChecksums, verifyDownloadChecksum, stripETagQuotes, ChecksumMismatchError, CHECKSUM_METADATA_KEY } from './Checksum';
+
+function nodeMd5(data: Buffer | string) {
+    return createHash('md5').update(data).digest();
+}
+
+test("md5Base64() matches known MD5s, for strings and Blobs", async () => {
+    expect(await md5Base64("")).toBe("1B2M2Y8AsgTpgAmY7PhCfg==");
+    expect(await md5Base64("hello world")).toBe("XrY7u+Ae7tCTyyK7j1rNww==");
+    expect(await md5Base64(new Blob(["hello world"]))).toBe("XrY7u+Ae7tCTyyK7j1rNww==");
+});
+
+test("md5Base64() hashes the UTF-8 bytes of a string", async () => {
+    expect(await md5Base64("Müller")).toBe(nodeMd5(Buffer.from("Müller", "utf-8")).toString("base64"));
+});
+
+test("computeUploadChecksums() gives each part's MD5, and the whole object's", async () => {
+    const parts = ["first part", new Blob(["second part"]), "third"];
+    const checksums = await computeUploadChecksums(parts);
+
+    expect(checksums.object).toBe(nodeMd5("first partsecond partthird").toString("base64"));
+    expect(checksums.parts).toEqual(["first part", "second part", "third"].map((part) => nodeMd5(part).toString("base64")));
+    expect(checksums.partsHex).toEqual(["first part", "second part", "third"].map((part) => nodeMd5(part).toString("hex")));
+});
+
+test("computeUploadChecksums() predicts S3's multipart ETag, the MD5 of the part MD5s and the part count", async () => {
+    const checksums = await computeUploadChecksums(["first part", "second part", "third"]);
+
+    const partDigests = Buffer.concat(["first part", "second part", "third"].map((part) => nodeMd5(part)));
+    expect(checksums.multipartETag).toBe(nodeMd5(partDigests).toString("hex") + "-3");
+    // The object's MD5 isn't what S3 reports for a multipart upload
+    expect(checksums.multipartETag.startsWith(nodeMd5("first partsecond partthird").toString("hex"))).toBeFalsy();
+});
+
+test("computeUploadChecksums() still gives a \"-1\" ETag for a single part", async () => {
+    const checksums = await computeUploadChecksums(["only part"]);
+    expect(checksums.multipartETag).toBe(nodeMd5(nodeMd5("only part")).toString("hex") + "-1");
+});
+
+test("stripETagQuotes() takes off the quotes S3 puts around ETags", () => {
+    expect(stripETagQuotes("\"5eb63bbbe01eeed093cb22bb8f5acdc3\"")).toBe("5eb63bbbe01eeed093cb22bb8f5acdc3");
+    expect(stripETagQuotes("5eb63bbbe01eeed093cb22bb8f5acdc3-2")).toBe("5eb63bbbe01eeed093cb22bb8f5acdc3-2");
+});
+
+test("verifyDownloadChecksum() passes matching downloads, and ones with no checksum to check", async () => {
+    await expect(verifyDownloadChecksum("data/a.txt", new Blob(["hello world"]), { [CHECKSUM_METADATA_KEY]: "XrY7u+Ae7tCTyyK7j1rNww==" })).resolves.toBeUndefined();
+    await expect(verifyDownloadChecksum("data/a.txt", new Blob(["anything"]), {})).resolves.toBeUndefined();
+    await expect(verifyDownloadChecksum("data/a.txt", new Blob(["anything"]))).resolves.toBeUndefined();
+});
+
+test("verifyDownloadChecksum() rejects a download that was cut off or corrupted", async () => {
+    const metadata = { [CHECKSUM_METADATA_KEY]: "XrY7u+Ae7tCTyyK7j1rNww==" };
+    const verifying = verifyDownloadChecksum("data/a.txt", new Blob(["hello wor"]), metadata);
+
+    await expect(verifying).rejects.toBeInstanceOf(ChecksumMismatchError);
+    await expect(verifying).rejects.toMatchObject({ path: "data/a.txt", expected: "XrY7u+Ae7tCTyyK7j1rNww==", actual: nodeMd5("hello wor").toString("base64") });
+});
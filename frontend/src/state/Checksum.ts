@@ -0,0 +1,113 @@
+import { Md5 } from '@aws-sdk/md5-js';
+import { toBase64 } from '@aws-sdk/util-base64-browser';
+import { toHex } from '@aws-sdk/util-hex-encoding';
+import BaseError from './BaseError';
+
+/// This is the S3 user metadata key (sent as the "x-amz-meta-md5" header) that we store each object's whole-file MD5
+/// under, base64 encoded. S3's own ETag isn't a usable checksum for multipart uploads, so we keep our own.
+const CHECKSUM_METADATA_KEY = 'md5';
+
+/// This gets thrown when the bytes we have don't match the checksum they're supposed to have. That means something
+/// got truncated or corrupted in transit, so the caller should treat the data as garbage.
+class ChecksumMismatchError extends BaseError {
+    path: string;
+    expected: string;
+    actual: string;
+
+    constructor(path: string, expected: string, actual: string) {
+        super('Checksum mismatch on "' + path + '": expected ' + expected + ', got ' + actual);
+        this.name = 'ChecksumMismatchError';
+        this.path = path;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/// These are the checksums for an object that's about to be uploaded in parts
+type UploadChecksums = {
+    // The MD5 of the whole object, base64 encoded, for the metadata
+    object: string;
+    // The MD5 of each part in order, base64 encoded, for the Content-MD5 header on each UploadPart
+    parts: string[];
+    // The MD5 of each part in order, hex encoded, to compare against the ETags S3 gives back
+    partsHex: string[];
+    // The ETag S3 should report once all the parts are stitched together
+    multipartETag: string;
+};
+
+/**
+ * @returns The raw bytes of a chunk of an upload body, which is either a string or a Blob (or File)
+ */
+function toBytes(data: Blob | string): Promise<Uint8Array> {
+    if (typeof data === 'string') {
+        return Promise.resolve(new TextEncoder().encode(data));
+    }
+    return data.arrayBuffer().then((buffer: ArrayBuffer) => new Uint8Array(buffer));
+}
+
+/**
+ * @returns The MD5 of `data`, base64 encoded (which is the format S3 wants in Content-MD5 headers)
+ */
+async function md5Base64(data: Blob | string): Promise<string> {
+    const hash = new Md5();
+    hash.update(await toBytes(data));
+    return toBase64(await hash.digest());
+}
+
+/**
+ * This hashes each part of an upload, and the whole object, in a single pass over the bytes.
+ *
+ * @param parts The bodies of each part, in order
+ */
+async function computeUploadChecksums(parts: (Blob | string)[]): Promise<UploadChecksums> {
+    const objectHash = new Md5();
+    const partDigests: Uint8Array[] = [];
+    for (let i = 0; i < parts.length; i++) {
+        const bytes = await toBytes(parts[i]);
+        objectHash.update(bytes);
+        const partHash = new Md5();
+        partHash.update(bytes);
+        partDigests.push(await partHash.digest());
+    }
+
+    // S3 computes multipart ETags as the MD5 of the concatenated (binary) part MD5s, followed by "-" and the part count
+    const etagHash = new Md5();
+    for (let i = 0; i < partDigests.length; i++) {
+        etagHash.update(partDigests[i]);
+    }
+
+    return {
+        object: toBase64(await objectHash.digest()),
+        parts: partDigests.map(toBase64),
+        partsHex: partDigests.map(toHex),
+        multipartETag: toHex(await etagHash.digest()) + '-' + partDigests.length
+    };
+}
+
+/**
+ * S3 wraps ETags in double quotes, which we don't want when comparing them
+ */
+function stripETagQuotes(etag: string) {
+    return etag.replace(/"/g, '');
+}
+
+/**
+ * This checks a downloaded object against the checksum that was stored in its metadata when it was uploaded. Objects
+ * that were uploaded without a checksum pass automatically, since there's nothing to check against.
+ *
+ * @param path The path of the object, for the error message
+ * @param body The bytes we downloaded
+ * @param metadata The S3 user metadata that came back with the download
+ * @throws ChecksumMismatchError if the bytes don't match
+ */
+async function verifyDownloadChecksum(path: string, body: Blob, metadata?: { [key: string]: string }) {
+    if (metadata == null || metadata[CHECKSUM_METADATA_KEY] == null) return;
+    const expected = metadata[CHECKSUM_METADATA_KEY];
+    const actual = await md5Base64(body);
+    if (expected !== actual) {
+        throw new ChecksumMismatchError(path, expected, actual);
+    }
+}
+
+export type { UploadChecksums };
+export { CHECKSUM_METADATA_KEY, ChecksumMismatchError, md5Base64, computeUploadChecksums, stripETagQuotes, verifyDownloadChecksum };
@@ -0,0 +1,125 @@
+import JSZip from 'jszip';
+import { ReactiveIndex } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import FolderDownload from './FolderDownload';
+
+function makeStorage(files: { [path: string]: string }) {
+    const storage = new InMemoryStorageProvider();
+    Object.keys(files).forEach((path) => storage.upload(path, files[path], () => { }));
+    return storage;
+}
+
+async function makeDownload(storage: InMemoryStorageProvider, folderPath: string) {
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, new InProcessMqtt('TEST', new InProcessBroker()), storage);
+    index.localCacheEnabled = false;
+    await index.fullRefresh();
+    const download = new FolderDownload(index, folderPath);
+    const written: Blob[] = [];
+    download.openSink = () => Promise.resolve({
+        write: (chunk: Blob) => {
+            written.push(chunk);
+            return Promise.resolve();
+        },
+        close: () => Promise.resolve(),
+        abort: () => {
+            written.length = 0;
+            return Promise.resolve();
+        }
+    });
+    await download.list();
+    return { download, written };
+}
+
+function readZip(written: Blob[]) {
+    return new Blob(written).arrayBuffer().then((buffer) => JSZip.loadAsync(buffer));
+}
+
+const FOLDER = {
+    "data/lab/subject1/_subject.json": "{}",
+    "data/lab/subject1/trials/walk/markers.c3d": "c3d",
+    "data/lab/subject1/trials/walk/preview.bin.zip": "preview",
+    "data/lab/subject2/_subject.json": "{}",
+    "data/lab/subject2/trials/run/markers.c3d": "c3d 2",
+    "data/lab/subject2/trials/run/_results.json": "{}",
+    "data/lab/notes.txt": "not in a subject"
+};
+
+beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("writes the selected files into the zip as they download", async () => {
+    const { download, written } = await makeDownload(makeStorage(FOLDER), "data/lab");
+    expect(download.subjects).toEqual(["data/lab/subject1", "data/lab/subject2"]);
+    download.toggleSubject("data/lab/subject2");
+
+    await download.start();
+
+    expect(download.status).toBe('done');
+    const zip = await readZip(written);
+    expect(Object.keys(zip.files).sort()).toEqual(["lab/subject1/_subject.json", "lab/subject1/trials/walk/markers.c3d"]);
+    expect(await zip.file("lab/subject1/trials/walk/markers.c3d")?.async("string")).toBe("c3d");
+});
+
+test("retrying keeps the files that made it, and only fetches the ones that didn't", async () => {
+    const storage = makeStorage(FOLDER);
+    const { download, written } = await makeDownload(storage, "data/lab");
+    const realDownload = storage.download;
+    let fetched: string[] = [];
+    storage.download = (path, progressCallback) => {
+        fetched.push(path);
+        if (path.endsWith("run/markers.c3d")) return Promise.reject(new Error("Network Error"));
+        return realDownload(path, progressCallback);
+    };
+
+    await download.start();
+    expect(download.status).toBe('failed');
+    expect(download.files.filter((file) => file.status === 'error').map((file) => file.path)).toEqual(["data/lab/subject2/trials/run/markers.c3d"]);
+
+    storage.download = (path, progressCallback) => {
+        fetched.push(path);
+        return realDownload(path, progressCallback);
+    };
+    fetched = [];
+    await download.retryFailed();
+
+    expect(fetched).toEqual(["data/lab/subject2/trials/run/markers.c3d"]);
+    expect(download.status).toBe('done');
+    const zip = await readZip(written);
+    expect(Object.keys(zip.files).filter((name) => !zip.files[name].dir).length).toBe(5);
+    expect(await zip.file("lab/subject2/trials/run/markers.c3d")?.async("string")).toBe("c3d 2");
+});
+
+test("closing the save dialog leaves the download ready to start again", async () => {
+    const { download } = await makeDownload(makeStorage(FOLDER), "data/lab");
+    download.openSink = () => Promise.resolve(null);
+
+    await download.start();
+
+    expect(download.status).toBe('ready');
+    expect(download.files).toEqual([]);
+});
+
+test("a failed write stops the download", async () => {
+    const { download } = await makeDownload(makeStorage(FOLDER), "data/lab");
+    let aborted = false;
+    download.openSink = () => Promise.resolve({
+        write: () => Promise.reject(new Error("Disk full")),
+        close: () => Promise.resolve(),
+        abort: () => {
+            aborted = true;
+            return Promise.resolve();
+        }
+    });
+
+    await download.start();
+
+    expect(download.status).toBe('cancelled');
+    expect(download.error).not.toBeNull();
+    expect(aborted).toBeTruthy();
+});
@@ -0,0 +1,379 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type { ReactiveIndex, ReactiveFileMetadata } from './ReactiveS3';
+import ZipWriter from './ZipWriter';
+import type { ZipSink } from './ZipWriter';
+
+/// We download this many files at once while filling the zip
+const MAX_CONCURRENT_DOWNLOADS = 3;
+
+/// Browsers that can't write to a file the user picks have to keep the whole zip in memory until it's done, so there
+/// we refuse to download more than this at once. Much more than this can crash the tab.
+const MAX_ZIP_BYTES = 1000 * 1000 * 1000;
+
+/// The kinds of files in a subject folder, which the user picks between when downloading
+type FolderDownloadCategory = 'inputs' | 'results' | 'archives' | 'previews';
+
+type FolderDownloadStatus = 'listing' | 'ready' | 'downloading' | 'failed' | 'zipping' | 'done' | 'cancelled';
+
+/// This is one file that's going into the zip
+type FolderDownloadFile = {
+    // The path in the index
+    path: string;
+    // The path inside the zip
+    zipPath: string;
+    size: number;
+    lastModified: Date;
+    status: 'queued' | 'downloading' | 'done' | 'error';
+    // Bytes downloaded so far
+    loaded: number;
+    error: string | null;
+};
+
+const SUBJECT_INPUTS = ['_subject.json', 'unscaled_generic.osim', 'manually_scaled.osim'];
+const TRIAL_INPUTS = ['markers.c3d', 'markers.trc', 'grf.mot', 'manual_ik.mot'];
+
+/**
+ * This sorts a file in a subject folder into the kind of file it is.
+ *
+ * @param relativePath The path of the file, relative to the subject folder
+ * @param subjectName The name of the subject folder, since its results archive is named after it
+ * @returns The category, or null for things nobody would want in a download (like processing flags)
+ */
+function getFileCategory(relativePath: string, subjectName: string): FolderDownloadCategory | null {
+    const parts = relativePath.split('/');
+    if (parts.length === 1) {
+        if (SUBJECT_INPUTS.indexOf(parts[0]) !== -1) return 'inputs';
+        if (parts[0] === '_results.json' || parts[0] === 'log.txt') return 'results';
+        if (parts[0] === subjectName + '.zip') return 'archives';
+        return null;
+    }
+    if (parts.length === 3 && parts[0] === 'trials') {
+        if (TRIAL_INPUTS.indexOf(parts[2]) !== -1) return 'inputs';
+        if (parts[2] === '_results.json') return 'results';
+        if (parts[2] === 'preview.bin.zip') return 'previews';
+    }
+    return null;
+}
+
+/**
+ * @returns true if this browser can write the zip straight into a file on disk as it downloads
+ */
+function canStreamToDisk() {
+    return typeof window !== 'undefined' && typeof (window as any).showSaveFilePicker === 'function';
+}
+
+/**
+ * This opens somewhere to write a zip. If the browser lets us, we ask the user where to save it and write straight
+ * to that file. Otherwise, we collect the zip as a Blob and hand that to the browser to save once it's done.
+ *
+ * This has to be called while handling a click, or the browser won't show the save dialog.
+ *
+ * @returns The sink, or null if the user closed the save dialog without picking a file
+ */
+function openZipSink(fileName: string): Promise<ZipSink | null> {
+    if (canStreamToDisk()) {
+        return (window as any).showSaveFilePicker({
+            suggestedName: fileName,
+            types: [{ description: 'Zip archive', accept: { 'application/zip': ['.zip'] } }]
+        }).then((handle: any) => handle.createWritable()).catch((e: any) => {
+            if (e != null && e.name === 'AbortError') return null;
+            throw e;
+        });
+    }
+    let chunks: Blob[] = [];
+    return Promise.resolve({
+        write: (chunk: Blob) => {
+            chunks.push(chunk);
+            return Promise.resolve();
+        },
+        close: () => {
+            const objectURL = URL.createObjectURL(new Blob(chunks, { type: 'application/zip' }));
+            chunks = [];
+            const link = document.createElement("a");
+            link.href = objectURL;
+            link.download = fileName;
+            link.click();
+            // Give the browser a moment to start the download before we free the memory
+            setTimeout(() => URL.revokeObjectURL(objectURL), 10000);
+            return Promise.resolve();
+        },
+        abort: () => {
+            chunks = [];
+            return Promise.resolve();
+        }
+    });
+}
+
+/// This downloads a folder full of subjects as one zip, built in the browser. We list the folder first, so the user
+/// can pick which subjects and which kinds of files they want, then download each file and write it into the zip as
+/// it arrives. Each file goes out to the ZipWriter as soon as it's downloaded, so where the browser can write to disk
+/// we never hold more than a few files in memory.
+///
+/// If some files fail, the ones that made it stay in the zip, so retryFailed() only has to fetch the rest. The user
+/// can also save the zip without them.
+class FolderDownload {
+    index: ReactiveIndex;
+    // The folder being downloaded, as a path in the index
+    folderPath: string;
+    status: FolderDownloadStatus;
+    error: string | null;
+    // Every subject in the folder, as paths in the index, and the ones the user wants
+    subjects: string[];
+    selectedSubjects: Set<string>;
+    categories: Set<FolderDownloadCategory>;
+    files: FolderDownloadFile[];
+    // This is null until the download starts
+    writer: ZipWriter | null;
+    // Everything in the folder, from the listing
+    listing: ReactiveFileMetadata[];
+    // This is where the zip goes. Tests swap this out, since there's no file picker or download link to click there.
+    openSink: (fileName: string) => Promise<ZipSink | null> = openZipSink;
+
+    constructor(index: ReactiveIndex, folderPath: string) {
+        this.index = index;
+        this.folderPath = folderPath;
+        this.status = 'listing';
+        this.error = null;
+        this.subjects = [];
+        this.selectedSubjects = new Set();
+        this.categories = new Set(['inputs', 'results']);
+        this.files = [];
+        this.writer = null;
+        this.listing = [];
+
+        makeObservable(this, {
+            status: observable,
+            error: observable,
+            subjects: observable.ref,
+            selectedSubjects: observable,
+            categories: observable,
+            files: observable,
+            totalBytes: computed,
+            selectedFiles: computed,
+            selectedBytes: computed,
+            progress: computed
+        });
+    }
+
+    /**
+     * @returns The name of the folder, which is also the name of the zip
+     */
+    getName = () => {
+        return this.folderPath.substring(this.folderPath.lastIndexOf('/') + 1);
+    };
+
+    /**
+     * This lists everything in the folder from the server, so we find every subject even if the index is only
+     * listing the folders someone's looking at.
+     */
+    list = action(() => {
+        this.status = 'listing';
+        return this.index.loadFolder(this.folderPath, false).then(action((listing) => {
+            this.listing = listing.files;
+            const subjects: string[] = [];
+            listing.files.forEach((file: ReactiveFileMetadata) => {
+                if (file.key.endsWith('/_subject.json')) subjects.push(file.key.substring(0, file.key.length - '/_subject.json'.length));
+            });
+            subjects.sort();
+            this.subjects = subjects;
+            this.selectedSubjects = new Set(subjects);
+            this.status = 'ready';
+        })).catch(action((e: any) => {
+            console.error("Error listing \"" + this.folderPath + "\" to download it", e);
+            this.error = "We got an error trying to list the files in this folder!";
+            this.status = 'cancelled';
+        }));
+    });
+
+    toggleSubject = action((subject: string) => {
+        if (this.selectedSubjects.has(subject)) this.selectedSubjects.delete(subject);
+        else this.selectedSubjects.add(subject);
+    });
+
+    toggleCategory = action((category: FolderDownloadCategory) => {
+        if (this.categories.has(category)) this.categories.delete(category);
+        else this.categories.add(category);
+    });
+
+    /**
+     * @returns The total size of everything going into the zip
+     */
+    get totalBytes() {
+        return this.files.reduce((total, file) => total + file.size, 0);
+    }
+
+    /**
+     * @returns The files that the current selection of subjects and categories would put in the zip
+     */
+    get selectedFiles(): FolderDownloadFile[] {
+        // Paths in the zip start with the folder name, so unzipping it makes one folder
+        const parentPath = this.folderPath.substring(0, this.folderPath.lastIndexOf('/') + 1);
+        let files: FolderDownloadFile[] = [];
+        this.listing.forEach((file: ReactiveFileMetadata) => {
+            const subject = this.subjects.find((subject) => file.key.startsWith(subject + '/'));
+            if (subject == null || !this.selectedSubjects.has(subject)) return;
+            const category = getFileCategory(file.key.substring(subject.length + 1), subject.substring(subject.lastIndexOf('/') + 1));
+            if (category == null || !this.categories.has(category)) return;
+            files.push({ path: file.key, zipPath: file.key.substring(parentPath.length), size: file.size, lastModified: file.lastModified, status: 'queued', loaded: 0, error: null });
+        });
+        return files;
+    }
+
+    /**
+     * @returns The total size of the files the current selection would put in the zip
+     */
+    get selectedBytes() {
+        return this.selectedFiles.reduce((total, file) => total + file.size, 0);
+    }
+
+    /**
+     * @returns true if the current selection is too big to zip up in the browser. That only happens if we can't write
+     * the zip straight to disk.
+     */
+    isTooLarge = () => {
+        return !canStreamToDisk() && this.selectedBytes > MAX_ZIP_BYTES;
+    };
+
+    /**
+     * @returns How far along the downloads are, as a fraction between 0 and 1
+     */
+    get progress() {
+        const totalBytes = this.totalBytes;
+        if (totalBytes === 0) return this.status === 'ready' || this.status === 'listing' ? 0 : 1;
+        return this.files.reduce((total, file) => total + (file.status === 'done' ? file.size : file.loaded), 0) / totalBytes;
+    }
+
+    /**
+     * This asks where to save the zip, then works out which files to download from the current selection, and starts
+     * downloading them.
+     */
+    start = action(() => {
+        if (this.status !== 'ready' || this.writer != null) return Promise.resolve();
+        if (this.isTooLarge()) {
+            this.error = "That's too much to zip up in your browser at once. Please pick fewer subjects or kinds of files.";
+            return Promise.resolve();
+        }
+        this.error = null;
+        return this.openSink(this.getName() + ".zip").then(action((sink: ZipSink | null) => {
+            // They closed the save dialog, so we leave things as they were
+            if (sink == null || this.status !== 'ready') return;
+            this.writer = new ZipWriter(sink);
+            this.files = this.selectedFiles;
+            return this.downloadQueued();
+        })).catch(action((e: any) => {
+            console.error("Error opening somewhere to save the zip of \"" + this.folderPath + "\"", e);
+            this.error = "We got an error trying to open a file to save the zip to!";
+        }));
+    });
+
+    /**
+     * This downloads the files that failed last time, adding them to the zip alongside the ones that made it.
+     */
+    retryFailed = action(() => {
+        if (this.status !== 'failed') return Promise.resolve();
+        this.files.forEach((file) => {
+            if (file.status === 'error') {
+                file.status = 'queued';
+                file.loaded = 0;
+                file.error = null;
+            }
+        });
+        return this.downloadQueued();
+    });
+
+    /**
+     * This stops downloading, and throws away the zip. Whatever's downloading right now finishes, but it doesn't go
+     * in the zip, and nothing new starts.
+     */
+    cancel = action(() => {
+        if (this.status === 'downloading' || this.status === 'failed' || this.status === 'ready') {
+            this.status = 'cancelled';
+            this.abortWriter();
+        }
+    });
+
+    /**
+     * This downloads every queued file, a few at a time, and then saves the zip if they all made it.
+     */
+    downloadQueued = action(() => {
+        this.status = 'downloading';
+        this.error = null;
+        const queue = this.files.filter((file) => file.status === 'queued');
+        const next = (): Promise<void> => {
+            const file = queue.shift();
+            if (file == null || this.status === 'cancelled') return Promise.resolve();
+            return this.downloadFile(file).then(next);
+        };
+        let workers: Promise<void>[] = [];
+        for (let i = 0; i < MAX_CONCURRENT_DOWNLOADS; i++) {
+            workers.push(next());
+        }
+        return Promise.all(workers).then(() => {
+            if (this.status === 'cancelled') return;
+            if (this.files.some((file) => file.status === 'error')) {
+                this.setStatus('failed');
+                return;
+            }
+            return this.save();
+        });
+    });
+
+    /**
+     * This downloads one file and writes it into the zip. It never rejects, since one failure shouldn't stop the
+     * others.
+     */
+    downloadFile = action((file: FolderDownloadFile): Promise<void> => {
+        file.status = 'downloading';
+        return this.index.storage.download(file.path, action((progress: { loaded: number, total: number }) => {
+            file.loaded = progress.loaded;
+        })).catch(action((e: any) => {
+            console.error("Error downloading \"" + file.path + "\" into a zip", e);
+            file.status = 'error';
+            file.error = e instanceof Error ? e.message : String(e);
+            return null;
+        })).then((blob: Blob | null) => {
+            if (blob == null || this.writer == null || this.status === 'cancelled') return;
+            return this.writer.addFile(file.zipPath, blob, file.lastModified).then(action(() => {
+                file.status = 'done';
+            }), this.onWriteError);
+        });
+    });
+
+    /**
+     * This finishes off the zip with whatever's been downloaded, and saves it. Files that failed get left out.
+     */
+    save = action(() => {
+        if (this.writer == null) return Promise.resolve();
+        this.status = 'zipping';
+        return this.writer.finish().then(action(() => {
+            this.status = 'done';
+        }), this.onWriteError);
+    });
+
+    /**
+     * Once a write fails, we can't tell how much of it made it into the zip, so the zip is no good and the download
+     * can't carry on.
+     */
+    onWriteError = action((e: any) => {
+        if (this.status === 'cancelled') return;
+        console.error("Error writing the zip of \"" + this.folderPath + "\"", e);
+        this.error = "We got an error trying to save the zip! Please check there's enough room on your disk and try again.";
+        this.status = 'cancelled';
+        this.abortWriter();
+    });
+
+    abortWriter = () => {
+        if (this.writer == null) return;
+        this.writer.abort().catch((e: any) => {
+            console.warn("Error throwing away the zip of \"" + this.folderPath + "\"", e);
+        });
+    };
+
+    setStatus = action((status: FolderDownloadStatus) => {
+        this.status = status;
+    });
+}
+
+export { MAX_ZIP_BYTES, canStreamToDisk };
+export type { FolderDownloadCategory, FolderDownloadStatus, FolderDownloadFile };
+export default FolderDownload;
@@ -0,0 +1,99 @@
+import { runInAction } from 'mobx';
+import FolderSummary from './FolderSummary';
+import { makeStorage, makeCursor } from './testUtils';
+
+/**
+ * @returns The files for a subject with everything it needs to be processed, plus `extra`
+ */
+function makeSubject(path: string, extra: { [name: string]: string } = {}) {
+    let files: { [path: string]: string } = {
+        [path + "/_subject.json"]: "{}",
+        [path + "/unscaled_generic.osim"]: "osim",
+        [path + "/trials/walk/markers.c3d"]: "c3d",
+        [path + "/trials/run/markers.c3d"]: "c3d"
+    };
+    Object.keys(extra).forEach((name) => {
+        files[path + "/" + name] = extra[name];
+    });
+    return files;
+}
+
+const FOLDER = {
+    "data/lab/empty/_subject.json": "{}",
+    ...makeSubject("data/lab/ready"),
+    ...makeSubject("data/lab/waiting1", { "READY_TO_PROCESS": "" }),
+    ...makeSubject("data/lab/group/waiting2", { "READY_TO_PROCESS": "" }),
+    ...makeSubject("data/lab/processing", { "READY_TO_PROCESS": "", "PROCESSING": "" }),
+    ...makeSubject("data/lab/error", { "READY_TO_PROCESS": "", "ERROR": "" }),
+    ...makeSubject("data/lab/done1", { "log.txt": "log", "_results.json": JSON.stringify({ autoAvgRMSE: 0.02 }) }),
+    ...makeSubject("data/lab/done2", { "log.txt": "log", "_results.json": JSON.stringify({ autoAvgRMSE: 0.04 }) }),
+    ...makeSubject("data/lab/done3", { "log.txt": "log", "_results.json": JSON.stringify({ autoAvgRMSE: "0.03" }) }),
+    ...makeSubject("data/lab/done4", { "log.txt": "log", "_results.json": "not json" })
+};
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("counts the subjects with each status, at any depth", async () => {
+    const summary = new FolderSummary(await makeCursor(makeStorage(FOLDER), "/my_data/lab"));
+
+    expect(summary.counts).toEqual({
+        'empty': 1,
+        'could-process': 1,
+        'waiting': 2,
+        'processing': 1,
+        'error': 1,
+        'done': 4
+    });
+    expect(summary.subjects.find((subject) => subject.path === "group/waiting2")?.status).toBe('waiting');
+    expect(summary.numTrials).toBe(2 * 9);
+});
+
+test("the queue lists only subjects in this folder that are waiting, in processing order", async () => {
+    const cursor = await makeCursor(makeStorage(FOLDER), "/my_data/lab");
+    const summary = new FolderSummary(cursor);
+    expect(summary.queue).toEqual([]);
+
+    runInAction(() => {
+        cursor.cloudProcessingQueue = ["data/other/subject/", "data/lab/group/waiting2/", "protected/someone-else/data/lab/waiting1/", "data/lab/waiting1/"];
+    });
+
+    expect(summary.queue.map((subject) => [subject.path, subject.queuePosition])).toEqual([["group/waiting2", 1], ["waiting1", 3]]);
+});
+
+test("rmseValues only has finished subjects whose results have a usable RMSE", async () => {
+    const storage = makeStorage(FOLDER);
+    const summary = new FolderSummary(await makeCursor(storage, "/my_data/lab"));
+    expect(summary.rmseValues).toEqual([]);
+
+    await summary.loadRMSE();
+
+    expect(summary.rmseValues).toEqual([0.02, 0.04]);
+    expect(summary.loadingRMSE).toBeFalsy();
+});
+
+test("loadRMSE() only downloads results that changed since last time", async () => {
+    const storage = makeStorage(FOLDER);
+    const cursor = await makeCursor(storage, "/my_data/lab");
+    const summary = new FolderSummary(cursor);
+    await summary.loadRMSE();
+
+    let downloaded: string[] = [];
+    const download = storage.download;
+    storage.download = (path, progressCallback) => {
+        downloaded.push(path);
+        return download(path, progressCallback);
+    };
+    // Make sure the reprocessed results get a later timestamp
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cursor.rawCursor.index.upload("data/lab/done2/_results.json", JSON.stringify({ autoAvgRMSE: 0.01 }));
+    await summary.loadRMSE();
+
+    expect(downloaded).toEqual(["data/lab/done2/_results.json"]);
+    expect(summary.rmseValues).toEqual([0.02, 0.01]);
+});
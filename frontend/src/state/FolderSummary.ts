@@ -0,0 +1,219 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type MocapS3Cursor from './MocapS3Cursor';
+import { forEachInBatches, asNumber } from '../utils';
+
+/// We download this many subjects' "_results.json" files at a time
+const DOWNLOAD_BATCH_SIZE = 8;
+
+type SubjectStatus = 'empty' | 'could-process' | 'waiting' | 'processing' | 'error' | 'done';
+
+/// Every status, in the order a subject moves through them
+const SUBJECT_STATUSES: SubjectStatus[] = ['empty', 'could-process', 'waiting', 'processing', 'error', 'done'];
+
+/// This is one subject in the folder being summarized
+type SubjectSummaryEntry = {
+    // Relative to the folder
+    path: string;
+    status: SubjectStatus;
+    numTrials: number;
+    // How many subjects are ahead of this one in the processing queue, or null if it isn't in the queue
+    queuePosition: number | null;
+};
+
+/// This adds up the state of every subject under the current folder, at any depth, so someone running a big batch can
+/// see how far along it is. Everything except the RMSEs comes from the index, so it's always up to date. The RMSEs
+/// are in each subject's "_results.json", so those only get downloaded when someone asks for them with loadRMSE().
+///
+/// In lazy mode, the index only has the parts of the folder someone has looked at, so there's nothing to summarize
+/// until someone asks for the whole folder to be loaded with loadSubjects().
+class FolderSummary {
+    cursor: MocapS3Cursor;
+    // The full path of the folder we've loaded everything under, in lazy mode
+    loadedFolder: string | null;
+    loadingSubjects: boolean;
+    loadingRMSE: boolean;
+    // The full path of a subject -> the lastModified time of the "_results.json" we read, and the RMSE in it
+    rmseCache: Map<string, { version: number, rmse: number | null }>;
+
+    constructor(cursor: MocapS3Cursor) {
+        this.cursor = cursor;
+        this.loadedFolder = null;
+        this.loadingSubjects = false;
+        this.loadingRMSE = false;
+        this.rmseCache = new Map();
+
+        makeObservable(this, {
+            loadedFolder: observable,
+            loadingSubjects: observable,
+            loadingRMSE: observable,
+            isLoaded: computed,
+            rmseCache: observable.shallow,
+            subjects: computed,
+            counts: computed,
+            numTrials: computed,
+            totalBytes: computed,
+            queue: computed,
+            rmseValues: computed
+        });
+    }
+
+    /**
+     * @returns The full path of the current folder
+     */
+    getFolderPath = () => {
+        return this.cursor.rawCursor.index.globalPrefix + this.cursor.rawCursor.path;
+    };
+
+    /**
+     * @returns The full path of a subject in the current folder, in the same format as the processing queue
+     */
+    getFullPath = (subjectPath: string) => {
+        let folderPath = this.getFolderPath();
+        if (!folderPath.endsWith('/')) folderPath += '/';
+        return folderPath + subjectPath + '/';
+    };
+
+    /**
+     * @returns true if the index has every file under the current folder, so the summary is complete
+     */
+    get isLoaded() {
+        return !this.cursor.rawCursor.index.lazyListing || this.loadedFolder === this.getFolderPath();
+    }
+
+    /**
+     * In lazy mode, this loads everything under the current folder, so we can summarize it. Files under the folder
+     * stay up to date while we're looking at it, but not once we leave, so call forgetSubjects() then.
+     */
+    loadSubjects = action(() => {
+        if (this.isLoaded || this.loadingSubjects) return Promise.resolve();
+        const rawCursor = this.cursor.rawCursor;
+        const folder = this.getFolderPath();
+        this.loadingSubjects = true;
+        return rawCursor.index.loadSubtree(rawCursor.path).then(action(() => {
+            this.loadedFolder = folder;
+        })).catch((e: any) => {
+            console.warn("Unable to load \"" + folder + "\" to summarize it", e);
+        }).finally(action(() => {
+            this.loadingSubjects = false;
+        }));
+    });
+
+    /**
+     * This undoes loadSubjects(), once we're not looking at the folder anymore.
+     */
+    forgetSubjects = action(() => {
+        this.loadedFolder = null;
+    });
+
+    /**
+     * @returns Every subject under the current folder, with its status, or [] if we haven't loaded the folder yet
+     */
+    get subjects(): SubjectSummaryEntry[] {
+        if (!this.isLoaded) return [];
+        const queue = this.cursor.cloudProcessingQueue;
+        return this.cursor.getSubjectsUnder().sort().map((path: string) => {
+            const position = queue.indexOf(this.getFullPath(path));
+            return {
+                path,
+                status: this.cursor.getSubjectStatus(path),
+                numTrials: this.cursor.getTrials(path + '/').length,
+                queuePosition: position === -1 ? null : position
+            };
+        });
+    }
+
+    /**
+     * @returns The number of subjects with each status
+     */
+    get counts(): Record<SubjectStatus, number> {
+        let counts: Record<SubjectStatus, number> = { 'empty': 0, 'could-process': 0, 'waiting': 0, 'processing': 0, 'error': 0, 'done': 0 };
+        this.subjects.forEach((subject) => counts[subject.status]++);
+        return counts;
+    }
+
+    /**
+     * @returns The total number of trials, across every subject
+     */
+    get numTrials() {
+        return this.subjects.reduce((total, subject) => total + subject.numTrials, 0);
+    }
+
+    /**
+     * @returns The total size of every file under the folder
+     */
+    get totalBytes() {
+        let total = 0;
+        this.cursor.rawCursor.children.forEach((file) => {
+            total += file.size;
+        });
+        return total;
+    }
+
+    /**
+     * @returns The subjects that are waiting in the processing queue, in the order they'll be processed
+     */
+    get queue() {
+        return this.subjects.filter((subject) => subject.queuePosition != null).sort((a, b) => (a.queuePosition as number) - (b.queuePosition as number));
+    }
+
+    /**
+     * @returns The RMSE of every finished subject we've downloaded the results of, in meters
+     */
+    get rmseValues() {
+        let values: number[] = [];
+        this.subjects.forEach((subject) => {
+            if (subject.status !== 'done') return;
+            const cached = this.rmseCache.get(this.getFullPath(subject.path));
+            if (cached != null && cached.rmse != null) values.push(cached.rmse);
+        });
+        return values;
+    }
+
+    /**
+     * This downloads the "_results.json" of every finished subject that's new, or has been reprocessed since we last
+     * looked at it.
+     */
+    loadRMSE = action(() => {
+        if (this.loadingRMSE) return Promise.resolve();
+        const toLoad = this.subjects.filter((subject) => {
+            if (subject.status !== 'done') return false;
+            const cached = this.rmseCache.get(this.getFullPath(subject.path));
+            return cached == null || cached.version !== this.getResultsVersion(subject.path);
+        });
+        if (toLoad.length === 0) return Promise.resolve();
+        this.loadingRMSE = true;
+
+        const loadSubject = (subject: SubjectSummaryEntry): Promise<void> => {
+            const fullPath = this.getFullPath(subject.path);
+            const version = this.getResultsVersion(subject.path);
+            return this.cursor.rawCursor.downloadText(subject.path + "/_results.json").then(action((text: string) => {
+                let rmse: number | null = null;
+                try {
+                    rmse = asNumber(JSON.parse(text).autoAvgRMSE);
+                }
+                catch (e) {
+                    console.warn("Malformed \"_results.json\" in \"" + fullPath + "\"", e);
+                }
+                this.rmseCache.set(fullPath, { version, rmse });
+            })).catch((e: any) => {
+                // One subject we can't read shouldn't keep the rest out of the summary
+                console.warn("Unable to load the results of \"" + fullPath + "\"", e);
+            });
+        };
+
+        return forEachInBatches(toLoad, DOWNLOAD_BATCH_SIZE, loadSubject).finally(action(() => {
+            this.loadingRMSE = false;
+        }));
+    });
+
+    /**
+     * @returns The lastModified time of a subject's "_results.json", which changes whenever it gets reprocessed
+     */
+    getResultsVersion = (subjectPath: string) => {
+        return this.cursor.rawCursor.getChildMetadata(subjectPath + "/_results.json")?.lastModified.getTime() ?? 0;
+    };
+}
+
+export { SUBJECT_STATUSES };
+export type { SubjectStatus, SubjectSummaryEntry };
+export default FolderSummary;
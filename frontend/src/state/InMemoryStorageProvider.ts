@@ -0,0 +1,94 @@
+import type { ReactiveFileMetadata } from './ReactiveS3';
+import { StorageProvider, listFilesInFolder, VersionMismatchError } from './StorageProvider';
+
+type InMemoryObject = {
+    contents: Blob;
+    lastModified: Date;
+    version: number;
+};
+
+/// This is a StorageProvider that keeps everything in a Map in memory. This is useful for unit tests, and for working
+/// on the UI without any AWS credentials. Nothing survives a page reload.
+class InMemoryStorageProvider implements StorageProvider {
+    globalPrefix: string;
+    objects: Map<string, InMemoryObject> = new Map();
+    nextVersion: number = 1;
+
+    constructor(globalPrefix: string = '') {
+        this.globalPrefix = globalPrefix;
+    }
+
+    getGlobalPrefix = () => {
+        return Promise.resolve(this.globalPrefix);
+    };
+
+    upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void) => {
+        this.objects.set(path, {
+            contents: new Blob([contents]),
+            lastModified: new Date(),
+            version: this.nextVersion++
+        });
+        progressCallback(1.0);
+        return Promise.resolve();
+    };
+
+    uploadIfVersion = (path: string, contents: string, expectedVersion: string | null) => {
+        const object = this.objects.get(path);
+        if ((object == null ? null : String(object.version)) !== expectedVersion) {
+            return Promise.reject(new VersionMismatchError(path));
+        }
+        return this.upload(path, contents, () => { }).then(() => String((this.objects.get(path) as InMemoryObject).version));
+    };
+
+    delete = (path: string) => {
+        if (!this.objects.delete(path)) {
+            return Promise.reject(new Error("Got an error trying to delete a file that doesn't exist: \"" + path + "\""));
+        }
+        return Promise.resolve();
+    };
+
+    copy = (fromPath: string, toPath: string) => {
+        const object = this.objects.get(fromPath);
+        if (object == null) {
+            return Promise.reject(new Error('Cannot copy "' + fromPath + '", because it does not exist'));
+        }
+        this.objects.set(toPath, {
+            contents: object.contents,
+            lastModified: new Date(),
+            version: this.nextVersion++
+        });
+        return Promise.resolve();
+    };
+
+    getSignedURL = (path: string) => {
+        return this.download(path).then((blob: Blob) => URL.createObjectURL(blob));
+    };
+
+    download = (path: string, progressCallback?: (progress: { loaded: number, total: number }) => void) => {
+        const object = this.objects.get(path);
+        if (object == null) {
+            return Promise.reject(new Error('Cannot download "' + path + '", because it does not exist'));
+        }
+        if (progressCallback) progressCallback({ loaded: object.contents.size, total: object.contents.size });
+        return Promise.resolve(object.contents);
+    };
+
+    getVersion = (path: string) => {
+        const object = this.objects.get(path);
+        return Promise.resolve(object == null ? null : String(object.version));
+    };
+
+    list = (folder: string, limitToOneFolderLevel: boolean) => {
+        let allFiles: ReactiveFileMetadata[] = [];
+        this.objects.forEach((object: InMemoryObject, key: string) => {
+            allFiles.push({
+                key,
+                lastModified: object.lastModified,
+                size: object.contents.size
+            });
+        });
+        return Promise.resolve(listFilesInFolder(allFiles, folder, limitToOneFolderLevel));
+    };
+}
+
+export default InMemoryStorageProvider;
@@ -0,0 +1,71 @@
+import { mqttTopicMatch } from './RobustMqtt';
+import type { PubSubSocket } from './PubSubSocket';
+
+type Handler = {
+  pattern: string;
+  handler: (topic: string, message: string) => void;
+}
+
+/// This is a tiny MQTT-style broker that lives entirely in memory. Several InProcessMqtt sockets can share one
+/// broker, which is useful for simulating multiple browser tabs (or the processing server) in a single test.
+class InProcessBroker {
+  handlers: Handler[] = [];
+
+  /**
+   * This delivers a message synchronously to every handler with a matching pattern.
+   */
+  publish = (topic: string, message: string) => {
+    // Copy the handlers, in case a handler subscribes or unsubscribes while we're delivering
+    [...this.handlers].forEach(({ pattern, handler }) => {
+      if (mqttTopicMatch(pattern, topic)) {
+        handler(topic, message);
+      }
+    });
+  };
+
+  /**
+   * @returns a function that removes this subscription
+   */
+  subscribe = (pattern: string, handler: (topic: string, message: string) => void) => {
+    const entry: Handler = { pattern, handler };
+    this.handlers.push(entry);
+    return () => {
+      this.handlers = this.handlers.filter((h) => h !== entry);
+    };
+  };
+}
+
+/// This is a PubSubSocket that talks to an InProcessBroker instead of the network. Messages are delivered
+/// synchronously, so by the time publish() resolves every subscriber has already seen the message.
+class InProcessMqtt implements PubSubSocket {
+  deployment: string;
+  broker: InProcessBroker;
+  connected: boolean = false;
+  connectionListeners: ((connected: boolean) => void)[] = [];
+
+  constructor(deployment: string, broker: InProcessBroker = new InProcessBroker()) {
+    this.deployment = deployment;
+    this.broker = broker;
+  }
+
+  connect = () => {
+    this.connected = true;
+    this.connectionListeners.forEach((l) => l(true));
+  };
+
+  addConnectionListener = (listener: (connected: boolean) => void) => {
+    this.connectionListeners.push(listener);
+  };
+
+  publish = (topic: string, message: string) => {
+    this.broker.publish('/' + this.deployment + topic, message);
+    return Promise.resolve();
+  };
+
+  subscribe = (pattern: string, handler: (topic: string, message: string) => void) => {
+    return this.broker.subscribe('/' + this.deployment + pattern, handler);
+  };
+}
+
+export { InProcessBroker };
+export default InProcessMqtt;
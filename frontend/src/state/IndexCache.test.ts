@@ -0,0 +1,66 @@
+import type * as IndexCacheModule from './IndexCache';
+
+// jsdom doesn't have IndexedDB, so we just keep track of the requests that would have been run against it
+const mockRequests: string[] = [];
+jest.mock('./LocalDatabase', () => ({
+    INDEX_CACHE_STORE: 'indexCache',
+    runRequest: (storeName: string, mode: string, makeRequest: (store: any) => any) => {
+        makeRequest({
+            put: (cached: any) => mockRequests.push("put " + cached.key),
+            clear: () => mockRequests.push("clear")
+        });
+        return Promise.resolve(null);
+    }
+}));
+
+// Clearing the cache stops saves for good, so each test gets its own copy of the module
+let IndexCache: typeof IndexCacheModule;
+
+const FILES = [{ key: "data/subject/_subject.json", lastModified: new Date(1000), size: 10 }];
+
+beforeEach(async () => {
+    mockRequests.length = 0;
+    jest.resetModules();
+    IndexCache = await import('./IndexCache');
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+test("scheduled saves for the same key collapse into one write", () => {
+    IndexCache.scheduleSaveCachedIndex("bucket/protected/me/", () => FILES, 2000);
+    jest.advanceTimersByTime(1000);
+    IndexCache.scheduleSaveCachedIndex("bucket/protected/me/", () => FILES, 2000);
+    jest.advanceTimersByTime(1000);
+    expect(mockRequests).toEqual([]);
+
+    jest.advanceTimersByTime(1000);
+    expect(mockRequests).toEqual(["put bucket/protected/me/"]);
+});
+
+test("clearing the cache on logout cancels saves that are still waiting", () => {
+    IndexCache.scheduleSaveCachedIndex("bucket/protected/me/", () => FILES, 2000);
+    IndexCache.scheduleSaveCachedIndex("bucket/public/", () => FILES, 2000);
+    IndexCache.clearCachedIndexes();
+    jest.advanceTimersByTime(5000);
+
+    expect(mockRequests).toEqual(["clear"]);
+});
+
+test("saves made before clearing get cleared along with everything else", () => {
+    IndexCache.saveCachedIndex("bucket/protected/me/", FILES);
+    IndexCache.clearCachedIndexes();
+
+    expect(mockRequests).toEqual(["put bucket/protected/me/", "clear"]);
+});
+
+test("the indexes can't write their files back after the cache is cleared", () => {
+    IndexCache.clearCachedIndexes();
+    IndexCache.saveCachedIndex("bucket/protected/me/", FILES);
+    IndexCache.scheduleSaveCachedIndex("bucket/protected/me/", () => FILES, 2000);
+    jest.advanceTimersByTime(5000);
+
+    expect(mockRequests).toEqual(["clear"]);
+});
@@ -0,0 +1,88 @@
+import { INDEX_CACHE_STORE, runRequest } from './LocalDatabase';
+import type { ReactiveFileMetadata } from './ReactiveS3';
+
+/// This keeps a copy of each ReactiveIndex's file list in IndexedDB, so that on the next page load we can render right
+/// away from the cache, while we check it against S3 in the background. Entries are keyed by bucket and global prefix,
+/// so different users (and the public index) never see each other's caches.
+
+type CachedIndex = {
+    key: string;
+    files: ReactiveFileMetadata[];
+    savedAt: number;
+};
+
+// Cache key -> the timer for a save that's waiting for things to go quiet
+const pendingSaves: Map<string, any> = new Map();
+// Once we've cleared the cache on logout, the indexes are still holding the last user's files, so we stop saving until
+// the page reloads
+let savesStopped = false;
+
+/**
+ * @returns the cached files for `cacheKey`, or null if we don't have a cache
+ */
+function loadCachedIndex(cacheKey: string): Promise<ReactiveFileMetadata[] | null> {
+    return runRequest<CachedIndex | undefined>(INDEX_CACHE_STORE, 'readonly', (store) => store.get(cacheKey)).then((cached) => {
+        if (cached == null) return null;
+        return cached.files.map((file) => ({
+            key: file.key,
+            // PubSub updates carry timestamps as numbers, so normalize everything to Dates on the way out
+            lastModified: new Date(file.lastModified),
+            size: file.size
+        }));
+    }).catch((e) => {
+        console.warn("Unable to read the cached index for \"" + cacheKey + "\"", e);
+        return null;
+    });
+}
+
+/**
+ * This overwrites the cache for `cacheKey` with `files`.
+ */
+function saveCachedIndex(cacheKey: string, files: ReactiveFileMetadata[]): Promise<void> {
+    if (savesStopped) return Promise.resolve();
+    const cached: CachedIndex = {
+        key: cacheKey,
+        files,
+        savedAt: Date.now()
+    };
+    return runRequest(INDEX_CACHE_STORE, 'readwrite', (store) => store.put(cached)).then(() => { }).catch((e) => {
+        console.warn("Unable to save the cached index for \"" + cacheKey + "\"", e);
+    });
+}
+
+/**
+ * This saves the cache for `cacheKey` once `delayMs` goes by without another call for the same key, so that a burst of
+ * changes only turns into one write. We call `getFiles` when the timer fires, so the save has the latest files.
+ */
+function scheduleSaveCachedIndex(cacheKey: string, getFiles: () => ReactiveFileMetadata[], delayMs: number) {
+    if (savesStopped) return;
+    cancelPendingSave(cacheKey);
+    pendingSaves.set(cacheKey, setTimeout(() => {
+        pendingSaves.delete(cacheKey);
+        saveCachedIndex(cacheKey, getFiles());
+    }, delayMs));
+}
+
+/**
+ * This cancels the save waiting on `cacheKey` from scheduleSaveCachedIndex(), if there is one.
+ */
+function cancelPendingSave(cacheKey: string) {
+    const timer = pendingSaves.get(cacheKey);
+    if (timer != null) {
+        clearTimeout(timer);
+        pendingSaves.delete(cacheKey);
+    }
+}
+
+/**
+ * This throws away every cached index. We call this on logout, so the next person on this computer can't see what
+ * files the last person had. Saves that are still waiting get cancelled first, and any saves after this do nothing,
+ * or the indexes would write the list back after we cleared it.
+ */
+function clearCachedIndexes(): Promise<void> {
+    savesStopped = true;
+    [...pendingSaves.keys()].forEach(cancelPendingSave);
+    return runRequest(INDEX_CACHE_STORE, 'readwrite', (store) => store.clear()).then(() => { });
+}
+
+export { loadCachedIndex, saveCachedIndex, scheduleSaveCachedIndex, cancelPendingSave, clearCachedIndexes };
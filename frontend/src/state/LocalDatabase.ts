@@ -0,0 +1,63 @@
+/// This is the IndexedDB database the frontend uses to keep things around between page loads. Each feature gets its
+/// own object store, which are all created here so that upgrades happen in one place.
+///
+/// Everything in here degrades gracefully: if IndexedDB isn't available (e.g. in Node, or some private browsing
+/// modes), reads resolve to null and writes do nothing.
+
+// This name predates everything but the upload store. We keep it so that existing resumable uploads aren't lost.
+const DB_NAME = 'BiomechanicsNetUploads';
+// Version 1: multipartUploads
+// Version 2: indexCache
+const DB_VERSION = 2;
+
+const MULTIPART_UPLOADS_STORE = 'multipartUploads';
+const INDEX_CACHE_STORE = 'indexCache';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * @returns a promise for the (lazily opened) database, or null if IndexedDB isn't available
+ */
+function openDB(): Promise<IDBDatabase | null> {
+    if (dbPromise == null) {
+        dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(MULTIPART_UPLOADS_STORE)) {
+                    db.createObjectStore(MULTIPART_UPLOADS_STORE, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(INDEX_CACHE_STORE)) {
+                    db.createObjectStore(INDEX_CACHE_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("Unable to open IndexedDB, nothing will be saved between page loads", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * This runs a single request against an object store, and resolves with its result.
+ */
+function runRequest<T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+    return openDB().then((db: IDBDatabase | null) => {
+        if (db == null) return null;
+        return new Promise<T | null>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = makeRequest(transaction.objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    });
+}
+
+export { MULTIPART_UPLOADS_STORE, INDEX_CACHE_STORE, runRequest };
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import type { ReactiveFileMetadata } from './ReactiveS3';
+import { StorageProvider, listFilesInFolder } from './StorageProvider';
+
+/// Every object is stored in a file whose name ends with this. encodePathSegment() never produces a "#", so a file
+/// with this suffix can't be mistaken for a folder, or the other way around.
+const OBJECT_SUFFIX = '#object';
+
+/**
+ * @returns A name for one '/'-separated piece of a key that's safe to use as a file or directory name. Dots get
+ * encoded too, so a key with ".." in it can't reach outside the root directory.
+ */
+function encodePathSegment(segment: string) {
+    return encodeURIComponent(segment).replace(/\./g, '%2E');
+}
+
+/// This is a StorageProvider that keeps its files in a directory on the local disk, using Node's `fs` module. This is
+/// meant for running end-to-end tests and dev scripts under Node, so don't import it from code that ships to the browser.
+///
+/// The folders in each key become directories on disk, so "data/subject/_subject.json" is stored in
+/// "data/subject/_subject.json#object". S3 happily stores both "subject" and "subject/_subject.json" as keys, which a
+/// plain tree of files can't represent, so every object gets OBJECT_SUFFIX on its file name to keep it apart from the
+/// directory with the same name.
+class LocalDirectoryStorageProvider implements StorageProvider {
+    rootDir: string;
+    globalPrefix: string;
+
+    constructor(rootDir: string, globalPrefix: string = '') {
+        this.rootDir = rootDir;
+        this.globalPrefix = globalPrefix;
+    }
+
+    /**
+     * @returns the directory on disk that holds the objects in `folder`, which is either '' or ends with a '/'
+     */
+    getDirectoryPath = (folder: string) => {
+        const segments = folder.split('/').slice(0, -1);
+        return nodePath.join(this.rootDir, ...segments.map(encodePathSegment));
+    };
+
+    /**
+     * @returns the path on disk where we store the object with key `path`
+     */
+    getFilePath = (path: string) => {
+        const slash = path.lastIndexOf('/');
+        return nodePath.join(this.getDirectoryPath(path.substring(0, slash + 1)), encodePathSegment(path.substring(slash + 1)) + OBJECT_SUFFIX);
+    };
+
+    getGlobalPrefix = () => {
+        return Promise.resolve(this.globalPrefix);
+    };
+
+    upload = async (path: string, contents: File | string, progressCallback: (percentage: number) => void) => {
+        const bytes = typeof contents === 'string' ? Buffer.from(contents, 'utf-8') : Buffer.from(await contents.arrayBuffer());
+        const filePath = this.getFilePath(path);
+        await fs.promises.mkdir(nodePath.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, bytes);
+        progressCallback(1.0);
+    };
+
+    delete = async (path: string) => {
+        const filePath = this.getFilePath(path);
+        await fs.promises.unlink(filePath);
+        // S3 doesn't have empty folders, so we don't leave any behind either
+        const root = nodePath.resolve(this.rootDir);
+        let directory = nodePath.resolve(nodePath.dirname(filePath));
+        while (directory.startsWith(root + nodePath.sep)) {
+            try {
+                await fs.promises.rmdir(directory);
+            }
+            catch (e) {
+                // It still has something in it
+                break;
+            }
+            directory = nodePath.dirname(directory);
+        }
+    };
+
+    copy = async (fromPath: string, toPath: string) => {
+        const toFilePath = this.getFilePath(toPath);
+        await fs.promises.mkdir(nodePath.dirname(toFilePath), { recursive: true });
+        await fs.promises.copyFile(this.getFilePath(fromPath), toFilePath);
+    };
+
+    getSignedURL = (path: string) => {
+        return this.download(path).then((blob: Blob) => URL.createObjectURL(blob));
+    };
+
+    download = async (path: string, progressCallback?: (progress: { loaded: number, total: number }) => void) => {
+        const bytes = await fs.promises.readFile(this.getFilePath(path));
+        if (progressCallback) progressCallback({ loaded: bytes.length, total: bytes.length });
+        return new Blob([bytes]);
+    };
+
+    getVersion = async (path: string) => {
+        try {
+            const stat = await fs.promises.stat(this.getFilePath(path));
+            return stat.mtimeMs + ":" + stat.size;
+        }
+        catch (e) {
+            return null;
+        }
+    };
+
+    list = async (folder: string, limitToOneFolderLevel: boolean) => {
+        // Everything under `folder` is in its directory, so we only have to look there
+        let allFiles: ReactiveFileMetadata[] = [];
+        const walk = async (directory: string, keyPrefix: string) => {
+            let entries: fs.Dirent[] = [];
+            try {
+                entries = await fs.promises.readdir(directory, { withFileTypes: true });
+            }
+            catch (e) {
+                // If the directory doesn't exist yet, that's the same as being empty
+                return;
+            }
+            for (let i = 0; i < entries.length; i++) {
+                const entryPath = nodePath.join(directory, entries[i].name);
+                if (entries[i].isDirectory()) {
+                    await walk(entryPath, keyPrefix + decodeURIComponent(entries[i].name) + '/');
+                }
+                else if (entries[i].isFile() && entries[i].name.endsWith(OBJECT_SUFFIX)) {
+                    const stat = await fs.promises.stat(entryPath);
+                    allFiles.push({
+                        key: keyPrefix + decodeURIComponent(entries[i].name.substring(0, entries[i].name.length - OBJECT_SUFFIX.length)),
+                        lastModified: stat.mtime,
+                        size: stat.size
+                    });
+                }
+            }
+        };
+        await walk(this.getDirectoryPath(folder), folder);
+        return listFilesInFolder(allFiles, folder, limitToOneFolderLevel);
+    };
+}
+
+export default LocalDirectoryStorageProvider;
@@ -0,0 +1,72 @@
+import { parseMOT, getMOTErrors, describeProblems, MOTParseError } from './MOT';
+
+const IK = [
+    "walk",
+    "version=1",
+    "nRows=4",
+    "nColumns=3",
+    "inDegrees=yes",
+    "endheader",
+    "time\tknee_angle_r\thip_flexion_r",
+    "0.00\t1\t2",
+    "0.01\tNaN\t2",
+    "0.02\tNaN\t2",
+    "0.03\t1\tNaN"
+].join("\n");
+
+test("reads the header and columns of a *.mot file", () => {
+    const mot = parseMOT(IK);
+
+    expect(mot.name).toBe("walk");
+    expect(mot.header.get("nrows")).toBe("4");
+    expect(mot.inDegrees).toBe(true);
+    expect(mot.columns).toEqual(["time", "knee_angle_r", "hip_flexion_r"]);
+    expect(mot.numRows).toBe(4);
+    expect(mot.startTime).toBe(0);
+    expect(mot.endTime).toBe(0.03);
+});
+
+test("reports the first run of NaN values in each column, by line", () => {
+    const mot = parseMOT(IK);
+
+    expect(mot.problems).toEqual(["These columns have missing (NaN) values: knee_angle_r (lines 9-10), hip_flexion_r (line 11)"]);
+});
+
+test("complains when the header doesn't match the data", () => {
+    const mot = parseMOT(IK.replace("nRows=4", "nRows=5").replace("nColumns=3", "nColumns=2").replace(/NaN/g, "0"));
+
+    expect(mot.problems).toEqual([
+        "The header says there are 5 rows, but there are 4.",
+        "The header says there are 2 columns, but there are 3 column labels."
+    ]);
+});
+
+test("reads files padded with spaces, and checks every row has a value for every column", () => {
+    const mot = parseMOT("inDegrees=no\nendheader\ntime   ground_force_vx   ground_force_vy\n0.0   1.5   2.5\n0.1   1.5\n");
+
+    expect(mot.inDegrees).toBe(false);
+    expect(mot.columns).toEqual(["time", "ground_force_vx", "ground_force_vy"]);
+    expect(mot.problems).toEqual([
+        "Line 5 has 2 values, but there are 3 column labels.",
+        "These columns have missing (NaN) values: ground_force_vy (line 5)"
+    ]);
+});
+
+test("checks for what inverse kinematics and ground reaction force files need", () => {
+    const noUnits = parseMOT(IK.replace("inDegrees=yes\n", "").replace(/NaN/g, "0"));
+    expect(getMOTErrors(noUnits)).toEqual([]);
+    expect(getMOTErrors(noUnits, 'ik')[0]).toContain("whether the angles are in degrees or radians");
+    expect(getMOTErrors(noUnits, 'grf')[0]).toContain("There aren't any force columns");
+});
+
+test("only lists the first few problems", () => {
+    const message = describeProblems(["1", "2", "3", "4", "5", "6", "7"]);
+
+    expect(message).toBe("1\n2\n3\n4\n5\n(and 2 more)");
+    expect(describeProblems([])).toBeNull();
+});
+
+test("rejects files without an endheader, or without a time column", () => {
+    expect(() => parseMOT("time\tknee_angle_r\n0\t1", "*.sto")).toThrow("Malformed *.sto file!");
+    expect(() => parseMOT("endheader\nknee_angle_r\n1")).toThrow(MOTParseError);
+});
@@ -0,0 +1,238 @@
+import BaseError from './BaseError';
+
+/// We only list this many problems when we reject a file, so the alert stays readable
+const MAX_PROBLEMS_SHOWN = 5;
+
+/// This gets thrown when a file's header is so broken that we can't read its data at all
+class MOTParseError extends BaseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MOTParseError';
+    }
+}
+
+/// This is everything we read out of an OpenSim *.mot or *.sto file
+type MOTFile = {
+    // The first line of the header, if it isn't a key=value pair
+    name: string | null;
+    // Every key=value line in the header, keyed in lower case
+    header: Map<string, string>;
+    // null if the header doesn't say
+    inDegrees: boolean | null;
+    // The column labels, starting with "time"
+    columns: string[];
+    numRows: number;
+    startTime: number;
+    endTime: number;
+    // Problems we found while reading the data rows
+    problems: string[];
+};
+
+/// What a file is going to be used for, which decides what columns and header lines it needs
+type MOTKind = 'ik' | 'grf';
+
+/**
+ * This splits a row of a *.mot file. OpenSim writes tabs, but older tools pad with spaces.
+ */
+function splitRow(line: string): string[] {
+    const trimmed = line.trim();
+    if (trimmed.includes('\t')) return trimmed.split('\t').map((field) => field.trim());
+    return trimmed.split(/\s+/);
+}
+
+/**
+ * This reads an OpenSim *.mot or *.sto file, checking that the header matches the data, that time only goes forwards,
+ * and that no column has gaps in it.
+ *
+ * @param fileType How to refer to the file in error messages, like "*.mot"
+ */
+function parseMOT(text: string, fileType: string = "*.mot"): MOTFile {
+    const lines = text.split(/\r?\n/);
+    const endHeader = lines.findIndex((line) => line.trim().toLowerCase() === 'endheader');
+    if (endHeader === -1) {
+        throw new MOTParseError("Malformed " + fileType + " file! There isn't an \"endheader\" line, so we can't tell where the header stops and the data starts");
+    }
+
+    let name: string | null = null;
+    let header = new Map<string, string>();
+    for (let i = 0; i < endHeader; i++) {
+        const line = lines[i].trim();
+        const equals = line.indexOf('=');
+        if (equals !== -1) {
+            header.set(line.substring(0, equals).trim().toLowerCase(), line.substring(equals + 1).trim());
+        }
+        else if (i === 0 && line !== '') {
+            name = line;
+        }
+    }
+
+    let problems: string[] = [];
+    let inDegrees: boolean | null = null;
+    const inDegreesText = header.get('indegrees');
+    if (inDegreesText != null) {
+        if (inDegreesText.toLowerCase() === 'yes') inDegrees = true;
+        else if (inDegreesText.toLowerCase() === 'no') inDegrees = false;
+        else problems.push("The header says \"inDegrees=" + inDegreesText + "\", but it should be \"inDegrees=yes\" or \"inDegrees=no\".");
+    }
+
+    let labelsLine = endHeader + 1;
+    while (labelsLine < lines.length && lines[labelsLine].trim() === '') labelsLine++;
+    if (labelsLine >= lines.length) {
+        throw new MOTParseError("Malformed " + fileType + " file! There aren't any column labels after the \"endheader\" line");
+    }
+    const columns = splitRow(lines[labelsLine]);
+    if (columns[0].toLowerCase() !== 'time') {
+        throw new MOTParseError("Malformed " + fileType + " file! The first column should be \"time\", but it's \"" + columns[0] + "\"");
+    }
+    const duplicates = columns.filter((column, i) => columns.indexOf(column) !== i);
+    if (duplicates.length > 0) {
+        problems.push("These columns appear more than once: " + Array.from(new Set(duplicates)).join(", "));
+    }
+
+    let numRows = 0;
+    let startTime = NaN;
+    let lastTime = NaN;
+    let badColumnCount: string | null = null;
+    let badTime: string | null = null;
+    // For each column, the line the current run of missing values started on, or -1 if there isn't one
+    let nanRunStart: number[] = new Array(columns.length).fill(-1);
+    // For each column, a description of the first run of missing values, if it has one
+    let nanRuns: (string | null)[] = new Array(columns.length).fill(null);
+    const endNaNRun = (column: number, lineNumber: number) => {
+        if (nanRunStart[column] === -1) return;
+        if (nanRuns[column] == null) {
+            const length = lineNumber - nanRunStart[column];
+            nanRuns[column] = columns[column] + " (" + (length === 1 ? "line " + nanRunStart[column] : "lines " + nanRunStart[column] + "-" + (lineNumber - 1)) + ")";
+        }
+        nanRunStart[column] = -1;
+    };
+
+    let lastDataLine = labelsLine + 1;
+    for (let i = labelsLine + 1; i < lines.length; i++) {
+        if (lines[i].trim() === '') continue;
+        // Lines are numbered from 1, like a text editor would
+        const lineNumber = i + 1;
+        lastDataLine = lineNumber;
+        const values = splitRow(lines[i]).map(Number);
+        numRows++;
+        if (values.length !== columns.length && badColumnCount == null) {
+            badColumnCount = "Line " + lineNumber + " has " + values.length + " values, but there are " + columns.length + " column labels.";
+        }
+
+        const time = values[0];
+        if (isNaN(time)) {
+            if (badTime == null) badTime = "The time on line " + lineNumber + " isn't a number.";
+        }
+        else {
+            if (isNaN(lastTime)) startTime = time;
+            else if (!(time > lastTime) && badTime == null) {
+                badTime = "Time " + (time === lastTime ? "repeats" : "goes backwards") + " on line " + lineNumber + " (from " + lastTime + " to " + time + "). Times need to be strictly increasing.";
+            }
+            lastTime = time;
+        }
+
+        for (let j = 1; j < columns.length; j++) {
+            if (j >= values.length || isNaN(values[j])) {
+                if (nanRunStart[j] === -1) nanRunStart[j] = lineNumber;
+            }
+            else {
+                endNaNRun(j, lineNumber);
+            }
+        }
+    }
+    for (let j = 1; j < columns.length; j++) {
+        endNaNRun(j, lastDataLine + 1);
+    }
+
+    if (numRows === 0) {
+        problems.push("There isn't any data after the column labels.");
+    }
+    if (badColumnCount != null) problems.push(badColumnCount);
+    if (badTime != null) problems.push(badTime);
+    const columnsWithGaps = nanRuns.filter((run) => run != null);
+    if (columnsWithGaps.length > 0) {
+        problems.push("These columns have missing (NaN) values: " + columnsWithGaps.join(", "));
+    }
+
+    const nRows = parseInt(header.get('nrows') ?? header.get('datarows') ?? '');
+    if (!isNaN(nRows) && nRows !== numRows) {
+        problems.push("The header says there are " + nRows + " rows, but there are " + numRows + ".");
+    }
+    const nColumns = parseInt(header.get('ncolumns') ?? header.get('datacolumns') ?? '');
+    if (!isNaN(nColumns) && nColumns !== columns.length) {
+        problems.push("The header says there are " + nColumns + " columns, but there are " + columns.length + " column labels.");
+    }
+
+    return {
+        name,
+        header,
+        inDegrees,
+        columns,
+        numRows,
+        startTime,
+        endTime: lastTime,
+        problems
+    };
+}
+
+/**
+ * @returns Every reason the server won't be able to use this file as `kind`, or [] if it looks usable
+ */
+function getMOTErrors(mot: MOTFile, kind?: MOTKind): string[] {
+    let errors = [...mot.problems];
+    if (mot.columns.length < 2) {
+        errors.push("There aren't any columns besides \"time\".");
+    }
+    if (kind === 'ik' && mot.inDegrees == null) {
+        errors.push("The header doesn't say whether the angles are in degrees or radians. Please add an \"inDegrees=yes\" or \"inDegrees=no\" line before \"endheader\".");
+    }
+    if (kind === 'grf' && !mot.columns.some((column) => /v[xyz]$/i.test(column))) {
+        errors.push("There aren't any force columns. We expect columns named like \"ground_force_vx\", \"ground_force_vy\" and \"ground_force_vz\".");
+    }
+    return errors;
+}
+
+/**
+ * This turns a list of problems into one message for a validateFile hook
+ */
+function describeProblems(problems: string[]): string | null {
+    if (problems.length === 0) return null;
+    let message = problems.slice(0, MAX_PROBLEMS_SHOWN).join("\n");
+    if (problems.length > MAX_PROBLEMS_SHOWN) {
+        message += "\n(and " + (problems.length - MAX_PROBLEMS_SHOWN) + " more)";
+    }
+    return message;
+}
+
+/**
+ * This reads and checks a *.mot or *.sto file the user picked, before it gets uploaded.
+ *
+ * @returns A description of everything wrong with the file, or null if it looks usable
+ */
+function validateMOTFile(file: File, kind?: MOTKind): Promise<string | null> {
+    const fileType = file.name.toLowerCase().endsWith(".sto") ? "*.sto" : "*.mot";
+    return file.text().then((text: string) => {
+        return describeProblems(getMOTErrors(parseMOT(text, fileType), kind));
+    }).catch((e: any) => {
+        if (e instanceof MOTParseError) return e.message;
+        console.error("Error reading \"" + file.name + "\" as a " + fileType + " file", e);
+        return "We couldn't read this file as a " + fileType + " file.";
+    });
+}
+
+/**
+ * This is a DropFile validateFile hook for inverse kinematics (manual_ik.mot) files
+ */
+function validateIKFile(file: File): Promise<string | null> {
+    return validateMOTFile(file, 'ik');
+}
+
+/**
+ * This is a DropFile validateFile hook for ground reaction force (grf.mot) files
+ */
+function validateGRFFile(file: File): Promise<string | null> {
+    return validateMOTFile(file, 'grf');
+}
+
+export type { MOTFile, MOTKind };
+export { MOTParseError, parseMOT, getMOTErrors, describeProblems, validateMOTFile, validateIKFile, validateGRFFile };
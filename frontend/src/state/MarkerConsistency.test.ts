@@ -0,0 +1,121 @@
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import MarkerConsistency from './MarkerConsistency';
+import { makeStorage, makeCursor } from './testUtils';
+
+/**
+ * @returns A cursor looking at the subject in `storage`, once its "_subject.json" is loaded
+ */
+async function loadSubject(storage: InMemoryStorageProvider) {
+    const cursor = await makeCursor(storage, "/my_data/subject");
+    while (cursor.subjectJson.loading) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return cursor;
+}
+
+function makeModel(markers: string[]) {
+    return `<?xml version="1.0" encoding="UTF-8" ?>
+<OpenSimDocument Version="40000">
+    <Model name="model">
+        <BodySet>
+            <objects>
+                <Body name="pelvis">
+                    <mass>10.5</mass>
+                </Body>
+            </objects>
+        </BodySet>
+        <MarkerSet>
+            <objects>
+${markers.map((marker) => `                <Marker name="${marker}">
+                    <socket_parent_frame>/bodyset/pelvis</socket_parent_frame>
+                    <location>0.01 0 0.1</location>
+                    <fixed>true</fixed>
+                </Marker>`).join("\n")}
+            </objects>
+        </MarkerSet>
+    </Model>
+</OpenSimDocument>`;
+}
+
+/**
+ * @returns The text of a *.trc file with one frame of `markers`
+ */
+function makeTRC(markers: string[]) {
+    return [
+        "PathFileType\t4\t(X/Y/Z)\tmarkers.trc",
+        "DataRate\tCameraRate\tNumFrames\tNumMarkers\tUnits\tOrigDataRate\tOrigDataStartFrame\tOrigNumFrames",
+        ["100", "100", 1, markers.length, "mm", "100", "1", 1].join("\t"),
+        ["Frame#", "Time", ...markers.map((marker) => marker + "\t\t")].join("\t"),
+        ["", "", ...markers.map((_, i) => "X" + (i + 1) + "\tY" + (i + 1) + "\tZ" + (i + 1))].join("\t"),
+        ["1", "0.00", ...markers.map(() => "1\t2\t3")].join("\t")
+    ].join("\n");
+}
+
+/**
+ * @returns A subject with a model and a few trials, whose markers line up with the model's to different degrees
+ */
+function makeSubjectStorage(subject: any = {}) {
+    return makeStorage({
+        "data/subject/_subject.json": JSON.stringify(subject),
+        "data/subject/unscaled_generic.osim": makeModel(["RASI", "LASI", "RPSI", "LPSI"]),
+        "data/subject/trials/walk/markers.trc": makeTRC(["RASI", "LASI", "RPSI", "LPSI", "EXTRA"]),
+        "data/subject/trials/run/markers.trc": makeTRC(["R_ASI", "LASI", "CLAV"]),
+        "data/subject/trials/broken/markers.trc": "not a trc file",
+        // This trial hasn't had its markers uploaded yet, so there's nothing to check
+        "data/subject/trials/jump/grf.mot": "forces"
+    });
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("lines up each trial's markers with the model's", async () => {
+    const markerCheck = new MarkerConsistency(await loadSubject(makeSubjectStorage()));
+    await markerCheck.load();
+
+    expect(markerCheck.osimMarkers).toEqual(["RASI", "LASI", "RPSI", "LPSI"]);
+    const trials = markerCheck.trials;
+    expect(trials.map((check) => check.trial).sort()).toEqual(["broken", "run", "walk"]);
+
+    const walk = trials.find((check) => check.trial === "walk");
+    expect(walk?.matched).toEqual(["RASI", "LASI", "RPSI", "LPSI"]);
+    expect(walk?.trialOnly).toEqual(["EXTRA"]);
+    expect(walk?.modelOnly).toEqual([]);
+
+    const run = trials.find((check) => check.trial === "run");
+    expect(run?.matched).toEqual(["LASI"]);
+    expect(run?.trialOnly).toEqual(["R_ASI", "CLAV"]);
+    expect(run?.modelOnly).toEqual(["RASI", "RPSI", "LPSI"]);
+
+    const broken = trials.find((check) => check.trial === "broken");
+    expect(broken?.error).not.toBeNull();
+    expect(broken?.matched).toEqual([]);
+});
+
+test("lowMatchTrials has the trials with under half the model's markers, but not ones we couldn't read", async () => {
+    const markerCheck = new MarkerConsistency(await loadSubject(makeSubjectStorage()));
+    await markerCheck.load();
+
+    expect(markerCheck.lowMatchTrials.map((check) => check.trial)).toEqual(["run"]);
+    expect(markerCheck.getProcessWarning()).toContain("run: 1 of 4 markers");
+});
+
+test("renames in the subject's marker name map count as matches", async () => {
+    const markerCheck = new MarkerConsistency(await loadSubject(makeSubjectStorage({ markerNameMap: { "R_ASI": "RASI" } })));
+    await markerCheck.load();
+
+    const run = markerCheck.trials.find((check) => check.trial === "run");
+    // These are still the names in the trial
+    expect(run?.matched).toEqual(["R_ASI", "LASI"]);
+    expect(run?.modelOnly).toEqual(["RPSI", "LPSI"]);
+    // Half the model's markers is enough
+    expect(markerCheck.lowMatchTrials).toEqual([]);
+    expect(markerCheck.getProcessWarning()).toBeNull();
+    expect(markerCheck.unmatchedTrialLabels).toEqual(["CLAV", "EXTRA"]);
+    expect(markerCheck.unmatchedModelMarkers).toEqual([]);
+});
@@ -0,0 +1,246 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type MocapS3Cursor from './MocapS3Cursor';
+import { parseC3D } from './C3D';
+import { parseTRC } from './TRC';
+import { parseOpenSimModel } from './OpenSimModel';
+import { forEachInBatches } from '../utils';
+
+/// We warn before processing if a trial has fewer than this fraction of the model's markers
+const MIN_MATCHED_FRACTION = 0.5;
+
+/// We download this many trials' marker files at once
+const BATCH_SIZE = 4;
+
+/// The marker names we read out of one trial's marker file
+type TrialLabels = {
+    trial: string;
+    // The index of the trial in MocapS3Cursor.getTrials(), which is how MocapTrialModal finds it
+    index: number;
+    // Set if we couldn't read the trial's marker labels, in which case `labels` is empty
+    error: string | null;
+    labels: string[];
+};
+
+/// How the markers in one trial line up with the markers in the unscaled OpenSim model, after applying the subject's
+/// marker name map
+type TrialMarkerCheck = {
+    trial: string;
+    index: number;
+    error: string | null;
+    // In both the trial and the model. These are the names in the trial, which may be renamed to match the model.
+    matched: string[];
+    // In the trial, but not the model. The optimizer ignores these.
+    trialOnly: string[];
+    // In the model, but not the trial. The optimizer has nothing to fit these to.
+    modelOnly: string[];
+};
+
+/// This checks every trial's marker labels against the markers in the subject's unscaled OpenSim model, before the
+/// subject gets processed. The server does the same check, but we'd otherwise only find out about a mismatch once
+/// processing is done.
+class MarkerConsistency {
+    cursor: MocapS3Cursor;
+    // null until we've read the model
+    osimMarkers: string[] | null;
+    trialLabels: TrialLabels[];
+    loading: boolean;
+    error: string | null;
+    // The subject (and versions of its files) we checked, so we don't download everything again every time
+    loadedKey: string | null;
+    loadPromise: Promise<void>;
+    // Marker labels we've already read, keyed by path and last modified time
+    labelCache: Map<string, string[]>;
+
+    constructor(cursor: MocapS3Cursor) {
+        this.cursor = cursor;
+        this.osimMarkers = null;
+        this.trialLabels = [];
+        this.loading = false;
+        this.error = null;
+        this.loadedKey = null;
+        this.loadPromise = Promise.resolve();
+        this.labelCache = new Map();
+
+        makeObservable(this, {
+            osimMarkers: observable.ref,
+            trialLabels: observable.ref,
+            loading: observable,
+            error: observable,
+            markerNameMap: computed,
+            trials: computed,
+            lowMatchTrials: computed,
+            unmatchedTrialLabels: computed,
+            unmatchedModelMarkers: computed
+        });
+    }
+
+    /**
+     * @returns The marker file we'd check for a trial, relative to the cursor, or null if it doesn't have one yet
+     */
+    getMarkerFile = (trial: string): string | null => {
+        // This is the same order MocapTrialRowView uses to decide which file to show
+        if (this.cursor.rawCursor.getExists("trials/" + trial + "/markers.trc")) return "trials/" + trial + "/markers.trc";
+        if (this.cursor.rawCursor.getExists("trials/" + trial + "/markers.c3d")) return "trials/" + trial + "/markers.c3d";
+        return null;
+    };
+
+    /**
+     * @returns A key that changes whenever the model or any trial's markers get uploaded again
+     */
+    getKey = () => {
+        const rawCursor = this.cursor.rawCursor;
+        let files = ["unscaled_generic.osim"];
+        this.cursor.getTrials().forEach((trial) => {
+            const markerFile = this.getMarkerFile(trial.key);
+            if (markerFile != null) files.push(markerFile);
+        });
+        return rawCursor.index.globalPrefix + rawCursor.path + ":" + files.map((file) => file + "@" + (rawCursor.getChildMetadata(file)?.lastModified.getTime() ?? 0)).join(",");
+    };
+
+    /**
+     * This downloads a trial's marker file and reads its labels, or uses the ones we read last time if it hasn't
+     * changed.
+     */
+    getLabels = (markerFile: string): Promise<string[]> => {
+        const rawCursor = this.cursor.rawCursor;
+        const path = rawCursor.getChildPath(markerFile);
+        const cacheKey = path + "@" + (rawCursor.getChildMetadata(markerFile)?.lastModified.getTime() ?? 0);
+        const cached = this.labelCache.get(cacheKey);
+        if (cached != null) return Promise.resolve(cached);
+
+        return rawCursor.index.storage.download(path).then((blob: Blob) => {
+            if (markerFile.endsWith(".c3d")) {
+                return blob.arrayBuffer().then((buffer: ArrayBuffer) => parseC3D(buffer, false).pointLabels);
+            }
+            return blob.text().then((text: string) => parseTRC(text).markers);
+        }).then((labels: string[]) => {
+            this.labelCache.set(cacheKey, labels);
+            return labels;
+        });
+    };
+
+    /**
+     * This checks every trial in the subject the cursor is on. If nothing has changed since the last check, this
+     * returns the last check's promise.
+     */
+    load = action((): Promise<void> => {
+        const key = this.getKey();
+        if (this.loadedKey === key) return this.loadPromise;
+        this.loadedKey = key;
+        this.loading = true;
+        this.error = null;
+
+        if (!this.cursor.rawCursor.getExists("unscaled_generic.osim")) {
+            this.osimMarkers = null;
+            this.trialLabels = [];
+            this.loading = false;
+            this.loadPromise = Promise.resolve();
+            return this.loadPromise;
+        }
+
+        const trials = this.cursor.getTrials();
+        let checks: TrialLabels[] = [];
+        this.loadPromise = this.cursor.rawCursor.downloadText("unscaled_generic.osim").then((text: string) => {
+            // downloadText() reports its own errors, and gives us an empty string
+            if (text === '') throw new Error("We couldn't download the unscaled OpenSim model");
+            const osimMarkers = parseOpenSimModel(text).markers.map((marker) => marker.name).filter((name) => name !== "");
+            const checkTrial = (trial: { key: string }, index: number): Promise<void> => {
+                const markerFile = this.getMarkerFile(trial.key);
+                if (markerFile == null) return Promise.resolve();
+                return this.getLabels(markerFile).then((allLabels: string[]) => {
+                    // Unlabeled points in a C3D file have empty names, and can't match anything
+                    checks.push({ trial: trial.key, index, error: null, labels: allLabels.filter((label) => label !== "") });
+                }).catch((e: any) => {
+                    console.warn("Unable to read the marker labels in \"" + markerFile + "\"", e);
+                    checks.push({ trial: trial.key, index, error: e instanceof Error ? e.message : String(e), labels: [] });
+                });
+            };
+
+            return forEachInBatches(trials, BATCH_SIZE, checkTrial).then(action(() => {
+                // Don't clobber a newer check, if something got uploaded while we were downloading
+                if (this.loadedKey !== key) return;
+                this.osimMarkers = osimMarkers;
+                this.trialLabels = checks.sort((a, b) => a.index - b.index);
+                this.loading = false;
+            }));
+        }).catch(action((e: any) => {
+            console.warn("Unable to check the markers of \"" + this.cursor.rawCursor.path + "\"", e);
+            if (this.loadedKey !== key) return;
+            this.osimMarkers = null;
+            this.trialLabels = [];
+            this.error = e instanceof Error ? e.message : String(e);
+            this.loading = false;
+            // Let the next load() try again
+            this.loadedKey = null;
+        }));
+        return this.loadPromise;
+    });
+
+    /**
+     * @returns The renames the user accepted in the marker mapping editor, from trial marker names to model marker names
+     */
+    get markerNameMap(): { [trialLabel: string]: string } {
+        return this.cursor.subjectJson.getAttribute("markerNameMap", {});
+    }
+
+    /**
+     * @returns How each trial's markers line up with the model's, once they're renamed by the marker name map
+     */
+    get trials(): TrialMarkerCheck[] {
+        const osimMarkers = this.osimMarkers ?? [];
+        const markerNameMap = this.markerNameMap;
+        return this.trialLabels.map((trialLabels) => {
+            const renamed = trialLabels.labels.map((label) => markerNameMap[label] ?? label);
+            return {
+                trial: trialLabels.trial,
+                index: trialLabels.index,
+                error: trialLabels.error,
+                matched: trialLabels.labels.filter((_, i) => osimMarkers.includes(renamed[i])),
+                trialOnly: trialLabels.labels.filter((_, i) => !osimMarkers.includes(renamed[i])),
+                modelOnly: osimMarkers.filter((marker) => !renamed.includes(marker))
+            };
+        });
+    }
+
+    /**
+     * @returns Every marker name that's in some trial, but doesn't match anything in the model
+     */
+    get unmatchedTrialLabels(): string[] {
+        let labels = new Set<string>();
+        this.trials.forEach((check) => check.trialOnly.forEach((label) => labels.add(label)));
+        return Array.from(labels).sort();
+    }
+
+    /**
+     * @returns Every marker in the model that nothing in any trial matches
+     */
+    get unmatchedModelMarkers(): string[] {
+        const trials = this.trials.filter((check) => check.error == null);
+        return (this.osimMarkers ?? []).filter((marker) => trials.every((check) => check.modelOnly.includes(marker)));
+    }
+
+    /**
+     * @returns The trials that have fewer than MIN_MATCHED_FRACTION of the model's markers
+     */
+    get lowMatchTrials(): TrialMarkerCheck[] {
+        if (this.osimMarkers == null || this.osimMarkers.length === 0) return [];
+        const minMatched = MIN_MATCHED_FRACTION * this.osimMarkers.length;
+        return this.trials.filter((check) => check.error == null && check.matched.length < minMatched);
+    }
+
+    /**
+     * @returns A message to confirm before processing, if some trials don't match the model, otherwise null
+     */
+    getProcessWarning = (): string | null => {
+        const lowMatchTrials = this.lowMatchTrials;
+        if (lowMatchTrials.length === 0 || this.osimMarkers == null) return null;
+        const numModelMarkers = this.osimMarkers.length;
+        return "These trials have fewer than " + Math.round(MIN_MATCHED_FRACTION * 100) + "% of the markers in your unscaled OpenSim model:\n\n"
+            + lowMatchTrials.map((check) => check.trial + ": " + check.matched.length + " of " + numModelMarkers + " markers").join("\n")
+            + "\n\nThe marker names in your trials need to match the names in the model's <MarkerSet>, or the optimizer will ignore them. Process anyway?";
+    };
+}
+
+export type { TrialLabels, TrialMarkerCheck };
+export { MIN_MATCHED_FRACTION };
+export default MarkerConsistency;
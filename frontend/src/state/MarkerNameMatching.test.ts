@@ -0,0 +1,31 @@
+import { normalizeMarkerName, markerNameSimilarity, proposeMarkerNameMatches } from './MarkerNameMatching';
+
+test("puts the side of the body at the front of a marker name", () => {
+    expect(normalizeMarkerName("R.ASIS")).toBe("RASIS");
+    expect(normalizeMarkerName("RightASIS")).toBe("RASIS");
+    expect(normalizeMarkerName("ASIS_R")).toBe("RASIS");
+    expect(normalizeMarkerName(" r asis ")).toBe("RASIS");
+});
+
+test("scores names that differ only in how they're written as the same", () => {
+    expect(markerNameSimilarity("R.ASIS", "RightASIS")).toBe(1);
+    // One letter short of "RASIS"
+    expect(markerNameSimilarity("RASI", "R.ASIS")).toBeCloseTo(0.8);
+    expect(markerNameSimilarity("RASI", "RightASIS")).toBeCloseTo(0.8);
+});
+
+test("never matches markers on opposite sides of the body", () => {
+    expect(markerNameSimilarity("RASI", "LASI")).toBe(0);
+    expect(markerNameSimilarity("RightASIS", "ASIS_L")).toBe(0);
+    expect(markerNameSimilarity("", "RASI")).toBe(0);
+});
+
+test("proposes the closest rename for each marker, using each name at most once", () => {
+    const matches = proposeMarkerNameMatches(["R.ASIS", "L.ASIS", "RightASIS", "RightKnee", "C7"], ["RASI", "LASI", "RKNE", "STRN"]);
+
+    expect(matches.map((match) => [match.trialLabel, match.modelMarker])).toEqual([
+        ["L.ASIS", "LASI"],
+        ["R.ASIS", "RASI"],
+        ["RightKnee", "RKNE"]
+    ]);
+});
@@ -0,0 +1,95 @@
+/// We don't propose matching two names less similar than this, from 0 (nothing in common) to 1 (the same)
+const MIN_SIMILARITY = 0.6;
+
+/// A proposed rename, from a marker name in the trials to a marker name in the model
+type MarkerNameMatch = {
+    trialLabel: string;
+    modelMarker: string;
+    similarity: number;
+};
+
+/**
+ * This puts a marker name into a standard form, so that "RASI", "R.ASIS", "RightASIS" and "ASIS_R" all start with "R"
+ * and differ only in the abbreviation.
+ */
+function normalizeMarkerName(name: string): string {
+    let normalized = name.trim().toUpperCase();
+    // Move a side at the end, like "ASIS_R", to the front
+    const suffix = normalized.match(/^(.+)[._\s-]([LR])$/);
+    if (suffix != null) normalized = suffix[2] + suffix[1];
+    normalized = normalized.replace(/LEFT/g, 'L').replace(/RIGHT/g, 'R');
+    return normalized.replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * @returns 'L' or 'R' if a normalized marker name is on one side of the body, otherwise null
+ */
+function getSide(normalized: string): 'L' | 'R' | null {
+    if (normalized.length < 2) return null;
+    if (normalized[0] === 'L') return 'L';
+    if (normalized[0] === 'R') return 'R';
+    return null;
+}
+
+/**
+ * @returns The number of single character edits it takes to turn `a` into `b`
+ */
+function editDistance(a: string, b: string): number {
+    let previous: number[] = [];
+    for (let j = 0; j <= b.length; j++) previous.push(j);
+    for (let i = 1; i <= a.length; i++) {
+        let current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current.push(Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            ));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * @returns How alike two marker names are, from 0 (nothing in common) to 1 (the same once normalized). Markers on
+ * opposite sides of the body never match, however alike their names are.
+ */
+function markerNameSimilarity(a: string, b: string): number {
+    const normalizedA = normalizeMarkerName(a);
+    const normalizedB = normalizeMarkerName(b);
+    if (normalizedA.length === 0 || normalizedB.length === 0) return 0;
+    const sideA = getSide(normalizedA);
+    const sideB = getSide(normalizedB);
+    if (sideA != null && sideB != null && sideA !== sideB) return 0;
+    return 1 - editDistance(normalizedA, normalizedB) / Math.max(normalizedA.length, normalizedB.length);
+}
+
+/**
+ * This proposes renames from trial marker names that aren't in the model to model marker names that aren't in the
+ * trials. Each name is used at most once, and the most similar pairs get picked first.
+ */
+function proposeMarkerNameMatches(trialLabels: string[], modelMarkers: string[]): MarkerNameMatch[] {
+    let candidates: MarkerNameMatch[] = [];
+    trialLabels.forEach((trialLabel) => {
+        modelMarkers.forEach((modelMarker) => {
+            const similarity = markerNameSimilarity(trialLabel, modelMarker);
+            if (similarity >= MIN_SIMILARITY) candidates.push({ trialLabel, modelMarker, similarity });
+        });
+    });
+    candidates.sort((a, b) => b.similarity - a.similarity);
+
+    let usedTrialLabels = new Set<string>();
+    let usedModelMarkers = new Set<string>();
+    let matches: MarkerNameMatch[] = [];
+    candidates.forEach((candidate) => {
+        if (usedTrialLabels.has(candidate.trialLabel) || usedModelMarkers.has(candidate.modelMarker)) return;
+        usedTrialLabels.add(candidate.trialLabel);
+        usedModelMarkers.add(candidate.modelMarker);
+        matches.push(candidate);
+    });
+    return matches.sort((a, b) => a.trialLabel.localeCompare(b.trialLabel));
+}
+
+export type { MarkerNameMatch };
+export { normalizeMarkerName, markerNameSimilarity, proposeMarkerNameMatches };
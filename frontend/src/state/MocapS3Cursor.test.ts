@@ -0,0 +1,85 @@
+import { makeStorage, makeCursor } from './testUtils';
+
+const SUBJECT = {
+    "data/lab/subject1/_subject.json": "{}",
+    "data/lab/subject1/unscaled_generic.osim": "osim",
+    "data/lab/subject1/trials/walk/markers.c3d": "c3d",
+    "data/lab/subject1/trials/walk/_results.json": "{}",
+    "data/lab/subject1/trials/walk/preview.bin.zip": "preview",
+    "data/lab/subject1/_results.json": "{}",
+    "data/lab/subject1/log.txt": "log",
+    "data/lab/subject1/subject1.zip": "zip",
+    "data/lab/subject1/READY_TO_PROCESS": "",
+    "data/lab/subject2/_subject.json": "{}",
+    "data/lab/subject2/trials/run/markers.c3d": "c3d",
+    "data/lab/unsorted/trials/jump/markers.c3d": "c3d"
+};
+
+test("won't move a trial into a subject that's waiting to be processed, even if nobody has opened it", async () => {
+    const storage = makeStorage(SUBJECT);
+    const cursor = await makeCursor(storage, "/my_data/lab/unsorted/trials", { lazy: true });
+
+    await expect(cursor.moveFolder("jump", "lab/subject1/trials/jump")).rejects.toThrow("is being processed");
+    expect(storage.objects.has("data/lab/unsorted/trials/jump/markers.c3d")).toBeTruthy();
+});
+
+test("won't move a subject the processing server is working on", async () => {
+    const storage = makeStorage({ ...SUBJECT, "data/lab/subject2/PROCESSING": "" });
+    const cursor = await makeCursor(storage, "/my_data/lab", { lazy: true });
+
+    await expect(cursor.moveFolder("subject2", "subject2")).rejects.toThrow("is being processed right now");
+    expect(storage.objects.has("data/lab/subject2/trials/run/markers.c3d")).toBeTruthy();
+});
+
+test("moves a trial between subjects that aren't being processed, and keeps the undo around", async () => {
+    const storage = makeStorage(SUBJECT);
+    const cursor = await makeCursor(storage, "/my_data/lab/unsorted/trials");
+
+    await cursor.moveFolder("jump", "lab/subject2/trials/jump");
+    expect(storage.objects.has("data/lab/subject2/trials/jump/markers.c3d")).toBeTruthy();
+    expect(storage.objects.has("data/lab/unsorted/trials/jump/markers.c3d")).toBeFalsy();
+
+    await cursor.rawCursor.journal.undo();
+    expect(storage.objects.has("data/lab/unsorted/trials/jump/markers.c3d")).toBeTruthy();
+});
+
+test("duplicating a subject copies its inputs, and never its processing flags", async () => {
+    const storage = makeStorage(SUBJECT);
+    const cursor = await makeCursor(storage, "/my_data/lab");
+
+    await cursor.duplicateSubject("subject1", "subject1_copy", false);
+
+    expect(storage.objects.has("data/lab/subject1_copy/unscaled_generic.osim")).toBeTruthy();
+    expect(storage.objects.has("data/lab/subject1_copy/trials/walk/markers.c3d")).toBeTruthy();
+    expect(storage.objects.has("data/lab/subject1_copy/READY_TO_PROCESS")).toBeFalsy();
+    expect(storage.objects.has("data/lab/subject1_copy/_results.json")).toBeFalsy();
+    expect(storage.objects.has("data/lab/subject1_copy/trials/walk/_results.json")).toBeFalsy();
+    expect(storage.objects.has("data/lab/subject1_copy/subject1.zip")).toBeFalsy();
+});
+
+test("duplicating a subject with its results keeps them out of the way of the copy's own", async () => {
+    const storage = makeStorage(SUBJECT);
+    const cursor = await makeCursor(storage, "/my_data/lab");
+
+    await cursor.duplicateSubject("subject1", "subject1_copy", true);
+
+    const copied = [...storage.objects.keys()].filter((key) => key.startsWith("data/lab/subject1_copy/"));
+    expect(copied).not.toContain("data/lab/subject1_copy/_results.json");
+    expect(copied).not.toContain("data/lab/subject1_copy/log.txt");
+    expect(copied.some((key) => key.endsWith("/_results.json") && !key.includes("/trials/"))).toBeTruthy();
+    expect(copied).toContain("data/lab/subject1_copy/trials/walk/_results.json");
+    expect(copied).toContain("data/lab/subject1_copy/subject1_copy.zip");
+    expect(copied).not.toContain("data/lab/subject1_copy/READY_TO_PROCESS");
+});
+
+test("finds every subject under a folder", async () => {
+    const storage = makeStorage(SUBJECT);
+    const cursor = await makeCursor(storage, "/my_data/lab");
+
+    expect(cursor.getSubjectsUnder().sort()).toEqual(["subject1", "subject2"]);
+    // Paths are relative to the cursor, even when we ask about a folder under it
+    expect(cursor.getSubjectsUnder("subject1")).toEqual(["subject1"]);
+
+    cursor.setUrlPath("/my_data/lab/subject1");
+    expect(cursor.getSubjectsUnder()).toEqual([""]);
+});
@@ -1,6 +1,17 @@
 import { ReactiveCursor, ReactiveIndex, ReactiveJsonFile } from "./ReactiveS3";
 import { makeObservable, observable, action } from 'mobx';
-import RobustMqtt from "./RobustMqtt";
+import type { PubSubSocket } from "./PubSubSocket";
+import type { ResumableUploadInfo } from "./StorageProvider";
+import UploadQueue from "./UploadQueue";
+import Trash from "./Trash";
+import Sharing from "./Sharing";
+import FolderDownload from "./FolderDownload";
+import FolderSummary from "./FolderSummary";
+import BatchProcessing from "./BatchProcessing";
+import type { SharePermission } from "./Sharing";
+import * as yup from 'yup';
+import { subjectJsonSchema, resultsJsonSchema, datasetJsonSchema } from "./MocapSchemas";
+import type { SubjectJson, ResultsJson, DatasetJson } from "./MocapSchemas";
 
 type MocapFolderEntry = {
     type: 'folder' | 'mocap';
@@ -26,6 +37,9 @@ type MocapProcessingLogMsg = {
     timestamp: number;
 }
 
+/// When a subject is duplicated with its results, the original's top-level results go in this folder inside the copy
+const ORIGINAL_RESULTS_FOLDER = "original_results/";
+
 class LargeZipBinaryObject {
     object: any | null;
     loading: boolean;
@@ -78,23 +92,46 @@ class MocapS3Cursor {
     cachedTrialResultsFiles: Map<string, Promise<string>>;
     cachedVisulizationFiles: Map<string, LargeZipBinaryObject>;
 
-    subjectJson: ReactiveJsonFile;
-    resultsJson: ReactiveJsonFile;
+    subjectJson: ReactiveJsonFile<SubjectJson>;
+    resultsJson: ReactiveJsonFile<ResultsJson>;
+    // This only exists in folders that are (or are getting ready to be) published
+    datasetJson: ReactiveJsonFile<DatasetJson>;
 
-    socket: RobustMqtt;
+    socket: PubSubSocket;
 
     userEmail: string | null;
 
     cloudProcessingQueue: string[];
 
-    constructor(publicS3Index: ReactiveIndex, protectedS3Index: ReactiveIndex, socket: RobustMqtt) {
+    resumableUploads: ResumableUploadInfo[];
+
+    uploadQueue: UploadQueue;
+
+    // The deleted items in "My Data". Public data is readonly, so it doesn't need one.
+    trash: Trash;
+
+    // What we've shared with other people, and what they've shared with us
+    sharing: Sharing;
+
+    // The folder the user is downloading as a zip, if any. This outlives the modal, so closing it doesn't lose the
+    // files we've already downloaded.
+    folderDownload: FolderDownload | null;
+
+    // How far along the subjects under the current folder are
+    folderSummary: FolderSummary;
+
+    // Processing or reprocessing every subject under the current folder at once
+    batchProcessing: BatchProcessing;
+
+    constructor(publicS3Index: ReactiveIndex, protectedS3Index: ReactiveIndex, socket: PubSubSocket, makeSharedIndex: (ownerIdentityId: string) => ReactiveIndex) {
         const parsedUrl = this.parseUrlPath(window.location.pathname);
 
         this.dataPrefix = 'data/';
 
-        this.rawCursor = new ReactiveCursor(parsedUrl.isPublic ? publicS3Index : protectedS3Index, this.dataPrefix + parsedUrl.path);
+        this.sharing = new Sharing(protectedS3Index, makeSharedIndex);
         this.publicS3Index = publicS3Index;
         this.protectedS3Index = protectedS3Index;
+        this.rawCursor = new ReactiveCursor(this.getIndexForUrl(parsedUrl), this.dataPrefix + parsedUrl.path);
         this.urlError = parsedUrl.error;
         this.urlPath = window.location.pathname;
 
@@ -104,8 +141,9 @@ class MocapS3Cursor {
         this.cachedVisulizationFiles = new Map();
         this.showValidationControls = false;
 
-        this.subjectJson = this.rawCursor.getJsonFile("_subject.json");
-        this.resultsJson = this.rawCursor.getJsonFile("_results.json");
+        this.subjectJson = this.rawCursor.getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+        this.resultsJson = this.rawCursor.getJsonFile<ResultsJson>("_results.json", resultsJsonSchema);
+        this.datasetJson = this.rawCursor.getJsonFile<DatasetJson>("_dataset.json", datasetJsonSchema);
 
         this.socket = socket;
 
@@ -113,12 +151,27 @@ class MocapS3Cursor {
 
         this.cloudProcessingQueue = [];
 
+        this.resumableUploads = [];
+
+        this.uploadQueue = new UploadQueue();
+
+        this.trash = new Trash(protectedS3Index);
+
+        this.folderDownload = null;
+
+        this.folderSummary = new FolderSummary(this);
+
+        this.batchProcessing = new BatchProcessing(this);
+
         makeObservable(this, {
             urlPath: observable,
             dataPrefix: observable,
             urlError: observable,
             showValidationControls: observable,
-            userEmail: observable
+            userEmail: observable,
+            cloudProcessingQueue: observable.ref,
+            resumableUploads: observable,
+            folderDownload: observable.ref
         });
     }
 
@@ -145,7 +198,7 @@ class MocapS3Cursor {
      * Get the order of an element in the queue.
      */
     getQueueOrder = (path?: string) => {
-        let fullPath = this.protectedS3Index.globalPrefix + this.rawCursor.path;
+        let fullPath = this.rawCursor.index.globalPrefix + this.rawCursor.path;
         if (path != null) {
             fullPath += path;
         }
@@ -168,6 +221,9 @@ class MocapS3Cursor {
      */
     parseUrlPath = (urlPath: string) => {
         let isPublic: boolean = true;
+        let isShared: boolean = false;
+        // For shared data, whose protected folder it's in. This is empty for the "Shared with me" root.
+        let ownerIdentityId: string = '';
         let path: string = '';
         let error: boolean = false;
 
@@ -176,7 +232,7 @@ class MocapS3Cursor {
         // 1. Set an error state if the path is empty
         if (urlPath.length === 0) {
             error = true;
-            return { isPublic, path, error };
+            return { isPublic, isShared, ownerIdentityId, path, error };
         }
         let pathParts: string[] = urlPath.split("/");
         while (pathParts[0] === '') {
@@ -190,6 +246,13 @@ class MocapS3Cursor {
         else if (pathParts[0] === 'my_data') {
             isPublic = false;
         }
+        else if (pathParts[0] === 'shared_with_me') {
+            isPublic = false;
+            isShared = true;
+            // Shared paths start with the owner, like "/shared_with_me/us-west-2:1234.../Lab/Subject1"
+            ownerIdentityId = pathParts.length > 1 ? pathParts[1] : '';
+            pathParts.splice(0, 1);
+        }
         else {
             error = true;
         }
@@ -198,9 +261,23 @@ class MocapS3Cursor {
         pathParts.splice(0, 1);
         path = pathParts.join("/");
 
-        return { isPublic, path, error };
+        return { isPublic, isShared, ownerIdentityId, path, error };
     }
 
+    /**
+     * @returns The index that a parsed URL path points into
+     */
+    getIndexForUrl = (parsedUrl: { isPublic: boolean, isShared: boolean, ownerIdentityId: string }) => {
+        if (parsedUrl.isShared && parsedUrl.ownerIdentityId !== '') {
+            return this.sharing.getSharedIndex(parsedUrl.ownerIdentityId);
+        }
+        // The "Shared with me" root isn't in anyone's folder, so it just lists our bookmarks, and the cursor stays put
+        if (parsedUrl.isShared) {
+            return this.protectedS3Index;
+        }
+        return parsedUrl.isPublic ? this.publicS3Index : this.protectedS3Index;
+    };
+
     /**
      * This is a convenience method to return the current file path (not including the "my_data" / "public_data" part at the beginning)
      */
@@ -229,7 +306,7 @@ class MocapS3Cursor {
         const parsedUrl = this.parseUrlPath(this.urlPath);
 
         this.urlError = parsedUrl.error;
-        this.rawCursor.setIndex(parsedUrl.isPublic ? this.publicS3Index : this.protectedS3Index);
+        this.rawCursor.setIndex(this.getIndexForUrl(parsedUrl));
         this.rawCursor.setPath(this.dataPrefix + parsedUrl.path);
 
         // Subject state
@@ -243,12 +320,52 @@ class MocapS3Cursor {
     });
 
     /**
-     * @returns True if the cursor is pointing at readonly (i.e. public) data
+     * @returns True if the cursor is pointing at readonly data, which is public data, or shared data we haven't been
+     * given write access to
      */
     dataIsReadonly = () => {
+        if (this.dataIsShared()) {
+            return this.getSharedPermission() !== 'read-write';
+        }
         return this.rawCursor.index === this.publicS3Index;
     };
 
+    /**
+     * @returns True if we're looking at something someone else shared with us (or the "Shared with me" root)
+     */
+    dataIsShared = () => {
+        return this.parseUrlPath(this.urlPath).isShared;
+    };
+
+    /**
+     * @returns True if we're looking at the list of everything that's been shared with us
+     */
+    isSharedRoot = () => {
+        const parsedUrl = this.parseUrlPath(this.urlPath);
+        return parsedUrl.isShared && parsedUrl.ownerIdentityId === '';
+    };
+
+    /**
+     * @returns What the owner has allowed us to do with the shared data we're looking at, or null if they haven't
+     * shared it with us (or we're not looking at shared data)
+     */
+    getSharedPermission = (): SharePermission | null => {
+        const parsedUrl = this.parseUrlPath(this.urlPath);
+        if (!parsedUrl.isShared || parsedUrl.ownerIdentityId === '') return null;
+        return this.sharing.getPermission(parsedUrl.ownerIdentityId, parsedUrl.path, this.userEmail);
+    };
+
+    /**
+     * @returns A link that someone we've shared a folder with can open to see it
+     *
+     * @param childPath The folder, relative to the current folder
+     */
+    getSharableLink = (childPath: string) => {
+        const currentFilePath = this.getCurrentFilePath();
+        const path = (currentFilePath.length > 0 ? currentFilePath + "/" : "") + childPath;
+        return window.location.origin + "/shared_with_me/" + this.sharing.getMyIdentityId() + "/" + encodeURI(path);
+    };
+
     /**
      * @returns The opposite of dataIsReadonly()
      */
@@ -257,13 +374,215 @@ class MocapS3Cursor {
     };
 
     /**
-     * Deletes all the files that match a given prefix.
+     * Deletes all the files that match a given prefix, and the folder itself. This can be undone.
      * 
      * @param prefix The prefix to match to files, and if they match, delete them
      */
     deleteFolder = (prefix: string) => {
-        return this.rawCursor.deleteByPrefix(prefix).then(() => {
-            return this.rawCursor.deleteChild(prefix);
+        return this.rawCursor.deleteFolder(prefix);
+    };
+
+    /**
+     * This moves (or renames) a folder, subject or trial. This can be undone.
+     *
+     * Subjects that are waiting to be processed keep their place in line, because the READY_TO_PROCESS flag only
+     * shows up at the new path once everything else has arrived. We refuse to move anything that the processing
+     * server is working on right now, or anything into or out of a subject that's waiting or processing, since the
+     * server would see a subject with files missing. The same goes for undoing or redoing the move later.
+     *
+     * @param childPath The folder to move, relative to the current folder
+     * @param newPath Where to move it to, relative to the root of "My Data"
+     */
+    moveFolder = (childPath: string, newPath: string) => {
+        const fromPath = this.rawCursor.getChildPath(childPath);
+        const toPath = this.dataPrefix + newPath;
+        const index = this.rawCursor.index;
+
+        // In lazy mode, the subjects above either end of the move may not be loaded. moveChild() loads everything
+        // under `fromPath` before it checks.
+        const ancestors = [...this.getAncestorFolders(fromPath), ...this.getAncestorFolders(toPath)];
+        const flags = ancestors.flatMap((ancestor: string) => [ancestor + "/PROCESSING", ancestor + "/READY_TO_PROCESS"]);
+
+        return index.loadFiles(flags).then(() => {
+            return this.rawCursor.moveChild(childPath, toPath, ["READY_TO_PROCESS"], (undoing: boolean) => {
+                return undoing ? this.getMoveError(index, toPath, fromPath) : this.getMoveError(index, fromPath, toPath);
+            });
+        });
+    };
+
+    /**
+     * @param index The index the folder is in, which may not be the one we're looking at anymore
+     * @param fromPath The path of the folder in the index
+     * @param toPath Where it's going, in the index
+     * @returns Why the processing server won't let us move `fromPath` to `toPath` right now, or null if we can
+     */
+    getMoveError = (index: ReactiveIndex, fromPath: string, toPath: string): Error | null => {
+        if (index.getPathsWithPrefix(fromPath + "/").some((path: string) => path.endsWith("/PROCESSING"))) {
+            return new Error('"' + fromPath.substring(this.dataPrefix.length) + '" is being processed right now. Please wait until it finishes before moving it.');
+        }
+        const ancestors = [...this.getAncestorFolders(fromPath), ...this.getAncestorFolders(toPath)];
+        for (let i = 0; i < ancestors.length; i++) {
+            if (index.getMetadata(ancestors[i] + "/PROCESSING") != null || index.getMetadata(ancestors[i] + "/READY_TO_PROCESS") != null) {
+                return new Error('The subject "' + ancestors[i].substring(this.dataPrefix.length) + '" is being processed. Please wait until it finishes before moving files into or out of it.');
+            }
+        }
+        return null;
+    };
+
+    /**
+     * @returns Every folder that `path` is inside of, down to (but not including) the data prefix
+     */
+    getAncestorFolders = (path: string) => {
+        let ancestors: string[] = [];
+        let slash = path.lastIndexOf('/');
+        while (slash > this.dataPrefix.length) {
+            path = path.substring(0, slash);
+            ancestors.push(path);
+            slash = path.lastIndexOf('/');
+        }
+        return ancestors;
+    };
+
+    /**
+     * This copies a subject into a new sibling subject, so it can be rerun (say, after uploading a different
+     * unscaled_generic.osim over the copy's) without losing the original's results. The processing flags and the
+     * subject's top-level results are never copied into place, so the copy always comes up ready to process.
+     *
+     * If `includeResults` is set, the top-level "_results.json" and "log.txt" go under ORIGINAL_RESULTS_FOLDER in the
+     * copy (where neither we nor the processing server will mistake them for the copy's own), and each trial keeps its
+     * results and preview until the copy is reprocessed.
+     *
+     * @param childPath The path of the subject, relative to the cursor
+     * @param newName The name of the new subject, which goes in the same folder as the original
+     * @param includeResults True to keep the results, log and archive, as well as the inputs
+     */
+    duplicateSubject = (childPath: string, newName: string, includeResults: boolean) => {
+        const fromPath = this.rawCursor.getChildPath(childPath);
+        const toPath = fromPath.substring(0, fromPath.lastIndexOf('/') + 1) + newName;
+        const subjectName = fromPath.substring(fromPath.lastIndexOf('/') + 1);
+
+        return this.rawCursor.copyChild(childPath, toPath, (relativePath: string) => {
+            if (relativePath === "READY_TO_PROCESS" || relativePath === "PROCESSING" || relativePath === "ERROR") {
+                return null;
+            }
+            // These mark a subject as done, both here and on the processing server
+            if (relativePath === "_results.json" || relativePath === "log.txt") {
+                return includeResults ? ORIGINAL_RESULTS_FOLDER + relativePath : null;
+            }
+            // If the original was itself a copy, its original results don't mean anything for this one
+            if (relativePath.startsWith(ORIGINAL_RESULTS_FOLDER)) {
+                return null;
+            }
+            if (/^trials\/[^/]+\/(_results\.json|preview\.bin\.zip)$/.test(relativePath)) {
+                return includeResults ? relativePath : null;
+            }
+            // The archive is named after the subject, so it has to be renamed to match the copy
+            if (relativePath === subjectName + ".zip") {
+                return includeResults ? newName + ".zip" : null;
+            }
+            return relativePath;
+        });
+    };
+
+    /**
+     * This gets ready to download a folder (or a single subject) as a zip. If we were already downloading the same
+     * folder, we pick up where that left off, otherwise we start listing the new folder.
+     *
+     * @param childPath The path of the folder, relative to the cursor
+     * @returns The download, which is also in `folderDownload`
+     */
+    prepareFolderDownload = action((childPath: string) => {
+        const folderPath = this.rawCursor.getChildPath(childPath);
+        const existing = this.folderDownload;
+        if (existing != null && existing.folderPath === folderPath && existing.index === this.rawCursor.index && existing.status !== 'done' && existing.status !== 'cancelled') {
+            return existing;
+        }
+        const download = new FolderDownload(this.rawCursor.index, folderPath);
+        this.folderDownload = download;
+        download.list();
+        return download;
+    });
+
+    /**
+     * @returns The subjects inside the current folder that haven't finished processing, which keep it from being
+     * published
+     */
+    getUnfinishedSubjects = () => {
+        return this.getSubjectsUnder().filter((subject: string) => this.getSubjectStatus(subject) !== 'done');
+    };
+
+    /**
+     * This copies the current folder out of "My Data" and into the public data, for anyone to browse. Every subject in
+     * it has to be done processing, and "_dataset.json" has to say what the license, citation and contributors are.
+     *
+     * The emails in "_subject.json" files are left out of the public copy, as are any processing flags. If something
+     * fails partway through, whatever did get copied stays in the public data.
+     *
+     * @param publicPath Where to put it, relative to the root of the public data
+     */
+    publishFolder = (publicPath: string) => {
+        if (this.rawCursor.index !== this.protectedS3Index || this.dataIsShared()) {
+            return Promise.reject(new Error("You can only publish folders in your own data"));
+        }
+        if (this.getCurrentFilePath() === '') {
+            return Promise.reject(new Error("Please publish a folder inside My Data, rather than all of it"));
+        }
+
+        let dataset: any = {};
+        this.datasetJson.values.forEach((value: any, key: string) => {
+            dataset[key] = value;
+        });
+        try {
+            dataset = datasetJsonSchema.validateSync(dataset, { abortEarly: false });
+        }
+        catch (e) {
+            if (!(e instanceof yup.ValidationError)) throw e;
+            return Promise.reject(new Error("Please finish describing the dataset first: " + e.errors.join(", ")));
+        }
+
+        const folderPath = this.rawCursor.path;
+        const destination = this.dataPrefix + publicPath;
+        const publishedAt = Date.now();
+
+        return Promise.all([this.protectedS3Index.loadSubtree(folderPath), this.publicS3Index.loadSubtree(destination)]).then(() => {
+            if (this.getSubjectsUnder().length === 0) {
+                throw new Error("There aren't any subjects in this folder to publish");
+            }
+            const unfinished = this.getUnfinishedSubjects();
+            if (unfinished.length > 0) {
+                throw new Error("Every subject has to finish processing before the folder can be published. These haven't yet: " + unfinished.join(", "));
+            }
+            if (this.publicS3Index.getMetadata(destination) != null || this.publicS3Index.getPathsWithPrefix(destination + "/").length > 0) {
+                throw new Error('There\'s already something called "' + publicPath + '" in the public data');
+            }
+
+            let paths = this.protectedS3Index.getPathsWithPrefix(folderPath + "/");
+            if (this.protectedS3Index.getMetadata(folderPath) != null) {
+                paths.push(folderPath);
+            }
+            return paths;
+        }).then((paths: string[]) => Promise.all(paths.map((path: string) => {
+            const relativePath = path === folderPath ? '' : path.substring(folderPath.length + 1);
+            const toPath = relativePath === '' ? destination : destination + "/" + relativePath;
+            const fileName = path.substring(path.lastIndexOf('/') + 1);
+            // We write our own copy of the dataset description below, since the latest edits may not be uploaded yet
+            if (fileName === "READY_TO_PROCESS" || fileName === "PROCESSING" || fileName === "ERROR" || relativePath === "_dataset.json") {
+                return Promise.resolve();
+            }
+            if (fileName === "_subject.json") {
+                // The email is only there so the processing server can tell the owner when it's done
+                return this.protectedS3Index.downloadText(path).then((text: string) => {
+                    let subject = JSON.parse(text);
+                    delete subject.email;
+                    return this.publicS3Index.upload(toPath, JSON.stringify(subject));
+                });
+            }
+            return this.publicS3Index.copyFromIndex(this.protectedS3Index, path, toPath);
+        }))).then(() => {
+            return this.publicS3Index.upload(destination + "/_dataset.json", JSON.stringify({ ...dataset, publishedPath: publicPath, publishedAt }));
+        }).then(() => {
+            this.datasetJson.setAttribute("publishedPath", publicPath);
+            this.datasetJson.setAttribute("publishedAt", publishedAt, true);
         });
     };
 
@@ -274,6 +593,10 @@ class MocapS3Cursor {
         const hasChildren: boolean = this.rawCursor.hasChildren();
         const exists: boolean = this.rawCursor.getExists();
         const parsedPath = this.parseUrlPath(this.urlPath);
+        // The "Shared with me" root is a list of links, rather than a real folder
+        if (parsedPath.isShared && parsedPath.ownerIdentityId === '') {
+            return "folder";
+        }
         // Special case: this happens when a user has just created an account, but hasn't uploaded anything yet.
         // If we're in the root of our private folder, even if no files uploaded yet, always treat this as a folder.
         if (!exists && !hasChildren && !parsedPath.isPublic && parsedPath.path === '') {
@@ -344,23 +667,34 @@ class MocapS3Cursor {
         return this.rawCursor.uploadChild(name, "");
     };
 
-    getSubjectStatus = (path: string = '') => {
+    /**
+     * @param path The path of the subject, relative to the cursor
+     * @returns A description of each file the subject still needs before it can be processed, or [] if it has them all
+     */
+    getMissingSubjectFiles = (path: string = '') => {
         if (path !== '' && !path.endsWith('/')) path = path + '/';
 
-        let trials = this.getTrials(path);
-
-        let anyTrialsMissingMarkers = false;
-        const hasAnyTrials = trials.length > 0;
+        let missing: string[] = [];
+        if (!this.rawCursor.getExists(path + "unscaled_generic.osim")) {
+            missing.push("the unscaled OpenSim model");
+        }
 
+        let trials = this.getTrials(path);
+        if (trials.length === 0) {
+            missing.push("any trials");
+        }
         for (let i = 0; i < trials.length; i++) {
             const c3dMetadata = this.rawCursor.getChildMetadata(path + "trials/" + trials[i].key + "/markers.c3d");
             const trcMetadata = this.rawCursor.getChildMetadata(path + "trials/" + trials[i].key + "/markers.trc");
             if (c3dMetadata == null && trcMetadata == null) {
-                anyTrialsMissingMarkers = true;
+                missing.push("markers for trial \"" + trials[i].key + "\"");
             }
         }
+        return missing;
+    };
 
-        const hasOsimFile = this.rawCursor.getExists(path + "unscaled_generic.osim");
+    getSubjectStatus = (path: string = '') => {
+        if (path !== '' && !path.endsWith('/')) path = path + '/';
 
         const hasReadyToProcessFlag = this.rawCursor.getExists(path + "READY_TO_PROCESS");
         const hasProcessingFlag = this.rawCursor.getExists(path + "PROCESSING");
@@ -369,7 +703,7 @@ class MocapS3Cursor {
         const logMetadata = this.rawCursor.getChildMetadata(path + "log.txt");
         const resultsMetadata = this.rawCursor.getChildMetadata(path + "_results.json");
 
-        if (anyTrialsMissingMarkers || !hasOsimFile || !hasAnyTrials) {
+        if (this.getMissingSubjectFiles(path).length > 0) {
             return 'empty';
         }
         else if (logMetadata != null && resultsMetadata != null) {
@@ -415,6 +749,23 @@ class MocapS3Cursor {
         return status;
     };
 
+    /**
+     * This finds every subject (any folder with a "_subject.json" in it) under `path`, at any depth. In lazy mode, this
+     * only knows about what's loaded, so call ReactiveIndex.loadSubtree() first.
+     *
+     * @param path The folder to look in, relative to the cursor
+     * @returns The paths of the subjects, relative to the cursor. If the cursor is on a subject, that's ''.
+     */
+    getSubjectsUnder = (path: string = ''): string[] => {
+        if (path !== '' && !path.endsWith('/')) path += '/';
+        let cursorPath = this.rawCursor.path;
+        if (cursorPath !== '' && !cursorPath.endsWith('/')) cursorPath += '/';
+
+        return this.rawCursor.index.getPathsWithPrefix(cursorPath + path).filter((file: string) => file.endsWith("/_subject.json")).map((file: string) => {
+            return file.substring(cursorPath.length, Math.max(cursorPath.length, file.length - "/_subject.json".length));
+        });
+    };
+
     /**
      * @returns The contents of the current folder, with useful annotations on the data
      */
@@ -516,6 +867,25 @@ class MocapS3Cursor {
         return Promise.all(progress);
     };
 
+    /**
+     * This reloads the list of uploads under the current path that were interrupted (by a network failure, or by the
+     * user closing the tab) and can be resumed by dropping the same file again.
+     */
+    refreshResumableUploads = () => {
+        return this.rawCursor.getResumableUploads().then(action((uploads: ResumableUploadInfo[]) => {
+            this.resumableUploads = uploads;
+        }));
+    };
+
+    /**
+     * This abandons an interrupted upload, cleaning up whatever partial data was left on S3.
+     *
+     * @param path The path of the upload, relative to the current path
+     */
+    discardResumableUpload = (path: string) => {
+        return this.rawCursor.discardResumableUpload(path).then(this.refreshResumableUploads);
+    };
+
     /**
      * This requests that a subject be reprocessed, by deleting the results of previous processing.
      */
@@ -653,6 +1023,10 @@ class MocapS3Cursor {
             alert("Cannot process a trial with a subject height of 0m");
             return;
         }
+        if (this.subjectJson.validationErrors.size > 0) {
+            alert("Please fix the subject details before processing");
+            return;
+        }
         this.subjectJson.setAttribute("email", this.userEmail, true);
 
         return this.rawCursor.uploadChild("READY_TO_PROCESS", "");
@@ -675,5 +1049,5 @@ class MocapS3Cursor {
     };
 }
 
-export { LargeZipBinaryObject };
+export { LargeZipBinaryObject, ORIGINAL_RESULTS_FOLDER };
 export default MocapS3Cursor;
\ No newline at end of file
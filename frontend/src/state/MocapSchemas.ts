@@ -0,0 +1,83 @@
+import * as yup from 'yup';
+
+/// These are the shapes of the JSON files that live in each subject folder. "_subject.json" is written by the web app
+/// as the user fills in the subject form, and "_results.json" is written by the processing server when it's done.
+/// "_dataset.json" lives in a folder that's being published to the public data, and describes it.
+
+type SubjectSex = 'unknown' | 'male' | 'female';
+
+type SubjectJson = {
+    massKg: number;
+    heightM: number;
+    sex: SubjectSex;
+    // The email of whoever last marked the subject ready for processing, so the server can tell them when it's done
+    email: string | null;
+    // Renames from marker names in the trials to marker names in the unscaled OpenSim model, for labs that name their
+    // markers differently from the model. The server applies these before fitting.
+    markerNameMap: { [trialLabel: string]: string };
+};
+
+type ResultsJson = {
+    autoAvgRMSE: number;
+    autoAvgMax: number;
+    goldAvgRMSE: number;
+    goldAvgMax: number;
+    guessedTrackingMarkers: boolean;
+    // The marker names found in each trial, keyed by trial name
+    trialMarkerSets: { [trialName: string]: string[] };
+    // The marker names in the unscaled OpenSim model
+    osimMarkers: string[];
+};
+
+type DatasetJson = {
+    description: string;
+    // An SPDX identifier, like "CC-BY-4.0"
+    license: string;
+    // How people should cite the data
+    citation: string;
+    // One name per entry
+    contributors: string[];
+    // These are missing until the folder is published. The path is relative to the public "data/" folder.
+    publishedPath: string;
+    publishedAt: number;
+};
+
+const subjectJsonSchema = yup.object({
+    massKg: yup.number().typeError('Weight must be a number').min(5, 'Humans are generally not less than 5 kilograms.').max(700, 'Humans are generally not more than 700 kilograms.'),
+    heightM: yup.number().typeError('Height must be a number').min(0.1, 'Humans are generally not less than 0.1 meters tall.').max(3.0, 'Humans are generally not more than 3 meters tall.'),
+    sex: yup.mixed<SubjectSex>().oneOf(['unknown', 'male', 'female'], 'Biological sex must be one of "unknown", "male" or "female"'),
+    email: yup.string().nullable(),
+    markerNameMap: yup.mixed<{ [trialLabel: string]: string }>().test('marker-name-map', 'markerNameMap must map each trial marker name to a model marker name', (value) => {
+        if (value == null) return true;
+        if (typeof value !== 'object' || Array.isArray(value)) return false;
+        return Object.values(value).every((marker) => typeof marker === 'string');
+    })
+});
+
+const resultsJsonSchema = yup.object({
+    autoAvgRMSE: yup.number(),
+    autoAvgMax: yup.number(),
+    goldAvgRMSE: yup.number(),
+    goldAvgMax: yup.number(),
+    guessedTrackingMarkers: yup.boolean(),
+    trialMarkerSets: yup.mixed<{ [trialName: string]: string[] }>().test('trial-marker-sets', 'trialMarkerSets must map each trial name to a list of marker names', (value) => {
+        if (value == null) return true;
+        if (typeof value !== 'object' || Array.isArray(value)) return false;
+        return Object.values(value).every((markers) => Array.isArray(markers) && markers.every((marker) => typeof marker === 'string'));
+    }),
+    osimMarkers: yup.array().of(yup.string().defined())
+});
+
+const datasetJsonSchema = yup.object({
+    description: yup.string().required('Please describe the dataset'),
+    license: yup.string().required('Please choose a license'),
+    citation: yup.string().required('Please say how the dataset should be cited'),
+    contributors: yup.array().of(yup.string().defined()).required('Please list the contributors').test('has-contributor', 'Please list at least one contributor', (value) => {
+        return value != null && value.some((contributor) => contributor != null && contributor.trim().length > 0);
+    }),
+    publishedPath: yup.string(),
+    publishedAt: yup.number()
+});
+
+export type { SubjectSex, SubjectJson, ResultsJson, DatasetJson };
+export { subjectJsonSchema, resultsJsonSchema, datasetJsonSchema };
@@ -0,0 +1,229 @@
+import { parseOpenSimModel, getChildJoints, OpenSimParseError } from './OpenSimModel';
+
+/// Enough markers to fit, with the bony ones fixed and the cluster ones free
+const MARKERS = [
+    { name: "RASI", fixed: true },
+    { name: "LASI", fixed: true },
+    { name: "RPSI", fixed: true },
+    { name: "RKNE", fixed: true },
+    { name: "RTHI1", fixed: false },
+    { name: "RTHI2", fixed: false }
+];
+
+function makeV3Model(jointType: string = "PinJoint") {
+    return `<?xml version="1.0" encoding="UTF-8" ?>
+<OpenSimDocument Version="30000">
+    <Model name="v3_model">
+        <BodySet>
+            <objects>
+                <Body name="ground">
+                    <mass>0</mass>
+                </Body>
+                <Body name="pelvis">
+                    <mass>10.5</mass>
+                    <geometry_files>sacrum.vtp pelvis.vtp</geometry_files>
+                    <Joint>
+                        <CustomJoint name="ground_pelvis">
+                            <parent_body>ground</parent_body>
+                            <CoordinateSet>
+                                <objects>
+                                    <Coordinate name="pelvis_tilt">
+                                        <range>-1.57 1.57</range>
+                                        <locked>false</locked>
+                                    </Coordinate>
+                                </objects>
+                            </CoordinateSet>
+                            <SpatialTransform>
+                                <TransformAxis name="rotation1">
+                                    <LinearFunction>
+                                        <coefficients>1 0</coefficients>
+                                    </LinearFunction>
+                                </TransformAxis>
+                            </SpatialTransform>
+                        </CustomJoint>
+                    </Joint>
+                </Body>
+                <Body name="femur_r">
+                    <mass>8</mass>
+                    <Joint>
+                        <${jointType} name="hip_r">
+                            <parent_body>pelvis</parent_body>
+                            <CoordinateSet>
+                                <objects>
+                                    <Coordinate name="hip_flexion_r">
+                                        <range>2.09 -0.52</range>
+                                        <locked>true</locked>
+                                    </Coordinate>
+                                </objects>
+                            </CoordinateSet>
+                        </${jointType}>
+                    </Joint>
+                </Body>
+            </objects>
+        </BodySet>
+        <MarkerSet>
+            <objects>
+${MARKERS.map((marker) => `                <Marker name="${marker.name}">
+                    <body>${marker.name.includes("THI") || marker.name.includes("KNE") ? "femur_r" : "pelvis"}</body>
+                    <location>0.01 0 0.1</location>
+                    <fixed>${marker.fixed}</fixed>
+                </Marker>`).join("\n")}
+            </objects>
+        </MarkerSet>
+    </Model>
+</OpenSimDocument>`;
+}
+
+function makeV4Model(markers: { name: string, fixed: boolean }[] = MARKERS) {
+    return `<?xml version="1.0" encoding="UTF-8" ?>
+<OpenSimDocument Version="40000">
+    <Model name="v4_model">
+        <components>
+            <PhysicalOffsetFrame name="thigh_cluster">
+                <socket_parent>/bodyset/femur_r</socket_parent>
+            </PhysicalOffsetFrame>
+        </components>
+        <BodySet>
+            <objects>
+                <Body name="pelvis">
+                    <mass>10.5</mass>
+                    <attached_geometry>
+                        <Mesh name="pelvis_geom">
+                            <mesh_file>pelvis.vtp</mesh_file>
+                        </Mesh>
+                    </attached_geometry>
+                </Body>
+                <Body name="femur_r">
+                    <mass>8</mass>
+                </Body>
+            </objects>
+        </BodySet>
+        <JointSet>
+            <objects>
+                <CustomJoint name="ground_pelvis">
+                    <socket_parent_frame>parent_offset</socket_parent_frame>
+                    <socket_child_frame>child_offset</socket_child_frame>
+                    <coordinates>
+                        <Coordinate name="pelvis_tilt">
+                            <range>-1.57 1.57</range>
+                        </Coordinate>
+                    </coordinates>
+                    <frames>
+                        <PhysicalOffsetFrame name="parent_offset">
+                            <socket_parent>/ground</socket_parent>
+                        </PhysicalOffsetFrame>
+                        <PhysicalOffsetFrame name="child_offset">
+                            <socket_parent>/bodyset/pelvis</socket_parent>
+                        </PhysicalOffsetFrame>
+                    </frames>
+                    <SpatialTransform>
+                        <TransformAxis name="rotation1">
+                            <function>
+                                <LinearFunction>
+                                    <coefficients>1 0</coefficients>
+                                </LinearFunction>
+                            </function>
+                        </TransformAxis>
+                    </SpatialTransform>
+                </CustomJoint>
+                <PinJoint name="hip_r">
+                    <socket_parent_frame>parent_offset</socket_parent_frame>
+                    <socket_child_frame>femur_r</socket_child_frame>
+                    <frames>
+                        <PhysicalOffsetFrame name="parent_offset">
+                            <socket_parent>/bodyset/pelvis</socket_parent>
+                        </PhysicalOffsetFrame>
+                    </frames>
+                </PinJoint>
+            </objects>
+        </JointSet>
+        <MarkerSet>
+            <objects>
+${markers.map((marker) => `                <Marker name="${marker.name}">
+                    <socket_parent_frame>${marker.name.includes("THI") ? "/thigh_cluster" : "/bodyset/pelvis"}</socket_parent_frame>
+                    <location>0.01 0 0.1</location>
+                    <fixed>${marker.fixed}</fixed>
+                </Marker>`).join("\n")}
+            </objects>
+        </MarkerSet>
+    </Model>
+</OpenSimDocument>`;
+}
+
+test("reads the bodies, joints and markers of a v3 model", () => {
+    const model = parseOpenSimModel(makeV3Model());
+
+    expect(model.name).toBe("v3_model");
+    expect(model.version).toBe(30000);
+    expect(model.bodies.map((body) => [body.name, body.mass])).toEqual([["ground", 0], ["pelvis", 10.5], ["femur_r", 8]]);
+    expect(model.bodies[1].meshFiles).toEqual(["sacrum.vtp", "pelvis.vtp"]);
+    expect(model.joints.map((joint) => [joint.name, joint.type, joint.parentBody, joint.childBody])).toEqual([
+        ["ground_pelvis", "CustomJoint", "ground", "pelvis"],
+        ["hip_r", "PinJoint", "pelvis", "femur_r"]
+    ]);
+    expect(model.joints[1].coordinates).toEqual([{ name: "hip_flexion_r", rangeMin: 2.09, rangeMax: -0.52, locked: true }]);
+    expect(model.markers.map((marker) => [marker.name, marker.body, marker.fixed])).toContainEqual(["RTHI1", "femur_r", false]);
+    expect(model.markers[0].location).toEqual([0.01, 0, 0.1]);
+    expect(getChildJoints(model, "pelvis").map((joint) => joint.name)).toEqual(["hip_r"]);
+
+    expect(model.problems).toEqual([
+        { severity: 'warning', message: "The coordinate \"hip_flexion_r\" has a <range> whose minimum (2.09) is above its maximum (-0.52)." }
+    ]);
+});
+
+test("follows the offset frames of a v4 model to the bodies they're attached to", () => {
+    const model = parseOpenSimModel(makeV4Model());
+
+    expect(model.version).toBe(40000);
+    expect(model.bodies[0].meshFiles).toEqual(["pelvis.vtp"]);
+    // Both joints have a frame called "parent_offset", and each should use its own
+    expect(model.joints.map((joint) => [joint.name, joint.parentBody, joint.childBody])).toEqual([
+        ["ground_pelvis", "ground", "pelvis"],
+        ["hip_r", "pelvis", "femur_r"]
+    ]);
+    // A marker on a frame in the model's <components> ends up on the frame's body
+    expect(model.markers.find((marker) => marker.name === "RTHI1")?.body).toBe("femur_r");
+    expect(model.problems).toEqual([]);
+});
+
+test("refuses joints and functions the processing server can't load", () => {
+    const model = parseOpenSimModel(makeV3Model("EllipsoidJoint"));
+
+    expect(model.problems.filter((problem) => problem.severity === 'error').map((problem) => problem.message)).toEqual([
+        "This OpenSim file has a Joint type we don't yet support: <EllipsoidJoint>. The currently supported types are <CustomJoint>, <WeldJoint>, <PinJoint>, and <UniversalJoint>"
+    ]);
+
+    const spline = parseOpenSimModel(makeV4Model().replace(/LinearFunction/g, "StepFunction"));
+    expect(spline.problems[0].severity).toBe('error');
+    expect(spline.problems[0].message).toContain("unsupported function type");
+});
+
+test("needs enough markers, with unique names", () => {
+    const tooFew = parseOpenSimModel(makeV4Model(MARKERS.slice(0, 3)));
+    expect(tooFew.problems.map((problem) => problem.message)).toEqual([
+        "You're trying to upload a file with 3 <Marker> descriptions inside the <MarkerSet> tag. Please ensure you specify your whole markerset in your OpenSim files."
+    ]);
+
+    const duplicated = parseOpenSimModel(makeV4Model([...MARKERS, { name: "RASI", fixed: true }]));
+    expect(duplicated.problems.map((problem) => problem.message)).toEqual([
+        "These marker names appear more than once in the <MarkerSet>: RASI"
+    ]);
+});
+
+test("warns when markers aren't fixed the way their names suggest", () => {
+    const allFixed = parseOpenSimModel(makeV4Model(MARKERS.map((marker) => ({ ...marker, fixed: true }))));
+    expect(allFixed.problems.map((problem) => problem.message)).toEqual([
+        "All of your markers are <fixed>true</fixed>, so the optimizer will have to guess which ones are on soft tissue. Markers on soft tissue (\"tracking markers\") should be <fixed>false</fixed>."
+    ]);
+
+    const swapped = parseOpenSimModel(makeV4Model(MARKERS.map((marker) => ({ ...marker, fixed: marker.name === "RKNE" ? false : marker.name === "RTHI1" ? true : marker.fixed }))));
+    expect(swapped.problems.map((problem) => problem.message)).toEqual([
+        "These markers look like they're on bony landmarks, but they aren't <fixed>true</fixed>: RKNE",
+        "These markers look like they're on soft tissue, but they're <fixed>true</fixed>: RTHI1"
+    ]);
+});
+
+test("rejects files that aren't OpenSim models", () => {
+    expect(() => parseOpenSimModel("<Model name=\"loose\"></Model>")).toThrow(OpenSimParseError);
+    expect(() => parseOpenSimModel("<OpenSimDocument Version=\"40000\"></OpenSimDocument>")).toThrow("There isn't a <Model> tag");
+});
@@ -0,0 +1,415 @@
+import BaseError from './BaseError';
+
+/// The joint types the processing server can load. Anything else crashes it.
+const SUPPORTED_JOINT_TYPES = ['CustomJoint', 'WeldJoint', 'PinJoint', 'UniversalJoint'];
+
+/// The functions a <TransformAxis> in a <CustomJoint> can use. Anything else crashes the processing server.
+const SUPPORTED_FUNCTION_TYPES = ['LinearFunction', 'SimmSpline', 'PolynomialFunction', 'Constant', 'MultiplierFunction'];
+
+/// We need at least this many markers to fit anything
+const MIN_MARKERS = 5;
+
+/// If fewer than this fraction of markers are <fixed>true</fixed>, or all of them are, the optimizer can't tell
+/// anatomical markers from tracking markers and has to guess (that's the "guessedTrackingMarkers" warning)
+const MIN_FIXED_FRACTION = 0.2;
+
+/// Marker names that usually mean a marker on a bony landmark, which should be <fixed>true</fixed>
+const ANATOMICAL_NAME_PATTERNS = [/ASI/, /PSI/, /KNE/, /ANK/, /HEE/, /TOE/, /MT[1-5]/, /MAL/, /EPI/, /TROCH/, /C7/, /T10/, /CLAV/, /STRN/, /ACR/, /SHO/, /ELB/, /WR[AB]/];
+
+/// Marker names that usually mean a marker on soft tissue (like a cluster on the thigh), which should be
+/// <fixed>false</fixed>
+const TRACKING_NAME_PATTERNS = [/THI/, /TIB/, /SHANK/, /CLUSTER/, /UPA/, /FRA/, /\d$/];
+
+/// This gets thrown when a file isn't an OpenSim model at all, so there's nothing to inspect
+class OpenSimParseError extends BaseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OpenSimParseError';
+    }
+}
+
+type OpenSimBody = {
+    name: string;
+    mass: number | null;
+    // The geometry files the body is drawn with, which the server looks up in its Geometry folder
+    meshFiles: string[];
+};
+
+type OpenSimCoordinate = {
+    name: string;
+    // In radians for rotations, and meters for translations
+    rangeMin: number | null;
+    rangeMax: number | null;
+    locked: boolean;
+};
+
+type OpenSimJoint = {
+    name: string;
+    // The element name, like "CustomJoint"
+    type: string;
+    // The bodies on either side of the joint, or null if we couldn't work them out
+    parentBody: string | null;
+    childBody: string | null;
+    coordinates: OpenSimCoordinate[];
+};
+
+type OpenSimMarker = {
+    name: string;
+    // The body the marker is attached to
+    body: string;
+    // null if the model doesn't say, which the optimizer treats as false
+    fixed: boolean | null;
+    location: number[] | null;
+    // What the marker's name suggests it is, or null if we can't tell
+    likelyRole: 'anatomical' | 'tracking' | null;
+};
+
+type OpenSimProblem = {
+    // Errors crash processing, so we refuse to upload the file. Warnings can make the results worse.
+    severity: 'error' | 'warning';
+    message: string;
+};
+
+/// This is everything we read out of an *.osim file
+type OpenSimModel = {
+    name: string;
+    // From the Version attribute of <OpenSimDocument>, like 30000 or 40000
+    version: number;
+    bodies: OpenSimBody[];
+    joints: OpenSimJoint[];
+    markers: OpenSimMarker[];
+    problems: OpenSimProblem[];
+};
+
+function getChildByType(node: Element, type: string): Element | null {
+    for (let i = 0; i < node.children.length; i++) {
+        if (node.children[i].nodeName === type) {
+            return node.children[i];
+        }
+    }
+    return null;
+}
+
+function getChildrenByType(node: Element, type: string): Element[] {
+    let nodes: Element[] = [];
+    for (let i = 0; i < node.children.length; i++) {
+        if (node.children[i].nodeName === type) {
+            nodes.push(node.children[i]);
+        }
+    }
+    return nodes;
+}
+
+/**
+ * @returns The trimmed text of a child element, or null if there isn't one
+ */
+function getChildText(node: Element, type: string): string | null {
+    const child = getChildByType(node, type);
+    if (child == null || child.textContent == null) return null;
+    return child.textContent.trim();
+}
+
+/**
+ * @returns The name at the end of a component path, like "pelvis" for "/bodyset/pelvis"
+ */
+function getLastPathSegment(path: string): string {
+    const segments = path.split('/').filter((segment) => segment !== '' && segment !== '..');
+    return segments.length > 0 ? segments[segments.length - 1] : path;
+}
+
+/**
+ * @returns Every <PhysicalOffsetFrame> anywhere under `node`, as a map from its name to the name of whatever it's
+ * attached to. v4 files can put these in a joint's <frames>, a body's <components>, or the model's own <components>.
+ */
+function getOffsetFrames(node: Element): Map<string, string> {
+    let frames = new Map<string, string>();
+    const frameNodes = node.getElementsByTagName("PhysicalOffsetFrame");
+    for (let i = 0; i < frameNodes.length; i++) {
+        const socketParent = getChildText(frameNodes[i], "socket_parent");
+        const name = frameNodes[i].getAttribute("name");
+        if (name != null && socketParent != null) frames.set(name, getLastPathSegment(socketParent));
+    }
+    return frames;
+}
+
+/**
+ * This follows a socket to the body it's attached to. Sockets point at either a body, or an offset frame that's
+ * attached to a body (or to another offset frame).
+ *
+ * @param frames The offset frames to look in, in order, since frames in different joints can have the same name
+ * @returns The name of the body, or the name at the end of `path` if it isn't an offset frame we know about
+ */
+function resolveFrame(path: string, frames: Map<string, string>[]): string {
+    let name = getLastPathSegment(path);
+    // A broken model could have frames attached to each other in a loop
+    let visited = new Set<string>();
+    while (!visited.has(name)) {
+        visited.add(name);
+        const child = name;
+        const parent = frames.map((map) => map.get(child)).find((parent) => parent != null);
+        if (parent == null) break;
+        name = parent;
+    }
+    return name;
+}
+
+/**
+ * @returns Whether a marker name looks like it's on a bony landmark or soft tissue, or null if we can't tell
+ */
+function guessMarkerRole(name: string): 'anatomical' | 'tracking' | null {
+    const normalized = name.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (ANATOMICAL_NAME_PATTERNS.some((pattern) => pattern.test(normalized))) return 'anatomical';
+    if (TRACKING_NAME_PATTERNS.some((pattern) => pattern.test(normalized))) return 'tracking';
+    return null;
+}
+
+/**
+ * @returns A description of why the processing server can't load this joint, or null if it can
+ */
+function getJointError(joint: Element): string | null {
+    if (!SUPPORTED_JOINT_TYPES.includes(joint.nodeName)) {
+        return "This OpenSim file has a Joint type we don't yet support: <" + joint.nodeName + ">. The currently supported types are <CustomJoint>, <WeldJoint>, <PinJoint>, and <UniversalJoint>";
+    }
+    if (joint.nodeName === 'CustomJoint') {
+        const spatialTransform = getChildByType(joint, "SpatialTransform");
+        if (spatialTransform == null) {
+            return "This OpenSim file has a <CustomJoint> with no <SpatialTransform> tag as a child.";
+        }
+        const transformAxes = getChildrenByType(spatialTransform, "TransformAxis");
+        for (let i = 0; i < transformAxes.length; i++) {
+            // On v3 files, there is no "function" wrapper tag
+            const func = getChildByType(transformAxes[i], "function") ?? transformAxes[i];
+            if (!SUPPORTED_FUNCTION_TYPES.some((type) => getChildByType(func, type) != null)) {
+                return "This OpenSim file has a <CustomJoint> with an unsupported function type in its <TransformAxis>. Currently supported types are <LinearFunction>, <SimmSpline>, <PolynomialFunction>, <Constant>, and <MultiplierFunction>. Anything else will lead to a crash during processing.";
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * This reads a joint, in either the v3 format (inside the child <Body>, with a <parent_body>) or the v4 format (in
+ * the <JointSet>, with sockets that point at frames).
+ *
+ * @param childBody The <Body> a v3 joint is inside of
+ * @param modelFrames Every offset frame in the model (see getOffsetFrames())
+ */
+function readJoint(joint: Element, childBody: string | null, modelFrames: Map<string, string>): OpenSimJoint {
+    // The joint's own <frames> come first, in case another joint has a frame with the same name
+    const frames = [getOffsetFrames(joint), modelFrames];
+    const parentFrame = getChildText(joint, "socket_parent_frame") ?? getChildText(joint, "parent_body");
+    const childFrame = getChildText(joint, "socket_child_frame");
+
+    let coordinates: OpenSimCoordinate[] = [];
+    const coordinateNodes = joint.getElementsByTagName("Coordinate");
+    for (let i = 0; i < coordinateNodes.length; i++) {
+        const coordinate = coordinateNodes[i];
+        const range = (getChildText(coordinate, "range") ?? "").split(/\s+/).map(parseFloat);
+        coordinates.push({
+            name: coordinate.getAttribute("name") ?? "",
+            rangeMin: range.length === 2 && !isNaN(range[0]) ? range[0] : null,
+            rangeMax: range.length === 2 && !isNaN(range[1]) ? range[1] : null,
+            locked: getChildText(coordinate, "locked") === "true"
+        });
+    }
+
+    return {
+        name: joint.getAttribute("name") ?? "",
+        type: joint.nodeName,
+        parentBody: parentFrame != null ? resolveFrame(parentFrame, frames) : null,
+        childBody: childBody ?? (childFrame != null ? resolveFrame(childFrame, frames) : null),
+        coordinates
+    };
+}
+
+/**
+ * This reads an OpenSim model, and checks it for everything that would crash the processing server or make its
+ * results worse. Unlike a pass/fail check, this keeps going after the first problem, so they can all be fixed at once.
+ */
+function parseOpenSimModel(text: string): OpenSimModel {
+    const xmlDoc: Document = new DOMParser().parseFromString(text, "text/xml");
+    const rootNode = xmlDoc.documentElement;
+    if (rootNode == null || rootNode.nodeName !== "OpenSimDocument") {
+        throw new OpenSimParseError("Malformed *.osim file! Root node of XML file isn't an <OpenSimDocument>, instead it's <" + (rootNode?.nodeName ?? "nothing") + ">");
+    }
+    const modelNode = getChildByType(rootNode, "Model");
+    if (modelNode == null) {
+        throw new OpenSimParseError("Malformed *.osim file! There isn't a <Model> tag as a child of the <OpenSimDocument>");
+    }
+
+    const modelFrames = getOffsetFrames(modelNode);
+    let problems: OpenSimProblem[] = [];
+    const error = (message: string) => problems.push({ severity: 'error', message });
+    const warning = (message: string) => problems.push({ severity: 'warning', message });
+
+    let bodies: OpenSimBody[] = [];
+    let joints: OpenSimJoint[] = [];
+    const bodySet = getChildByType(modelNode, "BodySet");
+    const bodySetObjects = bodySet != null ? getChildByType(bodySet, "objects") : null;
+    if (bodySet == null) {
+        error("This OpenSim file is missing a BodySet! No <BodySet> tag found");
+    }
+    else if (bodySetObjects == null) {
+        error("This OpenSim file is missing an <objects> child tag inside the <BodySet> tag!");
+    }
+    else {
+        getChildrenByType(bodySetObjects, "Body").forEach((bodyNode) => {
+            const name = bodyNode.getAttribute("name") ?? "";
+            // v4 files use <mesh_file>, and v3 files use <geometry_file> or a list in <geometry_files>
+            let meshFiles: string[] = [];
+            ["mesh_file", "geometry_file", "geometry_files"].forEach((tag) => {
+                const nodes = bodyNode.getElementsByTagName(tag);
+                for (let i = 0; i < nodes.length; i++) {
+                    (nodes[i].textContent ?? "").trim().split(/\s+/).filter((file) => file !== "").forEach((file) => meshFiles.push(file));
+                }
+            });
+            const mass = parseFloat(getChildText(bodyNode, "mass") ?? "");
+            bodies.push({ name, mass: isNaN(mass) ? null : mass, meshFiles });
+
+            // v3 files put each body's joint inside the body, wrapped in a <Joint> tag
+            const jointWrapper = getChildByType(bodyNode, "Joint");
+            if (jointWrapper != null && jointWrapper.children.length === 1) {
+                const joint = jointWrapper.children[0];
+                const jointError = getJointError(joint);
+                if (jointError != null) error(jointError);
+                joints.push(readJoint(joint, name, modelFrames));
+            }
+        });
+    }
+
+    // This can be null in newer OpenSim files
+    const jointSet = getChildByType(modelNode, "JointSet");
+    if (jointSet != null) {
+        const jointSetObjects = getChildByType(jointSet, "objects");
+        if (jointSetObjects == null) {
+            error("This OpenSim file is missing a <objects> tag under its <JointSet> tag.");
+        }
+        else {
+            for (let i = 0; i < jointSetObjects.children.length; i++) {
+                let joint = jointSetObjects.children[i];
+                if (joint.nodeName === "Joint" && joint.children.length === 1) joint = joint.children[0];
+                const jointError = getJointError(joint);
+                if (jointError != null) error(jointError);
+                joints.push(readJoint(joint, null, modelFrames));
+            }
+        }
+    }
+
+    const bodyNames = new Set(bodies.map((body) => body.name));
+    bodyNames.add("ground");
+    joints.forEach((joint) => {
+        // This is only a warning, since the socket could point at a kind of frame we don't know how to follow
+        if (joint.parentBody != null && !bodyNames.has(joint.parentBody)) {
+            warning("The joint \"" + joint.name + "\" is attached to \"" + joint.parentBody + "\", which we couldn't find among the bodies in this model.");
+        }
+        joint.coordinates.forEach((coordinate) => {
+            if (coordinate.rangeMin != null && coordinate.rangeMax != null && coordinate.rangeMin > coordinate.rangeMax) {
+                warning("The coordinate \"" + coordinate.name + "\" has a <range> whose minimum (" + coordinate.rangeMin + ") is above its maximum (" + coordinate.rangeMax + ").");
+            }
+        });
+    });
+    const jointedBodies = new Set(joints.map((joint) => joint.childBody));
+    // v3 files list "ground" as a body, but it's the root of the tree, so it doesn't need a joint
+    const floatingBodies = bodies.filter((body) => body.name !== "ground" && !jointedBodies.has(body.name));
+    if (floatingBodies.length > 0 && joints.length > 0) {
+        warning("These bodies aren't attached to anything by a joint: " + floatingBodies.map((body) => body.name).join(", "));
+    }
+
+    let markers: OpenSimMarker[] = [];
+    const markerSet = getChildByType(modelNode, "MarkerSet");
+    const markerSetObjects = markerSet != null ? getChildByType(markerSet, "objects") : null;
+    if (markerSet == null) {
+        error("This OpenSim file is missing a MarkerSet! No <MarkerSet> tag found");
+    }
+    else if (markerSetObjects == null) {
+        error("You're trying to upload a file that doesn't have any markers! This OpenSim file is missing a <objects> list inside its <MarkerSet> tag");
+    }
+    else {
+        getChildrenByType(markerSetObjects, "Marker").forEach((markerNode) => {
+            const name = markerNode.getAttribute("name") ?? "";
+            // v4 files attach markers with <socket_parent_frame>, and v3 files with <body>
+            const parent = getChildText(markerNode, "socket_parent_frame") ?? getChildText(markerNode, "body") ?? "";
+            const fixed = getChildText(markerNode, "fixed");
+            const location = (getChildText(markerNode, "location") ?? "").split(/\s+/).map(parseFloat);
+            markers.push({
+                name,
+                body: resolveFrame(parent, [modelFrames]),
+                fixed: fixed === "true" ? true : fixed === "false" ? false : null,
+                location: location.length === 3 && location.every((value) => !isNaN(value)) ? location : null,
+                likelyRole: guessMarkerRole(name)
+            });
+        });
+        if (markers.length < MIN_MARKERS) {
+            error("You're trying to upload a file with " + markers.length + " <Marker> descriptions inside the <MarkerSet> tag. Please ensure you specify your whole markerset in your OpenSim files.");
+        }
+    }
+
+    const markerNames = markers.map((marker) => marker.name);
+    const duplicates = markerNames.filter((name, i) => markerNames.indexOf(name) !== i);
+    if (duplicates.length > 0) {
+        error("These marker names appear more than once in the <MarkerSet>: " + Array.from(new Set(duplicates)).join(", "));
+    }
+    const unattached = markers.filter((marker) => !bodyNames.has(marker.body));
+    if (unattached.length > 0) {
+        warning("These markers are attached to something that isn't a body in this model: " + unattached.map((marker) => marker.name + " (" + marker.body + ")").join(", "));
+    }
+
+    // The optimizer needs to know which markers are on bony landmarks, or it has to guess
+    if (markers.length >= MIN_MARKERS) {
+        const numFixed = markers.filter((marker) => marker.fixed === true).length;
+        if (numFixed === markers.length) {
+            warning("All of your markers are <fixed>true</fixed>, so the optimizer will have to guess which ones are on soft tissue. Markers on soft tissue (\"tracking markers\") should be <fixed>false</fixed>.");
+        }
+        else if (numFixed < markers.length * MIN_FIXED_FRACTION) {
+            warning("Only " + numFixed + " of your " + markers.length + " markers are <fixed>true</fixed>, so the optimizer will have to guess which ones are on bony landmarks. Markers on bony landmarks (\"anatomical markers\") should be <fixed>true</fixed>.");
+        }
+        else {
+            const looseAnatomical = markers.filter((marker) => marker.likelyRole === 'anatomical' && marker.fixed !== true);
+            if (looseAnatomical.length > 0) {
+                warning("These markers look like they're on bony landmarks, but they aren't <fixed>true</fixed>: " + looseAnatomical.map((marker) => marker.name).join(", "));
+            }
+            const fixedTracking = markers.filter((marker) => marker.likelyRole === 'tracking' && marker.fixed === true);
+            if (fixedTracking.length > 0) {
+                warning("These markers look like they're on soft tissue, but they're <fixed>true</fixed>: " + fixedTracking.map((marker) => marker.name).join(", "));
+            }
+        }
+    }
+
+    return {
+        name: modelNode.getAttribute("name") ?? "",
+        version: parseInt(rootNode.getAttribute("Version") ?? "") || 0,
+        bodies,
+        joints,
+        markers,
+        // Several joints can trip the same check, and there's no need to say so more than once
+        problems: problems.filter((problem, i) => problems.findIndex((other) => other.message === problem.message) === i)
+    };
+}
+
+/**
+ * @returns The joints whose parent is `body`, which is how the inspector walks the tree down from "ground"
+ */
+function getChildJoints(model: OpenSimModel, body: string): OpenSimJoint[] {
+    return model.joints.filter((joint) => joint.parentBody === body);
+}
+
+/**
+ * This is a DropFile validateFile hook, which rejects OpenSim models that would crash the processing server. Warnings
+ * don't stop the upload, and show up in the model inspector instead.
+ *
+ * @returns Every error in the file, or null if it looks usable
+ */
+function validateOpenSimFile(file: File): Promise<string | null> {
+    return file.text().then((text: string) => {
+        const errors = parseOpenSimModel(text).problems.filter((problem) => problem.severity === 'error');
+        if (errors.length === 0) return null;
+        return errors.map((problem) => problem.message).join("\n");
+    }).catch((e: any) => {
+        if (e instanceof OpenSimParseError) return e.message;
+        console.error("Error reading \"" + file.name + "\" as an OpenSim file", e);
+        return "We couldn't read this file as an OpenSim file.";
+    });
+}
+
+export type { OpenSimModel, OpenSimBody, OpenSimJoint, OpenSimCoordinate, OpenSimMarker, OpenSimProblem };
+export { OpenSimParseError, parseOpenSimModel, getChildJoints, validateOpenSimFile };
@@ -0,0 +1,365 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import * as yup from 'yup';
+import type { ReactiveIndex, ReactiveJsonFile } from './ReactiveS3';
+import { VersionMismatchError } from './StorageProvider';
+import { makeTrashStamp, getVersionPath, moveToTrash, restoreFromTrash, TrashedFile } from './Trash';
+
+/// Operations recorded within this many milliseconds of each other, with the same `coalesceKey`, get merged into one
+const COALESCE_WINDOW_MS = 2000;
+/// How many times we'll re-read a JSON file and try again, if someone else writes it while we're undoing or redoing
+const MAX_JSON_WRITE_ATTEMPTS = 3;
+
+/// This is one file being moved from one path to another, within an index
+type FileMove = {
+    fromPath: string;
+    toPath: string;
+};
+
+/// This is one thing the user did, and knows how to take itself back (and put itself back again)
+type JournalOperation = {
+    description: string;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+    // OPTIONAL: Consecutive operations with the same key get merged, so typing "1.85" into a field is one undo, not four
+    coalesceKey?: string;
+    timestamp: number;
+};
+
+/// This records the uploads, deletes and JSON edits made through a ReactiveCursor, so the user can undo and redo them.
+///
+/// Deletes move files into the Trash, and some overwrites snapshot the old copy there first (see upload()), so undo has
+/// something to restore from. That lives on the server, so it survives page reloads even though the journal itself
+/// doesn't.
+class OperationJournal {
+    undoStack: JournalOperation[];
+    redoStack: JournalOperation[];
+    // True while an undo or redo is in flight. We only run one at a time, so they can't land out of order.
+    running: boolean;
+    error: string | null;
+    maxOperations: number;
+
+    constructor(maxOperations: number = 100) {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.running = false;
+        this.error = null;
+        this.maxOperations = maxOperations;
+
+        makeObservable(this, {
+            undoStack: observable.shallow,
+            redoStack: observable.shallow,
+            running: observable,
+            error: observable,
+            canUndo: computed,
+            canRedo: computed
+        });
+    }
+
+    get canUndo() {
+        return !this.running && this.undoStack.length > 0;
+    }
+
+    get canRedo() {
+        return !this.running && this.redoStack.length > 0;
+    }
+
+    /**
+     * @returns A description of what undo() would take back, or null if there's nothing to undo
+     */
+    getUndoDescription = () => {
+        return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].description : null;
+    };
+
+    /**
+     * @returns A description of what redo() would put back, or null if there's nothing to redo
+     */
+    getRedoDescription = () => {
+        return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].description : null;
+    };
+
+    /**
+     * This adds something the user just did to the journal. Doing something new forgets anything that was undone.
+     */
+    record = action((operation: JournalOperation) => {
+        const last = this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1] : null;
+        if (last != null && operation.coalesceKey != null && last.coalesceKey === operation.coalesceKey && operation.timestamp - last.timestamp < COALESCE_WINDOW_MS) {
+            // Undoing the merged operation should go all the way back to before the first one
+            this.undoStack[this.undoStack.length - 1] = { ...operation, undo: last.undo };
+        }
+        else {
+            this.undoStack.push(operation);
+            if (this.undoStack.length > this.maxOperations) {
+                this.undoStack.splice(0, this.undoStack.length - this.maxOperations);
+            }
+        }
+        this.redoStack = [];
+    });
+
+    /**
+     * This takes back the most recent operation. If that fails, the operation stays on the undo stack.
+     */
+    undo = () => {
+        if (!this.canUndo) return Promise.resolve();
+        const operation = this.undoStack[this.undoStack.length - 1];
+        return this.run(operation, operation.undo, () => {
+            this.undoStack.pop();
+            this.redoStack.push(operation);
+        });
+    };
+
+    /**
+     * This puts back the most recently undone operation. If that fails, the operation stays on the redo stack.
+     */
+    redo = () => {
+        if (!this.canRedo) return Promise.resolve();
+        const operation = this.redoStack[this.redoStack.length - 1];
+        return this.run(operation, operation.redo, () => {
+            this.redoStack.pop();
+            this.undoStack.push(operation);
+        });
+    };
+
+    run = action((operation: JournalOperation, perform: () => Promise<void>, onSuccess: () => void) => {
+        this.running = true;
+        this.error = null;
+        return perform().then(action(() => {
+            onSuccess();
+        })).catch(action((e: any) => {
+            console.error("Error undoing or redoing \"" + operation.description + "\"", e);
+            this.error = "We couldn't undo or redo \"" + operation.description + "\". Please try again.";
+            throw e;
+        })).finally(action(() => {
+            this.running = false;
+        }));
+    });
+
+    /**
+     * This uploads a file, and records it so it can be undone.
+     *
+     * If there was already a file at `path`, we snapshot it into the trash first so undo can put it back, but only for
+     * contents we generated (like JSON files and flags) in an index whose trash gets purged (see Trash). Files the user
+     * picked from their own computer can be large, and they still have the old copy, so overwriting one of those
+     * can't be undone.
+     *
+     * @param index The index to upload to
+     * @param path The path to upload to, within the index
+     * @param contents the contents to upload
+     * @param progressCallback OPTIONAL: a callback to receive with updates on upload progress
+     * @param signal OPTIONAL: if this fires, the upload stops, and nothing gets recorded
+     */
+    upload = (index: ReactiveIndex, path: string, contents: File | string, progressCallback: (percentage: number) => void = () => { }, signal?: AbortSignal) => {
+        const existing = index.getMetadata(path);
+        if (existing != null && !(index.hasTrash && typeof contents === 'string')) {
+            return index.upload(path, contents, progressCallback, signal);
+        }
+        const versionPath = getVersionPath(makeTrashStamp(), path);
+        const snapshot = existing != null ? index.copy(path, versionPath, existing.size) : Promise.resolve();
+        return snapshot.then(() => index.upload(path, contents, progressCallback, signal)).then(() => {
+            this.record({
+                description: (existing != null ? 'Replace "' : 'Upload "') + path + '"',
+                undo: () => existing != null ? index.copy(versionPath, path, existing.size) : index.delete(path),
+                redo: () => index.upload(path, contents),
+                timestamp: Date.now()
+            });
+        });
+    };
+
+    /**
+     * This moves some files to the Trash, and records it as a single operation so it can be undone.
+     *
+     * @param index The index to delete from
+     * @param paths The paths of the files to delete, within the index
+     * @param description What to call this in the UI, like 'Delete "trials/walking"'
+     */
+    deleteFiles = (index: ReactiveIndex, paths: string[], description: string) => {
+        let trashed: TrashedFile[] = [];
+        const trashAndDelete = () => {
+            // We can only move files that exist to the trash. Deleting the others is harmless, so we still do that.
+            const existing = paths.filter((path) => index.getMetadata(path) != null);
+            const missing = paths.filter((path) => index.getMetadata(path) == null);
+            return Promise.all([
+                moveToTrash(index, existing, makeTrashStamp()),
+                Promise.all(missing.map((path) => index.delete(path)))
+            ]).then(([files]) => {
+                trashed = files;
+            });
+        };
+        return trashAndDelete().then(() => {
+            this.record({
+                description,
+                undo: () => restoreFromTrash(index, trashed),
+                // The files may have changed since we restored them, so this goes back into the trash fresh
+                redo: trashAndDelete,
+                timestamp: Date.now()
+            });
+        });
+    };
+
+    /**
+     * This moves (or renames) some files, and records it as a single operation so it can be undone.
+     *
+     * @param index The index the files are in
+     * @param moves Where each file is going
+     * @param flagNames The names of empty marker files (like READY_TO_PROCESS) that get special handling, see moveFiles()
+     * @param description What to call this in the UI, like 'Move "trials/walking" to "trials/running"'
+     * @param check OPTIONAL: This gets run before undoing (with `undoing` set) or redoing the move, and returns an error
+     * if it isn't allowed anymore, like when the processing server has picked up the files since
+     */
+    moveFiles = (index: ReactiveIndex, moves: FileMove[], flagNames: string[], description: string, check: (undoing: boolean) => Error | null = () => null) => {
+        const reversed: FileMove[] = moves.map((move) => ({ fromPath: move.toPath, toPath: move.fromPath }));
+        const checkAndMove = (undoing: boolean) => {
+            const error = check(undoing);
+            if (error != null) return Promise.reject(error);
+            return moveFiles(index, undoing ? reversed : moves, flagNames);
+        };
+        return moveFiles(index, moves, flagNames).then(() => {
+            this.record({
+                description,
+                undo: () => checkAndMove(true),
+                redo: () => checkAndMove(false),
+                timestamp: Date.now()
+            });
+        });
+    };
+
+    /**
+     * This copies some files on the server, and records it as a single operation. Undoing it moves the copies to the
+     * Trash.
+     *
+     * @param index The index the files are in
+     * @param copies Where each copy is going
+     * @param description What to call this in the UI, like 'Copy "subject1" to "subject2"'
+     */
+    copyFiles = (index: ReactiveIndex, copies: FileMove[], description: string) => {
+        let trashed: TrashedFile[] = [];
+        const copy = () => Promise.all(copies.map((move) => index.copy(move.fromPath, move.toPath))).then(() => { });
+        return copy().then(() => {
+            this.record({
+                description,
+                undo: () => moveToTrash(index, copies.map((move) => move.toPath), makeTrashStamp()).then((files) => {
+                    trashed = files;
+                }),
+                // If the originals have gone since, we bring back the copies we trashed instead
+                redo: () => copies.every((move) => index.getMetadata(move.fromPath) != null) ? copy() : restoreFromTrash(index, trashed),
+                timestamp: Date.now()
+            });
+        });
+    };
+
+    /**
+     * This records a change to one key of a JSON file. The change has already been made (ReactiveJsonFile does that),
+     * so this only has to know how to set the key back, and forward again.
+     *
+     * @param file The file that changed
+     * @param path The path of the JSON file, within the index, when the change was made
+     * @param key The key that changed
+     * @param before The value before the change, or undefined if the key wasn't there
+     * @param after The value after the change
+     */
+    recordJsonChange = (file: ReactiveJsonFile, path: string, key: string, before: any, after: any) => {
+        this.record({
+            description: 'Change "' + key + '" in "' + path + '"',
+            undo: () => writeJsonAttribute(file, path, key, before),
+            redo: () => writeJsonAttribute(file, path, key, after),
+            coalesceKey: path + '#' + key,
+            timestamp: Date.now()
+        });
+    };
+}
+
+/**
+ * This moves files by copying them on the server and then deleting the originals, which publishes an /UPDATE/ for
+ * every new path and a /DELETE/ for every old one.
+ *
+ * Flags are empty files that something else is watching for, like the processing server watching for
+ * READY_TO_PROCESS. We take those away from the old paths before anything else, and only put them at the new paths
+ * once everything else has arrived, so a watcher never sees a half-moved folder as ready.
+ *
+ * @param flagNames The file names (not paths) to treat as flags
+ */
+function moveFiles(index: ReactiveIndex, moves: FileMove[], flagNames: string[]): Promise<void> {
+    const isFlag = (move: FileMove) => flagNames.indexOf(move.fromPath.substring(move.fromPath.lastIndexOf('/') + 1)) !== -1;
+    const flags = moves.filter(isFlag);
+    const files = moves.filter((move) => !isFlag(move));
+
+    return Promise.all(flags.map((move) => index.delete(move.fromPath))).then(() => {
+        // We let every copy finish (or fail) before deciding what to do, so we know which ones to clean up
+        let copied: FileMove[] = [];
+        let failure: any = null;
+        return Promise.all(files.map((move) => index.copy(move.fromPath, move.toPath).then(() => {
+            copied.push(move);
+        }).catch((e) => {
+            if (failure == null) failure = e;
+        }))).then(() => {
+            if (failure == null) return;
+            // The originals are all still there, so we take away the copies that did work (which would be in the way
+            // of trying again), and put the flags back
+            return Promise.all(copied.map((move) => index.delete(move.toPath))).then(() => {
+                return Promise.all(flags.map((move) => index.upload(move.fromPath, "")));
+            }).catch((e) => {
+                console.error("Error cleaning up after a failed move", e);
+            }).then(() => {
+                throw failure;
+            });
+        });
+    }).then(() => {
+        return Promise.all(files.map((move) => index.delete(move.fromPath)));
+    }).then(() => {
+        return Promise.all(flags.map((move) => index.upload(move.toPath, "")));
+    }).then(() => { });
+}
+
+/**
+ * This sets one key in a JSON file on the server, leaving the others alone. If `file` is still looking at `path`, we
+ * go through it, so the change gets the same schema check and merge as an edit. Otherwise the cursor has moved on to a
+ * different folder since the change was made, and we write the file ourselves, with the same conditional write
+ * ReactiveJsonFile uses. Any ReactiveJsonFile looking at the file picks the change up through PubSub.
+ *
+ * @param value The value to set, or undefined to remove the key
+ */
+function writeJsonAttribute(file: ReactiveJsonFile, path: string, key: string, value: any): Promise<void> {
+    if (file.getAbsolutePath() === path) {
+        return file.restoreAttribute(key, value);
+    }
+
+    const index: ReactiveIndex = file.cursor.index;
+    if (value !== undefined && file.schema != null && file.schema.fields[key] != null) {
+        try {
+            file.schema.validateSyncAt(key, { [key]: value });
+        }
+        catch (e) {
+            if (!(e instanceof yup.ValidationError)) throw e;
+            return Promise.reject(new Error('Refusing to set "' + key + '" in "' + path + '" to an invalid value: ' + e.errors.join(", ")));
+        }
+    }
+
+    // We get the version before the contents, so if someone writes in between, our conditional write fails and we
+    // start again, rather than overwriting their change
+    const attemptWrite = (attemptsLeft: number): Promise<void> => {
+        return index.getVersion(path).then((version: string | null) => {
+            const existing: Promise<string> = version != null ? index.downloadText(path) : Promise.resolve('{}');
+            return existing.then((text: string) => {
+                // downloadText() gives us an empty string if the download failed, and writing just our key would wipe
+                // out everything else in the file
+                if (text.trim() === '') {
+                    throw new Error('We couldn\'t download "' + path + '" to change "' + key + '" in it');
+                }
+                let object = JSON.parse(text);
+                if (value === undefined) {
+                    delete object[key];
+                }
+                else {
+                    object[key] = value;
+                }
+                return index.uploadIfVersion(path, JSON.stringify(object), version);
+            });
+        }).then(() => { }).catch((e: any) => {
+            if (!(e instanceof VersionMismatchError) || attemptsLeft <= 1) throw e;
+            return attemptWrite(attemptsLeft - 1);
+        });
+    };
+    return attemptWrite(MAX_JSON_WRITE_ATTEMPTS);
+}
+
+export type { JournalOperation, FileMove };
+export default OperationJournal;
@@ -0,0 +1,33 @@
+/// This is the interface that ReactiveIndex and MocapS3Cursor use to send and receive live updates. RobustMqtt
+/// implements it on top of a real MQTT broker (AWS IoT, or a self-hosted broker), and InProcessMqtt implements it
+/// without any network at all, for tests.
+///
+/// Topics and patterns passed in here are un-prefixed. Implementations are responsible for scoping them to a
+/// deployment (e.g. "DEV" or "PROD"), so that different deployments sharing a broker don't see each other's messages.
+interface PubSubSocket {
+    /**
+     * This attempts to establish a connection. Connection state changes get reported to connection listeners.
+     */
+    connect(): void;
+
+    /**
+     * @param listener A function to call when the connection state changes
+     */
+    addConnectionListener(listener: (connected: boolean) => void): void;
+
+    /**
+     * @param topic The topic to publish to
+     * @param message The message to send
+     * @returns a promise that resolves when the message has been handed to the broker
+     */
+    publish(topic: string, message: string): Promise<void>;
+
+    /**
+     * @param pattern The pattern to subscribe to, which can include MQTT wildcards ('+' and '#')
+     * @param handler The handler to attach to that pattern
+     * @returns a function that removes this subscription
+     */
+    subscribe(pattern: string, handler: (topic: string, message: string) => void): () => void;
+}
+
+export type { PubSubSocket };
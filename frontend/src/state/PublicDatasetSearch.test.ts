@@ -0,0 +1,152 @@
+import { ReactiveIndex } from './ReactiveS3';
+import type { ReactiveFileMetadata } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import PublicDatasetSearch, { EMPTY_FILTERS, makeEntry, filterEntries, sortEntries } from './PublicDatasetSearch';
+import type { SubjectSearchEntry } from './PublicDatasetSearch';
+
+function makeKeys(paths: string[]) {
+    let keys: Map<string, ReactiveFileMetadata> = new Map();
+    paths.forEach((key) => keys.set(key, { key, lastModified: new Date(1000), size: 1 }));
+    return keys;
+}
+
+function makeSearchEntry(name: string, values: Partial<SubjectSearchEntry> = {}): SubjectSearchEntry {
+    return {
+        path: "lab/" + name,
+        name,
+        dataset: null,
+        sex: 'unknown',
+        heightM: null,
+        massKg: null,
+        numTrials: 0,
+        markerCount: null,
+        hasGRF: false,
+        hasGoldIK: false,
+        autoAvgRMSE: null,
+        ...values
+    };
+}
+
+test("makeEntry() reads the subject, its trials and its results", () => {
+    const keys = makeKeys([
+        "data/lab/_dataset.json",
+        "data/lab/group/subject1/_subject.json",
+        "data/lab/group/subject1/_results.json",
+        "data/lab/group/subject1/trials/walk/markers.c3d",
+        "data/lab/group/subject1/trials/walk/grf.mot",
+        "data/lab/group/subject1/trials/run/markers.c3d"
+    ]);
+    const entry = makeEntry("data/lab/group/subject1", "data/", keys,
+        JSON.stringify({ sex: "female", heightM: 1.7, massKg: 62.5 }),
+        JSON.stringify({ autoAvgRMSE: 0.012, trialMarkerSets: { walk: ["A", "B", "C"], run: ["A", "B"] } }));
+
+    expect(entry).toEqual({
+        path: "lab/group/subject1",
+        name: "subject1",
+        dataset: "lab",
+        sex: "female",
+        heightM: 1.7,
+        massKg: 62.5,
+        numTrials: 2,
+        markerCount: 3,
+        hasGRF: true,
+        hasGoldIK: false,
+        autoAvgRMSE: 0.012
+    });
+});
+
+test("makeEntry() only counts gold IK if there's a hand-scaled model and hand-fit IK", () => {
+    const ikOnly = makeKeys(["data/s/_subject.json", "data/s/trials/walk/manual_ik.mot"]);
+    expect(makeEntry("data/s", "data/", ikOnly, "{}", null).hasGoldIK).toBeFalsy();
+
+    const modelOnly = makeKeys(["data/s/_subject.json", "data/s/manually_scaled.osim", "data/s/trials/walk/markers.c3d"]);
+    expect(makeEntry("data/s", "data/", modelOnly, "{}", null).hasGoldIK).toBeFalsy();
+
+    const both = makeKeys(["data/s/_subject.json", "data/s/manually_scaled.osim", "data/s/trials/walk/manual_ik.mot"]);
+    expect(makeEntry("data/s", "data/", both, "{}", null).hasGoldIK).toBeTruthy();
+});
+
+test("makeEntry() leaves out whatever's missing or broken, rather than failing", () => {
+    const entry = makeEntry("data/s", "data/", makeKeys(["data/s/_subject.json"]), "not json", null);
+    expect(entry.sex).toBe("unknown");
+    expect(entry.heightM).toBeNull();
+    expect(entry.massKg).toBeNull();
+    expect(entry.markerCount).toBeNull();
+    expect(entry.autoAvgRMSE).toBeNull();
+    expect(entry.dataset).toBeNull();
+    expect(entry.numTrials).toBe(0);
+    expect(entry.hasGRF).toBeFalsy();
+});
+
+test("filterEntries() applies range bounds inclusively, and a missing value never passes a bound", () => {
+    const entries = [
+        makeSearchEntry("short", { heightM: 1.5 }),
+        makeSearchEntry("tall", { heightM: 1.9 }),
+        makeSearchEntry("middle", { heightM: 1.7 }),
+        makeSearchEntry("unmeasured")
+    ];
+    const names = (filters: Partial<typeof EMPTY_FILTERS>) => filterEntries(entries, { ...EMPTY_FILTERS, ...filters }).map((entry) => entry.name);
+
+    expect(names({})).toEqual(["short", "tall", "middle", "unmeasured"]);
+    expect(names({ minHeightM: 1.7 })).toEqual(["tall", "middle"]);
+    expect(names({ maxHeightM: 1.7 })).toEqual(["short", "middle"]);
+    expect(names({ minHeightM: 1.6, maxHeightM: 1.8 })).toEqual(["middle"]);
+});
+
+test("filterEntries() filters on text, sex, GRF, gold IK and RMSE", () => {
+    const entries = [
+        makeSearchEntry("a", { sex: 'male', hasGRF: true, autoAvgRMSE: 0.01 }),
+        makeSearchEntry("b", { sex: 'female', hasGoldIK: true, autoAvgRMSE: 0.03 }),
+        makeSearchEntry("c", { path: "other/C", sex: 'female', hasGRF: true, hasGoldIK: true })
+    ];
+    const names = (filters: Partial<typeof EMPTY_FILTERS>) => filterEntries(entries, { ...EMPTY_FILTERS, ...filters }).map((entry) => entry.name);
+
+    expect(names({ text: " LAB/ " })).toEqual(["a", "b"]);
+    expect(names({ sex: 'female' })).toEqual(["b", "c"]);
+    expect(names({ requireGRF: true })).toEqual(["a", "c"]);
+    expect(names({ requireGoldIK: true })).toEqual(["b", "c"]);
+    expect(names({ requireGRF: true, requireGoldIK: true })).toEqual(["c"]);
+    expect(names({ maxRMSE: 0.02 })).toEqual(["a"]);
+});
+
+test("sortEntries() puts missing values last, whichever way it's sorting", () => {
+    const entries = [
+        makeSearchEntry("b", { massKg: 80 }),
+        makeSearchEntry("unweighed"),
+        makeSearchEntry("a", { massKg: 55 }),
+        makeSearchEntry("c", { massKg: 70 })
+    ];
+    expect(sortEntries(entries, 'massKg', true).map((entry) => entry.name)).toEqual(["a", "c", "b", "unweighed"]);
+    expect(sortEntries(entries, 'massKg', false).map((entry) => entry.name)).toEqual(["b", "c", "a", "unweighed"]);
+    expect(sortEntries(entries, 'name', false).map((entry) => entry.name)).toEqual(["unweighed", "c", "b", "a"]);
+    // It's a copy
+    expect(entries.map((entry) => entry.name)).toEqual(["b", "unweighed", "a", "c"]);
+});
+
+test("refresh() indexes every public subject, and only downloads the ones that changed", async () => {
+    const storage = new InMemoryStorageProvider();
+    storage.upload("data/lab/s1/_subject.json", JSON.stringify({ massKg: 60 }), () => { });
+    storage.upload("data/lab/s2/_subject.json", JSON.stringify({ massKg: 70 }), () => { });
+    storage.upload("data/lab/s2/_results.json", JSON.stringify({ autoAvgRMSE: 0.02 }), () => { });
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'public', false, new InProcessMqtt('TEST', new InProcessBroker()), storage);
+    index.localCacheEnabled = false;
+    const search = new PublicDatasetSearch(index);
+
+    await search.refresh();
+    expect(search.results.map((entry) => [entry.path, entry.massKg, entry.autoAvgRMSE])).toEqual([["lab/s1", 60, null], ["lab/s2", 70, 0.02]]);
+
+    let downloaded: string[] = [];
+    const download = storage.download;
+    storage.download = (path, progressCallback) => {
+        downloaded.push(path);
+        return download(path, progressCallback);
+    };
+    // Make sure the new file gets a later timestamp
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    storage.upload("data/lab/s1/_subject.json", JSON.stringify({ massKg: 61 }), () => { });
+    await search.refresh();
+
+    expect(downloaded).toEqual(["data/lab/s1/_subject.json"]);
+    expect(search.results.map((entry) => entry.massKg)).toEqual([61, 70]);
+});
@@ -0,0 +1,297 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type { ReactiveIndex, ReactiveFileMetadata } from './ReactiveS3';
+import type { SubjectSex } from './MocapSchemas';
+import { forEachInBatches, asNumber } from '../utils';
+
+/// We download this many subjects' JSON files at a time while building the search index
+const DOWNLOAD_BATCH_SIZE = 8;
+
+/// This is everything we know about one public subject, for searching and sorting
+type SubjectSearchEntry = {
+    // Relative to the public "data/" folder
+    path: string;
+    name: string;
+    // The published folder (with a "_dataset.json") the subject is in, or null if it isn't in one
+    dataset: string | null;
+    sex: SubjectSex;
+    heightM: number | null;
+    massKg: number | null;
+    numTrials: number;
+    // The most markers in any one trial, or null if the subject hasn't been processed
+    markerCount: number | null;
+    // True if any trial has ground reaction forces (grf.mot)
+    hasGRF: boolean;
+    // True if there's hand-scaled model and hand-fit IK (manually_scaled.osim and manual_ik.mot) to compare against
+    hasGoldIK: boolean;
+    autoAvgRMSE: number | null;
+};
+
+/// Numeric bounds are inclusive, and null means "don't filter on this"
+type SubjectSearchFilters = {
+    text: string;
+    sex: SubjectSex | 'any';
+    minHeightM: number | null;
+    maxHeightM: number | null;
+    minMassKg: number | null;
+    maxMassKg: number | null;
+    minMarkers: number | null;
+    maxMarkers: number | null;
+    requireGRF: boolean;
+    requireGoldIK: boolean;
+    // In meters, like "_results.json"
+    maxRMSE: number | null;
+};
+
+type SubjectSearchSortKey = 'name' | 'dataset' | 'sex' | 'heightM' | 'massKg' | 'numTrials' | 'markerCount' | 'autoAvgRMSE';
+
+const EMPTY_FILTERS: SubjectSearchFilters = {
+    text: '',
+    sex: 'any',
+    minHeightM: null,
+    maxHeightM: null,
+    minMassKg: null,
+    maxMassKg: null,
+    minMarkers: null,
+    maxMarkers: null,
+    requireGRF: false,
+    requireGoldIK: false,
+    maxRMSE: null
+};
+
+/**
+ * @returns the parsed JSON, or an empty object if it isn't valid JSON. Search shouldn't fall over on one bad file.
+ */
+function parseJsonLoosely(text: string | null): any {
+    if (text == null) return {};
+    try {
+        const result = JSON.parse(text);
+        return result != null && typeof result === 'object' ? result : {};
+    }
+    catch (e) {
+        return {};
+    }
+}
+
+/**
+ * @returns True if `value` is within the bounds. A missing value never passes a bound that's set.
+ */
+function inRange(value: number | null, min: number | null, max: number | null) {
+    if (min == null && max == null) return true;
+    if (value == null) return false;
+    return (min == null || value >= min) && (max == null || value <= max);
+}
+
+/**
+ * This builds the search entry for one subject.
+ *
+ * @param subjectPath The subject folder, relative to the index's global prefix
+ * @param dataPrefix The folder all the data is in, which gets left off the paths in the entry
+ * @param keys Every file under the data prefix
+ * @param subjectText The contents of "_subject.json"
+ * @param resultsText The contents of "_results.json", or null if it doesn't exist
+ */
+function makeEntry(subjectPath: string, dataPrefix: string, keys: Map<string, ReactiveFileMetadata>, subjectText: string, resultsText: string | null): SubjectSearchEntry {
+    const subject = parseJsonLoosely(subjectText);
+    const results = parseJsonLoosely(resultsText);
+
+    const trialsPrefix = subjectPath + "/trials/";
+    let trials: Set<string> = new Set();
+    let hasGRF = false;
+    let hasManualIK = false;
+    keys.forEach((file: ReactiveFileMetadata, key: string) => {
+        if (!key.startsWith(trialsPrefix)) return;
+        const parts = key.substring(trialsPrefix.length).split('/');
+        if (parts[0] === '') return;
+        trials.add(parts[0]);
+        if (parts[1] === 'grf.mot') hasGRF = true;
+        if (parts[1] === 'manual_ik.mot') hasManualIK = true;
+    });
+
+    let markerCount: number | null = null;
+    const trialMarkerSets = results.trialMarkerSets;
+    if (trialMarkerSets != null && typeof trialMarkerSets === 'object') {
+        Object.values(trialMarkerSets).forEach((markers: any) => {
+            if (Array.isArray(markers)) markerCount = Math.max(markerCount ?? 0, markers.length);
+        });
+    }
+
+    // The nearest folder above the subject that was published with a description
+    let dataset: string | null = null;
+    let folder = subjectPath;
+    while (folder.lastIndexOf('/') > dataPrefix.length - 1) {
+        folder = folder.substring(0, folder.lastIndexOf('/'));
+        if (keys.has(folder + "/_dataset.json")) {
+            dataset = folder.substring(dataPrefix.length);
+            break;
+        }
+    }
+
+    const sex: SubjectSex = subject.sex === 'male' || subject.sex === 'female' ? subject.sex : 'unknown';
+    return {
+        path: subjectPath.substring(dataPrefix.length),
+        name: subjectPath.substring(subjectPath.lastIndexOf('/') + 1),
+        dataset,
+        sex,
+        heightM: asNumber(subject.heightM),
+        massKg: asNumber(subject.massKg),
+        numTrials: trials.size,
+        markerCount,
+        hasGRF,
+        hasGoldIK: hasManualIK && keys.has(subjectPath + "/manually_scaled.osim"),
+        autoAvgRMSE: asNumber(results.autoAvgRMSE)
+    };
+}
+
+/**
+ * @returns The entries that pass every filter
+ */
+function filterEntries(entries: SubjectSearchEntry[], filters: SubjectSearchFilters) {
+    const text = filters.text.trim().toLowerCase();
+    return entries.filter((entry) => {
+        if (text !== '' && entry.path.toLowerCase().indexOf(text) === -1) return false;
+        if (filters.sex !== 'any' && entry.sex !== filters.sex) return false;
+        if (!inRange(entry.heightM, filters.minHeightM, filters.maxHeightM)) return false;
+        if (!inRange(entry.massKg, filters.minMassKg, filters.maxMassKg)) return false;
+        if (!inRange(entry.markerCount, filters.minMarkers, filters.maxMarkers)) return false;
+        if (filters.requireGRF && !entry.hasGRF) return false;
+        if (filters.requireGoldIK && !entry.hasGoldIK) return false;
+        if (!inRange(entry.autoAvgRMSE, null, filters.maxRMSE)) return false;
+        return true;
+    });
+}
+
+/**
+ * @returns A sorted copy of `entries`. Missing values always go at the end.
+ */
+function sortEntries(entries: SubjectSearchEntry[], key: SubjectSearchSortKey, ascending: boolean) {
+    return [...entries].sort((a, b) => {
+        const aValue = a[key];
+        const bValue = b[key];
+        if (aValue == null && bValue == null) return 0;
+        if (aValue == null) return 1;
+        if (bValue == null) return -1;
+        const comparison = typeof aValue === 'number' && typeof bValue === 'number' ? aValue - bValue : String(aValue).localeCompare(String(bValue));
+        return ascending ? comparison : -comparison;
+    });
+}
+
+/// This is a search index over every subject in the public data, built from their "_subject.json" and "_results.json"
+/// files. We list the bucket directly rather than reading the ReactiveIndex, so this works even if the index is only
+/// listing the folders being looked at. Subjects whose files haven't changed since the last refresh aren't downloaded
+/// again.
+class PublicDatasetSearch {
+    index: ReactiveIndex;
+    dataPrefix: string;
+    entries: SubjectSearchEntry[];
+    loading: boolean;
+    error: string | null;
+    filters: SubjectSearchFilters;
+    sortKey: SubjectSearchSortKey;
+    sortAscending: boolean;
+    // Subject path -> the lastModified times of its JSON files, and the entry we built from them
+    cache: Map<string, { signature: string, entry: SubjectSearchEntry }>;
+
+    constructor(index: ReactiveIndex, dataPrefix: string = 'data/') {
+        this.index = index;
+        this.dataPrefix = dataPrefix;
+        this.entries = [];
+        this.loading = false;
+        this.error = null;
+        this.filters = EMPTY_FILTERS;
+        this.sortKey = 'name';
+        this.sortAscending = true;
+        this.cache = new Map();
+
+        makeObservable(this, {
+            entries: observable.ref,
+            loading: observable,
+            error: observable,
+            filters: observable.ref,
+            sortKey: observable,
+            sortAscending: observable,
+            results: computed
+        });
+    }
+
+    /**
+     * @returns The entries that match the filters, in order
+     */
+    get results() {
+        return sortEntries(filterEntries(this.entries, this.filters), this.sortKey, this.sortAscending);
+    }
+
+    setFilter = action(<K extends keyof SubjectSearchFilters>(key: K, value: SubjectSearchFilters[K]) => {
+        this.filters = { ...this.filters, [key]: value };
+    });
+
+    clearFilters = action(() => {
+        this.filters = EMPTY_FILTERS;
+    });
+
+    /**
+     * This sorts by `key`, or if we're already sorting by `key`, flips the order
+     */
+    setSort = action((key: SubjectSearchSortKey) => {
+        if (this.sortKey === key) {
+            this.sortAscending = !this.sortAscending;
+        }
+        else {
+            this.sortKey = key;
+            this.sortAscending = true;
+        }
+    });
+
+    /**
+     * This re-lists the public data, and downloads the JSON for any subjects that are new or have changed
+     */
+    refresh = action(() => {
+        this.loading = true;
+        return this.index.loadFolder(this.dataPrefix, false).then((listing) => {
+            let keys: Map<string, ReactiveFileMetadata> = new Map();
+            listing.files.forEach((file: ReactiveFileMetadata) => keys.set(file.key, file));
+
+            const subjectPaths: string[] = [];
+            keys.forEach((file: ReactiveFileMetadata, key: string) => {
+                if (key.endsWith("/_subject.json")) subjectPaths.push(key.substring(0, key.length - "/_subject.json".length));
+            });
+
+            let entries: SubjectSearchEntry[] = [];
+            const loadSubject = (subjectPath: string): Promise<void> => {
+                const subjectFile = keys.get(subjectPath + "/_subject.json");
+                const resultsFile = keys.get(subjectPath + "/_results.json");
+                // The trial files matter too, but they only change along with the results
+                const signature = subjectFile?.lastModified.getTime() + ":" + resultsFile?.lastModified.getTime();
+                const cached = this.cache.get(subjectPath);
+                if (cached != null && cached.signature === signature) {
+                    entries.push(cached.entry);
+                    return Promise.resolve();
+                }
+                return Promise.all([
+                    this.index.storage.download(subjectPath + "/_subject.json").then((blob: Blob) => blob.text()),
+                    resultsFile != null ? this.index.storage.download(subjectPath + "/_results.json").then((blob: Blob) => blob.text()) : Promise.resolve(null)
+                ]).then(([subjectText, resultsText]) => {
+                    const entry = makeEntry(subjectPath, this.dataPrefix, keys, subjectText, resultsText);
+                    this.cache.set(subjectPath, { signature, entry });
+                    entries.push(entry);
+                }).catch((e: any) => {
+                    // One subject we can't read shouldn't keep the rest out of the search
+                    console.warn("Unable to index public subject \"" + subjectPath + "\"", e);
+                });
+            };
+
+            return forEachInBatches(subjectPaths, DOWNLOAD_BATCH_SIZE, loadSubject).then(action(() => {
+                this.entries = entries;
+                this.error = null;
+            }));
+        }).catch(action((e: any) => {
+            console.error("Error building the public data search index", e);
+            this.error = "We got an error trying to search the public data!";
+        })).finally(action(() => {
+            this.loading = false;
+        }));
+    });
+}
+
+export type { SubjectSearchEntry, SubjectSearchFilters, SubjectSearchSortKey };
+export { EMPTY_FILTERS, makeEntry, filterEntries, sortEntries };
+export default PublicDatasetSearch;
@@ -0,0 +1,322 @@
+import { ReactiveIndex, ReactiveCursor, ReactiveJsonFile } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import { subjectJsonSchema } from './MocapSchemas';
+import type { SubjectJson } from './MocapSchemas';
+
+/**
+ * @returns A promise that resolves once a JSON file has finished downloading
+ */
+async function waitForLoad(file: ReactiveJsonFile) {
+    while (file.loading) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+}
+
+function makeStorage(files: { [path: string]: string }) {
+    const storage = new InMemoryStorageProvider();
+    Object.keys(files).forEach((path) => storage.upload(path, files[path], () => { }));
+    return storage;
+}
+
+/**
+ * @returns An index with its PubSub set up, that's done loading whatever `storage` has in it
+ */
+async function makeIndex(storage: InMemoryStorageProvider, lazy: boolean = false, broker: InProcessBroker = new InProcessBroker()) {
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, new InProcessMqtt('TEST', broker), storage);
+    index.localCacheEnabled = false;
+    if (lazy) {
+        index.setLazyListing(true, ["_subject.json"]);
+    }
+    await index.fullRefresh();
+    await index.setupPubsub();
+    return index;
+}
+
+const LAB_FILES = {
+    "data/lab/subject1/_subject.json": "{}",
+    "data/lab/subject1/trials/walk/markers.c3d": "c3d",
+    "data/lab/subject1/trials/run/markers.c3d": "c3d",
+    "data/lab/old/notes/2019/notes.txt": "notes",
+    "data/other.txt": "other"
+};
+
+test("lazy index only lists the folders being viewed", async () => {
+    const index = await makeIndex(makeStorage(LAB_FILES), true);
+    await index.retainFolder("data/lab");
+
+    // We list each sub-folder one level deep, to tell subjects from folders
+    expect(index.getMetadata("data/lab/subject1/_subject.json")).not.toBeNull();
+    expect(index.getMetadata("data/lab/old/notes/2019/notes.txt")).toBeNull();
+    expect(index.getMetadata("data/other.txt")).toBeNull();
+});
+
+test("lazy index lists all of a subject when it's viewed", async () => {
+    const index = await makeIndex(makeStorage(LAB_FILES), true);
+    await index.retainFolder("data/lab/subject1");
+
+    expect(index.getMetadata("data/lab/subject1/trials/walk/markers.c3d")).not.toBeNull();
+    expect(index.getMetadata("data/lab/subject1/trials/run/markers.c3d")).not.toBeNull();
+});
+
+test("lazy index keeps viewed folders up to date, until they're released", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const broker = new InProcessBroker();
+    const index = await makeIndex(storage, true, broker);
+    const otherTab = await makeIndex(storage, false, broker);
+    await index.retainFolder("data/lab");
+
+    await otherTab.upload("data/lab/new.txt", "new");
+    expect(index.getMetadata("data/lab/new.txt")).not.toBeNull();
+
+    index.releaseFolder("data/lab");
+    await otherTab.upload("data/lab/newer.txt", "newer");
+    expect(index.getMetadata("data/lab/newer.txt")).toBeNull();
+});
+
+test("loadSubtree() lists everything under a folder in lazy mode", async () => {
+    const index = await makeIndex(makeStorage(LAB_FILES), true);
+    await index.retainFolder("data/lab");
+    await index.loadSubtree("data/lab/old");
+
+    expect(index.getMetadata("data/lab/old/notes/2019/notes.txt")).not.toBeNull();
+});
+
+test("deleting a folder in lazy mode deletes files nobody has looked at", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const index = await makeIndex(storage, true);
+    await index.retainFolder("data/lab");
+    const cursor = new ReactiveCursor(index, "data/lab");
+
+    await cursor.deleteFolder("old");
+
+    expect(storage.objects.has("data/lab/old/notes/2019/notes.txt")).toBeFalsy();
+    expect([...storage.objects.keys()].some((key) => key.startsWith("trash/") && key.endsWith("data/lab/old/notes/2019/notes.txt"))).toBeTruthy();
+
+    await cursor.journal.undo();
+    expect(storage.objects.has("data/lab/old/notes/2019/notes.txt")).toBeTruthy();
+});
+
+test("moving a folder moves everything under it, and can be undone and redone", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const index = await makeIndex(storage);
+    const cursor = new ReactiveCursor(index, "data/lab");
+
+    await cursor.moveChild("subject1", "data/lab/renamed");
+    expect(storage.objects.has("data/lab/subject1/trials/walk/markers.c3d")).toBeFalsy();
+    expect(storage.objects.has("data/lab/renamed/trials/walk/markers.c3d")).toBeTruthy();
+    expect(index.getMetadata("data/lab/renamed/_subject.json")).not.toBeNull();
+
+    await cursor.journal.undo();
+    expect(storage.objects.has("data/lab/subject1/trials/walk/markers.c3d")).toBeTruthy();
+    expect(storage.objects.has("data/lab/renamed/trials/walk/markers.c3d")).toBeFalsy();
+
+    await cursor.journal.redo();
+    expect(storage.objects.has("data/lab/renamed/trials/run/markers.c3d")).toBeTruthy();
+});
+
+test("moving a folder refuses to overwrite something that's already there", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const index = await makeIndex(storage);
+    const cursor = new ReactiveCursor(index, "data");
+
+    await expect(cursor.moveChild("lab/old", "data/lab/subject1")).rejects.toThrow("already exists");
+    expect(storage.objects.has("data/lab/old/notes/2019/notes.txt")).toBeTruthy();
+});
+
+test("moving a folder in lazy mode checks the destination, even if nobody has looked at it", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const index = await makeIndex(storage, true);
+    await index.retainFolder("data");
+    const cursor = new ReactiveCursor(index, "data");
+
+    await expect(cursor.moveChild("other.txt", "data/lab/old/notes")).rejects.toThrow("already exists");
+});
+
+test("copying a folder can be undone, which trashes the copy", async () => {
+    const storage = makeStorage(LAB_FILES);
+    const index = await makeIndex(storage);
+    const cursor = new ReactiveCursor(index, "data/lab");
+
+    await cursor.copyChild("subject1", "data/lab/subject2");
+    expect(storage.objects.has("data/lab/subject1/trials/walk/markers.c3d")).toBeTruthy();
+    expect(storage.objects.has("data/lab/subject2/trials/walk/markers.c3d")).toBeTruthy();
+
+    await cursor.journal.undo();
+    expect(storage.objects.has("data/lab/subject1/trials/walk/markers.c3d")).toBeTruthy();
+    expect(storage.objects.has("data/lab/subject2/trials/walk/markers.c3d")).toBeFalsy();
+});
+
+test("JSON files merge edits to different keys from two tabs", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60, heightM: 1.7 }) });
+    // The tabs don't share a broker, so neither hears about the other's writes until it tries to save
+    const myFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile("_subject.json");
+    const theirFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile("_subject.json");
+    await Promise.all([waitForLoad(myFile), waitForLoad(theirFile)]);
+    expect(myFile.getAttribute("massKg", 0)).toBe(60);
+
+    theirFile.setAttribute("heightM", 1.8);
+    await theirFile.uploadNow();
+    myFile.setAttribute("massKg", 65);
+    await myFile.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 65, heightM: 1.8 });
+    expect(myFile.conflicts).toEqual([]);
+});
+
+test("JSON files keep the other tab's value when both change the same key, and remember ours", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60 }) });
+    const myFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile("_subject.json");
+    const theirFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile("_subject.json");
+    await Promise.all([waitForLoad(myFile), waitForLoad(theirFile)]);
+
+    theirFile.setAttribute("massKg", 70);
+    await theirFile.uploadNow();
+    myFile.setAttribute("massKg", 65);
+    await myFile.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved.massKg).toBe(70);
+    expect(myFile.conflicts.map((conflict) => [conflict.key, conflict.mine, conflict.theirs])).toEqual([["massKg", 65, 70]]);
+
+    myFile.resolveConflict("massKg", true);
+    await myFile.uploadNow();
+    const resolved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(resolved.massKg).toBe(65);
+});
+
+test("JSON files get created if nobody else created them first", async () => {
+    const storage = makeStorage({ "data/subject/trials/walk/markers.c3d": "c3d" });
+    const file = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile("_subject.json");
+
+    file.setAttribute("massKg", 65);
+    await file.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 65 });
+});
+
+test("JSON files keep invalid values local, and still save the valid ones", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60, sex: "unknown" }) });
+    const file = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await waitForLoad(file);
+
+    file.setAttribute("massKg", 1);
+    file.setAttribute("sex", "female");
+    await file.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 60, sex: "female" });
+    expect(file.getAttribute("massKg", 0)).toBe(1);
+    expect(file.getValidationError("massKg")).toContain("5 kilograms");
+
+    file.setAttribute("massKg", 65);
+    await file.uploadNow();
+    const fixed = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(fixed).toEqual({ massKg: 65, sex: "female" });
+    expect(file.getValidationError("massKg")).toBeNull();
+});
+
+test("JSON files never upload a key that has only ever been invalid", async () => {
+    const storage = makeStorage({ "data/subject/trials/walk/markers.c3d": "c3d" });
+    const file = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+
+    file.setAttribute("heightM", 9);
+    file.setAttribute("massKg", 65);
+    await file.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 65 });
+    expect(file.getAttribute("heightM", 0)).toBe(9);
+});
+
+test("JSON files keep invalid values through a merge with another tab's edits", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60, heightM: 1.7 }) });
+    const myFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    const theirFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await Promise.all([waitForLoad(myFile), waitForLoad(theirFile)]);
+
+    theirFile.setAttribute("massKg", 70);
+    await theirFile.uploadNow();
+    myFile.setAttribute("massKg", 1);
+    myFile.setAttribute("heightM", 1.8);
+    await myFile.uploadNow();
+
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 70, heightM: 1.8 });
+    expect(myFile.conflicts).toEqual([]);
+    expect(myFile.getAttribute("massKg", 0)).toBe(1);
+    expect(myFile.getValidationError("massKg")).not.toBeNull();
+});
+
+test("JSON files report a failed background save instead of throwing", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60 }) });
+    const file = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await waitForLoad(file);
+    storage.uploadIfVersion = () => Promise.reject(new Error("Network down"));
+
+    file.setAttribute("massKg", 65, true);
+    while (file.uploadError == null) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    expect(file.uploadError).toContain("Network down");
+    expect(file.getAttribute("massKg", 0)).toBe(60);
+});
+
+test("undoing a JSON edit merges with another tab's edits to the same file", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60, heightM: 1.7 }) });
+    const cursor = new ReactiveCursor(await makeIndex(storage), "data/subject");
+    const myFile = cursor.getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    const theirFile = new ReactiveCursor(await makeIndex(storage), "data/subject").getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await Promise.all([waitForLoad(myFile), waitForLoad(theirFile)]);
+
+    myFile.setAttribute("massKg", 65);
+    await myFile.uploadNow();
+    await waitForLoad(theirFile);
+    theirFile.setAttribute("heightM", 1.8);
+    await theirFile.uploadNow();
+
+    await cursor.journal.undo();
+    const saved = JSON.parse(await (await storage.download("data/subject/_subject.json")).text());
+    expect(saved).toEqual({ massKg: 60, heightM: 1.8 });
+    expect(myFile.getAttribute("massKg", 0)).toBe(60);
+    expect(myFile.version).toBe(await storage.getVersion("data/subject/_subject.json"));
+});
+
+test("undoing a JSON edit after moving to another folder still keeps the file's other keys", async () => {
+    const storage = makeStorage({
+        "data/subject/_subject.json": JSON.stringify({ massKg: 60 }),
+        "data/other/_subject.json": JSON.stringify({ massKg: 80 })
+    });
+    const cursor = new ReactiveCursor(await makeIndex(storage), "data/subject");
+    const file = cursor.getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await waitForLoad(file);
+    file.setAttribute("massKg", 65);
+    await file.uploadNow();
+    await storage.upload("data/subject/_subject.json", JSON.stringify({ massKg: 65, heightM: 1.8 }), () => { });
+
+    cursor.setPath("data/other");
+    await cursor.journal.undo();
+
+    expect(JSON.parse(await (await storage.download("data/subject/_subject.json")).text())).toEqual({ massKg: 60, heightM: 1.8 });
+    expect(JSON.parse(await (await storage.download("data/other/_subject.json")).text())).toEqual({ massKg: 80 });
+});
+
+test("undoing a JSON edit leaves the file alone if we can't download it", async () => {
+    const storage = makeStorage({ "data/subject/_subject.json": JSON.stringify({ massKg: 60, heightM: 1.7 }) });
+    const cursor = new ReactiveCursor(await makeIndex(storage), "data/subject");
+    const file = cursor.getJsonFile<SubjectJson>("_subject.json", subjectJsonSchema);
+    await waitForLoad(file);
+    file.setAttribute("massKg", 65);
+    await file.uploadNow();
+
+    cursor.setPath("data");
+    storage.download = () => Promise.reject(new Error("Network down"));
+    await expect(cursor.journal.undo()).rejects.toThrow("couldn't download");
+
+    const saved = JSON.parse(await (await storage.objects.get("data/subject/_subject.json")!.contents.text()));
+    expect(saved).toEqual({ massKg: 65, heightM: 1.7 });
+    expect(cursor.journal.canUndo).toBeTruthy();
+});
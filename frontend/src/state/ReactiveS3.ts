@@ -1,16 +1,20 @@
 import { makeObservable, action, observable } from 'mobx';
-import { Auth, Storage } from "aws-amplify";
-import {
-    S3ProviderListOutput,
-    S3ProviderListOutputItem,
-} from "@aws-amplify/storage";
+import * as yup from 'yup';
 import JSZip from 'jszip';
-import RobustMqtt from './RobustMqtt';
-import { Credentials, getAmplifyUserAgent } from '@aws-amplify/core';
-import { S3Client, ListObjectsV2Command, ListObjectsV2CommandOutput } from '@aws-sdk/client-s3';
-import RobustUpload from './RobustUpload';
+import { VersionMismatchError } from './StorageProvider';
+import type { StorageProvider, StorageListOutput, ResumableUploadInfo } from './StorageProvider';
+import type { PubSubSocket } from './PubSubSocket';
+import S3StorageProvider from './S3StorageProvider';
+import { ChecksumMismatchError } from './Checksum';
+import { loadCachedIndex, saveCachedIndex, scheduleSaveCachedIndex, cancelPendingSave } from './IndexCache';
+import OperationJournal from './OperationJournal';
+import type { FileMove } from './OperationJournal';
+import { TRASH_PREFIX, isTrashPath } from './Trash';
 
 
+/// If someone else keeps writing to a JSON file while we're trying to save it, we give up after merging this many times
+const MAX_JSON_MERGE_ATTEMPTS = 3;
+
 /**
  * This strips any illegal characters from a PubSub path (or subset of a path), and returns what's left
  * 
@@ -51,9 +55,59 @@ function ensurePathEndsWithSlash(path: string): string {
     else return path + "/";
 }
 
+/// This is a key that both we and someone else changed (to different values) since we last downloaded a JSON file
+type ReactiveJsonConflict = {
+    key: string;
+    // The value we both started from, or undefined if the key didn't exist
+    base: any;
+    mine: any;
+    theirs: any;
+};
+
+/**
+ * This does a three-way merge, one key at a time. Keys that only one side changed take that side's value. Keys that
+ * both sides changed to different values are conflicts, and take their value (so we never silently clobber someone
+ * else's edit), with our value recorded in the conflict so the user can choose it instead.
+ *
+ * @param base The values we last downloaded or uploaded
+ * @param mine Our current values
+ * @param theirs The values that are on the server now
+ */
+function mergeJsonValues(base: Map<string, any>, mine: Map<string, any>, theirs: Map<string, any>): { merged: Map<string, any>, conflicts: ReactiveJsonConflict[] } {
+    const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+    let merged: Map<string, any> = new Map();
+    let conflicts: ReactiveJsonConflict[] = [];
+    const allKeys: Set<string> = new Set([...base.keys(), ...mine.keys(), ...theirs.keys()]);
+    allKeys.forEach((key: string) => {
+        const baseValue = base.get(key);
+        const mineValue = mine.get(key);
+        const theirsValue = theirs.get(key);
+
+        let value: any;
+        if (same(mineValue, baseValue)) {
+            value = theirsValue;
+        }
+        else if (same(theirsValue, baseValue) || same(mineValue, theirsValue)) {
+            value = mineValue;
+        }
+        else {
+            conflicts.push({ key, base: baseValue, mine: mineValue, theirs: theirsValue });
+            value = theirsValue;
+        }
+        if (value !== undefined) {
+            merged.set(key, value);
+        }
+    });
+    return { merged, conflicts };
+}
+
 /// This is a cacheing layer for mobx-style interaction with JSON files stored in S3. This handles doing the downloading, parsing, 
 /// and re-uploading in the background.
-class ReactiveJsonFile {
+///
+/// If it's given a yup schema, values get checked against it as they're set, and we refuse to upload anything that
+/// doesn't pass. The type parameter describes the document, so getAttribute() and setAttribute() are typed per key.
+class ReactiveJsonFile<T extends object = any> {
     cursor: ReactiveCursor;
     loading: boolean;
     path: string;
@@ -62,16 +116,34 @@ class ReactiveJsonFile {
     lastUploadedValues: Map<string, any>;
     pendingTimeout: any | null;
     changeListeners: Array<() => void>;
-
-    constructor(cursor: ReactiveCursor, path: string) {
+    // The version (for S3, the ETag) of the file the last time we downloaded or uploaded it, or null if it didn't exist
+    version: string | null;
+    // Keys where someone else's edit collided with ours, waiting for the user to pick a value
+    conflicts: ReactiveJsonConflict[];
+    // OPTIONAL: The shape the document is supposed to have
+    schema: yup.AnyObjectSchema | null;
+    // Keys whose current value doesn't match the schema, and why. These stay local, and we upload the last valid value instead.
+    validationErrors: Map<string, string>;
+    // If the copy on the server couldn't be parsed, or didn't match the schema, this says what was wrong with it
+    loadError: string | null;
+    // If our last attempt to save the file failed, this says why
+    uploadError: string | null;
+
+    constructor(cursor: ReactiveCursor, path: string, schema: yup.AnyObjectSchema | null = null) {
         this.cursor = cursor;
         this.path = path;
+        this.schema = schema;
+        this.validationErrors = new Map();
+        this.loadError = null;
+        this.uploadError = null;
         this.values = new Map();
         this.focused = new Map();
         this.lastUploadedValues = new Map();
         this.pendingTimeout = null;
         this.changeListeners = [];
         this.loading = false;
+        this.version = null;
+        this.conflicts = [];
         this.pathChanged();
 
         this.cursor.index.addLoadingListener((loading: boolean) => {
@@ -83,7 +155,11 @@ class ReactiveJsonFile {
         makeObservable(this, {
             loading: observable,
             values: observable,
-            path: observable
+            path: observable,
+            conflicts: observable,
+            validationErrors: observable,
+            loadError: observable,
+            uploadError: observable
         });
     }
 
@@ -101,31 +177,48 @@ class ReactiveJsonFile {
         console.log("File exists: " + this.fileExist());
         if (this.fileExist()) {
             this.loading = true;
-            this.cursor.downloadText(this.path).then(action((text: string) => {
+            const absolutePath = this.getAbsolutePath();
+            // We get the version before the contents, so if the file changes in between we'll see a stale version (and
+            // merge unnecessarily later) rather than a stale file (and overwrite changes we never saw)
+            this.cursor.index.getVersion(absolutePath).catch(() => null).then((version: string | null) => {
+                return this.cursor.index.downloadText(absolutePath).then((text: string) => ({ version, text }));
+            }).then(action(({ version, text }: { version: string | null, text: string }) => {
                 console.log("Downloaded text: " + text);
+                if (absolutePath !== this.getAbsolutePath()) return;
+                this.version = version;
                 try {
+                    // We keep what the user is still editing, and invalid values they haven't fixed yet (which were
+                    // never uploaded, so the server's copy can't be newer than them)
+                    let keepLocal = (k: string) => this.focused.get(k) === true || this.validationErrors.has(k);
                     let savedValues: Map<string, any> = new Map();
-                    this.focused.forEach((v, k) => {
-                        if (v) {
-                            savedValues.set(k, this.values.get(k));
+                    this.values.forEach((v, k) => {
+                        if (keepLocal(k)) {
+                            savedValues.set(k, v);
                         }
                     });
 
                     this.values = savedValues;
                     this.lastUploadedValues.clear();
-                    const result = JSON.parse(text);
+                    this.loadError = null;
+                    const result = this.parseRemoteJson(text);
                     for (let key in result) {
-                        if (this.focused.get(key) === true) {
+                        this.lastUploadedValues.set(key, result[key]);
+                        if (keepLocal(key)) {
                             // Skip updating this entry
                         }
                         else {
                             this.values.set(key, result[key]);
-                            this.lastUploadedValues.set(key, result[key]);
                         }
                     }
+                    // Only the values we kept can be invalid now, since we replaced the rest
+                    this.validationErrors.clear();
+                    savedValues.forEach((v, k) => {
+                        this.validateAttribute(k);
+                    });
                 }
                 catch (e) {
                     console.error("Bad JSON format for file \"" + this.path + "\", got: \"" + text + "\"");
+                    this.loadError = "The copy of \"" + this.path + "\" on the server isn't valid JSON" + (e instanceof Error ? " (" + e.message + ")" : "");
                     this.values.clear();
                 }
             })).finally(action(() => {
@@ -134,6 +227,31 @@ class ReactiveJsonFile {
         }
         else {
             this.values.clear();
+            this.version = null;
+            this.loadError = null;
+            this.validationErrors.clear();
+        }
+    };
+
+    /**
+     * This parses a copy of the file we downloaded, and checks it against the schema (if we have one). Values that
+     * the schema knows how to convert (like the string "1.8" for a number) get converted. If it's valid JSON but
+     * doesn't match the schema, we still return it as-is, and record what was wrong in `loadError`.
+     *
+     * @param text The raw contents of the file
+     * @throws SyntaxError if `text` isn't JSON at all
+     */
+    parseRemoteJson = (text: string): any => {
+        const result = JSON.parse(text);
+        if (this.schema == null) return result;
+        try {
+            return this.schema.validateSync(result, { abortEarly: false });
+        }
+        catch (e) {
+            if (!(e instanceof yup.ValidationError)) throw e;
+            console.warn("File \"" + this.path + "\" doesn't match its schema", e.errors);
+            this.loadError = "The copy of \"" + this.path + "\" on the server has invalid values: " + e.errors.join(", ");
+            return result;
         }
     };
 
@@ -164,9 +282,15 @@ class ReactiveJsonFile {
     /**
      * This gets called right before the path changes, and leaves a chance to clean up values
      */
-    pathWillChange = () => {
+    pathWillChange = action(() => {
         this.cursor.index.removeMetadataListener(this.getAbsolutePath(), this.onFileChanged);
-    };
+        // Invalid values we were holding on to belong to the old file, so they shouldn't follow us to the new one
+        this.validationErrors.forEach((reason, k) => {
+            this.values.delete(k);
+        });
+        this.validationErrors.clear();
+        this.uploadError = null;
+    });
 
     /**
      * This gets called when the path has changed in the supporting cursor
@@ -203,40 +327,75 @@ class ReactiveJsonFile {
      * @param defaultValue A default value to return, if the value hasn't loaded yet or the file doesn't exist
      * @returns 
      */
-    getAttribute = (key: string, defaultValue: any) => {
+    getAttribute = <K extends keyof T & string>(key: K, defaultValue: T[K]): T[K] => {
         let value = this.values.get(key);
         if (value == null) return defaultValue;
         else return value;
     };
 
     /**
-     * This uploads the contents of this file to S3
+     * @returns The values we're willing to put on the server. Keys with an invalid value keep their last uploaded
+     * value (or are left out, if they never had one), so a bad entry in one field never holds up the others.
+     */
+    getUploadableValues = (): Map<string, any> => {
+        let uploadable: Map<string, any> = new Map();
+        this.values.forEach((v, k) => {
+            if (!this.validationErrors.has(k)) {
+                uploadable.set(k, v);
+            }
+            else if (this.lastUploadedValues.has(k)) {
+                uploadable.set(k, this.lastUploadedValues.get(k));
+            }
+        });
+        return uploadable;
+    };
+
+    /**
+     * This uploads the contents of this file to S3. Values that don't match the schema stay local, and aren't uploaded.
      * 
      * @returns A promise for when the upload is complete
      */
     uploadNow = () => {
-        let object: any = {};
-        this.values.forEach((v, k) => {
-            object[k] = v;
-        });
-        let json = JSON.stringify(object);
+        const absolutePath = this.getAbsolutePath();
         console.log("Uploading object");
-        return this.cursor.uploadChild(this.path, json).then(action(() => {
-            console.log("Uploaded successfully");
-            // Update the lastUploadedValues, which we'll reset to if we 
-            this.lastUploadedValues.clear();
-            this.values.forEach((v, k) => {
-                this.lastUploadedValues.set(k, v);
+        let uploaded: Map<string, any> = new Map();
+        // The write only goes through if nobody else has written since we last saw the file. If someone has, we merge
+        // their changes into ours and try again.
+        const attemptUpload = (attemptsLeft: number): Promise<string | null> => {
+            uploaded = this.getUploadableValues();
+            let object: any = {};
+            uploaded.forEach((v, k) => {
+                object[k] = v;
             });
+            let json = JSON.stringify(object);
+            return this.cursor.index.uploadIfVersion(absolutePath, json, this.version).catch((e: any) => {
+                if (!(e instanceof VersionMismatchError) || attemptsLeft <= 1) throw e;
+                return this.mergeRemoteChanges(absolutePath).then(() => attemptUpload(attemptsLeft - 1));
+            });
+        };
+        return attemptUpload(MAX_JSON_MERGE_ATTEMPTS).then(action((version: string | null) => {
+            console.log("Uploaded successfully");
+            this.version = version;
+            this.uploadError = null;
+            // Update the lastUploadedValues, which we'll reset to if we fail to upload later
+            this.lastUploadedValues = uploaded;
             // Call all the change listeners
             this.changeListeners.forEach((listener) => listener());
         })).catch(action((e) => {
             console.error("Caught error uploading JSON, reverting to last uploaded values", e);
 
+            // The invalid values never left this tab, so there's nothing to revert for those
+            let localOnly: Map<string, any> = new Map();
+            this.validationErrors.forEach((reason, k) => {
+                localOnly.set(k, this.values.get(k));
+            });
             this.values.clear();
             this.lastUploadedValues.forEach((v, k) => {
                 this.values.set(k, v);
             });
+            localOnly.forEach((v, k) => {
+                this.values.set(k, v);
+            });
             // Call all the change listeners
             this.changeListeners.forEach((listener) => listener());
 
@@ -244,35 +403,168 @@ class ReactiveJsonFile {
         }));
     };
 
+    /**
+     * This uploads the file without waiting for the result, for when the user is editing values in a form. If the
+     * upload fails, we record why in `uploadError` rather than throwing.
+     */
+    uploadInBackground = () => {
+        this.uploadNow().catch(action((e: any) => {
+            this.uploadError = "We couldn't save your changes to \"" + this.path + "\"" + (e instanceof Error ? " (" + e.message + ")" : "");
+        }));
+    };
+
+    /**
+     * When uploadNow() finds that someone else has written to the file since we last saw it, this downloads their copy
+     * and does a three-way merge (against lastUploadedValues) into `values`, so that we don't overwrite their edits.
+     * Keys that we both changed end up in `conflicts`.
+     *
+     * @param absolutePath the path of the file in the index
+     */
+    mergeRemoteChanges = (absolutePath: string) => {
+        // We get the version before the contents, for the same reason as in refreshFile()
+        return this.cursor.index.getVersion(absolutePath).then((remoteVersion: string | null) => {
+            if (remoteVersion === this.version) return;
+            if (remoteVersion == null) {
+                // Someone deleted it, so there's nothing to merge, and our next upload creates it again
+                this.version = null;
+                return;
+            }
+
+            console.log("\"" + absolutePath + "\" changed on the server since we last saw it, merging");
+            return this.cursor.index.downloadText(absolutePath).then(action((text: string) => {
+                let theirs: Map<string, any> = new Map();
+                // If we can't read their copy, it's not safe to upload over it
+                const result = this.parseRemoteJson(text);
+                for (let key in result) {
+                    theirs.set(key, result[key]);
+                }
+
+                // Values that don't match the schema aren't ours to upload yet, so they can't conflict with theirs
+                const { merged, conflicts } = mergeJsonValues(this.lastUploadedValues, this.getUploadableValues(), theirs);
+                this.validationErrors.forEach((reason, k) => {
+                    merged.set(k, this.values.get(k));
+                });
+                this.values = merged;
+                // If the user is still deciding on an older conflict, the newer one for the same key replaces it
+                this.conflicts = [...this.conflicts.filter((c) => conflicts.find((n) => n.key === c.key) == null), ...conflicts];
+                this.lastUploadedValues = new Map(theirs);
+                this.version = remoteVersion;
+            }));
+        });
+    };
+
+    /**
+     * This settles a conflict that mergeRemoteChanges() found, by picking which value to keep.
+     *
+     * @param key The key that was in conflict
+     * @param useMine If true, we write our value back over theirs. Otherwise we keep theirs, which is already in place.
+     */
+    resolveConflict = (key: string, useMine: boolean) => {
+        const conflict = this.conflicts.find((c) => c.key === key);
+        if (conflict == null) return;
+        this.conflicts = this.conflicts.filter((c) => c.key !== key);
+        if (useMine) {
+            this.setAttribute(key as keyof T & string, conflict.mine, true);
+        }
+    };
+
     /**
      * This sets the value, overwriting the old value, and uploads the resulting JSON to S3 (after a short timeout, to avoid spamming with uploads if you're typing).
+     * If the value doesn't match the schema, we keep it locally (so inputs show what was typed) but don't upload it.
      * 
      * @param key 
      * @param value 
      */
-    setAttribute = (key: string, value: any, uploadImmediate?: boolean) => {
+    setAttribute = <K extends keyof T & string>(key: K, value: T[K], uploadImmediate?: boolean) => {
+        const before = this.values.get(key);
         this.values.set(key, value);
+        if (!this.validateAttribute(key)) {
+            this.cancelUploadTimer();
+            return;
+        }
+        if (JSON.stringify(before) !== JSON.stringify(value)) {
+            this.cursor.journal.recordJsonChange(this, this.getAbsolutePath(), key, before, value);
+        }
         if (uploadImmediate) {
-            this.uploadNow();
+            this.uploadInBackground();
         }
         else {
             this.restartUploadTimer();
         }
     };
 
+    /**
+     * This puts back a value for the journal's undo and redo, and uploads it right away. Unlike setAttribute(), this
+     * doesn't record the change in the journal again.
+     *
+     * @param value The value to set, or undefined to remove the key
+     * @returns A promise for when the upload is complete, which rejects if the value doesn't match the schema
+     */
+    restoreAttribute = action((key: string, value: any): Promise<void> => {
+        this.cancelUploadTimer();
+        if (value === undefined) {
+            this.values.delete(key);
+        }
+        else {
+            this.values.set(key, value);
+        }
+        if (!this.validateAttribute(key)) {
+            return Promise.reject(new Error("Refusing to set \"" + key + "\" in \"" + this.getAbsolutePath() + "\" to an invalid value: " + this.validationErrors.get(key)));
+        }
+        return this.uploadNow();
+    });
+
     /**
      * When called, this starts a timer to upload in a few hundred milliseconds.
      * If it's called while another time is present, that timer is cleared before this one fires.
      */
     restartUploadTimer = () => {
+        this.cancelUploadTimer();
+        this.pendingTimeout = setTimeout(() => {
+            this.uploadInBackground();
+            this.pendingTimeout = null;
+        }, 500);
+    };
+
+    /**
+     * This stops an upload that restartUploadTimer() scheduled, if there is one.
+     */
+    cancelUploadTimer = () => {
         if (this.pendingTimeout != null) {
             clearTimeout(this.pendingTimeout);
             this.pendingTimeout = null;
         }
-        this.pendingTimeout = setTimeout(() => {
-            this.uploadNow();
-            this.pendingTimeout = null;
-        }, 500);
+    };
+
+    /**
+     * This checks the current value of `key` against the schema, and records the result in `validationErrors`. Keys
+     * the schema doesn't mention are always valid.
+     *
+     * @returns True if the value is valid
+     */
+    validateAttribute = action((key: string) => {
+        if (this.schema == null || this.schema.fields[key] == null) return true;
+        let object: any = {};
+        this.values.forEach((v, k) => {
+            object[k] = v;
+        });
+        try {
+            this.schema.validateSyncAt(key, object);
+            this.validationErrors.delete(key);
+            return true;
+        }
+        catch (e) {
+            if (!(e instanceof yup.ValidationError)) throw e;
+            this.validationErrors.set(key, e.errors.join(", "));
+            return false;
+        }
+    });
+
+    /**
+     * @returns A description of what's wrong with the current value of `key`, or null if it's fine
+     */
+    getValidationError = (key: keyof T & string) => {
+        return this.validationErrors.get(key) ?? null;
     };
 }
 
@@ -287,6 +579,8 @@ class ReactiveCursor {
     jsonFiles: Map<string, ReactiveJsonFile>;
     loading: boolean;
     networkErrors: string[];
+    // Everything uploaded, deleted or edited through this cursor gets recorded here, so it can be undone
+    journal: OperationJournal;
 
     constructor(index: ReactiveIndex, path: string) {
         this.index = index;
@@ -294,6 +588,7 @@ class ReactiveCursor {
         this.metadata = null;
         this.children = new Map();
         this.jsonFiles = new Map();
+        this.journal = new OperationJournal();
 
         this.index.addLoadingListener(action((loading: boolean) => {
             this.loading = loading;
@@ -330,9 +625,12 @@ class ReactiveCursor {
         // This is a no-op if the listeners aren't registered
         this.index.removeMetadataListener(this.path, this._metadataListener);
         this.index.removeChildrenListener(this.path, this._onChildrenListener);
+        if (this.path != null) this.index.releaseFolder(this.path);
 
         this.jsonFiles.forEach((file: ReactiveJsonFile) => file.pathWillChange());
         this.path = path;
+        // This is a no-op unless the index is in lazy mode
+        this.index.retainFolder(this.path);
         this.metadata = this.index.getMetadata(this.path);
         this.children = this.index.getChildren(this.path);
         this.jsonFiles.forEach((file: ReactiveJsonFile) => file.pathChanged());
@@ -374,14 +672,18 @@ class ReactiveCursor {
      * This retrieves or creates an object whose job is to retrieve and store changes to a JSON file in S3.
      * 
      * @param path The path of the JSON file object to retrieve or create
+     * @param schema OPTIONAL: The schema to check the contents against. The type parameter should match it.
      */
-    getJsonFile = (path: string) => {
+    getJsonFile = <T extends object = any>(path: string, schema: yup.AnyObjectSchema | null = null): ReactiveJsonFile<T> => {
         let file = this.jsonFiles.get(path);
         if (file == null) {
-            file = new ReactiveJsonFile(this, path);
+            file = new ReactiveJsonFile<T>(this, path, schema);
             this.jsonFiles.set(path, file);
         }
-        return file;
+        else if (schema != null) {
+            file.schema = schema;
+        }
+        return file as ReactiveJsonFile<T>;
     };
 
     /**
@@ -397,9 +699,12 @@ class ReactiveCursor {
         // This is a no-op if the listeners aren't registered
         this.index.removeMetadataListener(this.path, this._metadataListener);
         this.index.removeChildrenListener(this.path, this._onChildrenListener);
+        this.index.releaseFolder(this.path);
 
         this.jsonFiles.forEach((file: ReactiveJsonFile) => file.pathWillChange());
         this.index = index;
+        // This is a no-op unless the index is in lazy mode
+        this.index.retainFolder(this.path);
         this.metadata = this.index.getMetadata(this.path);
         this.children = this.index.getChildren(this.path);
         this.jsonFiles.forEach((file: ReactiveJsonFile) => file.pathChanged());
@@ -539,17 +844,22 @@ class ReactiveCursor {
      * @returns a promise for successful upload
      */
     upload = (contents: File | string, progressCallback: (percentage: number) => void = () => { }) => {
-        return this.index.upload(this.path, contents, progressCallback);
+        return this.journal.upload(this.index, this.path, contents, progressCallback);
     };
 
     /**
      * Tries to upload to the file we're currently pointing at
      * @returns a promise for successful upload
      */
-    uploadChild = (childPath: string, contents: File | string, progressCallback: (percentage: number) => void = () => { }) => {
-        let myPath = ensurePathEndsWithSlash(this.path);
+    uploadChild = (childPath: string, contents: File | string, progressCallback: (percentage: number) => void = () => { }, signal?: AbortSignal) => {
+        return this.journal.upload(this.index, this.getChildPath(childPath), contents, progressCallback, signal);
+    };
 
-        return this.index.upload(myPath + childPath, contents, progressCallback);
+    /**
+     * @returns The path in the index of one of our children. This is useful for holding on to a file after the cursor moves.
+     */
+    getChildPath = (childPath: string) => {
+        return ensurePathEndsWithSlash(this.path) + childPath;
     };
 
     /**
@@ -600,7 +910,7 @@ class ReactiveCursor {
      * @returns a promise for successful deletion
      */
     delete = () => {
-        return this.index.delete(this.path);
+        return this.journal.deleteFiles(this.index, [this.path], 'Delete "' + this.path + '"');
     };
 
     /**
@@ -611,7 +921,7 @@ class ReactiveCursor {
         let myPath = this.path;
         myPath = ensurePathEndsWithSlash(myPath);
 
-        return this.index.delete(myPath + childPath);
+        return this.journal.deleteFiles(this.index, [myPath + childPath], 'Delete "' + childPath + '"');
     };
 
     /**
@@ -630,7 +940,114 @@ class ReactiveCursor {
         }
         totalPrefix = ensurePathEndsWithSlash(totalPrefix);
 
-        return this.index.deleteByPrefix(totalPrefix);
+        return this.index.loadSubtree(totalPrefix).then(() => {
+            return this.journal.deleteFiles(this.index, this.index.getPathsWithPrefix(totalPrefix), 'Delete "' + prefix + '"');
+        });
+    };
+
+    /**
+     * This deletes a folder, meaning everything under it, and the (empty) file that marks the folder as existing, as a
+     * single operation that can be undone.
+     *
+     * @param childPath The path of the folder, relative to the cursor
+     */
+    deleteFolder = (childPath: string) => {
+        const folderPath = this.getChildPath(childPath);
+        return this.index.loadSubtree(folderPath).then(() => {
+            let paths = this.index.getPathsWithPrefix(ensurePathEndsWithSlash(folderPath));
+            if (this.index.getMetadata(folderPath) != null) {
+                paths.push(folderPath);
+            }
+            return this.journal.deleteFiles(this.index, paths, 'Delete "' + childPath + '"');
+        });
+    };
+
+    /**
+     * This moves (or renames) one of our children, and everything under it, to a new path. This can be undone.
+     *
+     * @param childPath The path of the file or folder to move, relative to the cursor
+     * @param destinationPath The full path in the index to move it to
+     * @param flagNames OPTIONAL: The names of empty marker files that should only show up at the new path once
+     * everything else has been moved (see OperationJournal)
+     * @param check OPTIONAL: This returns an error if the move isn't allowed. It gets run once everything under
+     * `childPath` is loaded, and again before undoing or redoing the move (see OperationJournal).
+     * @returns a promise that rejects without moving anything if something already exists at `destinationPath`
+     */
+    moveChild = (childPath: string, destinationPath: string, flagNames: string[] = [], check: (undoing: boolean) => Error | null = () => null) => {
+        const fromPath = this.getChildPath(childPath);
+        if (destinationPath === fromPath || destinationPath.startsWith(ensurePathEndsWithSlash(fromPath))) {
+            return Promise.reject(new Error('Cannot move "' + childPath + '" inside of itself'));
+        }
+        return Promise.all([this.index.loadSubtree(fromPath), this.index.loadSubtree(destinationPath)]).then(() => {
+            let paths = this.index.getPathsWithPrefix(ensurePathEndsWithSlash(fromPath));
+            if (this.index.getMetadata(fromPath) != null) {
+                paths.push(fromPath);
+            }
+            if (paths.length === 0) {
+                throw new Error('There is nothing at "' + childPath + '" to move');
+            }
+            const moves: FileMove[] = paths.map((path: string) => ({ fromPath: path, toPath: destinationPath + path.substring(fromPath.length) }));
+            if (this.index.getMetadata(destinationPath) != null || this.index.getPathsWithPrefix(ensurePathEndsWithSlash(destinationPath)).length > 0) {
+                throw new Error('"' + destinationPath + '" already exists');
+            }
+            const error = check(false);
+            if (error != null) throw error;
+            return this.journal.moveFiles(this.index, moves, flagNames, 'Move "' + childPath + '" to "' + destinationPath + '"', check);
+        });
+    };
+
+    /**
+     * This copies one of our children, and everything under it, to a new path. This can be undone.
+     *
+     * @param childPath The path of the file or folder to copy, relative to the cursor
+     * @param destinationPath The full path in the index to copy it to
+     * @param mapPath OPTIONAL: This gets the path of each file relative to `childPath` ('' for `childPath` itself),
+     * and returns the path to copy it to relative to `destinationPath`, or null to leave it out of the copy
+     * @returns a promise that rejects without copying anything if something already exists at `destinationPath`
+     */
+    copyChild = (childPath: string, destinationPath: string, mapPath: (relativePath: string) => string | null = (relativePath) => relativePath) => {
+        const fromPath = this.getChildPath(childPath);
+        if (destinationPath === fromPath || destinationPath.startsWith(ensurePathEndsWithSlash(fromPath))) {
+            return Promise.reject(new Error('Cannot copy "' + childPath + '" inside of itself'));
+        }
+        return Promise.all([this.index.loadSubtree(fromPath), this.index.loadSubtree(destinationPath)]).then(() => {
+            if (this.index.getMetadata(destinationPath) != null || this.index.getPathsWithPrefix(ensurePathEndsWithSlash(destinationPath)).length > 0) {
+                throw new Error('"' + destinationPath + '" already exists');
+            }
+            let paths = this.index.getPathsWithPrefix(ensurePathEndsWithSlash(fromPath));
+            if (this.index.getMetadata(fromPath) != null) {
+                paths.push(fromPath);
+            }
+            let copies: FileMove[] = [];
+            paths.forEach((path: string) => {
+                const relativePath = path === fromPath ? '' : path.substring(ensurePathEndsWithSlash(fromPath).length);
+                const mapped = mapPath(relativePath);
+                if (mapped == null) return;
+                copies.push({ fromPath: path, toPath: mapped === '' ? destinationPath : ensurePathEndsWithSlash(destinationPath) + mapped });
+            });
+            if (copies.length === 0) {
+                throw new Error('There is nothing at "' + childPath + '" to copy');
+            }
+            return this.journal.copyFiles(this.index, copies, 'Copy "' + childPath + '" to "' + destinationPath + '"');
+        });
+    };
+
+    /**
+     * @returns the uploads under this cursor that got interrupted, with paths relative to this cursor
+     */
+    getResumableUploads = () => {
+        const myPath = this.path.length > 0 ? ensurePathEndsWithSlash(this.path) : '';
+        return this.index.getResumableUploads(myPath).then((uploads: ResumableUploadInfo[]) => {
+            return uploads.map((upload) => ({ ...upload, path: upload.path.substring(myPath.length) }));
+        });
+    };
+
+    /**
+     * This throws away an interrupted upload to one of our children
+     */
+    discardResumableUpload = (childPath: string) => {
+        const myPath = this.path.length > 0 ? ensurePathEndsWithSlash(this.path) : '';
+        return this.index.discardResumableUpload(myPath + childPath);
     };
 
     _metadataListener = (file: ReactiveFileMetadata | null) => {
@@ -678,13 +1095,41 @@ class ReactiveIndex {
     networkErrorListeners: Array<(errors: string[]) => void> = [];
 
     // This is a handle on the PubSub socket object we'll use
-    socket: RobustMqtt;
-
-    constructor(region: string, bucketName: string, level: 'protected' | 'public', runNetworkSetup: boolean = true, socket: RobustMqtt) {
+    socket: PubSubSocket;
+
+    // This is where the bytes actually live. Defaults to S3, but can be swapped out to run without AWS.
+    storage: StorageProvider;
+
+    // True if a Trash lists and purges the trash under this index. Overwritten files only get snapshotted there if so,
+    // since otherwise nothing would ever clean the snapshots up.
+    hasTrash: boolean = false;
+
+    // We keep a copy of `files` in IndexedDB, so we can render immediately on the next page load
+    localCacheEnabled: boolean = true;
+    // This resolves to true once we've loaded from the local cache, if there was anything in it
+    localCacheLoaded: Promise<boolean> | null = null;
+
+    // In lazy mode, we only list the folders someone is looking at, rather than everything under the global prefix
+    lazyListing: boolean = false;
+    // In lazy mode, folders holding any of these files get loaded with their whole subtree, because viewing them
+    // needs everything underneath (e.g. a subject needs all its trials)
+    lazyRecursiveMarkers: string[] = [];
+    // This gets set by the first fullRefresh(), and until then we hold off on listing anything
+    lazyListingStarted: boolean = false;
+    // Folder -> how many cursors are looking at it
+    lazyFolderViewers: Map<string, number> = new Map();
+    // Folder -> the promise for loading it, for every folder someone is currently looking at
+    lazyFolders: Map<string, Promise<void>> = new Map();
+    lazySubscribedFolders: Set<string> = new Set();
+    // PubSub pattern -> how to unsubscribe, and how many viewed folders need that pattern
+    lazySubscriptions: Map<string, { unsubscribe: () => void, count: number }> = new Map();
+
+    constructor(region: string, bucketName: string, level: 'protected' | 'public', runNetworkSetup: boolean = true, socket: PubSubSocket, storage?: StorageProvider) {
         this.region = region;
         this.bucketName = bucketName;
         this.level = level;
         this.socket = socket;
+        this.storage = storage ?? new S3StorageProvider(region, bucketName, level);
 
         // We don't want to run network setup in our unit tests
         if (runNetworkSetup) {
@@ -697,17 +1142,10 @@ class ReactiveIndex {
      * If you call the constructor with `runNetworkSetup = false`, then you can use this method later to set up the network for this index.
      */
     setupPubsub = () => {
-        if (this.level === 'public') {
-            this.globalPrefix = 'public/';
+        return this.storage.getGlobalPrefix().then((globalPrefix: string) => {
+            this.globalPrefix = globalPrefix;
             return this.registerPubSubListeners();
-        }
-        else if (this.level === 'protected') {
-            return Auth.currentCredentials().then((credentials) => {
-                this.globalPrefix = "protected/" + credentials.identityId + "/";
-                return this.registerPubSubListeners();
-            });
-        }
-        return Promise.resolve();
+        });
     };
 
     /**
@@ -716,9 +1154,10 @@ class ReactiveIndex {
      * @param path the path to upload to
      * @param contents the contents to upload
      * @param progressCallback OPTIONAL: a callback to receive with updates on upload progress
+     * @param signal OPTIONAL: if this fires, the upload stops (and can be resumed later by uploading the same file)
      * @returns a promise that resolves when the full operation is complete
      */
-    upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void = () => { }) => {
+    upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void = () => { }, signal?: AbortSignal) => {
         const fullPath = this.globalPrefix + path;
         const updatedFile = {
             key: fullPath,
@@ -727,65 +1166,62 @@ class ReactiveIndex {
         };
         const topic = makeTopicPubSubSafe("/UPDATE/" + fullPath);
         console.log("Updating '" + topic + "' with " + JSON.stringify(updatedFile));
-        const uploadObject = new RobustUpload(this.region, this.bucketName, fullPath, contents, '');
-        return uploadObject.upload((progress) => {
-            progressCallback(progress.loaded / progress.total);
-        }).then((response: any) => {
-            console.log("S3.put() Completed callback", response);
+        return this.storage.upload(path, contents, progressCallback, signal).then(() => {
             progressCallback(1.0);
             this.clearNetworkError("Upload");
+            this.clearNetworkError("Checksum");
             return this.socket.publish(topic, JSON.stringify(updatedFile));
         }).catch((e: any) => {
+            // If we were asked to stop, that's not a network problem
+            if (signal != null && signal.aborted) throw e;
+            if (e instanceof ChecksumMismatchError) {
+                this.setNetworkError("Checksum", "The copy of \"" + path + "\" on the server doesn't match what you uploaded. Please upload it again.");
+            }
             this.setNetworkError("Upload", "We got an error trying to upload data!");
             console.error("Error on Storage.put(), caught in .errorCallback() handler", e);
             throw e;
         });
-
-        /*
-        return new Promise(
-            (resolve: (value: void) => void, reject: (reason?: any) => void) => {
-                try {
-                    Storage.put(path, contents, {
-                        level: this.level,
-                        progressCallback: (progress) => {
-                            console.log("S3.put() Progress callback");
-                            progressCallback(progress.loaded / progress.total);
-                        },
-                        completeCallback: action((event) => {
-                            console.log("S3.put() Completed callback", event);
-                            progressCallback(1.0);
-                            this.clearNetworkError("Upload");
-                            this.socket.publish(topic, JSON.stringify(updatedFile)).then(() => resolve());
-                        }),
-                        errorCallback: (e: any) => {
-                            this.setNetworkError("Upload", "We got an error trying to upload a file!");
-                            console.error("Error on Storage.put(), caught in .errorCallback() handler", e);
-                            reject(e);
-                        }
-                    })
-                        .then((result) => {
-                            console.log("S3.put() Promise resolved", result);
-                            progressCallback(1.0);
-                            this.clearNetworkError("Upload");
-                            this.socket.publish(topic, JSON.stringify(updatedFile)).then(() => resolve());
-                        })
-                        .catch((e) => {
-                            console.log("S3.put() Promise error");
-                            this.setNetworkError("Upload", "We got an error trying to upload a file!");
-                            console.error("Error on Storage.put(), caught in .catch() handler", e);
-                            reject(e);
-                        });
-                }
-                catch (e) {
-                    this.setNetworkError("Upload", "We got an error trying to upload a file!");
-                    console.error("Error on Storage.put(), caught in catch block", e);
-                    reject(e);
-                }
-            }
-        );
-        */
     }
 
+    /**
+     * This uploads a small file, but only if nobody has written to it since we saw `expectedVersion`, and notifies
+     * PubSub of the change. Stores that can't make the write itself conditional get a check just before the upload,
+     * which leaves a brief window where someone else's write could be lost.
+     *
+     * @param expectedVersion the version we last saw (see getVersion()), or null if the file shouldn't exist yet
+     * @returns a promise for the version we wrote, which rejects with a VersionMismatchError if the version didn't match
+     */
+    uploadIfVersion = (path: string, contents: string, expectedVersion: string | null): Promise<string | null> => {
+        const fullPath = this.globalPrefix + path;
+        const updatedFile = {
+            key: fullPath,
+            lastModified: (new Date()).getTime(), // = now
+            size: new Blob([contents]).size
+        };
+        const topic = makeTopicPubSubSafe("/UPDATE/" + fullPath);
+
+        let write: Promise<string | null>;
+        if (this.storage.uploadIfVersion != null) {
+            write = this.storage.uploadIfVersion(path, contents, expectedVersion);
+        }
+        else {
+            write = this.storage.getVersion(path).then((version: string | null) => {
+                if (version !== expectedVersion) throw new VersionMismatchError(path);
+                return this.storage.upload(path, contents, () => { });
+            }).then(() => this.storage.getVersion(path));
+        }
+        return write.then((version: string | null) => {
+            this.clearNetworkError("Upload");
+            return this.socket.publish(topic, JSON.stringify(updatedFile)).then(() => version);
+        }).catch((e: any) => {
+            // Someone else writing first isn't a network problem
+            if (e instanceof VersionMismatchError) throw e;
+            this.setNetworkError("Upload", "We got an error trying to upload data!");
+            console.error("Error uploading \"" + path + "\"", e);
+            throw e;
+        });
+    };
+
     /**
      * This attempts to delete a file in S3, and notify PubSub of having done so.
      * 
@@ -795,18 +1231,10 @@ class ReactiveIndex {
     delete = (path: string) => {
         const fullPath = this.globalPrefix + path;
         const topic = makeTopicPubSubSafe("/DELETE/" + fullPath);
-        return Storage.remove(path, { level: this.level })
-            .then((result) => {
-                console.log("Delete", result);
-                if (result != null && result.$metadata != null && result.$metadata.httpStatusCode != null) {
-                    this.clearNetworkError("Delete");
-                    return this.socket.publish(topic, JSON.stringify({ key: fullPath }));
-                }
-                else {
-                    this.setNetworkError("Delete", "We got an error trying to delete a file!");
-                    console.log("delete() error: " + path);
-                    throw new Error("Got an error trying to delete a file");
-                }
+        return this.storage.delete(path)
+            .then(() => {
+                this.clearNetworkError("Delete");
+                return this.socket.publish(topic, JSON.stringify({ key: fullPath }));
             }).catch(e => {
                 this.setNetworkError("Delete", "We got an error trying to delete a file!");
                 console.log("delete() error: " + path);
@@ -815,6 +1243,61 @@ class ReactiveIndex {
             });
     }
 
+    /**
+     * This copies a file on the server, and notifies PubSub that the copy exists.
+     *
+     * @param fromPath The file to copy
+     * @param toPath Where to put the copy
+     * @param size OPTIONAL: The size of the file, for when it's not in the index (like files in the trash)
+     * @returns a promise that resolves when the full operation is complete
+     */
+    copy = (fromPath: string, toPath: string, size?: number) => {
+        const fullPath = this.globalPrefix + toPath;
+        const updatedFile = {
+            key: fullPath,
+            lastModified: (new Date()).getTime(), // = now
+            size: size ?? this.files.get(fromPath)?.size ?? 0
+        };
+        const topic = makeTopicPubSubSafe("/UPDATE/" + fullPath);
+        return this.storage.copy(fromPath, toPath).then(() => {
+            this.clearNetworkError("Copy");
+            return this.socket.publish(topic, JSON.stringify(updatedFile));
+        }).catch((e: any) => {
+            this.setNetworkError("Copy", "We got an error trying to copy a file!");
+            console.error("Error copying \"" + fromPath + "\" to \"" + toPath + "\"", e);
+            throw e;
+        });
+    };
+
+    /**
+     * This copies a file from another index into this one, and notifies PubSub that the copy exists.
+     *
+     * @param source The index to copy from
+     * @param fromPath The file to copy, within `source`
+     * @param toPath Where to put the copy, within this index
+     * @returns a promise that resolves when the full operation is complete
+     */
+    copyFromIndex = (source: ReactiveIndex, fromPath: string, toPath: string) => {
+        const fullPath = this.globalPrefix + toPath;
+        const updatedFile = {
+            key: fullPath,
+            lastModified: (new Date()).getTime(), // = now
+            size: source.getMetadata(fromPath)?.size ?? 0
+        };
+        const topic = makeTopicPubSubSafe("/UPDATE/" + fullPath);
+        const copy: Promise<void> = this.storage.copyFrom != null ? this.storage.copyFrom(source.storage, fromPath, toPath) : source.storage.download(fromPath).then((blob: Blob) => {
+            return this.storage.upload(toPath, new File([blob], fromPath.substring(fromPath.lastIndexOf('/') + 1)), () => { });
+        });
+        return copy.then(() => {
+            this.clearNetworkError("Copy");
+            return this.socket.publish(topic, JSON.stringify(updatedFile));
+        }).catch((e: any) => {
+            this.setNetworkError("Copy", "We got an error trying to copy a file!");
+            console.error("Error copying \"" + fromPath + "\" to \"" + toPath + "\" from another index", e);
+            throw e;
+        });
+    };
+
     /**
      * Deletes all the files that match a given prefix.
      * 
@@ -822,38 +1305,96 @@ class ReactiveIndex {
      * @returns a promise that resolves when the full operation is complete
      */
     deleteByPrefix = (prefix: string) => {
-        let allPromises: Promise<void>[] = [];
+        // In lazy mode, we may only know about some of the files under the prefix
+        const paths = this.lazyListing ? this.storage.list(prefix, false).then((listing) => listing.files.map((file) => file.key)) : Promise.resolve(this.getPathsWithPrefix(prefix));
+        return paths.then((paths: string[]) => Promise.all(paths.map((path: string) => this.delete(path))));
+    }
+
+    /**
+     * @param prefix The prefix to match
+     * @returns The paths of every file we know about that starts with `prefix`
+     */
+    getPathsWithPrefix = (prefix: string) => {
+        let paths: string[] = [];
         this.files.forEach((v, path: string) => {
             if (path.startsWith(prefix)) {
-                allPromises.push(this.delete(path));
+                paths.push(path);
             }
         });
-        return Promise.all(allPromises);
-    }
+        return paths;
+    };
+
+    /**
+     * @param prefix The folder to look under
+     * @returns the uploads under `prefix` that got interrupted and can be resumed, or [] if our storage can't resume
+     */
+    getResumableUploads = (prefix: string) => {
+        if (this.storage.listResumableUploads == null) {
+            return Promise.resolve([] as ResumableUploadInfo[]);
+        }
+        return this.storage.listResumableUploads(prefix);
+    };
+
+    /**
+     * This throws away an interrupted upload, so it stops showing up in getResumableUploads()
+     */
+    discardResumableUpload = (path: string) => {
+        if (this.storage.discardResumableUpload == null) {
+            return Promise.resolve();
+        }
+        return this.storage.discardResumableUpload(path);
+    };
+
+    /**
+     * This lists everything in the trash, which we otherwise leave out of the index. See Trash.
+     *
+     * @returns every file under the trash prefix, including overwritten versions
+     */
+    listTrash = () => {
+        return this.storage.list(TRASH_PREFIX, false).then((result: StorageListOutput) => result.files);
+    };
+
+    /**
+     * @returns A token that changes every time the file is written, or null if the file doesn't exist
+     */
+    getVersion = (path: string) => {
+        return this.storage.getVersion(path);
+    };
 
     /**
      * @returns A signed URL that someone could use to download a file
      */
     getSignedURL = (path: string) => {
-        return Storage.get(path, {
-            level: this.level,
-        });
+        return this.storage.getSignedURL(path);
     };
 
     /**
-     * This actually downloads a file from S3, if the browser allows it
+     * This reports a download failure, with a more specific message if the bytes were corrupted in transit
+     */
+    onDownloadError = (path: string, e: any) => {
+        if (e instanceof ChecksumMismatchError) {
+            this.setNetworkError("Checksum", "The download of \"" + path + "\" was corrupted in transit. Please try again.");
+        }
+        this.setNetworkError("Get", "We got an error trying to download a file!");
+    };
+
+    /**
+     * This actually downloads a file from S3, if the browser allows it. We pull the bytes down ourselves (rather than
+     * handing the browser a signed URL) so that we can check them against their checksum before saving them.
      */
     downloadFile = (path: string) => {
-        return Storage.get(path, {
-            level: this.level,
-        }).then((signedURL) => {
+        return this.storage.download(path).then((body: Blob) => {
             this.clearNetworkError("Get");
+            this.clearNetworkError("Checksum");
+            const objectURL = URL.createObjectURL(body);
             const link = document.createElement("a");
-            link.href = signedURL;
-            link.target = "#";
+            link.href = objectURL;
+            link.download = path.substring(path.lastIndexOf('/') + 1);
             link.click();
+            // Give the browser a moment to start the download before we free the memory
+            setTimeout(() => URL.revokeObjectURL(objectURL), 10000);
         }).catch(e => {
-            this.setNetworkError("Get", "We got an error trying to download a file!");
+            this.onDownloadError(path, e);
             console.log("DownloadFile() error: " + path);
             console.log(e);
             return '';
@@ -866,23 +1407,12 @@ class ReactiveIndex {
      * @returns A promise for the text of the file being downloaded
      */
     downloadText = (path: string) => {
-        return Storage.get(path, {
-            level: this.level,
-            download: true,
-            cacheControl: "no-cache",
-        }).then((result) => {
+        return this.storage.download(path).then((body: Blob) => {
             this.clearNetworkError("Get");
-            if (result != null && result.Body != null) {
-                // data.Body is a Blob
-                return (result.Body as Blob).text().then((text: string) => {
-                    return text;
-                });
-            }
-            throw new Error(
-                'Result of downloading "' + path + "\" didn't have a Body"
-            );
+            this.clearNetworkError("Checksum");
+            return body.text();
         }).catch(e => {
-            this.setNetworkError("Get", "We got an error trying to download a file!");
+            this.onDownloadError(path, e);
             console.log("DownloadText() error: " + path);
             console.log(e);
             return '';
@@ -897,30 +1427,22 @@ class ReactiveIndex {
      */
     downloadZip = (path: string, progressCallback?: (progress: number) => void) => {
         if (progressCallback) progressCallback(0.0);
-        return Storage.get(path, {
-            level: this.level,
-            download: true,
-            cacheControl: "no-cache",
-            progressCallback
-        }).then((result) => {
+        return this.storage.download(path, (progress) => {
+            if (progressCallback) progressCallback(progress.loaded / progress.total);
+        }).then((body: Blob) => {
             this.clearNetworkError("Get");
+            this.clearNetworkError("Checksum");
             const zip = new JSZip();
             if (progressCallback) progressCallback(1.0);
             console.log("Unzipping large file");
-            if (result != null && result.Body != null) {
-                // data.Body is a Blob
-                return zip.loadAsync(result.Body as Blob, ((metadata: any) => {
-                    console.log(metadata);
-                }) as any).then((unzipped: JSZip) => {
-                    console.log("Unzipped!");
-                    return unzipped.file(Object.keys(unzipped.files)[0])?.async("uint8array");
-                });
-            }
-            throw new Error(
-                'Result of downloading "' + path + "\" didn't have a Body"
-            );
+            return zip.loadAsync(body, ((metadata: any) => {
+                console.log(metadata);
+            }) as any).then((unzipped: JSZip) => {
+                console.log("Unzipped!");
+                return unzipped.file(Object.keys(unzipped.files)[0])?.async("uint8array");
+            });
         }).catch(e => {
-            this.setNetworkError("Get", "We got an error trying to download a file!");
+            this.onDownloadError(path, e);
             console.log("DownloadZip() error: " + path);
             console.log(e);
             return new Uint8Array();
@@ -936,6 +1458,7 @@ class ReactiveIndex {
      */
     _deleteFileInIndex = (path: string) => {
         this.files.delete(path);
+        this._scheduleLocalCacheSave();
         // call child listeners
         this._updateChildListeners();
         // call metadata listeners to alert them the file doesn't exist anymore
@@ -954,10 +1477,13 @@ class ReactiveIndex {
      * @param file 
      */
     _updateFileInIndex = (file: ReactiveFileMetadata) => {
+        // Files in the trash are deleted, as far as anyone listening to us is concerned
+        if (isTrashPath(file.key)) return;
         const existingFile: ReactiveFileMetadata | undefined = this.files.get(file.key);
         // If the file doesn't exist, or this update has a later timestamp, update and replace
         if (existingFile == null || existingFile.lastModified < file.lastModified) {
             this.files.set(file.key, file);
+            this._scheduleLocalCacheSave();
             // call child listeners
             this._updateChildListeners();
             // call creation/update listeners
@@ -996,6 +1522,32 @@ class ReactiveIndex {
         });
     };
 
+    /**
+     * This parses a raw "/UPDATE/" message and passes it on to _onReceivedPubSubUpdate()
+     */
+    _onPubSubUpdateMessage = (topic: string, message: string) => {
+        const msg: any = JSON.parse(message);
+        const globalKey: string = msg.key;
+        const key: string = globalKey.substring(this.globalPrefix.length);
+        const lastModified: Date = new Date(msg.lastModified);
+        const size: number = msg.size;
+        if (this.lazyListing && !this._isInLazyFolder(key)) return;
+        this._onReceivedPubSubUpdate({
+            key, lastModified, size
+        });
+    };
+
+    /**
+     * This parses a raw "/DELETE/" message and passes it on to _onReceivedPubSubDelete()
+     */
+    _onPubSubDeleteMessage = (topic: string, message: string) => {
+        const msg: any = JSON.parse(message);
+        const globalKey: string = msg.key;
+        const key: string = globalKey.substring(this.globalPrefix.length);
+        if (this.lazyListing && !this._isInLazyFolder(key)) return;
+        this._onReceivedPubSubDelete({ key });
+    };
+
     /**
      * Gets called when PubSub receives an "/UPDATE/#" message. This is broken out as a separate function to make testing easier.
      * 
@@ -1020,8 +1572,16 @@ class ReactiveIndex {
      * This does a complete refresh, overwriting the paths
      */
     fullRefresh = () => {
-        this.setIsLoading(true);
-        return this.loadFolder("", false).then((result) => {
+        if (this.lazyListing) {
+            return this.refreshLazyFolders();
+        }
+        return this.loadFromLocalCache().then((renderedFromCache: boolean) => {
+            // If we've got a cached copy up on screen, we reconcile in the background rather than showing a spinner
+            if (!renderedFromCache) {
+                this.setIsLoading(true);
+            }
+            return this.loadFolder("", false);
+        }).then((result) => {
             this.clearNetworkError("FullRefresh");
 
             // 2. Update the set of files
@@ -1059,6 +1619,7 @@ class ReactiveIndex {
             //////////////////////////////////////////////
 
             this.setIsLoading(false);
+            this._saveLocalCache();
         })
             .catch((err: Error) => {
                 this.setIsLoading(false);
@@ -1070,118 +1631,378 @@ class ReactiveIndex {
 
 
     /**
-     * This is a replacement for Storage.load(), but with support for limiting the results to one folder level, and to doing multiple pages of calls.
+     * This turns lazy listing on or off. In lazy mode, instead of listing everything under the global prefix on
+     * fullRefresh(), we only list the folders that cursors are pointed at (see retainFolder()), and only subscribe to
+     * PubSub updates under those folders. Subtrees nobody opens never get fetched.
+     *
+     * Lazy mode also turns off the local cache. We only reconcile the folders being viewed, so cached entries for
+     * everything else would never get checked against S3, and would be saved back to the cache on every page load.
+     *
+     * Call this before fullRefresh(), setupPubsub() and loadFromLocalCache().
+     *
+     * @param lazy true to turn lazy mode on
+     * @param recursiveMarkers folders that directly contain a file with one of these names get loaded with their whole
+     * subtree, rather than one level at a time
+     */
+    setLazyListing = (lazy: boolean, recursiveMarkers: string[] = []) => {
+        this.lazyListing = lazy;
+        this.lazyRecursiveMarkers = recursiveMarkers;
+        if (lazy) {
+            this.localCacheEnabled = false;
+        }
+    };
+
+    /**
+     * In lazy mode, this makes sure `path` is loaded (along with enough of each sub-folder to tell what it is), and
+     * kept up to date over PubSub until every retainFolder() call is matched with a releaseFolder(). Outside lazy mode
+     * this does nothing, since everything is loaded already.
+     *
+     * Nothing gets loaded until the first fullRefresh(), so that cursors can be created before we know who's logged in.
+     *
+     * @param path the folder being viewed
+     * @returns a promise that resolves when the folder is loaded
      */
-    loadFolder = async (folder: string, limitToOneFolderLevel: boolean) => {
+    retainFolder = (path: string) => {
+        if (!this.lazyListing) return Promise.resolve();
+        const folder = path === '' ? '' : ensurePathEndsWithSlash(path);
 
-        if (this.level === 'public') {
-            this.globalPrefix = 'public/';
-        }
-        else if (this.level === 'protected') {
-            let credentials = await Auth.currentCredentials();
-            this.globalPrefix = "protected/" + credentials.identityId + "/";
-        }
+        this.lazyFolderViewers.set(folder, (this.lazyFolderViewers.get(folder) ?? 0) + 1);
+        if (!this.lazyListingStarted) return Promise.resolve();
+        return this._ensureLazyFolderLoaded(folder);
+    };
 
-        if (folder !== '' && !folder.endsWith('/')) {
-            folder += '/';
+    /**
+     * This undoes a call to retainFolder(). Once nobody is looking at a folder, we stop listening for updates to it, and
+     * the next retainFolder() lists it again from scratch.
+     */
+    releaseFolder = (path: string) => {
+        if (!this.lazyListing) return;
+        const folder = path === '' ? '' : ensurePathEndsWithSlash(path);
+
+        const viewers = (this.lazyFolderViewers.get(folder) ?? 0) - 1;
+        if (viewers > 0) {
+            this.lazyFolderViewers.set(folder, viewers);
+            return;
         }
-        let path = this.globalPrefix + folder;
-
-        const INVALID_CRED = { accessKeyId: '', secretAccessKey: '' };
-        const credentialsProvider = async () => {
-            try {
-                const credentials = await Credentials.get();
-                if (!credentials) return INVALID_CRED;
-                const cred = Credentials.shear(credentials);
-                return cred;
-            } catch (error) {
-                console.warn('credentials provider error', error);
-                return INVALID_CRED;
-            }
+        this.lazyFolderViewers.delete(folder);
+        this.lazyFolders.delete(folder);
+        if (this.lazySubscribedFolders.has(folder)) {
+            this.lazySubscribedFolders.delete(folder);
+            this._subscribeToLazyFolder(folder, -1);
         }
+    };
+
+    /**
+     * In lazy mode, this lists `path` and everything under it, so that operations on a whole folder (deleting, moving,
+     * copying, or finding every subject in it) see every file in it, and not just the ones someone has looked at.
+     * Outside lazy mode this does nothing, since everything is loaded already.
+     *
+     * Unlike retainFolder(), this doesn't subscribe to updates. Files under a folder that's being viewed stay up to
+     * date anyway.
+     *
+     * @param path the file or folder to load, which doesn't have to exist
+     * @returns a promise that resolves when the subtree is loaded, and rejects if we couldn't list it
+     */
+    loadSubtree = (path: string): Promise<void> => {
+        if (!this.lazyListing) return Promise.resolve();
+        const folder = ensurePathEndsWithSlash(path);
+        // Listing a folder doesn't tell us about the folder's own marker file (if it has one), so we ask for that separately
+        const ownFile = folder === '' ? [] : [folder.substring(0, folder.length - 1)];
 
-        const s3client = new S3Client({
-            region: this.region,
-            // Using provider instead of a static credentials, so that if an upload task was in progress, but credentials gets
-            // changed or invalidated (e.g user signed out), the subsequent requests will fail.
-            credentials: credentialsProvider,
-            customUserAgent: getAmplifyUserAgent()
+        return Promise.all([this.loadFolder(folder, false), this.loadFiles(ownFile)]).then(([subtree]) => {
+            this._setChildListenerUpdatesEnabled(false);
+            this._reconcileLazySubtree(folder, subtree);
+            this._setChildListenerUpdatesEnabled(true);
         });
+    };
 
-        const bucketName = this.bucketName;
-        const globalPrefix = this.globalPrefix;
-        async function listAsync(continuationToken?: string, filesSoFar?: ReactiveFileMetadata[], foldersSoFar?: string[]): Promise<{ files: ReactiveFileMetadata[], folders: string[] }> {
-            const listObjectsCommand = new ListObjectsV2Command({
-                Bucket: bucketName,
-                Prefix: path,
-                Delimiter: limitToOneFolderLevel ? '/' : undefined,
-                MaxKeys: 1000,
-                ContinuationToken: continuationToken
+    /**
+     * In lazy mode, this checks whether each of `paths` exists, and adds it to (or removes it from) the index to
+     * match. This is for when we need to know about a few files in folders nobody is viewing, like the processing
+     * flags of the subject we're about to move something into. Outside lazy mode this does nothing.
+     *
+     * @returns a promise that resolves when the files are loaded, and rejects if we couldn't list them
+     */
+    loadFiles = (paths: string[]): Promise<void> => {
+        if (!this.lazyListing) return Promise.resolve();
+        return Promise.all(paths.map((path: string) => this.storage.list(path, true))).then((listings) => {
+            this._setChildListenerUpdatesEnabled(false);
+            paths.forEach((path: string, i: number) => {
+                const file = listings[i].files.find((file) => file.key === path);
+                if (file != null) this._updateFileInIndex(file);
+                else if (this.files.has(path)) this._deleteFileInIndex(path);
             });
+            this._setChildListenerUpdatesEnabled(true);
+        });
+    };
 
-            const output: ListObjectsV2CommandOutput = await s3client.send(listObjectsCommand);
-
-            let files: ReactiveFileMetadata[] = filesSoFar ? [...filesSoFar] : [];
-            if (output.Contents != null && output.Contents.length > 0) {
-                for (let i = 0; i < output.Contents.length; i++) {
-                    let file = output.Contents[i];
-                    if (file.Key != null && file.LastModified != null && file.Size != null && file.Key.startsWith(globalPrefix)) {
-                        files.push({
-                            key: file.Key.substring(globalPrefix.length),
-                            lastModified: file.LastModified,
-                            size: file.Size
-                        });
-                    }
+    /**
+     * In lazy mode, this lists every folder that's currently being viewed again. This is what fullRefresh() does in lazy mode.
+     */
+    refreshLazyFolders = () => {
+        this.lazyListingStarted = true;
+        const folders = [...this.lazyFolderViewers.keys()];
+        if (folders.length === 0) {
+            this.setIsLoading(false);
+            return Promise.resolve();
+        }
+        this.setIsLoading(true);
+        return Promise.all(folders.map((folder) => {
+            if (this.lazyFolders.has(folder)) {
+                return this._loadLazyFolder(folder);
+            }
+            return this._ensureLazyFolderLoaded(folder);
+        })).then(() => {
+            this.setIsLoading(false);
+        });
+    };
+
+    /**
+     * This loads a folder, and subscribes to updates for it, if we haven't already.
+     */
+    _ensureLazyFolderLoaded = (folder: string) => {
+        let loaded = this.lazyFolders.get(folder);
+        if (loaded == null) {
+            const loading: Promise<void> = this._loadLazyFolder(folder).then(() => {
+                // Someone may have stopped looking while we were loading
+                if (this.lazyFolders.get(folder) === loading && !this.lazySubscribedFolders.has(folder)) {
+                    this.lazySubscribedFolders.add(folder);
+                    this._subscribeToLazyFolder(folder, 1);
                 }
+            });
+            this.lazyFolders.set(folder, loading);
+            loaded = loading;
+        }
+        return loaded;
+    };
+
+    /**
+     * This does the actual listing for retainFolder(). We list the folder one level deep, then each sub-folder one
+     * level deep (so we can see things like "_subject.json" that tell us what kind of folder it is). If the folder
+     * itself has one of our `lazyRecursiveMarkers`, we list its whole subtree instead.
+     */
+    _loadLazyFolder = (folder: string): Promise<void> => {
+        const isFirstLoad = this.files.size === 0;
+        if (isFirstLoad) this.setIsLoading(true);
+
+        // Listing a folder doesn't tell us about the folder's own marker file (if it has one), so we ask for that separately
+        const ownFile = folder === '' ? Promise.resolve(null) : this.storage.list(folder.substring(0, folder.length - 1), true);
+
+        return Promise.all([this.loadFolder(folder, true), ownFile]).then(([level, own]) => {
+            if (own != null) {
+                const ownKey = folder.substring(0, folder.length - 1);
+                const ownMetadata = own.files.find((file) => file.key === ownKey);
+                if (ownMetadata != null) this._updateFileInIndex(ownMetadata);
             }
 
-            let folders: string[] = foldersSoFar ? [...foldersSoFar] : [];
-            if (output.CommonPrefixes != null && output.CommonPrefixes.length > 0) {
-                for (let i = 0; i < output.CommonPrefixes.length; i++) {
-                    let folder = output.CommonPrefixes[i];
-                    if (folder.Prefix != null && folder.Prefix.startsWith(globalPrefix)) {
-                        let folderFullPath = folder.Prefix.substring(globalPrefix.length);
-                        folders.push(folderFullPath);
-                    }
+            const recursive = level.files.some((file) => this.lazyRecursiveMarkers.indexOf(file.key.substring(folder.length)) !== -1);
+            if (recursive) {
+                return this.loadFolder(folder, false).then((subtree) => {
+                    this._setChildListenerUpdatesEnabled(false);
+                    this._reconcileLazySubtree(folder, subtree);
+                    this._setChildListenerUpdatesEnabled(true);
+                });
+            }
+
+            return Promise.all(level.folders.map((subFolder) => this.loadFolder(subFolder, true))).then((subLevels) => {
+                this._setChildListenerUpdatesEnabled(false);
+                this._reconcileLazyLevel(folder, level);
+                for (let i = 0; i < subLevels.length; i++) {
+                    this._reconcileLazyLevel(level.folders[i], subLevels[i]);
                 }
+                this._setChildListenerUpdatesEnabled(true);
+            });
+        }).then(() => {
+            this.clearNetworkError("LazyLoad");
+            if (isFirstLoad) this.setIsLoading(false);
+        }).catch((e) => {
+            if (isFirstLoad) this.setIsLoading(false);
+            console.error("Unable to load folder \"" + folder + "\"", e);
+            this.setNetworkError("LazyLoad", "We got an error trying to load the files! Attempting to reconnect...");
+        });
+    };
+
+    /**
+     * This makes the index agree with a one-level listing of `folder`. Sub-folders only show up in a one-level
+     * listing as prefixes, so if we don't already know about anything inside a sub-folder, we add an empty
+     * placeholder entry for it (with its path ending in a '/') so that it still shows up in getChildren().
+     */
+    _reconcileLazyLevel = (folder: string, listing: StorageListOutput) => {
+        const fileKeys: Set<string> = new Set(listing.files.map((file) => file.key));
+        const folderKeys: Set<string> = new Set(listing.folders);
+
+        this.files.forEach((file: ReactiveFileMetadata, key: string) => {
+            if (!key.startsWith(folder) || key === folder) return;
+            const slash = key.indexOf('/', folder.length);
+            if (slash === -1) {
+                if (!fileKeys.has(key)) this._deleteFileInIndex(key);
+            }
+            else if (!folderKeys.has(key.substring(0, slash + 1))) {
+                // This whole sub-folder is gone
+                this._deleteFileInIndex(key);
             }
+        });
 
-            if (output.NextContinuationToken != null) {
-                return listAsync(output.NextContinuationToken, files, folders);
+        listing.files.forEach((file) => this._updateFileInIndex(file));
+        listing.folders.forEach((subFolder) => {
+            let known = false;
+            this.files.forEach((file, key) => {
+                if (key.startsWith(subFolder)) known = true;
+            });
+            if (!known) {
+                this._updateFileInIndex({ key: subFolder, lastModified: new Date(0), size: 0 });
             }
+        });
+    };
 
-            return {
-                files,
-                folders
+    /**
+     * This makes the index agree with a full (recursive) listing of `folder`. That includes dropping the placeholder
+     * for `folder` itself, if _reconcileLazyLevel() left one, since it would otherwise look like a file in the folder.
+     */
+    _reconcileLazySubtree = (folder: string, listing: StorageListOutput) => {
+        const fileKeys: Set<string> = new Set(listing.files.map((file) => file.key));
+        this.files.forEach((file: ReactiveFileMetadata, key: string) => {
+            if (key.startsWith(folder) && !fileKeys.has(key)) {
+                this._deleteFileInIndex(key);
             }
-        };
+        });
+        listing.files.forEach((file) => this._updateFileInIndex(file));
+    };
 
-        return listAsync().then((results) => {
-            return results;
+    /**
+     * @returns true if `key` is inside a folder that's currently being viewed in lazy mode
+     */
+    _isInLazyFolder = (key: string) => {
+        let found = false;
+        this.lazyFolders.forEach((loaded, folder: string) => {
+            if (key.startsWith(folder)) found = true;
         });
+        return found;
     };
 
     /**
-     * This registers a PubSub listener for live change-updates on our S3 index
+     * @returns the PubSub patterns that catch every update to a file under `folder`. We need two patterns per kind
+     * of message, because long topics get truncated (see makeTopicPubSubSafe()), so updates deep inside `folder`
+     * may be published to a topic for `folder` itself, or even one of its parents. The message handlers filter out
+     * anything that isn't really inside a viewed folder.
      */
-    registerPubSubListeners = () => {
-        this.socket.subscribe("/UPDATE/" + this.globalPrefix + "#", (topic: string, message: string) => {
-            const msg: any = JSON.parse(message);
-            const globalKey: string = msg.key;
-            const key: string = globalKey.substring(this.globalPrefix.length);
-            const lastModified: Date = new Date(msg.lastModified);
-            const size: number = msg.size;
-            this._onReceivedPubSubUpdate({
-                key, lastModified, size
-            });
+    _getLazyFolderPatterns = (folder: string) => {
+        let patterns: string[] = [];
+        ["/UPDATE/", "/DELETE/"].forEach((kind) => {
+            let base = makeTopicPubSubSafe(kind + this.globalPrefix + folder);
+            if (base.endsWith('/')) base = base.substring(0, base.length - 1);
+            patterns.push(base);
+            patterns.push(base + "/#");
         });
+        return patterns;
+    };
 
-        this.socket.subscribe("/DELETE/" + this.globalPrefix + "#", (topic: string, message: string) => {
-            const msg: any = JSON.parse(message);
-            const globalKey: string = msg.key;
-            const key: string = globalKey.substring(this.globalPrefix.length);
-            this._onReceivedPubSubDelete({ key });
+    /**
+     * This adds (delta = 1) or removes (delta = -1) the PubSub subscriptions for a folder in lazy mode. Folders can
+     * share patterns, so we reference count them.
+     */
+    _subscribeToLazyFolder = (folder: string, delta: number) => {
+        this._getLazyFolderPatterns(folder).forEach((pattern: string) => {
+            const existing = this.lazySubscriptions.get(pattern);
+            if (existing != null) {
+                existing.count += delta;
+                if (existing.count <= 0) {
+                    existing.unsubscribe();
+                    this.lazySubscriptions.delete(pattern);
+                }
+            }
+            else if (delta > 0) {
+                const handler = pattern.startsWith("/UPDATE/") ? this._onPubSubUpdateMessage : this._onPubSubDeleteMessage;
+                this.lazySubscriptions.set(pattern, {
+                    unsubscribe: this.socket.subscribe(pattern, handler),
+                    count: delta
+                });
+            }
         });
+    };
+
+    /**
+     * This fills the index from the copy we saved in IndexedDB on a previous page load, if there is one, so the UI can
+     * render before we've heard back from S3. It only does anything the first time it's called. It's safe to call
+     * this before fullRefresh(), which will then reconcile the cached copy against S3.
+     *
+     * @returns a promise that resolves to true if we found a cached copy
+     */
+    loadFromLocalCache = () => {
+        if (this.localCacheLoaded == null) {
+            if (!this.localCacheEnabled) {
+                this.localCacheLoaded = Promise.resolve(false);
+            }
+            else {
+                this.localCacheLoaded = this.storage.getGlobalPrefix().then((globalPrefix: string) => {
+                    this.globalPrefix = globalPrefix;
+                    return loadCachedIndex(this._getLocalCacheKey());
+                }).then((files: ReactiveFileMetadata[] | null) => {
+                    if (files == null) return false;
+                    console.log("Loaded " + files.length + " files from the local cache of index type \"" + this.level + "\"");
+                    this._setChildListenerUpdatesEnabled(false);
+                    for (let i = 0; i < files.length; i++) {
+                        this._updateFileInIndex(files[i]);
+                    }
+                    this._setChildListenerUpdatesEnabled(true);
+                    this.setIsLoading(false);
+                    return true;
+                }).catch((e) => {
+                    console.warn("Unable to load the local cache of index type \"" + this.level + "\"", e);
+                    return false;
+                });
+            }
+        }
+        return this.localCacheLoaded;
+    };
+
+    /**
+     * @returns the key we store our local cache under, which is unique to the bucket and the logged in user
+     */
+    _getLocalCacheKey = () => {
+        return this.bucketName + "/" + this.globalPrefix;
+    };
+
+    /**
+     * This writes `files` to the local cache right away.
+     */
+    _saveLocalCache = () => {
+        if (!this.localCacheEnabled || this.localCacheLoaded == null) return;
+        cancelPendingSave(this._getLocalCacheKey());
+        saveCachedIndex(this._getLocalCacheKey(), [...this.files.values()]);
+    };
+
+    /**
+     * This saves `files` to the local cache after things go quiet for a bit, so that a burst of PubSub updates only
+     * turns into one write.
+     */
+    _scheduleLocalCacheSave = () => {
+        if (!this.localCacheEnabled || this.localCacheLoaded == null) return;
+        scheduleSaveCachedIndex(this._getLocalCacheKey(), () => [...this.files.values()], 2000);
+    };
+
+    /**
+     * This is a replacement for Storage.load(), but with support for limiting the results to one folder level, and to doing multiple pages of calls.
+     */
+    loadFolder = async (folder: string, limitToOneFolderLevel: boolean) => {
+        this.globalPrefix = await this.storage.getGlobalPrefix();
+
+        if (folder !== '' && !folder.endsWith('/')) {
+            folder += '/';
+        }
+
+        return this.storage.list(folder, limitToOneFolderLevel);
+    };
+
+    /**
+     * This registers a PubSub listener for live change-updates on our S3 index
+     */
+    registerPubSubListeners = () => {
+        // In lazy mode, we subscribe to each folder as it gets viewed instead, in retainFolder()
+        if (!this.lazyListing) {
+            this.socket.subscribe("/UPDATE/" + this.globalPrefix + "#", this._onPubSubUpdateMessage);
+            this.socket.subscribe("/DELETE/" + this.globalPrefix + "#", this._onPubSubDeleteMessage);
+        }
 
         this.socket.addConnectionListener((connected) => {
             if (!connected) {
@@ -1398,4 +2219,5 @@ class ReactiveIndex {
     }
 }
 
-export { ReactiveIndex, ReactiveCursor, ReactiveJsonFile };
\ No newline at end of file
+export { ReactiveIndex, ReactiveCursor, ReactiveJsonFile };
+export type { ReactiveFileMetadata, ReactiveJsonConflict };
\ No newline at end of file
@@ -32,6 +32,8 @@ export type AxiosHttpHandlerOptions = HttpHandlerOptions & {
     loaded: number,
     total: number
   }) => void;
+  // If this fires, we cancel the request in flight (used to pause uploads)
+  signal?: AbortSignal;
 };
 
 export class AxiosHttpHandler implements HttpHandler {
@@ -90,6 +92,20 @@ export class AxiosHttpHandler implements HttpHandler {
       console.log("SEND_DOWNLOAD_PROGRESS_EVENT: ", event);
     };
 
+    if (options?.signal) {
+      const signal = options.signal;
+      const cancelTokenSource = axios.CancelToken.source();
+      axiosRequest.cancelToken = cancelTokenSource.token;
+      if (signal.aborted) {
+        cancelTokenSource.cancel(AWSS3ProviderUploadErrorStrings.UPLOAD_PAUSED_MESSAGE);
+      }
+      else {
+        signal.addEventListener('abort', () => {
+          cancelTokenSource.cancel(AWSS3ProviderUploadErrorStrings.UPLOAD_PAUSED_MESSAGE);
+        });
+      }
+    }
+
     // From gamma release, aws-sdk now expects all response type to be of blob or streams
     axiosRequest.responseType = 'blob';
 
@@ -1,5 +1,6 @@
 import { Signer, Credentials } from '@aws-amplify/core';
 import mqtt, { MqttClient, IClientOptions } from 'mqtt';
+import type { PubSubSocket } from './PubSubSocket';
 
 const SERVICE_NAME = 'iotdevicegateway';
 
@@ -47,6 +48,27 @@ export function connectAWSMqtt(region: string, aws_pubsub_endpoint: string, opts
   });
 }
 
+/// This opens a raw MQTT connection. RobustMqtt calls this every time it needs to (re)connect, so implementations
+/// that need fresh credentials (like AWS IoT's signed URLs) can get them here.
+export type MqttConnector = (opts: IClientOptions) => Promise<MqttClient>;
+
+/**
+ * @returns a connector that signs the URL with the current AWS credentials, and connects to AWS IoT
+ */
+export function awsIoTConnector(region: string, aws_pubsub_endpoint: string): MqttConnector {
+  return (opts: IClientOptions) => connectAWSMqtt(region, aws_pubsub_endpoint, opts);
+}
+
+/**
+ * This is for self-hosted deployments, which run their own broker (e.g. Mosquitto) without AWS signing.
+ *
+ * @param url The broker URL. Browsers can only use "ws://" or "wss://", while Node can also use "mqtt://" or "mqtts://".
+ * @returns a connector that connects straight to the given URL
+ */
+export function plainMqttConnector(url: string): MqttConnector {
+  return (opts: IClientOptions) => Promise.resolve(mqtt.connect(url, opts));
+}
+
 type Handler = {
   pattern: string;
   handler: (topic: string, message: string) => void;
@@ -59,9 +81,8 @@ type QueuedMessage = {
   reject: (err: string) => void;
 }
 
-class RobustMqtt {
-  region: string;
-  aws_pubsub_endpoint: string;
+class RobustMqtt implements PubSubSocket {
+  connector: MqttConnector;
   deployment: string;
   opts?: IClientOptions;
   handlers: Handler[] = [];
@@ -70,9 +91,8 @@ class RobustMqtt {
   queuedMessages: QueuedMessage[] = [];
   clientReconnectNumber: number = 0;
 
-  constructor(region: string, aws_pubsub_endpoint: string, deployment: string, opts?: IClientOptions) {
-    this.region = region;
-    this.aws_pubsub_endpoint = aws_pubsub_endpoint;
+  constructor(connector: MqttConnector, deployment: string, opts?: IClientOptions) {
+    this.connector = connector;
     this.deployment = deployment;
     this.opts = opts;
   }
@@ -152,12 +172,12 @@ class RobustMqtt {
   /**
    * This attempts to establish a PubSub connection.
    * 
-   * First, it gets a signed URL for MQTT from AWS.
-   * Next, it connects to that URL and sets up the appropriate listeners.
+   * First, it asks the connector for a client (which, for AWS, means getting a signed URL).
+   * Next, it sets up the appropriate listeners on that client.
    */
   connect = () => {
     this.currentClient = null;
-    connectAWSMqtt(this.region, this.aws_pubsub_endpoint, {
+    this.connector({
       clean: true,
       keepalive: 10,
       reconnectPeriod: 0
@@ -238,7 +258,7 @@ class RobustMqtt {
         })
       });
     }).catch((e) => {
-      console.error("Failed to get signed MQTT URL from AWS:", e);
+      console.error("Failed to open an MQTT connection:", e);
       this.onConnectionLost();
     });
   };
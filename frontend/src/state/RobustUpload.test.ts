@@ -0,0 +1,179 @@
+import { CreateMultipartUploadCommand, UploadPartCommand, ListPartsCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand } from '@aws-sdk/client-s3';
+import RobustUpload from './RobustUpload';
+import { computeUploadChecksums } from './Checksum';
+import type { ResumableUploadRecord } from './UploadResumeStore';
+
+// jsdom doesn't have IndexedDB, so we keep the resume records in a Map instead
+const mockRecords: Map<string, ResumableUploadRecord> = new Map();
+jest.mock('./UploadResumeStore', () => ({
+    getResumableUpload: (key: string) => Promise.resolve(mockRecords.has(key) ? JSON.parse(JSON.stringify(mockRecords.get(key))) : null),
+    saveResumableUpload: (record: ResumableUploadRecord) => {
+        mockRecords.set(record.key, JSON.parse(JSON.stringify(record)));
+        return Promise.resolve();
+    },
+    deleteResumableUpload: (key: string) => {
+        mockRecords.delete(key);
+        return Promise.resolve();
+    },
+    listResumableUploads: (prefix: string) => Promise.resolve([...mockRecords.values()].filter((record) => record.key.startsWith(prefix)))
+}));
+
+const PART_SIZE = 5 * 1024 * 1024;
+
+// S3 won't take parts under 5MB, so every test here MD5s a few copies of a 10MB file, which is slow on a busy machine
+jest.setTimeout(30000);
+const KEY = "protected/us-west-2:me/data/subject/trials/walk/markers.c3d";
+
+/// This stands in for S3's multipart upload API. It remembers the parts of each open upload, and can be told to fail
+/// particular parts.
+class FakeS3 {
+    uploads: Map<string, Map<number, Blob>> = new Map();
+    nextUploadId: number = 1;
+    failParts: number[] = [];
+    sentParts: number[] = [];
+    aborted: string[] = [];
+    created: string[] = [];
+
+    send = async (command: any): Promise<any> => {
+        const input = command.input;
+        if (command instanceof CreateMultipartUploadCommand) {
+            const uploadId = "upload-" + this.nextUploadId++;
+            this.uploads.set(uploadId, new Map());
+            this.created.push(uploadId);
+            return { UploadId: uploadId };
+        }
+        const parts = this.uploads.get(input.UploadId);
+        if (command instanceof AbortMultipartUploadCommand) {
+            this.aborted.push(input.UploadId);
+            this.uploads.delete(input.UploadId);
+            return {};
+        }
+        if (parts == null) {
+            throw Object.assign(new Error("The specified upload does not exist"), { name: "NoSuchUpload" });
+        }
+        if (command instanceof UploadPartCommand) {
+            this.sentParts.push(input.PartNumber);
+            if (this.failParts.includes(input.PartNumber)) {
+                // Fail after the other parts in the batch have had a chance to finish
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                throw new Error("Network Error");
+            }
+            parts.set(input.PartNumber, input.Body);
+            const checksums = await computeUploadChecksums([input.Body]);
+            return { ETag: '"' + checksums.partsHex[0] + '"' };
+        }
+        if (command instanceof ListPartsCommand) {
+            const numbers = [...parts.keys()].sort((a, b) => a - b);
+            const checksums = await computeUploadChecksums(numbers.map((n) => parts.get(n) as Blob));
+            return { Parts: numbers.map((n, i) => ({ PartNumber: n, ETag: '"' + checksums.partsHex[i] + '"' })), IsTruncated: false };
+        }
+        if (command instanceof CompleteMultipartUploadCommand) {
+            const bodies = input.MultipartUpload.Parts.map((part: any) => parts.get(part.PartNumber) as Blob);
+            const checksums = await computeUploadChecksums(bodies);
+            this.uploads.delete(input.UploadId);
+            return { Key: input.Key, ETag: '"' + checksums.multipartETag + '"' };
+        }
+        throw new Error("FakeS3 doesn't know how to handle " + command.constructor.name);
+    };
+}
+
+/**
+ * @returns A file that takes three parts to upload, with different bytes in each part
+ */
+function makeFile(lastModified: number = 1000) {
+    const bytes = new Uint8Array(2 * PART_SIZE + 1024);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(i / PART_SIZE) + 1;
+    }
+    return new File([bytes], "markers.c3d", { lastModified });
+}
+
+function makeUpload(s3: FakeS3, file: File) {
+    const upload = new RobustUpload('us-west-2', 'test-bucket', KEY, file, 'application/octet-stream');
+    upload.client = s3 as any;
+    return upload;
+}
+
+beforeEach(() => {
+    mockRecords.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("resuming after a failed part only sends the parts S3 doesn't have yet", async () => {
+    const s3 = new FakeS3();
+    const file = makeFile();
+    s3.failParts = [3];
+    await expect(makeUpload(s3, file).upload(() => { })).rejects.toThrow("Network Error");
+
+    // We remember the parts that made it, and leave the upload open on S3
+    const record = mockRecords.get(KEY) as ResumableUploadRecord;
+    expect(record.uploadId).toBe("upload-1");
+    expect(record.completedParts.map((part) => part.PartNumber).sort()).toEqual([1, 2]);
+    expect(s3.aborted).toEqual([]);
+
+    s3.failParts = [];
+    s3.sentParts = [];
+    await makeUpload(s3, file).upload(() => { });
+
+    expect(s3.sentParts).toEqual([3]);
+    expect(s3.created).toEqual(["upload-1"]);
+    expect(mockRecords.has(KEY)).toBeFalsy();
+});
+
+test("starts over if S3 has forgotten the upload we stored", async () => {
+    const s3 = new FakeS3();
+    const file = makeFile();
+    mockRecords.set(KEY, {
+        key: KEY,
+        uploadId: "stale",
+        fileName: file.name,
+        fileSize: file.size,
+        fileLastModified: file.lastModified,
+        partSize: PART_SIZE,
+        completedParts: [{ PartNumber: 1, ETag: '"whatever"' }],
+        lastUpdated: 0
+    });
+
+    await makeUpload(s3, file).upload(() => { });
+
+    expect(s3.aborted).toEqual(["stale"]);
+    expect(s3.created).toEqual(["upload-1"]);
+    expect(s3.sentParts.sort()).toEqual([1, 2, 3]);
+    expect(mockRecords.has(KEY)).toBeFalsy();
+});
+
+test("starts over if the parts on S3 don't match the file any more", async () => {
+    const s3 = new FakeS3();
+    s3.failParts = [3];
+    await expect(makeUpload(s3, makeFile()).upload(() => { })).rejects.toThrow("Network Error");
+
+    // Same name, size and timestamp, but different bytes
+    const edited = new File([new Uint8Array(2 * PART_SIZE + 1024)], "markers.c3d", { lastModified: 1000 });
+    s3.failParts = [];
+    s3.sentParts = [];
+    await makeUpload(s3, edited).upload(() => { });
+
+    expect(s3.aborted).toEqual(["upload-1"]);
+    expect(s3.created).toEqual(["upload-1", "upload-2"]);
+    expect(s3.sentParts.sort()).toEqual([1, 2, 3]);
+});
+
+test("a different file going to the same key throws away the old upload", async () => {
+    const s3 = new FakeS3();
+    s3.failParts = [3];
+    await expect(makeUpload(s3, makeFile(1000)).upload(() => { })).rejects.toThrow("Network Error");
+
+    s3.failParts = [];
+    s3.sentParts = [];
+    await makeUpload(s3, makeFile(2000)).upload(() => { });
+
+    expect(s3.aborted).toEqual(["upload-1"]);
+    expect(s3.sentParts.sort()).toEqual([1, 2, 3]);
+    expect(mockRecords.has(KEY)).toBeFalsy();
+});
@@ -1,7 +1,9 @@
-import { S3Client, PutObjectRequest, PutObjectCommand, PutObjectCommandOutput, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommandInput, CompleteMultipartUploadCommand, CompletedPart, AbortMultipartUploadCommand, ListPartsCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectRequest, PutObjectCommand, PutObjectCommandOutput, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommandInput, CompleteMultipartUploadCommand, CompletedPart, AbortMultipartUploadCommand, ListPartsCommand, ListPartsCommandOutput } from '@aws-sdk/client-s3';
 import { Credentials, getAmplifyUserAgent } from '@aws-amplify/core';
 import * as events from 'events';
 import { AxiosHttpHandler, SEND_UPLOAD_PROGRESS_EVENT, AxiosHttpHandlerOptions } from './RobustHandler'; // @aws-amplify/storage/src/providers/axios-http-handler
+import { ResumableUploadRecord, getResumableUpload, saveResumableUpload, deleteResumableUpload } from './UploadResumeStore';
+import { UploadChecksums, CHECKSUM_METADATA_KEY, ChecksumMismatchError, md5Base64, computeUploadChecksums, stripETagQuotes } from './Checksum';
 
 const MIN_PART_SIZE = 5 * 1024 * 1024; // in MB
 const QUEUE_SIZE = 4;
@@ -15,6 +17,30 @@ export declare interface Part {
   _lastUploadedBytes: number;
 }
 
+function createS3Client(region: string): S3Client {
+  const INVALID_CRED = { accessKeyId: '', secretAccessKey: '' };
+  const credentialsProvider = async () => {
+    try {
+      const credentials = await Credentials.get();
+      if (!credentials) return INVALID_CRED;
+      const cred = Credentials.shear(credentials);
+      return cred;
+    } catch (error) {
+      console.warn('credentials provider error', error);
+      return INVALID_CRED;
+    }
+  }
+
+  return new S3Client({
+    region: region,
+    // Using provider instead of a static credentials, so that if an upload task was in progress, but credentials gets
+    // changed or invalidated (e.g user signed out), the subsequent requests will fail.
+    credentials: credentialsProvider,
+    customUserAgent: getAmplifyUserAgent(),
+    requestHandler: new AxiosHttpHandler()
+  });
+}
+
 class RobustUpload {
   region: string;
   bucket: string;
@@ -24,10 +50,17 @@ class RobustUpload {
   params: PutObjectRequest;
 
   cancel: boolean = false;
+  // If this fires, we stop uploading but leave the multipart upload open on S3, so it can be resumed later
+  signal: AbortSignal | null = null;
   completedParts: CompletedPart[] = [];
+  // If we're uploading a File in multiple parts, this is what we persist to IndexedDB so we can resume later
+  resumeRecord: ResumableUploadRecord | null = null;
+  // The MD5s of every part, and of the whole object, which we compute before sending anything
+  checksums: UploadChecksums | null = null;
 
   // Progress reporting
   bytesUploaded: number = 0;
+  bytesInCompletedParts: number = 0;
   totalBytesToUpload: number = 0;
 
   client: S3Client;
@@ -57,27 +90,7 @@ class RobustUpload {
     };
     Object.assign(this.params, params);
 
-    const INVALID_CRED = { accessKeyId: '', secretAccessKey: '' };
-    const credentialsProvider = async () => {
-      try {
-        const credentials = await Credentials.get();
-        if (!credentials) return INVALID_CRED;
-        const cred = Credentials.shear(credentials);
-        return cred;
-      } catch (error) {
-        console.warn('credentials provider error', error);
-        return INVALID_CRED;
-      }
-    }
-
-    this.client = new S3Client({
-      region: this.region,
-      // Using provider instead of a static credentials, so that if an upload task was in progress, but credentials gets
-      // changed or invalidated (e.g user signed out), the subsequent requests will fail.
-      credentials: credentialsProvider,
-      customUserAgent: getAmplifyUserAgent(),
-      requestHandler: new AxiosHttpHandler()
-    });
+    this.client = createS3Client(this.region);
   }
 
   private isGenericObject(body: any): body is Object {
@@ -136,6 +149,98 @@ class RobustUpload {
     return response.UploadId || '';
   }
 
+  /**
+   * This looks in IndexedDB for an unfinished upload of the same file to the same key. If there is one, and S3 still
+   * knows about it, we load the parts S3 already has into `completedParts` and return the old UploadId. Otherwise we
+   * start a fresh multipart upload (and remember it, if the body is a File we could recognize again later).
+   */
+  private async resumeOrCreateMultiPartUpload(): Promise<string> {
+    if (!(this.body instanceof File)) {
+      return this.createMultiPartUpload();
+    }
+    const file: File = this.body;
+
+    const existing = await getResumableUpload(this.key);
+    if (existing != null) {
+      if (existing.fileName === file.name && existing.fileSize === file.size && existing.fileLastModified === file.lastModified && existing.partSize === MIN_PART_SIZE) {
+        try {
+          this.completedParts = await this.listUploadedParts(existing.uploadId);
+          // Make sure the parts S3 already has are really the bytes we'd be sending now, in case the file was edited in a
+          // way that kept its size and timestamp
+          for (let part of this.completedParts) {
+            const expected = this.checksums?.partsHex[(part.PartNumber as number) - 1];
+            if (expected == null || stripETagQuotes(part.ETag as string) !== expected) {
+              throw new ChecksumMismatchError(this.key + " (part " + part.PartNumber + ")", expected ?? '', stripETagQuotes(part.ETag as string));
+            }
+          }
+          this.resumeRecord = existing;
+          console.log("Resuming multi-part upload " + existing.uploadId + " with " + this.completedParts.length + " parts already uploaded");
+          return existing.uploadId;
+        }
+        catch (e) {
+          console.warn("Unable to resume multi-part upload " + existing.uploadId + ", starting over", e);
+          this.completedParts = [];
+          this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: this.key, UploadId: existing.uploadId })).catch(() => { });
+        }
+      }
+      else {
+        // This is a different file going to the same key, so the old parts are useless. Clean them up on a best-effort basis.
+        this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: this.key, UploadId: existing.uploadId })).catch(() => { });
+      }
+      await deleteResumableUpload(this.key);
+    }
+
+    const uploadId = await this.createMultiPartUpload();
+    this.resumeRecord = {
+      key: this.key,
+      uploadId,
+      fileName: file.name,
+      fileSize: file.size,
+      fileLastModified: file.lastModified,
+      partSize: MIN_PART_SIZE,
+      completedParts: [],
+      lastUpdated: Date.now()
+    };
+    await saveResumableUpload(this.resumeRecord);
+    return uploadId;
+  }
+
+  /**
+   * @returns The parts that S3 has already received for this upload, following pagination if necessary
+   */
+  private async listUploadedParts(uploadId: string): Promise<CompletedPart[]> {
+    let parts: CompletedPart[] = [];
+    let partNumberMarker: string | undefined = undefined;
+    while (true) {
+      const data: ListPartsCommandOutput = await this.client.send(new ListPartsCommand({
+        Bucket: this.bucket,
+        Key: this.key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker
+      }));
+      for (let part of data.Parts ?? []) {
+        if (part.PartNumber != null && part.ETag != null) {
+          parts.push({ PartNumber: part.PartNumber, ETag: part.ETag });
+        }
+      }
+      if (!data.IsTruncated || data.NextPartNumberMarker == null) break;
+      partNumberMarker = data.NextPartNumberMarker;
+    }
+    return parts;
+  }
+
+  /**
+   * This records a finished part, and persists it so we don't have to upload it again if we're interrupted.
+   */
+  private async onPartCompleted(part: CompletedPart) {
+    this.completedParts.push(part);
+    if (this.resumeRecord != null) {
+      this.resumeRecord.completedParts = this.completedParts.map((p) => ({ PartNumber: p.PartNumber as number, ETag: p.ETag as string }));
+      this.resumeRecord.lastUpdated = Date.now();
+      await saveResumableUpload(this.resumeRecord);
+    }
+  }
+
   /**
    * @private Not to be extended outside of tests
    * @VisibleFotTesting
@@ -146,10 +251,8 @@ class RobustUpload {
   }) => void) {
     console.log("Uploading parts", parts);
 
-    let totalSize = 0;
     let loadedPerResult: number[] = [];
     for (let i = 0; i < parts.length; i++) {
-      totalSize += parts[i].length;
       loadedPerResult.push(0);
     }
     const recomputeTotal = () => {
@@ -158,13 +261,13 @@ class RobustUpload {
         totalLoaded += loadedPerResult[i];
       }
       progressCallback({
-        loaded: totalLoaded,
-        total: totalSize
+        loaded: this.bytesInCompletedParts + totalLoaded,
+        total: this.totalBytesToUpload
       });
     };
 
     try {
-      const allResults = await Promise.all(
+      await Promise.all(
         parts.map(async (part, index) => {
           this.setupEventListener(part);
           const {
@@ -175,6 +278,7 @@ class RobustUpload {
             SSECustomerKeyMD5,
           } = this.params;
           const options: AxiosHttpHandlerOptions = {
+            signal: this.signal ?? undefined,
             progressCallback: (partProgress) => {
               loadedPerResult[index] = partProgress.loaded;
               recomputeTotal();
@@ -187,34 +291,39 @@ class RobustUpload {
               UploadId: uploadId,
               Key,
               Bucket,
+              // S3 rejects the part with a BadDigest error if the bytes it receives don't match this
+              ...(this.checksums && { ContentMD5: this.checksums.parts[part.partNumber - 1] }),
               ...(SSECustomerAlgorithm && { SSECustomerAlgorithm }),
               ...(SSECustomerKey && { SSECustomerKey }),
               ...(SSECustomerKeyMD5 && { SSECustomerKeyMD5 }),
             }),
             options
           );
+          await this.onPartCompleted({
+            PartNumber: part.partNumber,
+            ETag: res.ETag,
+          });
           return res;
         })
       );
-      // The order of resolved promises is the same as input promise order.
-      for (let i = 0; i < allResults.length; i++) {
-        this.completedParts.push({
-          PartNumber: parts[i].partNumber,
-          ETag: allResults[i].ETag,
-        });
+      for (let i = 0; i < parts.length; i++) {
+        this.bytesInCompletedParts += parts[i].length;
       }
     } catch (error) {
+      // We deliberately leave the multipart upload open on S3, so that the parts that did make it can be reused
+      // when the user resumes this upload.
       console.error(
-        'error happened while uploading a part. Cancelling the multipart upload',
+        'error happened while uploading a part. Leaving the multipart upload open so it can be resumed',
         error
       );
-      this.cancelUpload();
-      return;
+      throw error;
     }
   }
 
   private async finishMultiPartUpload(uploadId: string) {
     console.log(this.completedParts);
+    // Parts can finish out of order (and resumed parts come first), but S3 requires them sorted
+    this.completedParts.sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0));
     const input: CompleteMultipartUploadCommandInput = {
       Bucket: this.params.Bucket,
       Key: this.params.Key,
@@ -224,6 +333,11 @@ class RobustUpload {
     const completeUploadCommand = new CompleteMultipartUploadCommand(input);
     try {
       const data = await this.client.send(completeUploadCommand);
+      await deleteResumableUpload(this.key);
+      // Every part was checked on its way in, but this makes sure S3 stitched together exactly the parts we meant
+      if (this.checksums != null && data.ETag != null && stripETagQuotes(data.ETag) !== this.checksums.multipartETag) {
+        throw new ChecksumMismatchError(this.key, this.checksums.multipartETag, stripETagQuotes(data.ETag));
+      }
       return data.Key;
     } catch (error) {
       console.error(
@@ -237,6 +351,10 @@ class RobustUpload {
   }
 
   private async checkIfUploadCancelled(uploadId: string) {
+    if (this.signal != null && this.signal.aborted) {
+      // Unlike cancelling, we don't clean anything up here, because we want to be able to resume later
+      throw new Error('Upload was paused.');
+    }
     if (this.cancel) {
       let errorMessage = 'Upload was cancelled.';
       try {
@@ -252,6 +370,24 @@ class RobustUpload {
     this.cancel = true;
   }
 
+  /**
+   * This throws away an unfinished upload that was recorded in IndexedDB, both locally and on S3.
+   *
+   * @param key The full S3 key the upload was going to
+   */
+  public static async discardResumableUpload(region: string, bucket: string, key: string) {
+    const record = await getResumableUpload(key);
+    if (record == null) return;
+    try {
+      await createS3Client(region).send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: record.uploadId }));
+    }
+    catch (e) {
+      // If S3 has already forgotten about this upload, there's nothing left to clean up
+      console.warn("Error aborting multi-part upload " + record.uploadId, e);
+    }
+    await deleteResumableUpload(key);
+  }
+
   private async cleanup(uploadId: string) {
     // Reset this's state
     this.body = null;
@@ -266,6 +402,7 @@ class RobustUpload {
     };
 
     await this.client.send(new AbortMultipartUploadCommand(input));
+    await deleteResumableUpload(this.key);
 
     // verify that all parts are removed.
     const data = await this.client.send(new ListPartsCommand(input));
@@ -301,10 +438,15 @@ class RobustUpload {
     */
   }
 
+  /**
+   * @param progressCallback This gets called as bytes make it to S3
+   * @param signal OPTIONAL: If this fires, we stop the upload, leaving any finished parts on S3 so we can resume later
+   */
   public async upload(progressCallback: (progress: {
     loaded: number,
     total: number
-  }) => void): Promise<any> {
+  }) => void, signal?: AbortSignal): Promise<any> {
+    this.signal = signal ?? null;
     /*
     this.emitter.on(SEND_UPLOAD_PROGRESS_EVENT, progress => {
       progressCallback(progress);
@@ -313,7 +455,13 @@ class RobustUpload {
     // if (this.totalBytesToUpload == 0) {
     if (this.totalBytesToUpload <= MIN_PART_SIZE) {
       // Multipart upload is not required. Upload the sanitized body as is
-      const putObjectCommand = new PutObjectCommand(this.params);
+      const checksum = await md5Base64(this.body);
+      const putObjectCommand = new PutObjectCommand({
+        ...this.params,
+        // S3 rejects the upload with a BadDigest error if the bytes it receives don't match this
+        ContentMD5: checksum,
+        Metadata: { ...this.params.Metadata, [CHECKSUM_METADATA_KEY]: checksum }
+      });
       console.log("Sending PutObjectCommand command (single part upload)");
 
       // We wrap this in a promise to ensure that we resolve when the progress indicator reaches 100%, 
@@ -321,6 +469,7 @@ class RobustUpload {
 
       return new Promise<PutObjectCommandOutput>((resolve, reject) => {
         const options: AxiosHttpHandlerOptions = {
+          signal: this.signal ?? undefined,
           progressCallback: (progress) => {
             progressCallback(progress);
             if (progress.loaded === progress.total) {
@@ -333,18 +482,25 @@ class RobustUpload {
       });
     } else {
       console.log("Creating multi-part upload");
-      // Step 1: Initiate the multi part upload
-      const uploadId = await this.createMultiPartUpload();
-
-      // Step 2: Upload chunks in parallel as requested
-      const numberOfPartsToUpload = Math.ceil(
-        this.totalBytesToUpload / MIN_PART_SIZE
-      );
+      // Step 0: Checksum everything, so S3 can verify each part, and downloads can verify the whole object later
+      const allParts: Part[] = this.createParts();
+      this.checksums = await computeUploadChecksums(allParts.map((part) => part.bodyPart));
+      this.params.Metadata = { ...this.params.Metadata, [CHECKSUM_METADATA_KEY]: this.checksums.object };
+
+      // Step 1: Initiate the multi part upload, or pick up an unfinished one for this file
+      const uploadId = await this.resumeOrCreateMultiPartUpload();
+
+      // Step 2: Upload the chunks S3 doesn't have yet in parallel as requested
+      const alreadyUploaded: number[] = this.completedParts.map((p) => p.PartNumber ?? -1);
+      const parts: Part[] = allParts.filter((part) => alreadyUploaded.indexOf(part.partNumber) === -1);
+      this.bytesInCompletedParts = this.totalBytesToUpload;
+      for (let i = 0; i < parts.length; i++) {
+        this.bytesInCompletedParts -= parts[i].length;
+      }
 
-      const parts: Part[] = this.createParts();
       for (
         let start = 0;
-        start < numberOfPartsToUpload;
+        start < parts.length;
         start += QUEUE_SIZE
       ) {
         /** This first block will try to cancel the upload if the cancel
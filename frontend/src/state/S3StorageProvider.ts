@@ -0,0 +1,297 @@
+import { Auth, Storage } from "aws-amplify";
+import { Credentials, getAmplifyUserAgent } from '@aws-amplify/core';
+import { S3Client, ListObjectsV2Command, ListObjectsV2CommandOutput, HeadObjectCommand, HeadObjectCommandOutput, CopyObjectCommand, PutObjectCommand, PutObjectCommandOutput } from '@aws-sdk/client-s3';
+import RobustUpload from './RobustUpload';
+import { verifyDownloadChecksum, md5Base64, CHECKSUM_METADATA_KEY } from './Checksum';
+import type { ReactiveFileMetadata } from './ReactiveS3';
+import { listResumableUploads, ResumableUploadRecord } from './UploadResumeStore';
+import { VersionMismatchError } from './StorageProvider';
+import type { StorageProvider, StorageListOutput, ResumableUploadInfo } from './StorageProvider';
+
+/// This is the production StorageProvider, which talks to S3 through a mix of Amplify Storage (for simple gets and
+/// deletes) and the raw S3Client (for multipart uploads and paginated listing).
+class S3StorageProvider implements StorageProvider {
+    region: string;
+    bucketName: string;
+    // This is the level, in the Amplify API's, of storage this provider is reflecting
+    level: 'protected' | 'public';
+
+    constructor(region: string, bucketName: string, level: 'protected' | 'public') {
+        this.region = region;
+        this.bucketName = bucketName;
+        this.level = level;
+    }
+
+    /**
+     * @returns The prefix Amplify attaches to paths at this level, which for protected data depends on who's logged in
+     */
+    getGlobalPrefix = () => {
+        if (this.level === 'public') {
+            return Promise.resolve('public/');
+        }
+        return Auth.currentCredentials().then((credentials) => {
+            return "protected/" + credentials.identityId + "/";
+        });
+    };
+
+    /**
+     * This uploads a file to S3, using multipart uploads for large files.
+     */
+    upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void, signal?: AbortSignal) => {
+        return this.getGlobalPrefix().then((globalPrefix: string) => {
+            const uploadObject = new RobustUpload(this.region, this.bucketName, globalPrefix + path, contents, '');
+            return uploadObject.upload((progress) => {
+                progressCallback(progress.loaded / progress.total);
+            }, signal);
+        }).then((response: any) => {
+            console.log("S3.put() Completed callback", response);
+        });
+    };
+
+    /**
+     * This uploads a small file with a conditional PUT, so S3 itself refuses the write if the ETag isn't
+     * `expectedVersion` (or, if `expectedVersion` is null, if the file exists at all).
+     */
+    uploadIfVersion = async (path: string, contents: string, expectedVersion: string | null) => {
+        const globalPrefix = await this.getGlobalPrefix();
+        const checksum = await md5Base64(contents);
+        const command = new PutObjectCommand({
+            Bucket: this.bucketName,
+            Key: globalPrefix + path,
+            Body: contents,
+            ContentMD5: checksum,
+            Metadata: { [CHECKSUM_METADATA_KEY]: checksum }
+        });
+        // Our version of the SDK predates conditional writes, so we add the headers ourselves, before the request gets signed
+        command.middlewareStack.add((next: any) => (args: any) => {
+            if (expectedVersion == null) args.request.headers["If-None-Match"] = "*";
+            else args.request.headers["If-Match"] = expectedVersion;
+            return next(args);
+        }, { step: 'build' });
+        try {
+            const output: PutObjectCommandOutput = await this.createClient().send(command);
+            if (output.ETag == null) throw new Error('S3 didn\'t send back an ETag for "' + path + '"');
+            return output.ETag;
+        }
+        catch (e: any) {
+            // 412 means the condition failed, and 409 means someone else's conditional write got there at the same time
+            const status = e?.$metadata?.httpStatusCode;
+            if (status === 412 || status === 409) {
+                throw new VersionMismatchError(path);
+            }
+            throw e;
+        }
+    };
+
+    /**
+     * This attempts to delete a file in S3
+     */
+    delete = (path: string) => {
+        return Storage.remove(path, { level: this.level }).then((result) => {
+            console.log("Delete", result);
+            if (result == null || result.$metadata == null || result.$metadata.httpStatusCode == null) {
+                throw new Error("Got an error trying to delete a file");
+            }
+        });
+    };
+
+    /**
+     * This copies a file within the bucket on the S3 side, keeping its metadata (including our checksum)
+     */
+    copy = (fromPath: string, toPath: string) => {
+        return this.getGlobalPrefix().then((globalPrefix: string) => {
+            return this.createClient().send(new CopyObjectCommand({
+                Bucket: this.bucketName,
+                CopySource: encodeURIComponent(this.bucketName + "/" + globalPrefix + fromPath),
+                Key: globalPrefix + toPath
+            }));
+        }).then((result) => {
+            console.log("Copy", result);
+        });
+    };
+
+    /**
+     * This copies a file from another prefix in the same bucket on the S3 side. Files from anywhere else get
+     * downloaded and re-uploaded.
+     */
+    copyFrom = (source: StorageProvider, fromPath: string, toPath: string): Promise<void> => {
+        if (!(source instanceof S3StorageProvider) || source.bucketName !== this.bucketName) {
+            return source.download(fromPath).then((blob: Blob) => {
+                return this.upload(toPath, new File([blob], fromPath.substring(fromPath.lastIndexOf('/') + 1)), () => { });
+            });
+        }
+        return Promise.all([source.getGlobalPrefix(), this.getGlobalPrefix()]).then(([sourcePrefix, globalPrefix]) => {
+            return this.createClient().send(new CopyObjectCommand({
+                Bucket: this.bucketName,
+                CopySource: encodeURIComponent(this.bucketName + "/" + sourcePrefix + fromPath),
+                Key: globalPrefix + toPath
+            }));
+        }).then((result) => {
+            console.log("Copy", result);
+        });
+    };
+
+    /**
+     * @returns A signed URL that someone could use to download a file
+     */
+    getSignedURL = (path: string) => {
+        return Storage.get(path, {
+            level: this.level,
+        });
+    };
+
+    /**
+     * This downloads a file from S3, bypassing the browser cache, and checks it against the checksum we stored in its
+     * metadata when we uploaded it. Throws a ChecksumMismatchError if the bytes don't match.
+     */
+    download = (path: string, progressCallback?: (progress: { loaded: number, total: number }) => void) => {
+        return Storage.get(path, {
+            level: this.level,
+            download: true,
+            cacheControl: "no-cache",
+            progressCallback
+        }).then((result) => {
+            if (result != null && result.Body != null) {
+                // data.Body is a Blob
+                const body = result.Body as Blob;
+                return verifyDownloadChecksum(path, body, result.Metadata).then(() => body);
+            }
+            throw new Error(
+                'Result of downloading "' + path + "\" didn't have a Body"
+            );
+        });
+    };
+
+    /**
+     * @returns The multipart uploads under `folder` that this browser started but didn't finish
+     */
+    listResumableUploads = (folder: string) => {
+        return this.getGlobalPrefix().then((globalPrefix: string) => {
+            return listResumableUploads(globalPrefix + folder).then((records: ResumableUploadRecord[]) => {
+                return records.map((record): ResumableUploadInfo => ({
+                    path: record.key.substring(globalPrefix.length),
+                    fileName: record.fileName,
+                    fileSize: record.fileSize,
+                    bytesUploaded: Math.min(record.completedParts.length * record.partSize, record.fileSize),
+                    lastUpdated: new Date(record.lastUpdated)
+                }));
+            });
+        });
+    };
+
+    /**
+     * This aborts an unfinished multipart upload on S3, and forgets about it locally
+     */
+    discardResumableUpload = (path: string) => {
+        return this.getGlobalPrefix().then((globalPrefix: string) => {
+            return RobustUpload.discardResumableUpload(this.region, this.bucketName, globalPrefix + path);
+        });
+    };
+
+    /**
+     * @returns a raw S3Client, for the calls Amplify Storage doesn't support
+     */
+    createClient = () => {
+        const INVALID_CRED = { accessKeyId: '', secretAccessKey: '' };
+        const credentialsProvider = async () => {
+            try {
+                const credentials = await Credentials.get();
+                if (!credentials) return INVALID_CRED;
+                const cred = Credentials.shear(credentials);
+                return cred;
+            } catch (error) {
+                console.warn('credentials provider error', error);
+                return INVALID_CRED;
+            }
+        }
+
+        return new S3Client({
+            region: this.region,
+            // Using provider instead of a static credentials, so that if an upload task was in progress, but credentials gets
+            // changed or invalidated (e.g user signed out), the subsequent requests will fail.
+            credentials: credentialsProvider,
+            customUserAgent: getAmplifyUserAgent()
+        });
+    };
+
+    /**
+     * @returns the ETag of a file in S3, or null if the file doesn't exist
+     */
+    getVersion = async (path: string) => {
+        const globalPrefix = await this.getGlobalPrefix();
+        try {
+            const output: HeadObjectCommandOutput = await this.createClient().send(new HeadObjectCommand({
+                Bucket: this.bucketName,
+                Key: globalPrefix + path
+            }));
+            return output.ETag ?? null;
+        }
+        catch (e: any) {
+            if (e != null && (e.name === 'NotFound' || e.$metadata?.httpStatusCode === 404)) {
+                return null;
+            }
+            throw e;
+        }
+    };
+
+    /**
+     * This is a replacement for Storage.load(), but with support for limiting the results to one folder level, and to doing multiple pages of calls.
+     */
+    list = async (folder: string, limitToOneFolderLevel: boolean): Promise<StorageListOutput> => {
+        const globalPrefix = await this.getGlobalPrefix();
+        let path = globalPrefix + folder;
+
+        const s3client = this.createClient();
+
+        const bucketName = this.bucketName;
+        async function listAsync(continuationToken?: string, filesSoFar?: ReactiveFileMetadata[], foldersSoFar?: string[]): Promise<StorageListOutput> {
+            const listObjectsCommand = new ListObjectsV2Command({
+                Bucket: bucketName,
+                Prefix: path,
+                Delimiter: limitToOneFolderLevel ? '/' : undefined,
+                MaxKeys: 1000,
+                ContinuationToken: continuationToken
+            });
+
+            const output: ListObjectsV2CommandOutput = await s3client.send(listObjectsCommand);
+
+            let files: ReactiveFileMetadata[] = filesSoFar ? [...filesSoFar] : [];
+            if (output.Contents != null && output.Contents.length > 0) {
+                for (let i = 0; i < output.Contents.length; i++) {
+                    let file = output.Contents[i];
+                    if (file.Key != null && file.LastModified != null && file.Size != null && file.Key.startsWith(globalPrefix)) {
+                        files.push({
+                            key: file.Key.substring(globalPrefix.length),
+                            lastModified: file.LastModified,
+                            size: file.Size
+                        });
+                    }
+                }
+            }
+
+            let folders: string[] = foldersSoFar ? [...foldersSoFar] : [];
+            if (output.CommonPrefixes != null && output.CommonPrefixes.length > 0) {
+                for (let i = 0; i < output.CommonPrefixes.length; i++) {
+                    let folder = output.CommonPrefixes[i];
+                    if (folder.Prefix != null && folder.Prefix.startsWith(globalPrefix)) {
+                        let folderFullPath = folder.Prefix.substring(globalPrefix.length);
+                        folders.push(folderFullPath);
+                    }
+                }
+            }
+
+            if (output.NextContinuationToken != null) {
+                return listAsync(output.NextContinuationToken, files, folders);
+            }
+
+            return {
+                files,
+                folders
+            }
+        };
+
+        return listAsync();
+    };
+}
+
+export default S3StorageProvider;
@@ -0,0 +1,165 @@
+import { API } from "aws-amplify";
+import { verifyDownloadChecksum, md5Base64, CHECKSUM_METADATA_KEY } from './Checksum';
+import { VersionMismatchError } from './StorageProvider';
+import type { StorageProvider, StorageListOutput } from './StorageProvider';
+
+/// This is the StorageProvider for folders other people have shared with us. We aren't allowed to touch anyone else's
+/// protected folder in S3 directly, so every call goes through PostAuthAPI, which checks the owner's grants.json before
+/// doing anything. Listing, deleting and copying happen inside the API, and the bytes of downloads and uploads go
+/// straight to S3 through short lived signed URLs that the API hands back.
+class SharedS3StorageProvider implements StorageProvider {
+    // Whose protected folder this is
+    ownerIdentityId: string;
+
+    constructor(ownerIdentityId: string) {
+        this.ownerIdentityId = ownerIdentityId;
+    }
+
+    /**
+     * @returns The owner's protected folder. Nothing actually gets sent to S3 with this prefix from the browser, but it
+     * keeps our PubSub topics the same as the ones the owner uses.
+     */
+    getGlobalPrefix = () => {
+        return Promise.resolve("protected/" + this.ownerIdentityId + "/");
+    };
+
+    /**
+     * This asks PostAuthAPI to do something in the owner's folder, and turns a failed version check back into a
+     * VersionMismatchError.
+     */
+    callAPI = (operation: string, path: string, body: { [key: string]: any }): Promise<any> => {
+        return API.post("PostAuthAPI", "/sharing/" + operation, {
+            body: { ...body, ownerIdentityId: this.ownerIdentityId }
+        }).catch((e: any) => {
+            if (e?.response?.status === 412) {
+                throw new VersionMismatchError(path);
+            }
+            throw new Error('Couldn\'t ' + operation + ' "' + path + '" in a shared folder: ' + (e?.response?.data?.error ?? e?.message ?? e));
+        });
+    };
+
+    /**
+     * This uploads a file straight to S3, with a signed URL from PostAuthAPI, if we're allowed to edit it.
+     */
+    upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void, signal?: AbortSignal) => {
+        return md5Base64(contents).then((checksum: string) => {
+            return this.callAPI("upload", path, { path, checksum }).then((response: { url: string }) => {
+                return sendSignedRequest("PUT", response.url, {
+                    "Content-MD5": checksum,
+                    ["x-amz-meta-" + CHECKSUM_METADATA_KEY]: checksum
+                }, contents, (progress) => progressCallback(progress.loaded / progress.total), signal);
+            });
+        }).then(() => { });
+    };
+
+    /**
+     * This uploads a small file, which PostAuthAPI writes for us with a conditional PUT.
+     */
+    uploadIfVersion = (path: string, contents: string, expectedVersion: string | null) => {
+        return this.callAPI("uploadIfVersion", path, { path, contents, expectedVersion }).then((response: { version: string }) => response.version);
+    };
+
+    /**
+     * This deletes a file in the owner's folder, if we're allowed to edit it.
+     */
+    delete = (path: string) => {
+        return this.callAPI("delete", path, { path }).then(() => { });
+    };
+
+    /**
+     * This copies a file within the owner's folder, on the S3 side, if we're allowed to edit both ends.
+     */
+    copy = (fromPath: string, toPath: string) => {
+        return this.callAPI("copy", fromPath, { fromPath, toPath }).then(() => { });
+    };
+
+    /**
+     * @returns A signed URL that someone could use to download a file
+     */
+    getSignedURL = (path: string) => {
+        return this.callAPI("download", path, { path }).then((response: { url?: string, contents?: string }) => {
+            if (response.url != null) return response.url;
+            return URL.createObjectURL(new Blob([response.contents ?? '']));
+        });
+    };
+
+    /**
+     * This downloads a file straight from S3, with a signed URL from PostAuthAPI, and checks it against the checksum we
+     * stored in its metadata when it was uploaded. The owner's grants.json is the exception, which comes back from the
+     * API with only our own grants left in it.
+     */
+    download = (path: string, progressCallback?: (progress: { loaded: number, total: number }) => void) => {
+        return this.callAPI("download", path, { path }).then((response: { url?: string, contents?: string }) => {
+            if (response.url == null) {
+                return new Blob([response.contents ?? '']);
+            }
+            return sendSignedRequest("GET", response.url, {}, null, progressCallback).then((request: XMLHttpRequest) => {
+                const body = request.response as Blob;
+                const checksum = request.getResponseHeader("x-amz-meta-" + CHECKSUM_METADATA_KEY);
+                return verifyDownloadChecksum(path, body, checksum == null ? undefined : { [CHECKSUM_METADATA_KEY]: checksum }).then(() => body);
+            });
+        });
+    };
+
+    /**
+     * @returns the ETag of a file in the owner's folder, or null if the file doesn't exist
+     */
+    getVersion = (path: string) => {
+        return this.callAPI("version", path, { path }).then((response: { version: string | null }) => response.version);
+    };
+
+    /**
+     * This lists a folder, leaving out anything the owner hasn't shared with us (apart from the folders on the way down
+     * to what they have shared).
+     */
+    list = (folder: string, limitToOneFolderLevel: boolean): Promise<StorageListOutput> => {
+        return this.callAPI("list", folder, { folder, limitToOneFolderLevel }).then((response: { files: { key: string, lastModified: string, size: number }[], folders: string[] }) => {
+            return {
+                files: response.files.map((file) => ({
+                    key: file.key,
+                    lastModified: new Date(file.lastModified),
+                    size: file.size
+                })),
+                folders: response.folders
+            };
+        });
+    };
+}
+
+/**
+ * This sends a request to a signed S3 URL. We use XMLHttpRequest rather than fetch() so we get progress on uploads.
+ *
+ * @returns The finished request, with the body as a Blob
+ */
+function sendSignedRequest(method: string, url: string, headers: { [key: string]: string }, body: File | string | null, progressCallback?: (progress: { loaded: number, total: number }) => void, signal?: AbortSignal): Promise<XMLHttpRequest> {
+    return new Promise((resolve, reject) => {
+        if (signal != null && signal.aborted) {
+            reject(new Error("The " + method + " to S3 was stopped"));
+            return;
+        }
+        const request = new XMLHttpRequest();
+        request.open(method, url);
+        request.responseType = "blob";
+        Object.keys(headers).forEach((header) => request.setRequestHeader(header, headers[header]));
+        if (method === "GET") {
+            // Never use a cached copy, in case someone else changed the file
+            request.setRequestHeader("Cache-Control", "no-cache");
+        }
+        if (progressCallback != null) {
+            const target = method === "PUT" ? request.upload : request;
+            target.onprogress = (e: ProgressEvent) => {
+                if (e.lengthComputable) progressCallback({ loaded: e.loaded, total: e.total });
+            };
+        }
+        request.onload = () => {
+            if (request.status >= 200 && request.status < 300) resolve(request);
+            else reject(new Error("S3 responded to a " + method + " with status " + request.status));
+        };
+        request.onerror = () => reject(new Error("Network error sending a " + method + " to S3"));
+        request.onabort = () => reject(new Error("The " + method + " to S3 was stopped"));
+        signal?.addEventListener("abort", () => request.abort());
+        request.send(body);
+    });
+}
+
+export default SharedS3StorageProvider;
@@ -0,0 +1,77 @@
+import { API } from "aws-amplify";
+import { ReactiveIndex } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import { VersionMismatchError } from './StorageProvider';
+import Sharing from './Sharing';
+import SharedS3StorageProvider from './SharedS3StorageProvider';
+
+jest.mock("aws-amplify", () => ({ API: { post: jest.fn() } }));
+
+const GRANTS_JSON = {
+    ownerEmail: "owner@example.com",
+    grants: [
+        { email: "reader@example.com", path: "lab/subject1", permission: "read", grantedAt: 0 },
+        { email: "reader@example.com", path: "lab/subject1/trials", permission: "read-write", grantedAt: 0 }
+    ]
+};
+
+/**
+ * @returns A Sharing for the logged in user, where the owner "us-west-2:owner" has `grantsJson` in their folder
+ */
+async function makeSharing(grantsJson: any) {
+    const broker = new InProcessBroker();
+    const makeIndex = async (storage: InMemoryStorageProvider) => {
+        const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, new InProcessMqtt('TEST', broker), storage);
+        index.localCacheEnabled = false;
+        await index.fullRefresh();
+        return index;
+    };
+    const ownerStorage = new InMemoryStorageProvider();
+    await ownerStorage.upload("sharing/grants.json", JSON.stringify(grantsJson), () => { });
+    const ownerIndex = await makeIndex(ownerStorage);
+    const sharing = new Sharing(await makeIndex(new InMemoryStorageProvider()), () => ownerIndex);
+    sharing.getSharedIndex("us-west-2:owner");
+    while (sharing.isLoadingPermission("us-west-2:owner")) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return sharing;
+}
+
+test("shows what the owner shared with us, read or read-write, down to the folder", async () => {
+    const sharing = await makeSharing(GRANTS_JSON);
+
+    expect(sharing.getPermission("us-west-2:owner", "lab/subject1", "reader@example.com")).toBe("read");
+    expect(sharing.getPermission("us-west-2:owner", "lab/subject1/trials/walk", "Reader@Example.com")).toBe("read-write");
+    expect(sharing.getPermission("us-west-2:owner", "lab/subject10", "reader@example.com")).toBeNull();
+    expect(sharing.getPermission("us-west-2:owner", "lab", "reader@example.com")).toBeNull();
+    expect(sharing.getSharedRoot("us-west-2:owner", "lab/subject1/trials", "reader@example.com")).toBe("lab/subject1");
+});
+
+test("shows nothing to someone the owner hasn't shared with, or who isn't logged in", async () => {
+    const sharing = await makeSharing(GRANTS_JSON);
+
+    expect(sharing.getPermission("us-west-2:owner", "lab/subject1", "stranger@example.com")).toBeNull();
+    expect(sharing.getPermission("us-west-2:owner", "lab/subject1", null)).toBeNull();
+    expect(sharing.getOwnerLabel("us-west-2:owner")).toBe("owner@example.com");
+});
+
+test("a shared folder's conditional write that loses the race is a VersionMismatchError", async () => {
+    (API.post as jest.Mock).mockReturnValueOnce(Promise.reject({ response: { status: 412, data: { error: "changed" } } }));
+    const storage = new SharedS3StorageProvider("us-west-2:owner");
+
+    await expect(storage.uploadIfVersion("data/lab/subject1/_subject.json", "{}", "\"etag\"")).rejects.toBeInstanceOf(VersionMismatchError);
+    expect((API.post as jest.Mock).mock.calls[0][2].body).toEqual({
+        path: "data/lab/subject1/_subject.json",
+        contents: "{}",
+        expectedVersion: "\"etag\"",
+        ownerIdentityId: "us-west-2:owner"
+    });
+});
+
+test("a shared folder's other API failures say what went wrong", async () => {
+    (API.post as jest.Mock).mockReturnValueOnce(Promise.reject({ response: { status: 403, data: { error: "This folder hasn't been shared with you" } } }));
+    const storage = new SharedS3StorageProvider("us-west-2:owner");
+
+    await expect(storage.delete("data/lab/subject1/_subject.json")).rejects.toThrow("hasn't been shared with you");
+});
@@ -0,0 +1,213 @@
+import * as yup from 'yup';
+import { ReactiveCursor, ReactiveIndex, ReactiveJsonFile } from './ReactiveS3';
+
+/// Sharing state lives in this folder of each user's protected index, next to "data/" (so it never shows up while
+/// browsing). "grants.json" is what the user has shared with other people, and "shared_with_me.json" is the folders
+/// other people have shared with them, that they've opened the link to.
+///
+/// Only the owner can touch their protected folder in S3. Everyone else goes through PostAuthAPI (see
+/// SharedS3StorageProvider), which checks "grants.json" on every call, and only hands back the caller's own grants when
+/// they read it. The checks in here just decide what the app shows.
+const SHARING_FOLDER = 'sharing';
+
+type SharePermission = 'read' | 'read-write';
+
+/// One folder an owner has shared with one account
+type ShareGrant = {
+    email: string;
+    // The folder, relative to the owner's "data/" folder. This covers everything inside it, too.
+    path: string;
+    permission: SharePermission;
+    grantedAt: number;
+};
+
+type GrantsJson = {
+    // So the people we share with can tell who we are
+    ownerEmail: string;
+    grants: ShareGrant[];
+};
+
+/// A folder someone else has shared with us
+type SharedFolder = {
+    ownerIdentityId: string;
+    ownerEmail: string;
+    path: string;
+};
+
+type SharedWithMeJson = {
+    folders: SharedFolder[];
+};
+
+const grantsJsonSchema = yup.object({
+    ownerEmail: yup.string(),
+    grants: yup.array().of(yup.object({
+        email: yup.string().defined(),
+        path: yup.string().defined(),
+        permission: yup.mixed<SharePermission>().oneOf(['read', 'read-write']).defined(),
+        grantedAt: yup.number().defined()
+    }))
+});
+
+const sharedWithMeJsonSchema = yup.object({
+    folders: yup.array().of(yup.object({
+        ownerIdentityId: yup.string().defined(),
+        ownerEmail: yup.string().defined(),
+        path: yup.string().defined()
+    }))
+});
+
+/**
+ * @returns True if `path` is `folder`, or is somewhere inside it. The empty folder is the whole "data/" folder.
+ */
+function isInsideFolder(path: string, folder: string) {
+    return folder === '' || path === folder || path.startsWith(folder + '/');
+}
+
+/// This keeps track of the folders a user has shared with other accounts, and the ones other accounts have shared with
+/// them. Each owner's folder gets opened through its own ReactiveIndex, which only lists the folders being looked at.
+class Sharing {
+    myIndex: ReactiveIndex;
+    makeSharedIndex: (ownerIdentityId: string) => ReactiveIndex;
+    myGrants: ReactiveJsonFile<GrantsJson>;
+    sharedWithMe: ReactiveJsonFile<SharedWithMeJson>;
+    // Owner identity ID -> the index for their protected folder, and their grants.json in it
+    sharedIndexes: Map<string, ReactiveIndex>;
+    ownerGrants: Map<string, ReactiveJsonFile<GrantsJson>>;
+
+    constructor(myIndex: ReactiveIndex, makeSharedIndex: (ownerIdentityId: string) => ReactiveIndex) {
+        this.myIndex = myIndex;
+        this.makeSharedIndex = makeSharedIndex;
+        const sharingCursor = new ReactiveCursor(myIndex, SHARING_FOLDER);
+        this.myGrants = sharingCursor.getJsonFile<GrantsJson>("grants.json", grantsJsonSchema);
+        this.sharedWithMe = sharingCursor.getJsonFile<SharedWithMeJson>("shared_with_me.json", sharedWithMeJsonSchema);
+        this.sharedIndexes = new Map();
+        this.ownerGrants = new Map();
+    }
+
+    /**
+     * @returns The identity ID of the logged in user, which is what goes in sharable links, or null if we don't know
+     * it yet
+     */
+    getMyIdentityId = () => {
+        const match = /^protected\/([^/]+)\/$/.exec(this.myIndex.globalPrefix);
+        return match == null ? null : match[1];
+    };
+
+    /**
+     * This gets (or opens, the first time) the index for someone else's protected folder.
+     */
+    getSharedIndex = (ownerIdentityId: string) => {
+        let index = this.sharedIndexes.get(ownerIdentityId);
+        if (index == null) {
+            index = this.makeSharedIndex(ownerIdentityId);
+            this.sharedIndexes.set(ownerIdentityId, index);
+            this.ownerGrants.set(ownerIdentityId, new ReactiveCursor(index, SHARING_FOLDER).getJsonFile<GrantsJson>("grants.json", grantsJsonSchema));
+        }
+        return index;
+    };
+
+    /**
+     * @returns The accounts we've shared `path` (exactly, not its parents) with
+     */
+    getGrants = (path: string) => {
+        return this.myGrants.getAttribute("grants", []).filter((grant) => grant.path === path);
+    };
+
+    /**
+     * This shares one of our folders with another account, replacing whatever permission they had on it before.
+     *
+     * @param path The folder to share, relative to "data/"
+     * @param email Who to share it with
+     * @param permission What they're allowed to do with it
+     * @param ownerEmail Our own email, so they can tell who shared it
+     */
+    grant = (path: string, email: string, permission: SharePermission, ownerEmail: string) => {
+        email = email.trim().toLowerCase();
+        const grants = this.myGrants.getAttribute("grants", []).filter((grant) => !(grant.path === path && grant.email === email));
+        grants.push({ email, path, permission, grantedAt: Date.now() });
+        this.myGrants.setAttribute("ownerEmail", ownerEmail);
+        this.myGrants.setAttribute("grants", grants, true);
+    };
+
+    /**
+     * This takes away another account's access to one of our folders.
+     */
+    revoke = (path: string, email: string) => {
+        const grants = this.myGrants.getAttribute("grants", []).filter((grant) => !(grant.path === path && grant.email === email));
+        this.myGrants.setAttribute("grants", grants, true);
+    };
+
+    /**
+     * @returns True if we're still finding out what the owner has shared with us
+     */
+    isLoadingPermission = (ownerIdentityId: string) => {
+        const index = this.getSharedIndex(ownerIdentityId);
+        const grants = this.ownerGrants.get(ownerIdentityId);
+        return index.getIsLoading() || (grants != null && grants.isLoadingFirstTime());
+    };
+
+    /**
+     * @param ownerIdentityId Whose folder we're looking at
+     * @param path The path in their folder, relative to "data/"
+     * @param email Who's asking
+     * @returns The most the owner has allowed `email` to do at `path`, or null if they haven't shared it with them
+     */
+    getPermission = (ownerIdentityId: string, path: string, email: string | null): SharePermission | null => {
+        if (email == null) return null;
+        this.getSharedIndex(ownerIdentityId);
+        const grants = this.ownerGrants.get(ownerIdentityId)?.getAttribute("grants", []) ?? [];
+        let permission: SharePermission | null = null;
+        grants.forEach((grant) => {
+            if (grant.email !== email.toLowerCase() || !isInsideFolder(path, grant.path)) return;
+            if (permission !== 'read-write') permission = grant.permission;
+        });
+        return permission;
+    };
+
+    /**
+     * @returns The folder that `email` was given access to that `path` is inside of, or null if there isn't one
+     */
+    getSharedRoot = (ownerIdentityId: string, path: string, email: string | null) => {
+        if (email == null) return null;
+        const grants = this.ownerGrants.get(ownerIdentityId)?.getAttribute("grants", []) ?? [];
+        const grant = grants.find((grant) => grant.email === email.toLowerCase() && isInsideFolder(path, grant.path));
+        return grant == null ? null : grant.path;
+    };
+
+    /**
+     * @returns The email of the person who owns a folder, if we know it, or else their identity ID
+     */
+    getOwnerLabel = (ownerIdentityId: string) => {
+        const folder = this.getSharedFolders().find((folder) => folder.ownerIdentityId === ownerIdentityId);
+        if (folder != null) return folder.ownerEmail;
+        return this.ownerGrants.get(ownerIdentityId)?.getAttribute("ownerEmail", ownerIdentityId) ?? ownerIdentityId;
+    };
+
+    /**
+     * @returns The folders other people have shared with us, that we've opened the links to
+     */
+    getSharedFolders = () => {
+        return this.sharedWithMe.getAttribute("folders", []);
+    };
+
+    /**
+     * This adds a folder to "Shared with me", if it isn't there already.
+     */
+    rememberSharedFolder = (ownerIdentityId: string, path: string) => {
+        const folders = this.getSharedFolders();
+        if (folders.some((folder) => folder.ownerIdentityId === ownerIdentityId && folder.path === path)) return;
+        const ownerEmail = this.ownerGrants.get(ownerIdentityId)?.getAttribute("ownerEmail", ownerIdentityId) ?? ownerIdentityId;
+        this.sharedWithMe.setAttribute("folders", [...folders, { ownerIdentityId, ownerEmail, path }], true);
+    };
+
+    /**
+     * This takes a folder out of "Shared with me". It doesn't change anyone's access to it.
+     */
+    forgetSharedFolder = (ownerIdentityId: string, path: string) => {
+        const folders = this.getSharedFolders().filter((folder) => !(folder.ownerIdentityId === ownerIdentityId && folder.path === path));
+        this.sharedWithMe.setAttribute("folders", folders, true);
+    };
+}
+
+export type { SharePermission, ShareGrant, SharedFolder };
+export default Sharing;
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { listFilesInFolder, VersionMismatchError } from './StorageProvider';
+import type { StorageProvider } from './StorageProvider';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import LocalDirectoryStorageProvider from './LocalDirectoryStorageProvider';
+
+let tempDirs: string[] = [];
+
+function makeTempDir() {
+    const dir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'storage-provider-test-'));
+    tempDirs.push(dir);
+    return dir;
+}
+
+afterAll(() => {
+    tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+async function readText(storage: StorageProvider, path: string) {
+    return (await storage.download(path)).text();
+}
+
+function keys(storage: StorageProvider, folder: string, limitToOneFolderLevel: boolean) {
+    return storage.list(folder, limitToOneFolderLevel).then((output) => ({ files: output.files.map((file) => file.key), folders: output.folders }));
+}
+
+test("listFilesInFolder() collapses deeper files into folders, like an S3 list with a delimiter", () => {
+    const allFiles = ["data/a.txt", "data/sub/b.txt", "data/sub/deeper/c.txt", "other.txt"].map((key) => ({ key, lastModified: new Date(0), size: 1 }));
+
+    const oneLevel = listFilesInFolder(allFiles, "data/", true);
+    expect(oneLevel.files.map((file) => file.key)).toEqual(["data/a.txt"]);
+    expect(oneLevel.folders).toEqual(["data/sub/"]);
+
+    const everything = listFilesInFolder(allFiles, "data/", false);
+    expect(everything.files.map((file) => file.key)).toEqual(["data/a.txt", "data/sub/b.txt", "data/sub/deeper/c.txt"]);
+    expect(everything.folders).toEqual([]);
+});
+
+describe.each([
+    ["InMemoryStorageProvider", () => new InMemoryStorageProvider() as StorageProvider],
+    ["LocalDirectoryStorageProvider", () => new LocalDirectoryStorageProvider(makeTempDir()) as StorageProvider]
+])("%s", (name, makeStorage) => {
+    test("downloads what was uploaded, and reports progress", async () => {
+        const storage = makeStorage();
+        let progress: number[] = [];
+        await storage.upload("data/subject/_subject.json", "{\"massKg\":60}", (p) => progress.push(p));
+
+        expect(await readText(storage, "data/subject/_subject.json")).toBe("{\"massKg\":60}");
+        expect(progress[progress.length - 1]).toBe(1.0);
+    });
+
+    test("keeps a file and a folder with the same name apart", async () => {
+        const storage = makeStorage();
+        await storage.upload("data/subject", "file", () => { });
+        await storage.upload("data/subject/_subject.json", "{}", () => { });
+        await storage.upload("data/subject/trials/", "", () => { });
+
+        expect(await readText(storage, "data/subject")).toBe("file");
+        expect(await keys(storage, "data/", true)).toEqual({ files: ["data/subject"], folders: ["data/subject/"] });
+        expect(await keys(storage, "data/subject/", false)).toEqual({ files: ["data/subject/_subject.json", "data/subject/trials/"], folders: [] });
+    });
+
+    test("copies and deletes files", async () => {
+        const storage = makeStorage();
+        await storage.upload("data/a/markers.c3d", "c3d", () => { });
+        await storage.copy("data/a/markers.c3d", "data/b/markers.c3d");
+        await storage.delete("data/a/markers.c3d");
+
+        expect(await readText(storage, "data/b/markers.c3d")).toBe("c3d");
+        expect(await keys(storage, "", false)).toEqual({ files: ["data/b/markers.c3d"], folders: [] });
+        await expect(storage.delete("data/a/markers.c3d")).rejects.toBeTruthy();
+    });
+
+    test("gives every write a new version, and missing files none", async () => {
+        const storage = makeStorage();
+        expect(await storage.getVersion("data/a.txt")).toBeNull();
+
+        await storage.upload("data/a.txt", "one", () => { });
+        const first = await storage.getVersion("data/a.txt");
+        await storage.upload("data/a.txt", "three", () => { });
+        const second = await storage.getVersion("data/a.txt");
+
+        expect(first).not.toBeNull();
+        expect(second).not.toBe(first);
+    });
+
+    test("lists nothing in a folder that doesn't exist", async () => {
+        const storage = makeStorage();
+        expect(await keys(storage, "data/missing/", true)).toEqual({ files: [], folders: [] });
+    });
+});
+
+test("InMemoryStorageProvider only writes conditionally if nobody else wrote first", async () => {
+    const storage = new InMemoryStorageProvider();
+    const version = await storage.uploadIfVersion("data/_subject.json", "{}", null);
+    await expect(storage.uploadIfVersion("data/_subject.json", "{}", null)).rejects.toBeInstanceOf(VersionMismatchError);
+
+    await storage.upload("data/_subject.json", "{\"massKg\":60}", () => { });
+    await expect(storage.uploadIfVersion("data/_subject.json", "{}", version)).rejects.toBeInstanceOf(VersionMismatchError);
+    expect(await readText(storage, "data/_subject.json")).toBe("{\"massKg\":60}");
+});
+
+test("LocalDirectoryStorageProvider mirrors folders as directories, so deep keys fit on disk", async () => {
+    const rootDir = makeTempDir();
+    const storage = new LocalDirectoryStorageProvider(rootDir);
+    // Each folder name is short, but the whole key is far longer than a file name is allowed to be
+    const deepPath = "data/" + Array.from({ length: 40 }, (_, i) => "folder_number_" + i).join("/") + "/markers.c3d";
+    await storage.upload(deepPath, "c3d", () => { });
+
+    expect(fs.existsSync(nodePath.join(rootDir, "data", "folder_number_0", "folder_number_1"))).toBeTruthy();
+    expect(await readText(storage, deepPath)).toBe("c3d");
+    expect((await keys(storage, "data/", false)).files).toEqual([deepPath]);
+});
+
+test("LocalDirectoryStorageProvider keeps odd keys inside its directory, and cleans up empty folders", async () => {
+    const rootDir = makeTempDir();
+    const storage = new LocalDirectoryStorageProvider(nodePath.join(rootDir, "store"));
+    await storage.upload("data/../../escaped.txt", "nope", () => { });
+    await storage.upload("data/with space/%odd#name.txt", "odd", () => { });
+
+    expect(fs.readdirSync(rootDir)).toEqual(["store"]);
+    expect((await keys(storage, "", false)).files).toEqual(["data/../../escaped.txt", "data/with space/%odd#name.txt"]);
+
+    await storage.delete("data/../../escaped.txt");
+    await storage.delete("data/with space/%odd#name.txt");
+    expect(fs.readdirSync(nodePath.join(rootDir, "store"))).toEqual([]);
+});
@@ -0,0 +1,171 @@
+import type { ReactiveFileMetadata } from './ReactiveS3';
+import BaseError from './BaseError';
+
+/// This is the result of listing a folder in a StorageProvider. File keys and folder paths are relative to the
+/// provider's global prefix.
+type StorageListOutput = {
+    files: ReactiveFileMetadata[];
+    folders: string[];
+};
+
+/// This describes an upload that got interrupted partway through, and can be picked up again if the user provides the
+/// same file. The path is relative to the provider's global prefix.
+type ResumableUploadInfo = {
+    path: string;
+    fileName: string;
+    fileSize: number;
+    bytesUploaded: number;
+    lastUpdated: Date;
+};
+
+/// This gets thrown by StorageProvider.uploadIfVersion() when someone else wrote to the file since we last read it
+class VersionMismatchError extends BaseError {
+    path: string;
+
+    constructor(path: string) {
+        super('"' + path + '" changed on the server since we last read it');
+        this.name = 'VersionMismatchError';
+        this.path = path;
+    }
+}
+
+/// This is the interface that ReactiveIndex uses to talk to whatever is actually storing the bytes. The default is
+/// S3 (through Amplify), but you can swap in an in-memory store or a local directory to run without AWS credentials.
+///
+/// All paths passed to a StorageProvider are relative to its global prefix (the same way paths in ReactiveIndex are).
+interface StorageProvider {
+    /**
+     * @returns The prefix that gets attached (invisibly) to every path before it hits the underlying store. This is
+     * also what gets attached to PubSub topics, so that indexes with different prefixes don't see each other's updates.
+     */
+    getGlobalPrefix(): Promise<string>;
+
+    /**
+     * This uploads a file to the store, overwriting anything that was already there.
+     *
+     * @param path the path to upload to
+     * @param contents the contents to upload
+     * @param progressCallback a callback to receive updates on upload progress, as a fraction between 0 and 1
+     * @param signal OPTIONAL: if this fires, stop uploading and reject. Providers that can resume uploads keep what
+     * they've sent so far, so that uploading the same file again picks up where this left off.
+     */
+    upload(path: string, contents: File | string, progressCallback: (percentage: number) => void, signal?: AbortSignal): Promise<void>;
+
+    /**
+     * OPTIONAL: This uploads a small file, but only if nobody has written to it since we read `expectedVersion`. The
+     * store checks this as part of the write, so there's no window where someone else's write could get lost.
+     *
+     * @param path the path to upload to
+     * @param contents the contents to upload
+     * @param expectedVersion the version we last saw (see getVersion()), or null if the file shouldn't exist yet
+     * @returns the version of the file we wrote
+     * @throws VersionMismatchError if the file's version isn't `expectedVersion`
+     */
+    uploadIfVersion?(path: string, contents: string, expectedVersion: string | null): Promise<string>;
+
+    /**
+     * This deletes a file from the store. Throws if the store reports a failure.
+     *
+     * @param path the path of the file to delete
+     */
+    delete(path: string): Promise<void>;
+
+    /**
+     * This copies a file to a new path, overwriting anything that was already there. Where possible this happens on
+     * the server, so the bytes don't have to make a round trip through the browser.
+     *
+     * @param fromPath the path of the file to copy
+     * @param toPath the path to copy it to
+     */
+    copy(fromPath: string, toPath: string): Promise<void>;
+
+    /**
+     * OPTIONAL: This copies a file from another provider into this one (like from someone's protected data into the
+     * public data), on the server if the two share a store. Without this, the bytes get downloaded and re-uploaded.
+     *
+     * @param source the provider to copy from
+     * @param fromPath the path of the file to copy, relative to `source`'s global prefix
+     * @param toPath the path to copy it to, relative to ours
+     */
+    copyFrom?(source: StorageProvider, fromPath: string, toPath: string): Promise<void>;
+
+    /**
+     * @returns A URL that someone could use to download a file
+     */
+    getSignedURL(path: string): Promise<string>;
+
+    /**
+     * This downloads the full contents of a file.
+     *
+     * @param path the path of the file to download
+     * @param progressCallback OPTIONAL: a callback to receive updates on download progress
+     */
+    download(path: string, progressCallback?: (progress: { loaded: number, total: number }) => void): Promise<Blob>;
+
+    /**
+     * This returns a token that changes every time the file is written (for S3, this is the ETag). Comparing tokens
+     * lets us tell if someone else wrote to a file since we last read it.
+     *
+     * @param path the path of the file
+     * @returns the current version of the file, or null if it doesn't exist
+     */
+    getVersion(path: string): Promise<string | null>;
+
+    /**
+     * This lists the files (and, if `limitToOneFolderLevel` is set, the immediate sub-folders) under a folder.
+     *
+     * @param folder the folder to list, which is either '' or ends with a '/'
+     * @param limitToOneFolderLevel if true, only list the immediate children, and collapse deeper paths into `folders`
+     */
+    list(folder: string, limitToOneFolderLevel: boolean): Promise<StorageListOutput>;
+
+    /**
+     * OPTIONAL: Providers that can resume interrupted uploads implement this to report them.
+     *
+     * @param folder the folder to look under, which is either '' or ends with a '/'
+     * @returns every interrupted upload under `folder`
+     */
+    listResumableUploads?(folder: string): Promise<ResumableUploadInfo[]>;
+
+    /**
+     * OPTIONAL: This throws away an interrupted upload, and any partial data it left behind.
+     *
+     * @param path the path the upload was going to
+     */
+    discardResumableUpload?(path: string): Promise<void>;
+}
+
+/**
+ * This implements the same semantics as an S3 ListObjectsV2 call with a '/' Delimiter (or no delimiter), over a
+ * simple list of keys. This is shared by the providers that don't have a real S3 bucket behind them.
+ *
+ * @param allFiles every file in the store
+ * @param folder the folder to list, which is either '' or ends with a '/'
+ * @param limitToOneFolderLevel if true, collapse anything deeper than one level into `folders`
+ */
+function listFilesInFolder(allFiles: ReactiveFileMetadata[], folder: string, limitToOneFolderLevel: boolean): StorageListOutput {
+    let files: ReactiveFileMetadata[] = [];
+    let folders: string[] = [];
+    for (let i = 0; i < allFiles.length; i++) {
+        const file = allFiles[i];
+        if (!file.key.startsWith(folder)) continue;
+
+        const remainder = file.key.substring(folder.length);
+        const slash = remainder.indexOf('/');
+        if (limitToOneFolderLevel && slash !== -1) {
+            const subFolder = folder + remainder.substring(0, slash + 1);
+            if (folders.indexOf(subFolder) === -1) {
+                folders.push(subFolder);
+            }
+        }
+        else {
+            files.push(file);
+        }
+    }
+    files.sort((a, b) => a.key.localeCompare(b.key));
+    folders.sort();
+    return { files, folders };
+}
+
+export type { StorageProvider, StorageListOutput, ResumableUploadInfo };
+export { listFilesInFolder, VersionMismatchError };
@@ -0,0 +1,90 @@
+import { runInAction } from 'mobx';
+import type MocapS3Cursor from './MocapS3Cursor';
+import SubjectDashboard from './SubjectDashboard';
+import type { TrialMetrics } from './SubjectDashboard';
+import { makeStorage, makeCursor } from './testUtils';
+
+/**
+ * @returns A dashboard that already has these trials' RMSEs loaded
+ */
+function makeDashboard(rmses: (number | null)[]) {
+    const dashboard = new SubjectDashboard({} as MocapS3Cursor);
+    runInAction(() => {
+        dashboard.trials = rmses.map((autoAvgRMSE, index): TrialMetrics => ({
+            trial: "trial" + index,
+            index,
+            autoAvgRMSE,
+            autoAvgMax: null,
+            goldAvgRMSE: null,
+            goldAvgMax: null
+        }));
+    });
+    return dashboard;
+}
+
+test("a trial far above the median, by the MAD, is an outlier", () => {
+    const dashboard = makeDashboard([0.010, 0.011, 0.012, 0.0105, 0.05, null]);
+    expect(dashboard.medianRMSE).toBeCloseTo(0.011);
+    expect(dashboard.outliers.map((outlier) => outlier.metrics.trial)).toEqual(["trial4"]);
+    expect(dashboard.outliers[0].ratioToMedian).toBeCloseTo(0.05 / 0.011);
+    expect(dashboard.isOutlier("trial4")).toBeTruthy();
+    expect(dashboard.isOutlier("trial0")).toBeFalsy();
+});
+
+test("outliers come worst first, and one bad trial can't hide another", () => {
+    const dashboard = makeDashboard([0.010, 0.011, 0.012, 0.0105, 0.010, 0.05, 0.08]);
+    expect(dashboard.outliers.map((outlier) => outlier.metrics.trial)).toEqual(["trial6", "trial5"]);
+});
+
+test("a trial only a little worse isn't an outlier, even when the rest are identical", () => {
+    // The MAD is zero here, so only the ratio to the median keeps this from being flagged
+    expect(makeDashboard([0.010, 0.010, 0.010, 0.014]).outliers).toEqual([]);
+    expect(makeDashboard([0.010, 0.010, 0.010, 0.016]).outliers.map((outlier) => outlier.metrics.trial)).toEqual(["trial3"]);
+});
+
+test("there are no outliers without enough trials to compare", () => {
+    expect(makeDashboard([0.01, 0.1]).outliers).toEqual([]);
+    expect(makeDashboard([0.01, 0.1, null, null]).outliers).toEqual([]);
+    expect(makeDashboard([]).medianRMSE).toBeNull();
+});
+
+test("load() downloads the trials a batch at a time, and keeps them in trial order", async () => {
+    let files: { [path: string]: string } = { "data/subject/_subject.json": "{}" };
+    const names: string[] = [];
+    for (let i = 0; i < 20; i++) {
+        const name = "trial" + String(i).padStart(2, "0");
+        names.push(name);
+        files["data/subject/trials/" + name + "/markers.c3d"] = "c3d";
+        files["data/subject/trials/" + name + "/_results.json"] = JSON.stringify({ autoAvgRMSE: 0.01 + i / 1000, autoAvgMax: 0.02 });
+    }
+    // One trial that hasn't been processed yet
+    files["data/subject/trials/unprocessed/markers.c3d"] = "c3d";
+    const storage = makeStorage(files);
+    const cursor = await makeCursor(storage, "/my_data/subject");
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const download = storage.download;
+    storage.download = (path, progressCallback) => {
+        // The cursor loads the subject's own files too, which aren't part of this
+        if (!path.startsWith("data/subject/trials/")) return download(path, progressCallback);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later trials finish first
+        return new Promise((resolve) => setTimeout(resolve, 40 - names.findIndex((name) => path.includes(name)))).then(() => {
+            inFlight--;
+            return download(path, progressCallback);
+        });
+    };
+
+    const dashboard = new SubjectDashboard(cursor);
+    await dashboard.load();
+
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(maxInFlight).toBeLessThanOrEqual(8);
+    expect(dashboard.trials.map((metrics) => metrics.trial)).toEqual(names);
+    expect(dashboard.trials[3].autoAvgRMSE).toBeCloseTo(0.013);
+    expect(dashboard.trials[3].goldAvgRMSE).toBeNull();
+    expect(dashboard.error).toBeNull();
+    expect(dashboard.loading).toBeFalsy();
+});
@@ -0,0 +1,163 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import type MocapS3Cursor from './MocapS3Cursor';
+import { forEachInBatches, asNumber } from '../utils';
+
+/// We download this many trials' "_results.json" at a time, so a subject with hundreds of trials doesn't flood the
+/// browser with requests
+const DOWNLOAD_BATCH_SIZE = 8;
+
+/// A trial is an outlier if its RMSE is this many (scaled) median absolute deviations above the median trial
+const OUTLIER_MAD_THRESHOLD = 3.5;
+/// ...and also at least this many times the median, so a subject whose trials are all very close together doesn't
+/// flag a trial that's only a little worse
+const OUTLIER_MIN_RATIO = 1.5;
+/// We need at least this many trials before "worse than the rest" means anything
+const OUTLIER_MIN_TRIALS = 3;
+
+/// These are the errors from one trial's "_results.json", in meters
+type TrialMetrics = {
+    trial: string;
+    // The index of the trial in MocapS3Cursor.getTrials(), which is how MocapTrialModal finds it
+    index: number;
+    autoAvgRMSE: number | null;
+    autoAvgMax: number | null;
+    // These are null unless the trial has hand-fit IK (manual_ik.mot) to compare against
+    goldAvgRMSE: number | null;
+    goldAvgMax: number | null;
+};
+
+/// An outlier trial, and how far it is from the rest of the subject
+type TrialOutlier = {
+    metrics: TrialMetrics;
+    // The trial's RMSE divided by the median trial's RMSE
+    ratioToMedian: number;
+};
+
+/**
+ * @returns The median of a non-empty list
+ */
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/// This loads the "_results.json" of every trial in a processed subject, so they can all be charted side by side, and
+/// picks out the trials that fit much worse than the rest. Those are usually a trial with mislabeled or swapped
+/// markers, which is easy to miss when you have to open each trial to see its error.
+class SubjectDashboard {
+    cursor: MocapS3Cursor;
+    trials: TrialMetrics[];
+    loading: boolean;
+    error: string | null;
+    // The subject (and version of its results) we loaded, so we don't reload it every time the dashboard is shown
+    loadedPath: string | null;
+
+    constructor(cursor: MocapS3Cursor) {
+        this.cursor = cursor;
+        this.trials = [];
+        this.loading = false;
+        this.error = null;
+        this.loadedPath = null;
+
+        makeObservable(this, {
+            trials: observable.ref,
+            loading: observable,
+            error: observable,
+            outliers: computed,
+            hasGold: computed,
+            medianRMSE: computed
+        });
+    }
+
+    /**
+     * This downloads the results of every trial in the subject the cursor is on. If we've already loaded this subject,
+     * this does nothing unless `force` is set.
+     */
+    load = action((force: boolean = false) => {
+        // Reprocessing rewrites the subject's "_results.json", so its timestamp tells us when our copy is stale
+        const resultsMetadata = this.cursor.rawCursor.getChildMetadata("_results.json");
+        const path = this.cursor.rawCursor.index.globalPrefix + this.cursor.rawCursor.path + ":" + (resultsMetadata?.lastModified.getTime() ?? 0);
+        if (!force && this.loadedPath === path) return Promise.resolve();
+        this.loading = true;
+        this.loadedPath = path;
+
+        const trials = this.cursor.getTrials();
+        let failed: string[] = [];
+        // In the same order as the trials, whichever order they finish downloading in
+        let loaded: (TrialMetrics | null)[] = trials.map(() => null);
+        return forEachInBatches(trials, DOWNLOAD_BATCH_SIZE, (trial, index) => {
+            if (!this.cursor.rawCursor.getExists("trials/" + trial.key + "/_results.json")) {
+                return Promise.resolve();
+            }
+            const hasGold = this.cursor.rawCursor.getExists("trials/" + trial.key + "/manual_ik.mot");
+            return this.cursor.getTrialResultsFileText(trial.key).then((text: string) => {
+                const results = JSON.parse(text);
+                loaded[index] = {
+                    trial: trial.key,
+                    index,
+                    autoAvgRMSE: asNumber(results.autoAvgRMSE),
+                    autoAvgMax: asNumber(results.autoAvgMax),
+                    goldAvgRMSE: hasGold ? asNumber(results.goldAvgRMSE) : null,
+                    goldAvgMax: hasGold ? asNumber(results.goldAvgMax) : null
+                };
+            }).catch((e: any) => {
+                console.warn("Unable to load the results of trial \"" + trial.key + "\"", e);
+                // Don't keep the failure cached, so loading again retries it
+                this.cursor.cachedTrialResultsFiles.delete(trial.key);
+                failed.push(trial.key);
+            });
+        }).then(action(() => {
+            // Don't clobber a newer subject, if the user navigated away while we were downloading
+            if (this.loadedPath !== path) return;
+            this.trials = loaded.filter((metrics): metrics is TrialMetrics => metrics != null);
+            this.error = failed.length > 0 ? "We couldn't load the results of " + failed.join(", ") : null;
+            this.loading = false;
+        }));
+    });
+
+    /**
+     * @returns The median RMSE across trials, or null if there aren't any results
+     */
+    get medianRMSE() {
+        const values = this.trials.map((metrics) => metrics.autoAvgRMSE).filter((value): value is number => value != null);
+        return values.length > 0 ? median(values) : null;
+    }
+
+    /**
+     * @returns True if any trial has hand-fit IK to compare against
+     */
+    get hasGold() {
+        return this.trials.some((metrics) => metrics.goldAvgRMSE != null);
+    }
+
+    /**
+     * @returns The trials whose RMSE is far above the rest of the subject's, worst first. This uses the median
+     * absolute deviation, rather than the standard deviation, so one really bad trial can't hide itself by dragging the
+     * spread up.
+     */
+    get outliers(): TrialOutlier[] {
+        const withRMSE = this.trials.filter((metrics) => metrics.autoAvgRMSE != null);
+        const medianRMSE = this.medianRMSE;
+        if (withRMSE.length < OUTLIER_MIN_TRIALS || medianRMSE == null || medianRMSE <= 0) return [];
+        // 1.4826 scales the MAD to match the standard deviation on normally distributed data
+        const mad = 1.4826 * median(withRMSE.map((metrics) => Math.abs((metrics.autoAvgRMSE as number) - medianRMSE)));
+        return withRMSE.filter((metrics) => {
+            const rmse = metrics.autoAvgRMSE as number;
+            return rmse >= medianRMSE * OUTLIER_MIN_RATIO && rmse - medianRMSE > OUTLIER_MAD_THRESHOLD * mad;
+        }).map((metrics) => ({
+            metrics,
+            ratioToMedian: (metrics.autoAvgRMSE as number) / medianRMSE
+        })).sort((a, b) => b.ratioToMedian - a.ratioToMedian);
+    }
+
+    /**
+     * @returns True if `trial` is one of the outliers
+     */
+    isOutlier = (trial: string) => {
+        return this.outliers.some((outlier) => outlier.metrics.trial === trial);
+    };
+}
+
+export type { TrialMetrics, TrialOutlier };
+export default SubjectDashboard;
@@ -0,0 +1,68 @@
+import { parseTRC, getTRCErrors, TRCParseError } from './TRC';
+
+/**
+ * @returns The text of a *.trc file, with a header that says it has `numFrames` frames of `markers`, and `rows` as
+ * the data (each row being the time, then X, Y, Z for each marker)
+ */
+function makeTRC(markers: string[], rows: string[][], numFrames: number = rows.length, numMarkers: number = markers.length, units: string = "mm") {
+    return [
+        "PathFileType\t4\t(X/Y/Z)\twalk.trc",
+        "DataRate\tCameraRate\tNumFrames\tNumMarkers\tUnits\tOrigDataRate\tOrigDataStartFrame\tOrigNumFrames",
+        ["100", "100", numFrames, numMarkers, units, "100", "1", numFrames].join("\t"),
+        ["Frame#", "Time", ...markers.map((marker) => marker + "\t\t")].join("\t"),
+        ["", "", ...markers.map((_, i) => "X" + (i + 1) + "\tY" + (i + 1) + "\tZ" + (i + 1))].join("\t"),
+        ...rows.map((row, i) => [i + 1, ...row].join("\t"))
+    ].join("\n");
+}
+
+const ROWS = [
+    ["0.00", "100", "20", "950", "-100", "20", "950"],
+    ["0.01", "101", "20", "951", "NaN", "NaN", "NaN"],
+    ["0.02", "102", "20", "952", "", "", ""],
+    ["0.03", "103", "20", "953", "-103", "20", "953"]
+];
+
+test("reads a *.trc file whose header matches its data", () => {
+    const trc = parseTRC(makeTRC(["RASI", "LASI"], ROWS));
+
+    expect(trc.markers).toEqual(["RASI", "LASI"]);
+    expect(trc.dataRate).toBe(100);
+    expect(trc.framesRead).toBe(4);
+    expect(trc.startTime).toBe(0);
+    expect(trc.endTime).toBe(0.03);
+    expect(getTRCErrors(trc)).toEqual([]);
+});
+
+test("counts the frames a marker is missing from, whether they're NaN or blank", () => {
+    const trc = parseTRC(makeTRC(["RASI", "LASI"], ROWS));
+
+    expect(trc.missingFrames).toEqual([0, 2]);
+});
+
+test("complains when the header doesn't match the data", () => {
+    const trc = parseTRC(makeTRC(["RASI", "LASI"], ROWS, 10, 3, "inches"));
+
+    expect(getTRCErrors(trc)).toEqual([
+        "The header says the units are \"inches\", but they should be mm, cm or m.",
+        "The header says there are 3 markers, but there are 2 marker names.",
+        "The header says there are 10 frames, but there are 4 rows of data."
+    ]);
+});
+
+test("complains when time goes backwards, or doesn't match the DataRate", () => {
+    const backwards = parseTRC(makeTRC(["RASI"], [["0.00", "1", "2", "3"], ["0.02", "1", "2", "3"], ["0.01", "1", "2", "3"]]));
+    expect(getTRCErrors(backwards)).toEqual(["Time goes backwards on line 8 (from 0.02 to 0.01). Times need to be strictly increasing."]);
+
+    const slow = parseTRC(makeTRC(["RASI"], [["0.0", "1", "2", "3"], ["0.1", "1", "2", "3"], ["0.2", "1", "2", "3"]]));
+    expect(getTRCErrors(slow)).toEqual(["The header says the DataRate is 100 Hz, but the times in the file are 10.0 Hz apart."]);
+});
+
+test("complains when none of the markers are ever visible", () => {
+    const trc = parseTRC(makeTRC(["RASI"], [["0.00", "NaN", "NaN", "NaN"], ["0.01", "", "", ""]]));
+
+    expect(getTRCErrors(trc)).toEqual(["None of the markers in this file are ever visible."]);
+});
+
+test("rejects files that aren't *.trc files", () => {
+    expect(() => parseTRC("time\tknee_angle_r\n0\t1")).toThrow(TRCParseError);
+});
@@ -0,0 +1,185 @@
+import { describeProblems, validateMOTFile } from './MOT';
+import BaseError from './BaseError';
+
+/// The marker units OpenSim knows how to convert to meters
+const KNOWN_UNITS = ['mm', 'cm', 'm'];
+
+/// We complain if the times in the file are further than this fraction off the DataRate in the header
+const RATE_TOLERANCE = 0.05;
+
+/// This gets thrown when a file's header is so broken that we can't read its data at all
+class TRCParseError extends BaseError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TRCParseError';
+    }
+}
+
+/// This is everything we read out of a *.trc file
+type TRCFile = {
+    dataRate: number;
+    // The number of frames and markers the header claims, which we check against the data
+    numFrames: number;
+    numMarkers: number;
+    units: string;
+    markers: string[];
+    framesRead: number;
+    startTime: number;
+    endTime: number;
+    // The number of frames each marker is missing from, in the same order as markers
+    missingFrames: number[];
+    // Problems we found while reading the header and the data rows
+    problems: string[];
+};
+
+/**
+ * This reads a *.trc file, checking that the header matches the data, that the units make sense and that time only
+ * goes forwards.
+ */
+function parseTRC(text: string): TRCFile {
+    const lines = text.split(/\r?\n/);
+    if (!lines[0].startsWith("PathFileType")) {
+        throw new TRCParseError("Malformed *.trc file! The first line should start with \"PathFileType\", but it starts with \"" + lines[0].substring(0, 20) + "\"");
+    }
+    if (lines.length < 5) {
+        throw new TRCParseError("Malformed *.trc file! The file ends before the marker names");
+    }
+
+    // The second line names the header values, and the third line has them
+    const keys = lines[1].split('\t').map((key) => key.trim());
+    const values = lines[2].split('\t').map((value) => value.trim());
+    const getHeader = (key: string) => {
+        const index = keys.indexOf(key);
+        if (index === -1 || index >= values.length) {
+            throw new TRCParseError("Malformed *.trc file! The header doesn't have a \"" + key + "\" value on the third line");
+        }
+        return values[index];
+    };
+    const dataRate = parseFloat(getHeader("DataRate"));
+    const numFrames = parseInt(getHeader("NumFrames"));
+    const numMarkers = parseInt(getHeader("NumMarkers"));
+    const units = getHeader("Units");
+
+    let problems: string[] = [];
+    if (!(dataRate > 0)) {
+        problems.push("The header has an invalid DataRate (" + getHeader("DataRate") + ").");
+    }
+    if (!KNOWN_UNITS.includes(units.toLowerCase())) {
+        problems.push("The header says the units are \"" + units + "\", but they should be mm, cm or m.");
+    }
+
+    // The fourth line is "Frame#", "Time", then each marker name followed by two blank columns for its Y and Z
+    const markers = lines[3].split('\t').slice(2).map((marker) => marker.trim()).filter((marker) => marker !== '');
+    if (markers.length !== numMarkers) {
+        problems.push("The header says there are " + numMarkers + " markers, but there are " + markers.length + " marker names.");
+    }
+    const duplicates = markers.filter((marker, i) => markers.indexOf(marker) !== i);
+    if (duplicates.length > 0) {
+        problems.push("These marker names appear more than once: " + Array.from(new Set(duplicates)).join(", "));
+    }
+
+    // The fifth line is "X1", "Y1", "Z1", ..., and the data comes after it
+    const numColumns = 2 + 3 * markers.length;
+    let framesRead = 0;
+    let startTime = NaN;
+    let lastTime = NaN;
+    let badColumnCount: string | null = null;
+    let badTime: string | null = null;
+    let missingFrames: number[] = new Array(markers.length).fill(0);
+    for (let i = 5; i < lines.length; i++) {
+        if (lines[i].trim() === '') continue;
+        // Lines are numbered from 1, like a text editor would
+        const lineNumber = i + 1;
+        let fields = lines[i].split('\t');
+        // Some tools pad the end of every row with extra tabs
+        while (fields.length > numColumns && fields[fields.length - 1].trim() === '') fields.pop();
+        framesRead++;
+        if (fields.length !== numColumns && badColumnCount == null) {
+            badColumnCount = "Line " + lineNumber + " has " + fields.length + " columns, but " + markers.length + " markers need " + numColumns + " (frame, time, and X, Y, Z for each marker).";
+        }
+
+        const time = parseFloat(fields[1]);
+        if (isNaN(time)) {
+            if (badTime == null) badTime = "The time on line " + lineNumber + " isn't a number.";
+        }
+        else {
+            if (isNaN(lastTime)) startTime = time;
+            else if (!(time > lastTime) && badTime == null) {
+                badTime = "Time " + (time === lastTime ? "repeats" : "goes backwards") + " on line " + lineNumber + " (from " + lastTime + " to " + time + "). Times need to be strictly increasing.";
+            }
+            lastTime = time;
+        }
+
+        // Markers that dropped out of a frame are left blank, or written as NaN
+        for (let m = 0; m < markers.length; m++) {
+            const offset = 2 + 3 * m;
+            if (offset + 2 >= fields.length || isNaN(parseFloat(fields[offset])) || isNaN(parseFloat(fields[offset + 1])) || isNaN(parseFloat(fields[offset + 2]))) {
+                missingFrames[m]++;
+            }
+        }
+    }
+
+    if (framesRead === 0) {
+        problems.push("There isn't any marker data after the header.");
+    }
+    else if (framesRead !== numFrames) {
+        problems.push("The header says there are " + numFrames + " frames, but there are " + framesRead + " rows of data.");
+    }
+    if (badColumnCount != null) problems.push(badColumnCount);
+    if (badTime != null) problems.push(badTime);
+    if (badTime == null && framesRead > 1 && dataRate > 0) {
+        const actualRate = (framesRead - 1) / (lastTime - startTime);
+        if (Math.abs(actualRate - dataRate) > dataRate * RATE_TOLERANCE) {
+            problems.push("The header says the DataRate is " + dataRate + " Hz, but the times in the file are " + actualRate.toFixed(1) + " Hz apart.");
+        }
+    }
+
+    return {
+        dataRate,
+        numFrames,
+        numMarkers,
+        units,
+        markers,
+        framesRead,
+        startTime,
+        endTime: lastTime,
+        missingFrames,
+        problems
+    };
+}
+
+/**
+ * @returns Every reason the server won't be able to process this file, or [] if it looks usable
+ */
+function getTRCErrors(trc: TRCFile): string[] {
+    let errors = [...trc.problems];
+    if (trc.markers.length === 0) {
+        errors.push("There aren't any markers in this file.");
+    }
+    else if (trc.framesRead > 0 && trc.missingFrames.every((missing) => missing >= trc.framesRead)) {
+        errors.push("None of the markers in this file are ever visible.");
+    }
+    return errors;
+}
+
+/**
+ * This is a DropFile validateFile hook for marker files. The marker slot also takes *.sto files, which we check as
+ * OpenSim storage files instead.
+ *
+ * @returns A description of everything wrong with the file, or null if it looks usable
+ */
+function validateTRCFile(file: File): Promise<string | null> {
+    if (file.name.toLowerCase().endsWith(".sto")) {
+        return validateMOTFile(file);
+    }
+    return file.text().then((text: string) => {
+        return describeProblems(getTRCErrors(parseTRC(text)));
+    }).catch((e: any) => {
+        if (e instanceof TRCParseError) return e.message;
+        console.error("Error reading \"" + file.name + "\" as a *.trc file", e);
+        return "We couldn't read this file as a *.trc file.";
+    });
+}
+
+export type { TRCFile };
+export { TRCParseError, parseTRC, getTRCErrors, validateTRCFile };
@@ -0,0 +1,140 @@
+import { ReactiveIndex } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import Trash, { groupTrashItems, moveToTrash, restoreFromTrash, getTrashPath, getVersionPath, TRASH_PREFIX, VERSIONS_PREFIX } from './Trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeStorage(files: { [path: string]: string }) {
+    const storage = new InMemoryStorageProvider();
+    Object.keys(files).forEach((path) => storage.upload(path, files[path], () => { }));
+    return storage;
+}
+
+async function makeIndex(storage: InMemoryStorageProvider) {
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, new InProcessMqtt('TEST', new InProcessBroker()), storage);
+    index.localCacheEnabled = false;
+    await index.fullRefresh();
+    await index.setupPubsub();
+    return index;
+}
+
+function readText(storage: InMemoryStorageProvider, path: string) {
+    return storage.download(path).then((blob) => blob.text());
+}
+
+const TRIAL = {
+    "data/subject/trials/walk/markers.c3d": "c3d",
+    "data/subject/trials/walk/grf.mot": "forces",
+    "data/subject/_subject.json": "{}"
+};
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test("groupTrashItems() groups files by the delete that trashed them, newest first", () => {
+    const file = (key: string, size: number) => ({ key, lastModified: new Date(), size });
+    const items = groupTrashItems([
+        file(getTrashPath("1000", "data/subject/trials/walk/markers.c3d"), 10),
+        file(getTrashPath("1000", "data/subject/trials/walk/grf.mot"), 5),
+        file(getTrashPath("2000", "data/other/_subject.json"), 2),
+        file(getVersionPath("3000", "data/subject/_subject.json"), 1)
+    ], TRASH_PREFIX);
+
+    expect(items.map((item) => item.stamp)).toEqual(["2000", "1000"]);
+    expect(items[1].root).toBe("data/subject/trials/walk");
+    expect(items[1].size).toBe(15);
+    expect(items[1].deletedAt.getTime()).toBe(1000);
+    expect(items[1].files.map((file) => file.originalPath).sort()).toEqual(["data/subject/trials/walk/grf.mot", "data/subject/trials/walk/markers.c3d"]);
+    // A single file is its own root
+    expect(items[0].root).toBe("data/other/_subject.json");
+});
+
+test("groupTrashItems() keeps overwritten versions apart from deleted items", () => {
+    const files = [
+        { key: getTrashPath("1000", "data/a.txt"), lastModified: new Date(), size: 1 },
+        { key: getVersionPath("2000", "data/b.txt"), lastModified: new Date(), size: 1 }
+    ];
+    expect(groupTrashItems(files, TRASH_PREFIX).map((item) => item.root)).toEqual(["data/a.txt"]);
+    expect(groupTrashItems(files, VERSIONS_PREFIX).map((item) => item.root)).toEqual(["data/b.txt"]);
+});
+
+test("moveToTrash() moves files under the stamp, and restoreFromTrash() puts them back", async () => {
+    const storage = makeStorage(TRIAL);
+    const index = await makeIndex(storage);
+    const paths = ["data/subject/trials/walk/markers.c3d", "data/subject/trials/walk/grf.mot"];
+
+    const trashed = await moveToTrash(index, paths, "1000");
+
+    expect(storage.objects.has("data/subject/trials/walk/markers.c3d")).toBeFalsy();
+    expect(await readText(storage, "trash/1000/data/subject/trials/walk/markers.c3d")).toBe("c3d");
+    expect(trashed.map((file) => file.trashPath)).toEqual(paths.map((path) => getTrashPath("1000", path)));
+    // The index doesn't show anything in the trash
+    expect(index.getMetadata("trash/1000/data/subject/trials/walk/markers.c3d")).toBeNull();
+
+    await restoreFromTrash(index, trashed);
+
+    expect(await readText(storage, "data/subject/trials/walk/markers.c3d")).toBe("c3d");
+    expect(await readText(storage, "data/subject/trials/walk/grf.mot")).toBe("forces");
+    expect([...storage.objects.keys()].filter((key) => key.startsWith(TRASH_PREFIX))).toEqual([]);
+});
+
+test("moveToTrash() doesn't delete anything if a copy fails", async () => {
+    const storage = makeStorage(TRIAL);
+    const index = await makeIndex(storage);
+
+    await expect(moveToTrash(index, ["data/subject/trials/walk/markers.c3d", "data/subject/trials/walk/missing.c3d"], "1000")).rejects.toThrow();
+
+    expect(storage.objects.has("data/subject/trials/walk/markers.c3d")).toBeTruthy();
+});
+
+test("trash, restore, and purge after the retention period", async () => {
+    const storage = makeStorage(TRIAL);
+    const index = await makeIndex(storage);
+    const trash = new Trash(index, 30);
+    expect(index.hasTrash).toBeTruthy();
+
+    // One delete from long ago, and one from yesterday
+    const old = String(Date.now() - 40 * DAY);
+    const recent = String(Date.now() - DAY);
+    await moveToTrash(index, ["data/subject/trials/walk/markers.c3d", "data/subject/trials/walk/grf.mot"], old);
+    await moveToTrash(index, ["data/subject/_subject.json"], recent);
+    await trash.refresh();
+    expect(trash.items.map((item) => item.stamp)).toEqual([recent, old]);
+    expect(trash.items[1].root).toBe("data/subject/trials/walk");
+
+    // Restoring takes the item out of the trash
+    await trash.restore(trash.items[0]);
+    expect(await readText(storage, "data/subject/_subject.json")).toBe("{}");
+    expect(trash.items.map((item) => item.stamp)).toEqual([old]);
+
+    // Deleting it again, and snapshotting an old version, then purging only removes what's past 30 days
+    await moveToTrash(index, ["data/subject/_subject.json"], recent);
+    storage.upload(getVersionPath(old, "data/subject/unscaled_generic.osim"), "old osim", () => { });
+    storage.upload(getVersionPath(recent, "data/subject/unscaled_generic.osim"), "newer osim", () => { });
+    await trash.purgeExpired();
+
+    expect([...storage.objects.keys()].sort()).toEqual([
+        getTrashPath(recent, "data/subject/_subject.json"),
+        getVersionPath(recent, "data/subject/unscaled_generic.osim")
+    ].sort());
+    expect(trash.items.map((item) => item.stamp)).toEqual([recent]);
+    expect(trash.versions.map((item) => item.stamp)).toEqual([recent]);
+});
+
+test("wouldOverwrite() notices files created since the delete", async () => {
+    const storage = makeStorage(TRIAL);
+    const index = await makeIndex(storage);
+    const trash = new Trash(index);
+    await moveToTrash(index, ["data/subject/trials/walk/markers.c3d"], "1000");
+    await trash.refresh();
+    expect(trash.wouldOverwrite(trash.items[0])).toBeFalsy();
+
+    await index.upload("data/subject/trials/walk/markers.c3d", "new c3d");
+    expect(trash.wouldOverwrite(trash.items[0])).toBeTruthy();
+});
@@ -0,0 +1,231 @@
+import { makeObservable, observable, action } from 'mobx';
+import type { ReactiveIndex, ReactiveFileMetadata } from './ReactiveS3';
+
+/// Deleting a file moves it to TRASH_PREFIX + a timestamp + its original path, in the same index (which, for "My
+/// Data", is already specific to the user). It's a sibling of "data/", so it never shows up while browsing, and
+/// ReactiveIndex ignores it entirely.
+const TRASH_PREFIX = 'trash/';
+
+/// Before a file gets overwritten, we snapshot the old copy under here, so the overwrite can be undone. These aren't
+/// deleted items, so they don't show up in the Trash view, but they get purged on the same schedule.
+const VERSIONS_PREFIX = TRASH_PREFIX + 'versions/';
+
+/// This is one file in the trash
+type TrashedFile = {
+    // Where the file is now, in the index
+    trashPath: string;
+    // Where the file was before it got deleted
+    originalPath: string;
+    size: number;
+};
+
+/// This is everything that got deleted in a single operation (like a whole trial folder), which gets restored or
+/// purged together
+type TrashItem = {
+    stamp: string;
+    deletedAt: Date;
+    // The folder (or file) that was deleted, which is the deepest path that all the files share
+    root: string;
+    files: TrashedFile[];
+    size: number;
+};
+
+/**
+ * @returns A new timestamp to group trashed files under
+ */
+function makeTrashStamp() {
+    return String(Date.now());
+}
+
+/**
+ * @returns The path that `path` gets moved to when it's deleted at `stamp`
+ */
+function getTrashPath(stamp: string, path: string) {
+    return TRASH_PREFIX + stamp + '/' + path;
+}
+
+/**
+ * @returns The path that the old copy of `path` gets snapshotted to when it's overwritten at `stamp`
+ */
+function getVersionPath(stamp: string, path: string) {
+    return VERSIONS_PREFIX + stamp + '/' + path;
+}
+
+/**
+ * @returns True if `path` is somewhere in the trash (including overwritten versions)
+ */
+function isTrashPath(path: string) {
+    return path.startsWith(TRASH_PREFIX);
+}
+
+/**
+ * @returns The deepest folder (or file) that every one of `paths` is inside of
+ */
+function getCommonRoot(paths: string[]) {
+    if (paths.length === 0) return '';
+    let common = paths[0].split('/');
+    for (let i = 1; i < paths.length; i++) {
+        const parts = paths[i].split('/');
+        let shared = 0;
+        while (shared < common.length && shared < parts.length && common[shared] === parts[shared]) shared++;
+        common = common.slice(0, shared);
+    }
+    return common.join('/');
+}
+
+/**
+ * This groups a listing of the trash by the operation that put each file there.
+ *
+ * @param files The files under `prefix`
+ * @param prefix Either TRASH_PREFIX or VERSIONS_PREFIX
+ */
+function groupTrashItems(files: ReactiveFileMetadata[], prefix: string): TrashItem[] {
+    let byStamp: Map<string, TrashedFile[]> = new Map();
+    files.forEach((file: ReactiveFileMetadata) => {
+        if (!file.key.startsWith(prefix)) return;
+        const remainder = file.key.substring(prefix.length);
+        const slash = remainder.indexOf('/');
+        const stamp = remainder.substring(0, slash);
+        // This skips the versions folder, when we're grouping the trash itself
+        if (slash === -1 || !/^[0-9]+$/.test(stamp)) return;
+        if (!byStamp.has(stamp)) byStamp.set(stamp, []);
+        byStamp.get(stamp)?.push({
+            trashPath: file.key,
+            originalPath: remainder.substring(slash + 1),
+            size: file.size
+        });
+    });
+
+    let items: TrashItem[] = [];
+    byStamp.forEach((trashedFiles: TrashedFile[], stamp: string) => {
+        items.push({
+            stamp,
+            deletedAt: new Date(parseInt(stamp)),
+            root: getCommonRoot(trashedFiles.map((file) => file.originalPath)),
+            files: trashedFiles,
+            size: trashedFiles.reduce((total, file) => total + file.size, 0)
+        });
+    });
+    // Most recently deleted first
+    items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+    return items;
+}
+
+/**
+ * This moves some files into the trash. Each one is copied first, and only deleted once every copy has succeeded, so
+ * a failure partway through never loses anything.
+ *
+ * @param index The index the files are in
+ * @param paths The files to move, which must exist in the index
+ * @param stamp The timestamp to file them under
+ * @returns The files, as they now are in the trash
+ */
+function moveToTrash(index: ReactiveIndex, paths: string[], stamp: string): Promise<TrashedFile[]> {
+    const trashed: TrashedFile[] = paths.map((path) => ({
+        trashPath: getTrashPath(stamp, path),
+        originalPath: path,
+        size: index.getMetadata(path)?.size ?? 0
+    }));
+    return Promise.all(trashed.map((file) => index.copy(file.originalPath, file.trashPath, file.size))).then(() => {
+        return Promise.all(trashed.map((file) => index.delete(file.originalPath)));
+    }).then(() => trashed);
+}
+
+/**
+ * This moves files out of the trash, back to where they were deleted from, overwriting anything that's there now.
+ */
+function restoreFromTrash(index: ReactiveIndex, files: TrashedFile[]): Promise<void> {
+    return Promise.all(files.map((file) => index.copy(file.trashPath, file.originalPath, file.size))).then(() => {
+        return Promise.all(files.map((file) => index.delete(file.trashPath)));
+    }).then(() => { });
+}
+
+/// This is the list of deleted items for one index, for the Trash view. It's loaded on demand (the index itself
+/// ignores the trash), and can restore items to where they came from, or purge them for good.
+class Trash {
+    index: ReactiveIndex;
+    // Items (and overwritten versions) older than this get purged by purgeExpired()
+    retentionDays: number;
+    items: TrashItem[];
+    versions: TrashItem[];
+    loading: boolean;
+    error: string | null;
+
+    constructor(index: ReactiveIndex, retentionDays: number = 30) {
+        this.index = index;
+        // This lets the journal know that the versions it snapshots into this index will get purged
+        index.hasTrash = true;
+        this.retentionDays = retentionDays;
+        this.items = [];
+        this.versions = [];
+        this.loading = false;
+        this.error = null;
+
+        makeObservable(this, {
+            items: observable,
+            retentionDays: observable,
+            loading: observable,
+            error: observable
+        });
+    }
+
+    setRetentionDays = action((retentionDays: number) => {
+        this.retentionDays = retentionDays;
+    });
+
+    /**
+     * This re-lists the trash from the server
+     */
+    refresh = action(() => {
+        this.loading = true;
+        return this.index.listTrash().then(action((files: ReactiveFileMetadata[]) => {
+            this.items = groupTrashItems(files, TRASH_PREFIX);
+            this.versions = groupTrashItems(files, VERSIONS_PREFIX);
+            this.error = null;
+        })).catch(action((e: any) => {
+            console.error("Error listing the trash", e);
+            this.error = "We got an error trying to load the trash!";
+            throw e;
+        })).finally(action(() => {
+            this.loading = false;
+        }));
+    });
+
+    /**
+     * @returns True if restoring `item` would overwrite files that have been created since it was deleted
+     */
+    wouldOverwrite = (item: TrashItem) => {
+        return item.files.some((file) => this.index.getMetadata(file.originalPath) != null);
+    };
+
+    /**
+     * This puts everything in `item` back where it was deleted from
+     */
+    restore = (item: TrashItem) => {
+        return restoreFromTrash(this.index, item.files).then(this.refresh);
+    };
+
+    /**
+     * This permanently deletes everything in `item`
+     */
+    purge = (item: TrashItem) => {
+        return Promise.all(item.files.map((file) => this.index.delete(file.trashPath))).then(this.refresh);
+    };
+
+    /**
+     * This permanently deletes everything that was put in the trash (or overwritten) more than `retentionDays` ago
+     */
+    purgeExpired = () => {
+        return this.refresh().then(() => {
+            const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+            const expired = [...this.items, ...this.versions].filter((item) => item.deletedAt.getTime() < cutoff);
+            if (expired.length === 0) return;
+            console.log("Purging " + expired.length + " item(s) from the trash that are older than " + this.retentionDays + " days");
+            return Promise.all(expired.map((item) => Promise.all(item.files.map((file) => this.index.delete(file.trashPath))))).then(this.refresh);
+        });
+    };
+}
+
+export type { TrashedFile, TrashItem };
+export { TRASH_PREFIX, VERSIONS_PREFIX, makeTrashStamp, getTrashPath, getVersionPath, isTrashPath, groupTrashItems, moveToTrash, restoreFromTrash };
+export default Trash;
@@ -0,0 +1,159 @@
+import { ReactiveIndex, ReactiveCursor } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import type { StorageProvider } from './StorageProvider';
+import InProcessMqtt from './InProcessMqtt';
+import UploadQueue from './UploadQueue';
+
+/// One call to StorageProvider.upload() that the test decides when to finish
+type HeldUpload = {
+    path: string;
+    signal?: AbortSignal;
+    finish: () => void;
+    fail: (e: Error) => void;
+};
+
+function tick() {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * @returns A cursor onto an in-memory index whose uploads don't finish until the test says so, and a record of them
+ */
+async function makeHeldCursor() {
+    const storage = new InMemoryStorageProvider();
+    const upload = storage.upload;
+    const held: HeldUpload[] = [];
+    let active = 0;
+    const stats = { maxActive: 0 };
+    storage.upload = (path: string, contents: File | string, progressCallback: (percentage: number) => void, signal?: AbortSignal) => {
+        active++;
+        stats.maxActive = Math.max(stats.maxActive, active);
+        return new Promise<void>((resolve, reject) => {
+            held.push({
+                path,
+                signal,
+                finish: () => upload(path, contents, progressCallback).then(resolve),
+                fail: reject
+            });
+        }).finally(() => {
+            active--;
+        });
+    };
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, new InProcessMqtt('TEST'), storage);
+    index.localCacheEnabled = false;
+    await index.fullRefresh();
+    await index.setupPubsub();
+    return { cursor: new ReactiveCursor(index, "data/subject"), storage, held, stats };
+}
+
+function makeFile(name: string) {
+    return new File(["contents of " + name], name);
+}
+
+test("only runs a few uploads at once", async () => {
+    const { cursor, storage, held, stats } = await makeHeldCursor();
+    const queue = new UploadQueue(2);
+
+    const done = ["a.c3d", "b.c3d", "c.c3d"].map((name) => queue.enqueue(cursor, "trials/" + name, makeFile(name)));
+    await tick();
+    expect(held.map((upload) => upload.path)).toEqual(["data/subject/trials/a.c3d", "data/subject/trials/b.c3d"]);
+
+    held[0].finish();
+    await tick();
+    expect(held.length).toBe(3);
+
+    held[1].finish();
+    held[2].finish();
+    await Promise.all(done);
+    expect(stats.maxActive).toBe(2);
+    expect(storage.objects.has("data/subject/trials/c.c3d")).toBeTruthy();
+    expect(queue.entries.every((entry) => entry.status === 'done')).toBeTruthy();
+});
+
+test("resuming right after pausing waits for the paused upload to stop", async () => {
+    const { cursor, storage, held, stats } = await makeHeldCursor();
+    const queue = new UploadQueue();
+
+    const done = queue.enqueue(cursor, "trials/a.c3d", makeFile("a.c3d"));
+    await tick();
+    const entry = queue.entries[0];
+
+    queue.pause(entry);
+    expect(held[0].signal?.aborted).toBeTruthy();
+    queue.resume(entry);
+    await tick();
+    // The first attempt hasn't stopped yet, so the second one can't have started
+    expect(held.length).toBe(1);
+    expect(entry.status).toBe('uploading');
+
+    held[0].fail(new Error("Upload was paused."));
+    await tick();
+    expect(held.length).toBe(2);
+    held[1].finish();
+    await done;
+
+    expect(stats.maxActive).toBe(1);
+    expect(entry.status).toBe('done');
+    expect(storage.objects.has("data/subject/trials/a.c3d")).toBeTruthy();
+});
+
+test("cancelling rejects the upload, and throws away what was sent", async () => {
+    const { cursor, storage, held } = await makeHeldCursor();
+    const discarded: string[] = [];
+    // The in-memory store finishes uploads in one go, so it doesn't have anything to throw away itself
+    const provider: StorageProvider = storage;
+    provider.discardResumableUpload = (path: string) => {
+        discarded.push(path);
+        return Promise.resolve();
+    };
+    const queue = new UploadQueue();
+
+    const done = queue.enqueue(cursor, "trials/a.c3d", makeFile("a.c3d"));
+    await tick();
+    queue.cancel(queue.entries[0]);
+    await expect(done).rejects.toThrow("cancelled");
+
+    // We don't throw anything away until the upload has actually stopped
+    expect(discarded).toEqual([]);
+    held[0].fail(new Error("Upload was paused."));
+    await tick();
+    expect(discarded).toEqual(["data/subject/trials/a.c3d"]);
+    expect(queue.entries[0].status).toBe('cancelled');
+});
+
+test("cancelling still works if the partial upload can't be thrown away", async () => {
+    const { cursor, storage, held } = await makeHeldCursor();
+    const provider: StorageProvider = storage;
+    provider.discardResumableUpload = () => Promise.reject(new Error("Network down"));
+    const errors = jest.spyOn(console, "error").mockImplementation(() => { });
+    const queue = new UploadQueue();
+
+    const done = queue.enqueue(cursor, "trials/a.c3d", makeFile("a.c3d"));
+    await tick();
+    queue.cancel(queue.entries[0]);
+    await expect(done).rejects.toThrow("cancelled");
+    held[0].fail(new Error("Upload was paused."));
+    await tick();
+
+    expect(errors.mock.calls.some((call) => String(call[0]).includes("partial upload"))).toBeTruthy();
+    expect(queue.entries[0].status).toBe('cancelled');
+    errors.mockRestore();
+});
+
+test("knows which uploads are still active", async () => {
+    const { cursor, held } = await makeHeldCursor();
+    const queue = new UploadQueue(1);
+
+    const done = [queue.enqueue(cursor, "trials/a.c3d", makeFile("a.c3d")), queue.enqueue(cursor, "trials/b.c3d", makeFile("b.c3d"))];
+    await tick();
+    expect(queue.hasActiveUpload(cursor.index, "data/subject/trials/a.c3d")).toBeTruthy();
+    // Queued counts too, even though it hasn't started
+    expect(queue.hasActiveUpload(cursor.index, "data/subject/trials/b.c3d")).toBeTruthy();
+
+    held[0].finish();
+    await tick();
+    held[1].finish();
+    await Promise.all(done);
+    expect(queue.hasActiveUpload(cursor.index, "data/subject/trials/a.c3d")).toBeFalsy();
+    expect(queue.hasActiveUpload(cursor.index, "data/subject/trials/b.c3d")).toBeFalsy();
+});
@@ -0,0 +1,275 @@
+import { makeObservable, observable, action, computed } from 'mobx';
+import { ReactiveCursor, ReactiveIndex } from './ReactiveS3';
+import OperationJournal from './OperationJournal';
+
+type UploadQueueStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'error' | 'cancelled';
+
+/// This is a single file waiting in (or passing through) the UploadQueue.
+class UploadQueueEntry {
+    id: number;
+    index: ReactiveIndex;
+    // The journal of the cursor that enqueued this, so the finished upload can be undone from there
+    journal: OperationJournal;
+    // The path in the index we're uploading to. We hold on to this, rather than a cursor, since cursors move around.
+    path: string;
+    file: File;
+
+    status: UploadQueueStatus;
+    // A fraction between 0 and 1
+    progress: number;
+    error: string | null;
+
+    // This lets us stop an upload that's in flight
+    controller: AbortController | null;
+    // This resolves (and never rejects) once the upload in flight has stopped, one way or another
+    running: Promise<void> | null;
+    // These are for whoever originally enqueued the upload. We only call one of them, once.
+    progressCallback: (percentage: number) => void;
+    resolve: () => void;
+    reject: (e: any) => void;
+    settled: boolean;
+
+    constructor(id: number, index: ReactiveIndex, journal: OperationJournal, path: string, file: File, progressCallback: (percentage: number) => void, resolve: () => void, reject: (e: any) => void) {
+        this.id = id;
+        this.index = index;
+        this.journal = journal;
+        this.path = path;
+        this.file = file;
+        this.status = 'queued';
+        this.progress = 0.0;
+        this.error = null;
+        this.controller = null;
+        this.running = null;
+        this.progressCallback = progressCallback;
+        this.resolve = resolve;
+        this.reject = reject;
+        this.settled = false;
+
+        makeObservable(this, {
+            status: observable,
+            progress: observable,
+            error: observable
+        });
+    }
+
+    /**
+     * @returns true if this entry is finished, one way or another, and won't change again without a retry
+     */
+    isFinished = () => {
+        return this.status === 'done' || this.status === 'cancelled';
+    };
+}
+
+/// This is the one place that large file uploads go through. Without it, dropping 80 trials onto a subject fires off 80
+/// RobustUploads at once (each with several parts in flight), which swamps the connection and makes every upload
+/// likely to time out. The queue only lets `maxConcurrentUploads` run at a time, and lets the user pause, resume,
+/// cancel and retry individual files.
+///
+/// Pausing leaves the partial upload on S3, so resuming picks up where it left off rather than starting over.
+class UploadQueue {
+    entries: UploadQueueEntry[];
+    maxConcurrentUploads: number;
+    nextId: number;
+
+    constructor(maxConcurrentUploads: number = 3) {
+        this.entries = [];
+        this.maxConcurrentUploads = maxConcurrentUploads;
+        this.nextId = 0;
+
+        makeObservable(this, {
+            entries: observable.shallow,
+            maxConcurrentUploads: observable,
+            numActive: computed,
+            totalProgress: computed
+        });
+    }
+
+    /**
+     * This adds a file to the queue. It'll start uploading as soon as there's room.
+     *
+     * @param cursor The cursor the file belongs under
+     * @param childPath The path of the file, relative to the cursor
+     * @param file The file to upload
+     * @param progressCallback OPTIONAL: a callback to receive with updates on upload progress
+     * @returns a promise that resolves when the upload finishes, and rejects if it fails or gets cancelled
+     */
+    enqueue = action((cursor: ReactiveCursor, childPath: string, file: File, progressCallback: (percentage: number) => void = () => { }) => {
+        return new Promise<void>((resolve, reject) => {
+            this.entries.push(new UploadQueueEntry(this.nextId++, cursor.index, cursor.journal, cursor.getChildPath(childPath), file, progressCallback, resolve, reject));
+            this.startUploads();
+        });
+    });
+
+    /**
+     * This stops an upload, but keeps what's already been sent, so resume() can continue from there.
+     */
+    pause = action((entry: UploadQueueEntry) => {
+        if (entry.status === 'uploading') {
+            entry.status = 'paused';
+            if (entry.controller != null) entry.controller.abort();
+        }
+        else if (entry.status === 'queued') {
+            entry.status = 'paused';
+        }
+    });
+
+    /**
+     * This puts a paused upload back in line.
+     */
+    resume = action((entry: UploadQueueEntry) => {
+        if (entry.status === 'paused') {
+            entry.status = 'queued';
+            this.startUploads();
+        }
+    });
+
+    /**
+     * This gives up on an upload entirely, and throws away any partial data on the server.
+     */
+    cancel = action((entry: UploadQueueEntry) => {
+        if (entry.isFinished()) return;
+        const wasUploading = entry.status === 'uploading';
+        entry.status = 'cancelled';
+        if (wasUploading && entry.controller != null) {
+            entry.controller.abort();
+        }
+        // Wait for the upload to actually stop, so it can't record any more progress after we've thrown it away
+        (entry.running ?? Promise.resolve()).then(() => entry.index.discardResumableUpload(entry.path)).catch((e: any) => {
+            // The upload is cancelled either way. The worst case is some partial data left behind on the server.
+            console.error("Error throwing away the partial upload of \"" + entry.path + "\"", e);
+        });
+        this.settle(entry, new Error('Upload of "' + entry.path + '" was cancelled'));
+        this.startUploads();
+    });
+
+    /**
+     * This puts a failed upload back in line. The original caller's promise has already rejected by now, so this is
+     * only tracked in the queue.
+     */
+    retry = action((entry: UploadQueueEntry) => {
+        if (entry.status === 'error') {
+            entry.status = 'queued';
+            entry.error = null;
+            this.startUploads();
+        }
+    });
+
+    pauseAll = action(() => {
+        this.entries.forEach(this.pause);
+    });
+
+    resumeAll = action(() => {
+        this.entries.forEach(this.resume);
+    });
+
+    /**
+     * This removes uploads that are done or cancelled from the list.
+     */
+    clearFinished = action(() => {
+        this.entries = this.entries.filter((entry) => !entry.isFinished());
+    });
+
+    setMaxConcurrentUploads = action((maxConcurrentUploads: number) => {
+        this.maxConcurrentUploads = Math.max(1, maxConcurrentUploads);
+        this.startUploads();
+    });
+
+    /**
+     * @returns true if there's an upload to `path` in the queue that hasn't finished or failed. Its partial upload shows
+     * up as interrupted on the server, but it isn't.
+     */
+    hasActiveUpload = (index: ReactiveIndex, path: string) => {
+        return this.entries.some((entry) => entry.index === index && entry.path === path && (entry.status === 'queued' || entry.status === 'uploading' || entry.status === 'paused'));
+    };
+
+    /**
+     * @returns The number of uploads currently sending data
+     */
+    get numActive() {
+        return this.entries.filter((entry) => entry.status === 'uploading').length;
+    }
+
+    /**
+     * @returns The overall progress (as a fraction between 0 and 1) of everything that hasn't been cancelled, weighted
+     * by file size
+     */
+    get totalProgress() {
+        let totalBytes = 0;
+        let uploadedBytes = 0;
+        this.entries.forEach((entry) => {
+            if (entry.status === 'cancelled') return;
+            totalBytes += entry.file.size;
+            uploadedBytes += entry.file.size * entry.progress;
+        });
+        return totalBytes === 0 ? 1.0 : uploadedBytes / totalBytes;
+    }
+
+    /**
+     * This starts as many queued uploads as we have room for.
+     */
+    startUploads = action(() => {
+        let numActive = this.numActive;
+        for (let i = 0; i < this.entries.length && numActive < this.maxConcurrentUploads; i++) {
+            if (this.entries[i].status === 'queued') {
+                this.startUpload(this.entries[i]);
+                numActive++;
+            }
+        }
+    });
+
+    startUpload = action((entry: UploadQueueEntry) => {
+        entry.status = 'uploading';
+        entry.error = null;
+        const controller = new AbortController();
+        entry.controller = controller;
+        // If this was paused and resumed quickly, the last attempt may still be stopping. We wait for it, so we never
+        // have two uploads to the same path at once.
+        const previous = entry.running ?? Promise.resolve();
+        entry.running = previous.then(() => {
+            // We may have been paused or cancelled again while we were waiting
+            if (controller.signal.aborted) return Promise.reject(new Error('Upload of "' + entry.path + '" was stopped'));
+            return entry.journal.upload(entry.index, entry.path, entry.file, action((percentage: number) => {
+                entry.progress = percentage;
+                entry.progressCallback(percentage);
+            }), controller.signal);
+        }).then(action(() => {
+            // If the upload was paused and resumed while this was finishing, the newer attempt is in charge now
+            if (entry.controller !== controller) return;
+            entry.controller = null;
+            // If this finished in the moment after the user hit cancel, we still leave it cancelled
+            if (entry.status !== 'uploading') return;
+            entry.status = 'done';
+            entry.progress = 1.0;
+            this.settle(entry, null);
+        })).catch(action((e: any) => {
+            if (entry.controller !== controller) return;
+            entry.controller = null;
+            // Pausing and cancelling both stop the upload with an error, which we expect
+            if (controller.signal.aborted || entry.status !== 'uploading') return;
+            console.error("Error uploading \"" + entry.path + "\"", e);
+            entry.status = 'error';
+            entry.error = e instanceof Error ? e.message : String(e);
+            this.settle(entry, e);
+        })).finally(() => {
+            this.startUploads();
+        });
+    });
+
+    /**
+     * This lets whoever enqueued the upload know how it went, the first time it finishes.
+     */
+    settle = (entry: UploadQueueEntry, error: any) => {
+        if (entry.settled) return;
+        entry.settled = true;
+        if (error == null) {
+            entry.resolve();
+        }
+        else {
+            entry.reject(error);
+        }
+    };
+}
+
+export type { UploadQueueStatus };
+export { UploadQueueEntry };
+export default UploadQueue;
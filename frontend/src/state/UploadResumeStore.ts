@@ -0,0 +1,69 @@
+import { MULTIPART_UPLOADS_STORE, runRequest } from './LocalDatabase';
+
+/// This is a small IndexedDB-backed store that remembers in-progress multipart uploads, so that RobustUpload can pick
+/// up where it left off after a failure or a page reload. Records are keyed by the full S3 key being uploaded to.
+///
+/// We deliberately don't store the file contents here (C3D sessions can be hundreds of MB). To resume, the user has to
+/// hand us the same file again, which we recognize by its name, size and last-modified time.
+
+type ResumableUploadPart = {
+    PartNumber: number;
+    ETag: string;
+};
+
+type ResumableUploadRecord = {
+    // The full S3 key we're uploading to
+    key: string;
+    uploadId: string;
+    // These identify the file being uploaded, so we don't resume with different contents
+    fileName: string;
+    fileSize: number;
+    fileLastModified: number;
+    // The part size the upload was started with. If this changes, we can't reuse the old parts.
+    partSize: number;
+    completedParts: ResumableUploadPart[];
+    lastUpdated: number;
+};
+
+/**
+ * @param key The full S3 key
+ * @returns the record of an unfinished upload to that key, or null if there isn't one
+ */
+function getResumableUpload(key: string): Promise<ResumableUploadRecord | null> {
+    return runRequest<ResumableUploadRecord | undefined>(MULTIPART_UPLOADS_STORE, 'readonly', (store) => store.get(key)).then((record) => record ?? null);
+}
+
+/**
+ * This creates or overwrites the record for `record.key`
+ */
+function saveResumableUpload(record: ResumableUploadRecord): Promise<void> {
+    return runRequest(MULTIPART_UPLOADS_STORE, 'readwrite', (store) => store.put(record)).then(() => { });
+}
+
+/**
+ * This forgets about an upload. It's a no-op if there's no record for `key`.
+ */
+function deleteResumableUpload(key: string): Promise<void> {
+    return runRequest(MULTIPART_UPLOADS_STORE, 'readwrite', (store) => store.delete(key)).then(() => { });
+}
+
+/**
+ * @param prefix The prefix of the full S3 keys to look for
+ * @returns every unfinished upload whose key starts with `prefix`
+ */
+function listResumableUploads(prefix: string): Promise<ResumableUploadRecord[]> {
+    return runRequest<ResumableUploadRecord[]>(MULTIPART_UPLOADS_STORE, 'readonly', (store) => store.getAll()).then((records) => {
+        return (records ?? []).filter((record) => record.key.startsWith(prefix));
+    });
+}
+
+/**
+ * This forgets about every unfinished upload. We call this on logout, since the records have the user's file names and
+ * upload IDs in them.
+ */
+function clearResumableUploads(): Promise<void> {
+    return runRequest(MULTIPART_UPLOADS_STORE, 'readwrite', (store) => store.clear()).then(() => { });
+}
+
+export type { ResumableUploadRecord, ResumableUploadPart };
+export { getResumableUpload, saveResumableUpload, deleteResumableUpload, listResumableUploads, clearResumableUploads };
@@ -0,0 +1,97 @@
+import JSZip from 'jszip';
+import ZipWriter, { crc32 } from './ZipWriter';
+import type { ZipSink } from './ZipWriter';
+
+/**
+ * @returns A sink that keeps everything written to it, and whether it got closed or aborted
+ */
+function makeSink() {
+    const sink = {
+        chunks: [] as Blob[],
+        closed: false,
+        aborted: false,
+        write: (chunk: Blob) => {
+            sink.chunks.push(chunk);
+            return Promise.resolve();
+        },
+        close: () => {
+            sink.closed = true;
+            return Promise.resolve();
+        },
+        abort: () => {
+            sink.aborted = true;
+            return Promise.resolve();
+        }
+    };
+    return sink;
+}
+
+function readZip(sink: { chunks: Blob[] }) {
+    return new Blob(sink.chunks).arrayBuffer().then((buffer) => JSZip.loadAsync(buffer));
+}
+
+test("crc32() matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+});
+
+test("crc32() can carry on from an earlier chunk", () => {
+    const crc = crc32(new TextEncoder().encode("6789"), crc32(new TextEncoder().encode("12345")));
+    expect(crc).toBe(0xCBF43926);
+});
+
+test("writes a zip that JSZip can read back", async () => {
+    const sink = makeSink();
+    const writer = new ZipWriter(sink);
+    await writer.addFile("lab/subject1/_subject.json", new Blob(['{"massKg":60}']), new Date(2022, 4, 17, 13, 45, 30));
+    await writer.addFile("lab/subject1/trials/walk/markers.c3d", new Blob([new Uint8Array([0, 1, 2, 255])]));
+    await writer.addFile("lab/Müller/_subject.json", new Blob(['{}']));
+    await writer.finish();
+    expect(sink.closed).toBeTruthy();
+
+    const zip = await readZip(sink);
+    expect(Object.keys(zip.files).sort()).toEqual(["lab/Müller/_subject.json", "lab/subject1/_subject.json", "lab/subject1/trials/walk/markers.c3d"]);
+    expect(await zip.file("lab/subject1/_subject.json")?.async("string")).toBe('{"massKg":60}');
+    expect([...(await zip.file("lab/subject1/trials/walk/markers.c3d")?.async("uint8array") ?? [])]).toEqual([0, 1, 2, 255]);
+    expect(zip.file("lab/subject1/_subject.json")?.date.getMinutes()).toBe(45);
+});
+
+test("files go out to the sink as they're added, not all at the end", async () => {
+    const sink = makeSink();
+    const writer = new ZipWriter(sink);
+    await writer.addFile("a.txt", new Blob(["first"]));
+    expect(sink.chunks.length).toBe(1);
+    await writer.addFile("b.txt", new Blob(["second"]));
+    expect(sink.chunks.length).toBe(2);
+});
+
+test("overlapping calls get written in the order they were made", async () => {
+    const sink = makeSink();
+    const writer = new ZipWriter(sink);
+    await Promise.all([
+        writer.addFile("a.txt", new Blob(["a".repeat(1000)])),
+        writer.addFile("b.txt", new Blob(["b"])),
+        writer.finish()
+    ]);
+
+    const zip = await readZip(sink);
+    expect(await zip.file("a.txt")?.async("string")).toBe("a".repeat(1000));
+    expect(await zip.file("b.txt")?.async("string")).toBe("b");
+});
+
+test("an empty zip is still a zip", async () => {
+    const sink = makeSink();
+    await new ZipWriter(sink).finish();
+    expect(Object.keys((await readZip(sink)).files)).toEqual([]);
+});
+
+test("once a write fails, everything after it fails too", async () => {
+    const sink: ZipSink = {
+        ...makeSink(),
+        write: () => Promise.reject(new Error("Disk full"))
+    };
+    const writer = new ZipWriter(sink);
+    await expect(writer.addFile("a.txt", new Blob(["a"]))).rejects.toThrow("Disk full");
+    await expect(writer.addFile("b.txt", new Blob(["b"]))).rejects.toThrow("Disk full");
+    await expect(writer.finish()).rejects.toThrow("Disk full");
+});
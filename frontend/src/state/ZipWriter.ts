@@ -0,0 +1,267 @@
+/// The bytes of a zip go here as we write them, in order. A FileSystemWritableFileStream fits this as-is.
+type ZipSink = {
+    write: (chunk: Blob) => Promise<void>;
+    close: () => Promise<void>;
+    abort: () => Promise<void>;
+};
+
+/// What we have to remember about each file we've written, for the central directory at the end
+type ZipEntry = {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+};
+
+/// Sizes and offsets at or above this don't fit in the original zip format, and go in a ZIP64 extra field instead
+const ZIP64_LIMIT = 0xFFFFFFFF;
+/// We read files this much at a time to checksum them, so we never hold a second copy of a large file
+const CRC_CHUNK_BYTES = 16 * 1024 * 1024;
+// Bit 11 of the flags says that file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+let crcTable: number[] | null = null;
+
+/**
+ * @returns The CRC-32 of `bytes`, continuing on from `crc` if this isn't the first chunk
+ */
+function crc32(bytes: Uint8Array, crc: number = 0): number {
+    if (crcTable == null) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable.push(c >>> 0);
+        }
+    }
+    crc = crc ^ 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * @returns The CRC-32 of a Blob, read a chunk at a time
+ */
+function crc32Blob(blob: Blob): Promise<number> {
+    const next = (start: number, crc: number): Promise<number> => {
+        if (start >= blob.size) return Promise.resolve(crc);
+        return blob.slice(start, start + CRC_CHUNK_BYTES).arrayBuffer().then((buffer: ArrayBuffer) => next(start + CRC_CHUNK_BYTES, crc32(new Uint8Array(buffer), crc)));
+    };
+    return next(0, 0);
+}
+
+/// This fills in a little-endian record, like the headers in a zip
+class RecordBuilder {
+    bytes: Uint8Array;
+    view: DataView;
+    position: number = 0;
+
+    constructor(length: number) {
+        this.bytes = new Uint8Array(length);
+        this.view = new DataView(this.bytes.buffer);
+    }
+
+    uint16 = (value: number) => {
+        this.view.setUint16(this.position, value, true);
+        this.position += 2;
+        return this;
+    };
+
+    uint32 = (value: number) => {
+        this.view.setUint32(this.position, value, true);
+        this.position += 4;
+        return this;
+    };
+
+    uint64 = (value: number) => {
+        this.uint32(value % 0x100000000);
+        return this.uint32(Math.floor(value / 0x100000000));
+    };
+
+    append = (bytes: Uint8Array) => {
+        this.bytes.set(bytes, this.position);
+        this.position += bytes.length;
+        return this;
+    };
+}
+
+/**
+ * @returns The ZIP64 extra field holding whichever of `values` didn't fit in their usual spots
+ */
+function zip64Extra(values: number[]): Uint8Array {
+    if (values.length === 0) return new Uint8Array(0);
+    const record = new RecordBuilder(4 + 8 * values.length).uint16(0x0001).uint16(8 * values.length);
+    values.forEach((value) => record.uint64(value));
+    return record.bytes;
+}
+
+/// This writes a zip one file at a time, straight into a ZipSink, so nothing has to hold the whole zip in memory.
+/// Files are stored as they are, without compression, which is what JSZip does by default too.
+///
+/// Calls can overlap, but the writes happen one at a time, in the order they were called. If a write fails, the zip is
+/// broken, and every call after that rejects with the same error.
+class ZipWriter {
+    sink: ZipSink;
+    entries: ZipEntry[] = [];
+    // How many bytes we've written so far, which is where the next file starts
+    offset: number = 0;
+    // This resolves once everything we've been asked to write so far is written
+    writing: Promise<void> = Promise.resolve();
+    finished: boolean = false;
+
+    constructor(sink: ZipSink) {
+        this.sink = sink;
+    }
+
+    /**
+     * This waits for the writes that were already asked for, and then runs `write`.
+     */
+    enqueue = (write: () => Promise<void>): Promise<void> => {
+        this.writing = this.writing.then(() => {
+            if (this.finished) throw new Error("This zip has already been finished");
+            return write();
+        });
+        return this.writing;
+    };
+
+    /**
+     * This writes one file into the zip.
+     *
+     * @param path The path of the file inside the zip
+     * @param contents The file itself
+     * @param lastModified The timestamp to give the file when it's unzipped
+     */
+    addFile = (path: string, contents: Blob, lastModified: Date = new Date()): Promise<void> => {
+        return this.enqueue(() => crc32Blob(contents).then((crc: number) => {
+            const entry: ZipEntry = {
+                name: new TextEncoder().encode(path),
+                crc,
+                size: contents.size,
+                offset: this.offset,
+                // MS-DOS timestamps, which only go down to every other second
+                time: (lastModified.getHours() << 11) | (lastModified.getMinutes() << 5) | Math.floor(lastModified.getSeconds() / 2),
+                date: (Math.max(lastModified.getFullYear() - 1980, 0) << 9) | ((lastModified.getMonth() + 1) << 5) | lastModified.getDate()
+            };
+            const isZip64 = entry.size >= ZIP64_LIMIT;
+            const extra = zip64Extra(isZip64 ? [entry.size, entry.size] : []);
+            const header = new RecordBuilder(30 + entry.name.length + extra.length)
+                .uint32(0x04034b50)
+                .uint16(isZip64 ? 45 : 20)
+                .uint16(UTF8_FLAG)
+                // Stored, not compressed
+                .uint16(0)
+                .uint16(entry.time)
+                .uint16(entry.date)
+                .uint32(entry.crc)
+                .uint32(isZip64 ? ZIP64_LIMIT : entry.size)
+                .uint32(isZip64 ? ZIP64_LIMIT : entry.size)
+                .uint16(entry.name.length)
+                .uint16(extra.length)
+                .append(entry.name)
+                .append(extra);
+            return this.writeBytes(new Blob([header.bytes, contents]), header.bytes.length + contents.size).then(() => {
+                this.entries.push(entry);
+            });
+        }));
+    };
+
+    /**
+     * This writes the central directory, which lists every file we've written, and closes the sink. The zip can't be
+     * opened until this is done.
+     */
+    finish = (): Promise<void> => {
+        return this.enqueue(() => {
+            const start = this.offset;
+            const records: Uint8Array[] = this.entries.map((entry) => {
+                const extra = zip64Extra([
+                    ...(entry.size >= ZIP64_LIMIT ? [entry.size, entry.size] : []),
+                    ...(entry.offset >= ZIP64_LIMIT ? [entry.offset] : [])
+                ]);
+                const version = extra.length > 0 ? 45 : 20;
+                return new RecordBuilder(46 + entry.name.length + extra.length)
+                    .uint32(0x02014b50)
+                    .uint16(version)
+                    .uint16(version)
+                    .uint16(UTF8_FLAG)
+                    .uint16(0)
+                    .uint16(entry.time)
+                    .uint16(entry.date)
+                    .uint32(entry.crc)
+                    .uint32(Math.min(entry.size, ZIP64_LIMIT))
+                    .uint32(Math.min(entry.size, ZIP64_LIMIT))
+                    .uint16(entry.name.length)
+                    .uint16(extra.length)
+                    // No comment, on the first (and only) disk, with no file attributes
+                    .uint16(0)
+                    .uint16(0)
+                    .uint16(0)
+                    .uint32(0)
+                    .uint32(Math.min(entry.offset, ZIP64_LIMIT))
+                    .append(entry.name)
+                    .append(extra)
+                    .bytes;
+            });
+            const size = records.reduce((total, record) => total + record.length, 0);
+            const isZip64 = this.entries.length >= 0xFFFF || start >= ZIP64_LIMIT || size >= ZIP64_LIMIT;
+            if (isZip64) {
+                records.push(new RecordBuilder(56 + 20)
+                    .uint32(0x06064b50)
+                    // The size of the rest of this record
+                    .uint64(44)
+                    .uint16(45)
+                    .uint16(45)
+                    .uint32(0)
+                    .uint32(0)
+                    .uint64(this.entries.length)
+                    .uint64(this.entries.length)
+                    .uint64(size)
+                    .uint64(start)
+                    // The locator, which says where the record above starts
+                    .uint32(0x07064b50)
+                    .uint32(0)
+                    .uint64(start + size)
+                    .uint32(1)
+                    .bytes);
+            }
+            records.push(new RecordBuilder(22)
+                .uint32(0x06054b50)
+                .uint16(0)
+                .uint16(0)
+                .uint16(Math.min(this.entries.length, 0xFFFF))
+                .uint16(Math.min(this.entries.length, 0xFFFF))
+                .uint32(Math.min(size, ZIP64_LIMIT))
+                .uint32(Math.min(start, ZIP64_LIMIT))
+                .uint16(0)
+                .bytes);
+            const trailer = new Blob(records);
+            return this.writeBytes(trailer, trailer.size).then(() => {
+                this.finished = true;
+                return this.sink.close();
+            });
+        });
+    };
+
+    /**
+     * This throws away the zip. Anything still waiting to be written gets dropped.
+     */
+    abort = (): Promise<void> => {
+        this.finished = true;
+        return this.sink.abort();
+    };
+
+    writeBytes = (chunk: Blob, length: number): Promise<void> => {
+        return this.sink.write(chunk).then(() => {
+            this.offset += length;
+        });
+    };
+}
+
+export type { ZipSink };
+export { crc32 };
+export default ZipWriter;
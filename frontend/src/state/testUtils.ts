@@ -0,0 +1,59 @@
+import { ReactiveIndex } from './ReactiveS3';
+import InMemoryStorageProvider from './InMemoryStorageProvider';
+import InProcessMqtt, { InProcessBroker } from './InProcessMqtt';
+import MocapS3Cursor from './MocapS3Cursor';
+
+/// These build the in-memory fixtures that the state tests share, so each suite doesn't need its own copy. This isn't a
+/// test itself, so jest skips it.
+
+type MakeCursorOptions = {
+    // Only list the folders someone is looking at, like REACT_APP_LAZY_INDEX does
+    lazy?: boolean;
+    // The logged in user, which is who processing emails go to
+    email?: string;
+};
+
+/**
+ * @returns A store that already has `files` in it
+ */
+function makeStorage(files: { [path: string]: string }) {
+    const storage = new InMemoryStorageProvider();
+    Object.keys(files).forEach((path) => storage.upload(path, files[path], () => { }));
+    return storage;
+}
+
+/**
+ * @returns A "protected" index onto `storage`, already listed and listening for changes on `socket`
+ */
+async function makeIndex(storage: InMemoryStorageProvider, socket: InProcessMqtt, lazy: boolean = false) {
+    const index = new ReactiveIndex('us-west-2', 'test-bucket', 'protected', false, socket, storage);
+    index.localCacheEnabled = false;
+    if (lazy) {
+        index.setLazyListing(true, ["_subject.json"]);
+    }
+    await index.fullRefresh();
+    await index.setupPubsub();
+    return index;
+}
+
+/**
+ * @returns A cursor looking at `urlPath` in "My Data", which is backed by `storage`
+ */
+async function makeCursor(storage: InMemoryStorageProvider, urlPath: string, options: MakeCursorOptions = {}) {
+    const lazy = options.lazy ?? false;
+    const socket = new InProcessMqtt('TEST', new InProcessBroker());
+    const publicIndex = await makeIndex(new InMemoryStorageProvider(), socket, lazy);
+    const myData = await makeIndex(storage, socket, lazy);
+    const cursor = new MocapS3Cursor(publicIndex, myData, socket, () => {
+        throw new Error("Nothing is shared in these tests");
+    });
+    if (options.email != null) {
+        cursor.setUserEmail(options.email);
+    }
+    cursor.setUrlPath(urlPath);
+    await myData.retainFolder(cursor.rawCursor.path);
+    return cursor;
+}
+
+export type { MakeCursorOptions };
+export { makeStorage, makeIndex, makeCursor };
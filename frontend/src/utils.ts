@@ -32,4 +32,30 @@ function humanFileSize(bytes: number, si: boolean = true, dp: number = 1) {
     return bytes.toFixed(dp) + ' ' + units[u];
 }
 
-export { humanFileSize };
\ No newline at end of file
+/**
+ * This runs `fn` on every item, `batchSize` items at a time, so we don't flood the network with requests. Each batch
+ * starts once the last one has finished.
+ *
+ * @param fn Gets each item and its index in `items`. This shouldn't reject, unless the rest of the items should be
+ *           skipped.
+ * @return A promise that resolves once every item is done.
+ */
+function forEachInBatches<T>(items: T[], batchSize: number, fn: (item: T, index: number) => Promise<void>): Promise<void> {
+    let batches: Promise<void> = Promise.resolve();
+    for (let i = 0; i < items.length; i += batchSize) {
+        const start = i;
+        const batch = items.slice(start, start + batchSize);
+        batches = batches.then(() => Promise.all(batch.map((item, j) => fn(item, start + j))).then(() => { }));
+    }
+    return batches;
+}
+
+/**
+ * @return The value if it's a finite number, otherwise null. This is for reading numbers out of JSON files we didn't
+ *         write ourselves.
+ */
+function asNumber(value: any): number | null {
+    return typeof value === 'number' && isFinite(value) ? value : null;
+}
+
+export { humanFileSize, forEachInBatches, asNumber };
\ No newline at end of file
@@ -11,6 +11,12 @@ import shutil
 import boto3
 import threading
 import argparse
+import re
+
+
+# The web app keeps snapshots of deleted and overwritten files under "trash/" (right after the public or protected
+# prefix), so users can undo. Those snapshots can look like complete subjects, but must never be processed.
+TRASH_FOLDER_PATTERN = re.compile(r'^(public/|protected/[^/]+/)trash/')
 
 
 def absPath(path: str):
@@ -430,6 +436,8 @@ class MocapServer:
 
         # 1. Collect all Trials
         for folder in self.index.listAllFolders():
+            if TRASH_FOLDER_PATTERN.match(folder):
+                continue
             if self.index.hasChildren(folder, ['trials/', '_subject.json']):
                 if not folder.endswith('/'):
                     folder += '/'
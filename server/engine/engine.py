@@ -21,6 +21,18 @@ def requireExists(path: str, reason: str):
         exit(1)
 
 
+def checkMarkerRenames(markerNameMap: Dict[str, str], markerNames: List[str], trialName: str):
+    # Two markers ending up with the same name would silently overwrite each other's data, so we refuse
+    renamedFrom: Dict[str, str] = {}
+    for name in markerNames:
+        newName = markerNameMap.get(name, name)
+        if newName in renamedFrom:
+            print('ERROR: The marker name map would give both "'+renamedFrom[newName]+'" and "'+name+'" the name "' +
+                  newName+'" in trial '+trialName+'. Quitting.')
+            exit(1)
+        renamedFrom[newName] = name
+
+
 def processLocalSubjectFolder(path: str, outputName: str = None):
     if not path.endswith('/'):
         path += '/'
@@ -65,6 +77,16 @@ def processLocalSubjectFolder(path: str, outputName: str = None):
         print('!!WARNING!! No sex specified for subject. Defaulting to "unknown".')
         sex = 'unknown'
 
+    # 2.2. Get the renames from trial marker names to model marker names, for labs that name their markers differently
+    # from the model
+    markerNameMap: Dict[str, str] = {}
+    if 'markerNameMap' in subjectJson:
+        markerNameMap = subjectJson['markerNameMap']
+        if not isinstance(markerNameMap, dict) or not all(isinstance(key, str) and isinstance(value, str) for key, value in markerNameMap.items()):
+            print('ERROR: "markerNameMap" in _subject.json should map trial marker names to model marker names, but it\'s ' +
+                  json.dumps(markerNameMap)+'. Quitting.')
+            exit(1)
+
     # 3. Load the unscaled Osim file, which we can then scale and format
     # 3.1. Rationalize CustomJoint's in the osim file
     shutil.move(path + 'unscaled_generic.osim',
@@ -171,6 +193,17 @@ def processLocalSubjectFolder(path: str, outputName: str = None):
                   c3dFilePath+' and '+trcFilePath+', neither exist. Quitting.')
             exit(1)
 
+        # Rename the trial's markers to match the model, if the user asked us to
+        if len(markerNameMap) > 0:
+            checkMarkerRenames(markerNameMap, trialMarkerSet[trialName], trialName)
+            markerTrials[-1] = [{markerNameMap.get(name, name): position for name, position in timestep.items()}
+                                for timestep in markerTrials[-1]]
+            trialMarkerSet[trialName] = [markerNameMap.get(name, name) for name in trialMarkerSet[trialName]]
+            # loadMotAtLowestMarkerRMSERotation() reads the markers out of the C3D file, so it needs the renames too
+            if trialName in c3dFiles:
+                c3dFiles[trialName].markerTimesteps = markerTrials[-1]
+                c3dFiles[trialName].markers = trialMarkerSet[trialName]
+
         trialProcessingResults.append(trialProcessingResult)
 
     print('Fitting trials '+str(trialNames), flush=True)